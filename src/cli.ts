@@ -17,6 +17,22 @@ import {
 import { addScriptCommandsToCLI } from "./scripting/cli-integration";
 import { log, parseLogLevel, LogLevel } from "./utils/logger";
 import { CaravanXError } from "./utils/errors";
+import { AddressType } from "./types/caravan";
+import { SnapshotCommands } from "./commands/snapshot";
+import { ControlServer } from "./server/control-server";
+import { NodeCommands } from "./commands/node";
+import { ReorgCommands } from "./commands/reorg";
+import { FeeMarketCommands } from "./commands/feeMarket";
+import { BlockBuilderCommands } from "./commands/blockBuilder";
+import { MempoolCommands } from "./commands/mempool";
+import { TimeCommands } from "./commands/time";
+import { PSBTCommands } from "./commands/psbt";
+import { CoinCommands } from "./commands/coins";
+import { parseOutpoint } from "./core/transaction";
+import { BitcoindCommands } from "./commands/bitcoind";
+import { KeyStoreCommands } from "./commands/keys";
+import { WALLET_FILE_FORMATS, WalletFileFormat } from "./core/walletFormats";
+import { FEE_MARKET_PRESET_NAMES, FeeMarketPreset } from "./core/feeMarket";
 
 /**
  * Resolve the effective log level from CLI flags.
@@ -28,6 +44,25 @@ function resolveLogLevel(opts: any): LogLevel {
   return parseLogLevel(opts.logLevel);
 }
 
+function formatNames(): string {
+  return WALLET_FILE_FORMATS.map((format) => format.value).join(", ");
+}
+
+function parseWalletFileFormat(
+  format: string | undefined,
+): WalletFileFormat | undefined {
+  if (format === undefined) return undefined;
+  const match = WALLET_FILE_FORMATS.find(
+    (candidate) => candidate.value === format.toLowerCase(),
+  );
+  if (!match) {
+    throw new Error(
+      `Unknown wallet file format "${format}". Use one of: ${formatNames()}`,
+    );
+  }
+  return match.value;
+}
+
 // Display the Caravan logo
 console.log(caravanLogo);
 
@@ -147,13 +182,78 @@ program
 program
   .command("create-caravan")
   .description("Create a new Caravan multisig wallet")
-  .action(async () => {
+  .option("-n, --name <name>", "Wallet name (skips the interactive prompts)")
+  .option(
+    "-a, --address-type <type>",
+    "Address type: p2wsh, p2sh-p2wsh, p2sh, p2tr",
+    "p2wsh",
+  )
+  .option("-m, --required <m>", "Required signatures (M in M-of-N)", "2")
+  .option("-s, --total <n>", "Total signers (N in M-of-N)", "3")
+  .option(
+    "--signers <wallets>",
+    "Comma-separated signer wallet names (created when missing)",
+  )
+  .option("--fund <amount>", "Fund the wallet with this many BTC")
+  .option("--funding-wallet <name>", "Wallet that pays for funding")
+  .option(
+    "--key-path-signer <n>",
+    "P2TR only: signer number (1-based) that can also spend via the key path",
+  )
+  .option("--unsorted", "P2TR only: use multi_a instead of sortedmulti_a")
+  .action(async (options) => {
     const spinner = ora("Initializing...").start();
     const app = new CaravanRegtestManager();
     spinner.succeed("Initialized");
 
     try {
-      await app.multisigCommands.createCaravanWallet();
+      if (!options.name) {
+        await app.multisigCommands.createCaravanWallet();
+        return;
+      }
+
+      const addressTypeMap: { [key: string]: AddressType } = {
+        p2wsh: AddressType.P2WSH,
+        "p2sh-p2wsh": AddressType.P2SH_P2WSH,
+        p2sh: AddressType.P2SH,
+        p2tr: AddressType.P2TR,
+      };
+      const addressType = addressTypeMap[options.addressType.toLowerCase()];
+
+      if (!addressType) {
+        console.error(
+          formatError(`Invalid address type: ${options.addressType}`),
+        );
+        console.log(
+          formatWarning("Valid options: p2wsh, p2sh-p2wsh, p2sh, p2tr"),
+        );
+        return;
+      }
+
+      const result = await app.multisigCommands.createCaravanWalletWithOptions({
+        name: options.name,
+        addressType,
+        requiredSigners: Number(options.required),
+        totalSigners: Number(options.total),
+        signerWallets: options.signers
+          ? options.signers.split(",").map((w: string) => w.trim())
+          : undefined,
+        fundAmount: options.fund ? Number(options.fund) : undefined,
+        fundingWallet: options.fundingWallet,
+        taproot:
+          addressType === AddressType.P2TR
+            ? {
+                keyPathSigner: options.keyPathSigner
+                  ? Number(options.keyPathSigner) - 1
+                  : undefined,
+                sorted: !options.unsorted,
+              }
+            : undefined,
+      });
+
+      if (program.opts().json) {
+        console.log(JSON.stringify(result, null, 2));
+      }
     } catch (error) {
       log.displayError(CaravanXError.from(error));
     }
@@ -208,13 +308,74 @@ program
     },
     [],
   )
+  .option(
+    "-i, --input <txid:vout>",
+    "Coin to spend (can be used multiple times)",
+    (val, memo: string[]) => [...memo, val],
+    [],
+  )
+  .option(
+    "--add-inputs",
+    "Let the wallet add more coins when the chosen inputs are not enough",
+  )
+  .option(
+    "--subtract-fee-from <index>",
+    "Output (from 0) that pays the fee (can be used multiple times)",
+    (val, memo: number[]) => [...memo, parseInt(val)],
+    [],
+  )
   .action(async (options) => {
     const spinner = ora("Initializing...").start();
     const app = new CaravanRegtestManager();
     spinner.succeed("Initialized");
 
     try {
-      await app.transactionCommands.createPSBT();
+      // Without a wallet and outputs, walk through the prompts instead
+      if (!options.wallet || options.output.length === 0) {
+        await app.transactionCommands.createPSBT();
+        return;
+      }
+
+      const outputs = options.output.map((output: string) => {
+        const separator = output.lastIndexOf(":");
+        const amount = parseFloat(output.slice(separator + 1));
+        if (separator < 1 || !(amount > 0)) {
+          throw new Error(`Invalid output "${output}"; use address:amount`);
+        }
+        return { [output.slice(0, separator)]: amount };
+      });
+
+      await app.transactionCommands.createPSBTFromOptions(
+        options.wallet,
+        outputs,
+        {
+          inputs:
+            options.input.length > 0
+              ? options.input.map(parseOutpoint)
+              : undefined,
+          addInputs: options.addInputs,
+          subtractFeeFromOutputs: options.subtractFeeFrom,
+        },
+      );
+    } catch (error) {
+      log.displayError(CaravanXError.from(error));
+    }
+  });
+
+// Combine PSBT command
+program
+  .command("combine-psbt <files...>")
+  .description(
+    "Merge PSBTs of the same transaction signed by different cosigners",
+  )
+  .option("-o, --output <path>", "Save the combined PSBT to a file")
+  .action(async (files, options) => {
+    const spinner = ora("Initializing...").start();
+    const app = new CaravanRegtestManager();
+    spinner.succeed("Initialized");
+
+    try {
+      await app.transactionCommands.combinePSBTs(files, options.output);
     } catch (error) {
       log.displayError(CaravanXError.from(error));
     }
@@ -289,8 +450,15 @@ program
 // Import Caravan wallet from file
 program
   .command("import-caravan")
-  .description("Import a Caravan wallet configuration from a file")
-  .requiredOption("-f, --file <path>", "Path to Caravan wallet JSON file")
+  .description(
+    "Import a multisig wallet from a Caravan, descriptor, BSMS, Sparrow, Specter or Coldcard file",
+  )
+  .requiredOption("-f, --file <path>", "Path to the wallet file")
+  .option(
+    "--format <format>",
+    `File format: ${formatNames()} (detected when omitted)`,
+  )
+  .option("-n, --name <name>", "Wallet name for formats that do not carry one")
   .action(async (options) => {
     const spinner = ora("Initializing...").start();
     const app = new CaravanRegtestManager();
@@ -305,11 +473,17 @@ program
       checkSpinner.succeed("File exists");
 
       const readSpinner = ora("Reading wallet configuration...").start();
-      const config = await fs.readJson(options.file);
-
-      if (!config.name || !config.quorum || !config.extendedPublicKeys) {
-        readSpinner.fail("Invalid Caravan wallet configuration");
-        return;
+      let config;
+      try {
+        const content = await fs.readFile(options.file, "utf8");
+        config = await app.caravanService.parseWalletFile(
+          content,
+          parseWalletFileFormat(options.format),
+          { name: options.name },
+        );
+      } catch (error) {
+        readSpinner.fail("Invalid wallet file");
+        throw error;
       }
       readSpinner.succeed("Configuration validated");
 
@@ -343,6 +517,38 @@ program
     }
   });
 
+// Export Caravan wallet to file
+program
+  .command("export-caravan")
+  .description("Export a Caravan wallet for another coordinator")
+  .requiredOption("-w, --wallet <name>", "Caravan wallet name")
+  .option("--format <format>", `File format: ${formatNames()}`, "caravan")
+  .option("-o, --output <path>", "Output file (prints to stdout when omitted)")
+  .action(async (options) => {
+    const app = new CaravanRegtestManager();
+
+    try {
+      const format = parseWalletFileFormat(options.format)!;
+      const config = await app.caravanService.getCaravanWallet(options.wallet);
+      if (!config) {
+        throw new Error(`Caravan wallet "${options.wallet}" not found`);
+      }
+
+      const content = await app.caravanService.formatWalletFile(config, format);
+      if (options.output) {
+        await fs.writeFile(options.output, content);
+        console.log(
+          formatSuccess(`Caravan wallet exported to ${options.output}`),
+        );
+      } else {
+        console.log(content);
+      }
+    } catch (error) {
+      log.displayError(CaravanXError.from(error));
+      process.exitCode = 1;
+    }
+  });
+
 // Mining command
 program
   .command("mine")
@@ -416,15 +622,18 @@ program
 // Analyze PSBT command
 program
   .command("analyze-psbt")
-  .description("Analyze and decode a PSBT")
+  .description(
+    "Analyze a PSBT: signing status per cosigner, fee rate, change and warnings",
+  )
   .option("-f, --file <path>", "Path to PSBT file")
+  .option("--json", "Output machine-readable JSON")
   .action(async (options) => {
     const spinner = ora("Initializing...").start();
     const app = new CaravanRegtestManager();
     spinner.succeed("Initialized");
 
     try {
-      await app.transactionCommands.analyzePSBT();
+      await app.transactionCommands.analyzePSBT(options.file, options.json);
     } catch (error) {
       log.displayError(CaravanXError.from(error));
       (formatError("Error analyzing PSBT:"), error);
@@ -614,6 +823,29 @@ program
     }
   });
 
+// Import Caravan signatures command
+program
+  .command("import-caravan-signatures <psbt> <source>")
+  .description(
+    "Apply Caravan's exported signature JSON, or a PSBT signed in Caravan, to a PSBT",
+  )
+  .option("-o, --output <path>", "Save the signed PSBT to a file")
+  .action(async (psbt, source, options) => {
+    const spinner = ora("Initializing...").start();
+    const app = new CaravanRegtestManager();
+    spinner.succeed("Initialized");
+
+    try {
+      await app.transactionCommands.importCaravanSignatures(
+        psbt,
+        source,
+        options.output,
+      );
+    } catch (error) {
+      log.displayError(CaravanXError.from(error));
+    }
+  });
+
 // Sign Caravan PSBT command
 program
   .command("sign-caravan-psbt")
@@ -633,6 +865,795 @@ program
     }
   });
 
+// Snapshot commands
+const snapshotProgram = program
+  .command("snapshot")
+  .description("Inspect blockchain snapshots");
+
+snapshotProgram
+  .command("diff <first> <second>")
+  .description(
+    "Compare two snapshots: balances, UTXOs, transactions and mempool",
+  )
+  .action(async (first, second) => {
+    const spinner = ora("Initializing...").start();
+    const app = new CaravanRegtestManager();
+    spinner.succeed("Initialized");
+
+    try {
+      const snapshotCommands = new SnapshotCommands(app.snapshotService);
+      await snapshotCommands.diffSnapshots(first, second, program.opts().json);
+    } catch (error) {
+      log.displayError(CaravanXError.from(error));
+    }
+  });
+
+snapshotProgram
+  .command("du")
+  .description("Show shared and unique disk usage of snapshots")
+  .action(async () => {
+    const spinner = ora("Initializing...").start();
+    const app = new CaravanRegtestManager();
+    spinner.succeed("Initialized");
+
+    try {
+      const snapshotCommands = new SnapshotCommands(app.snapshotService);
+      await snapshotCommands.showDiskUsage(program.opts().json);
+    } catch (error) {
+      log.displayError(CaravanXError.from(error));
+    }
+  });
+
+// Reorg simulation
+program
+  .command("reorg <depth>")
+  .description(
+    "Invalidate the last N blocks and optionally mine a competing branch",
+  )
+  .option(
+    "-b, --branch <blocks>",
+    "Blocks in the competing branch (default: depth + 1, 0 to only roll back)",
+  )
+  .option(
+    "-d, --double-spend <txids...>",
+    "Double-spend these reorged transactions in the branch",
+  )
+  .option(
+    "--include-mempool",
+    "Re-confirm the reorged transactions in the branch",
+  )
+  .option("--mining-address <address>", "Coinbase address for the branch")
+  .action(async (depth, options) => {
+    const spinner = ora("Initializing...").start();
+    const app = new CaravanRegtestManager();
+    spinner.succeed("Initialized");
+
+    try {
+      const reorgCommands = new ReorgCommands(app.reorgService);
+      await reorgCommands.runReorg(
+        {
+          depth: parseInt(depth),
+          branchLength:
+            options.branch !== undefined ? parseInt(options.branch) : undefined,
+          doubleSpend: options.doubleSpend,
+          includeMempool: options.includeMempool,
+          miningAddress: options.miningAddress,
+        },
+        program.opts().json,
+      );
+    } catch (error) {
+      log.displayError(CaravanXError.from(error));
+    }
+  });
+
+// Fee-market simulation
+program
+  .command("fee-market [preset]")
+  .description(
+    `Fill the mempool and mine fee-ordered blocks so estimatesmartfee returns estimates (${FEE_MARKET_PRESET_NAMES.join(", ")})`,
+  )
+  .option("-f, --file <path>", "JSON fee market profile instead of a preset")
+  .option("-w, --wallets <count>", "Number of background wallets", "3")
+  .option(
+    "--funding-wallet <name>",
+    "Wallet that funds the background wallets",
+    "mining_wallet",
+  )
+  .action(async (preset, options) => {
+    const spinner = ora("Initializing...").start();
+    const app = new CaravanRegtestManager();
+    spinner.succeed("Initialized");
+
+    try {
+      if (preset && !FEE_MARKET_PRESET_NAMES.includes(preset)) {
+        throw new Error(
+          `Unknown fee market preset "${preset}". Use one of: ${FEE_MARKET_PRESET_NAMES.join(", ")}`,
+        );
+      }
+
+      const feeMarketCommands = new FeeMarketCommands(app.feeMarketService);
+      await feeMarketCommands.runSimulation(
+        {
+          preset: preset as FeeMarketPreset | undefined,
+          profile: options.file ? await fs.readJson(options.file) : undefined,
+          wallets: parseInt(options.wallets),
+          fundingWallet: options.fundingWallet,
+        },
+        program.opts().json,
+      );
+    } catch (error) {
+      log.displayError(CaravanXError.from(error));
+    }
+  });
+
+// Custom block building
+program
+  .command("build-block [transactions...]")
+  .description(
+    "Mine a block with generateblock from raw transactions and mempool txids, in the given order",
+  )
+  .option(
+    "-a, --address <address>",
+    "Coinbase address or descriptor (default: a mining_wallet address)",
+  )
+  .option("-t, --time <time>", "Block timestamp, unix seconds or ISO 8601")
+  .option(
+    "--advance <seconds>",
+    "Timestamp the block this many seconds after the current tip",
+  )
+  .option("-f, --file <path>", "JSON plan with a list of blocks to build")
+  .option("--no-submit", "Print the block hex instead of submitting it")
+  .option("--reset-time", "Clear the node's mock time after building")
+  .option("--profile <name>", "Profile name or ID")
+  .option("--base-dir <path>", "Caravan-X base directory")
+  .action(async (transactions, options) => {
+    try {
+      // The profile keeps the mock time a block's timestamp leaves behind
+      const app = new CaravanRegtestManager();
+      await app.loadProfile({
+        baseDir: options.baseDir,
+        profile: options.profile,
+      });
+
+      const plan = options.file
+        ? await fs.readJson(options.file)
+        : {
+            blocks: [
+              {
+                transactions,
+                coinbase: options.address,
+                time: options.time,
+                advance:
+                  options.advance !== undefined
+                    ? parseInt(options.advance)
+                    : undefined,
+              },
+            ],
+          };
+
+      const blockBuilderCommands = new BlockBuilderCommands(
+        app.blockBuilderService,
+      );
+      await blockBuilderCommands.buildBlocks(
+        plan,
+        { submit: options.submit, resetTime: options.resetTime },
+        program.opts().json,
+      );
+    } catch (error) {
+      log.displayError(CaravanXError.from(error));
+      process.exitCode = 1;
+    }
+  });
+
+// Multi-node topology (Docker mode)
+const nodeProgram = program
+  .command("node")
+  .description("Manage a multi-node regtest network (Docker mode)");
+
+/**
+ * Options every subcommand that loads a profile accepts
+ */
+interface ProfileOptions {
+  profile?: string;
+  baseDir?: string;
+}
+
+/**
+ * Run a subcommand against the loaded profile with shared error handling.
+ * build makes the command object from the app; run receives it followed by
+ * the arguments Commander passes (...arguments, options).
+ */
+function profileAction<T, A extends unknown[]>(
+  build: (app: CaravanRegtestManager) => T,
+  run: (commands: T, ...args: A) => Promise<unknown>,
+) {
+  return async (...args: unknown[]): Promise<void> => {
+    // Commander passes (...arguments, options, command)
+    const options = args[args.length - 2] as ProfileOptions;
+    try {
+      const app = new CaravanRegtestManager();
+      await app.loadProfile({
+        baseDir: options.baseDir,
+        profile: options.profile,
+      });
+      await run(build(app), ...(args.slice(0, -1) as A));
+    } catch (error) {
+      log.displayError(CaravanXError.from(error));
+      process.exitCode = 1;
+    }
+  };
+}
+
+/**
+ * Node commands for the profile, or fail outside Docker mode
+ */
+function buildNodeCommands(app: CaravanRegtestManager): NodeCommands {
+  if (!app.nodeTopologyService) {
+    throw new Error(
+      "Multiple nodes are only available for Docker mode profiles",
+    );
+  }
+  return new NodeCommands(app.nodeTopologyService);
+}
+
+nodeProgram
+  .command("list")
+  .description("Show every node with its height, tip and peer count")
+  .option("--profile <name>", "Profile name or ID")
+  .option("--base-dir <path>", "Caravan-X base directory")
+  .action(
+    profileAction(buildNodeCommands, (nodeCommands) =>
+      nodeCommands.showStatus(program.opts().json),
+    ),
+  );
+
+nodeProgram
+  .command("up")
+  .description("Start the peer nodes, create their wallets and connect them")
+  .option("--profile <name>", "Profile name or ID")
+  .option("--base-dir <path>", "Caravan-X base directory")
+  .action(
+    profileAction(buildNodeCommands, (nodeCommands) =>
+      nodeCommands.startNodes(),
+    ),
+  );
+
+nodeProgram
+  .command("down")
+  .description("Remove the peer node containers (data is kept)")
+  .option("--profile <name>", "Profile name or ID")
+  .option("--base-dir <path>", "Caravan-X base directory")
+  .action(
+    profileAction(buildNodeCommands, (nodeCommands) =>
+      nodeCommands.stopNodes(),
+    ),
+  );
+
+nodeProgram
+  .command("mine <node> [blocks]")
+  .description("Mine blocks on one node")
+  .option("-w, --wallet <name>", "Wallet on that node to mine to")
+  .option("--profile <name>", "Profile name or ID")
+  .option("--base-dir <path>", "Caravan-X base directory")
+  .action(
+    profileAction(
+      buildNodeCommands,
+      (
+        nodeCommands,
+        node: string,
+        blocks: string | undefined,
+        options: { wallet?: string },
+      ) =>
+        nodeCommands.mine(
+          node,
+          parseInt(blocks || "1"),
+          options.wallet,
+          program.opts().json,
+        ),
+    ),
+  );
+
+nodeProgram
+  .command("rpc <node> <method> [params...]")
+  .description("Call an RPC method on one node (params are parsed as JSON)")
+  .option("-w, --wallet <name>", "Wallet endpoint to call")
+  .option("--profile <name>", "Profile name or ID")
+  .option("--base-dir <path>", "Caravan-X base directory")
+  .action(
+    profileAction(
+      buildNodeCommands,
+      (
+        nodeCommands,
+        node: string,
+        method: string,
+        params: string[],
+        options: { wallet?: string },
+      ) =>
+        nodeCommands.callRpc(
+          node,
+          method,
+          params.map((param) => {
+            try {
+              return JSON.parse(param);
+            } catch {
+              return param;
+            }
+          }),
+          options.wallet,
+        ),
+    ),
+  );
+
+nodeProgram
+  .command("partition <nodes...>")
+  .description("Cut the named nodes off from the rest of the network")
+  .option("--profile <name>", "Profile name or ID")
+  .option("--base-dir <path>", "Caravan-X base directory")
+  .action(
+    profileAction(buildNodeCommands, (nodeCommands, nodes: string[]) =>
+      nodeCommands.partition(nodes),
+    ),
+  );
+
+nodeProgram
+  .command("reconnect")
+  .description("Heal partitions and report which nodes reorged")
+  .option("--profile <name>", "Profile name or ID")
+  .option("--base-dir <path>", "Caravan-X base directory")
+  .action(
+    profileAction(buildNodeCommands, (nodeCommands) =>
+      nodeCommands.reconnect(program.opts().json),
+    ),
+  );
+
+// Managed bitcoind (Manual mode)
+const bitcoindProgram = program
+  .command("bitcoind")
+  .description("Control the bitcoind Caravan-X runs for a Manual profile");
+
+/**
+ * Run a bitcoind subcommand with shared error handling. Only start launches
+ * the node while loading the profile.
+ */
+function bitcoindAction(
+  start: boolean,
+  run: (bitcoindCommands: BitcoindCommands) => Promise<unknown>,
+) {
+  return async (options: { profile?: string; baseDir?: string }) => {
+    try {
+      const app = new CaravanRegtestManager();
+      await app.loadProfile({
+        baseDir: options.baseDir,
+        profile: options.profile,
+        startBitcoind: start,
+      });
+
+      if (!app.bitcoindService) {
+        throw new Error("This profile does not use a managed bitcoind");
+      }
+      await run(new BitcoindCommands(app.bitcoindService));
+    } catch (error) {
+      log.displayError(CaravanXError.from(error));
+      process.exitCode = 1;
+    }
+  };
+}
+
+bitcoindProgram
+  .command("start")
+  .description("Start the profile's bitcoind if it is not running")
+  .option("--profile <name>", "Profile name or ID")
+  .option("--base-dir <path>", "Caravan-X base directory")
+  .action(
+    bitcoindAction(true, (bitcoindCommands) =>
+      bitcoindCommands.showStatus(program.opts().json),
+    ),
+  );
+
+bitcoindProgram
+  .command("stop")
+  .description("Stop the profile's bitcoind")
+  .option("--profile <name>", "Profile name or ID")
+  .option("--base-dir <path>", "Caravan-X base directory")
+  .action(bitcoindAction(false, (bitcoindCommands) => bitcoindCommands.stop()));
+
+bitcoindProgram
+  .command("status")
+  .description("Show whether the profile's bitcoind is running and its ports")
+  .option("--profile <name>", "Profile name or ID")
+  .option("--base-dir <path>", "Caravan-X base directory")
+  .action(
+    bitcoindAction(false, (bitcoindCommands) =>
+      bitcoindCommands.showStatus(program.opts().json),
+    ),
+  );
+
+// Mempool inspection and control
+const mempoolProgram = program
+  .command("mempool")
+  .description("Inspect the mempool and control which transactions confirm");
+
+function buildMempoolCommands(app: CaravanRegtestManager): MempoolCommands {
+  return new MempoolCommands(app.mempoolService);
+}
+
+mempoolProgram
+  .command("list")
+  .description(
+    "List mempool entries with fee rates, ancestors, descendants and BIP125 status",
+  )
+  .option("--profile <name>", "Profile name or ID")
+  .option("--base-dir <path>", "Caravan-X base directory")
+  .action(
+    profileAction(buildMempoolCommands, (mempoolCommands) =>
+      mempoolCommands.listEntries(program.opts().json),
+    ),
+  );
+
+mempoolProgram
+  .command("show <txid>")
+  .description("Show one mempool entry with its parents and children")
+  .option("--profile <name>", "Profile name or ID")
+  .option("--base-dir <path>", "Caravan-X base directory")
+  .action(
+    profileAction(buildMempoolCommands, (mempoolCommands, txid: string) =>
+      mempoolCommands.showEntry(txid, program.opts().json),
+    ),
+  );
+
+mempoolProgram
+  .command("prioritise <txid> <sats>")
+  .description(
+    "Add (or with a negative value, subtract) satoshis to a transaction's fee for mining",
+  )
+  .option("--profile <name>", "Profile name or ID")
+  .option("--base-dir <path>", "Caravan-X base directory")
+  .action(
+    profileAction(
+      buildMempoolCommands,
+      (mempoolCommands, txid: string, sats: string) =>
+        mempoolCommands.prioritise(txid, Number(sats), program.opts().json),
+    ),
+  );
+
+mempoolProgram
+  .command("mine [txids...]")
+  .description(
+    "Mine one block with only these transactions (and their ancestors), or everything except --exclude",
+  )
+  .option(
+    "-x, --exclude <txids...>",
+    "Mine every other transaction, leaving these and their descendants in the mempool",
+  )
+  .option("--address <address>", "Coinbase address")
+  .option("--profile <name>", "Profile name or ID")
+  .option("--base-dir <path>", "Caravan-X base directory")
+  .action(
+    profileAction(
+      buildMempoolCommands,
+      (
+        mempoolCommands,
+        txids: string[],
+        options: { exclude?: string[]; address?: string },
+      ) =>
+        mempoolCommands.mineSelected(
+          {
+            include: txids.length > 0 ? txids : undefined,
+            exclude: options.exclude,
+            address: options.address,
+          },
+          program.opts().json,
+        ),
+    ),
+  );
+
+mempoolProgram
+  .command("evict <txids...>")
+  .description(
+    "Drop transactions and their descendants by restarting the node with -persistmempool=0",
+  )
+  .option("--profile <name>", "Profile name or ID")
+  .option("--base-dir <path>", "Caravan-X base directory")
+  .action(
+    profileAction(buildMempoolCommands, (mempoolCommands, txids: string[]) =>
+      mempoolCommands.evict(txids, program.opts().json),
+    ),
+  );
+
+// Coin control
+const coinsProgram = program
+  .command("coins")
+  .description("List, lock and unlock a wallet's coins for coin control");
+
+function buildCoinCommands(app: CaravanRegtestManager): CoinCommands {
+  return new CoinCommands(app.transactionService);
+}
+
+coinsProgram
+  .command("list <wallet>")
+  .description("List a wallet's UTXOs with their address types and locks")
+  .option("--min-conf <n>", "Only coins with this many confirmations", "0")
+  .option("--profile <name>", "Profile name or ID")
+  .option("--base-dir <path>", "Caravan-X base directory")
+  .action(
+    profileAction(
+      buildCoinCommands,
+      (coinCommands, wallet: string, options: { minConf: string }) =>
+        coinCommands.listCoins(
+          wallet,
+          parseInt(options.minConf),
+          program.opts().json,
+        ),
+    ),
+  );
+
+coinsProgram
+  .command("lock <wallet> <outpoints...>")
+  .description("Lock coins (txid:vout) so the wallet does not spend them")
+  .option("--persistent", "Keep the locks across node restarts")
+  .option("--profile <name>", "Profile name or ID")
+  .option("--base-dir <path>", "Caravan-X base directory")
+  .action(
+    profileAction(
+      buildCoinCommands,
+      (
+        coinCommands,
+        wallet: string,
+        outpoints: string[],
+        options: { persistent?: boolean },
+      ) =>
+        coinCommands.lockCoins(
+          wallet,
+          outpoints.map(parseOutpoint),
+          options.persistent,
+        ),
+    ),
+  );
+
+coinsProgram
+  .command("unlock <wallet> [outpoints...]")
+  .description("Unlock coins (txid:vout), or every locked coin of the wallet")
+  .option("--profile <name>", "Profile name or ID")
+  .option("--base-dir <path>", "Caravan-X base directory")
+  .action(
+    profileAction(
+      buildCoinCommands,
+      (coinCommands, wallet: string, outpoints: string[]) =>
+        coinCommands.unlockCoins(
+          wallet,
+          outpoints.length > 0 ? outpoints.map(parseOutpoint) : undefined,
+        ),
+    ),
+  );
+
+// Node time control
+const timeProgram = program
+  .command("time")
+  .description("Set, advance, freeze and unfreeze the node's clock (regtest)");
+
+function buildTimeCommands(app: CaravanRegtestManager): TimeCommands {
+  return new TimeCommands(app.timeService);
+}
+
+timeProgram
+  .command("status")
+  .description("Show node time, the tip's timestamp and median time past")
+  .option("--profile <name>", "Profile name or ID")
+  .option("--base-dir <path>", "Caravan-X base directory")
+  .action(
+    profileAction(buildTimeCommands, (timeCommands) =>
+      timeCommands.showStatus(program.opts().json),
+    ),
+  );
+
+timeProgram
+  .command("set <time>")
+  .description("Freeze the node's clock at a time (unix seconds or ISO 8601)")
+  .option("--profile <name>", "Profile name or ID")
+  .option("--base-dir <path>", "Caravan-X base directory")
+  .action(
+    profileAction(buildTimeCommands, (timeCommands, time: string) =>
+      timeCommands.setTime(time, program.opts().json),
+    ),
+  );
+
+timeProgram
+  .command("advance <duration>")
+  .description("Move the node's clock forward, e.g. 600, 10m, 2h, 1d")
+  .option(
+    "-b, --blocks <count>",
+    "Mine this many blocks spread across the advance",
+  )
+  .option("--address <address>", "Coinbase address for mined blocks")
+  .option("--profile <name>", "Profile name or ID")
+  .option("--base-dir <path>", "Caravan-X base directory")
+  .action(
+    profileAction(
+      buildTimeCommands,
+      (
+        timeCommands,
+        duration: string,
+        options: { blocks?: string; address?: string },
+      ) =>
+        timeCommands.advance(
+          duration,
+          {
+            blocks:
+              options.blocks !== undefined
+                ? parseInt(options.blocks)
+                : undefined,
+            address: options.address,
+          },
+          program.opts().json,
+        ),
+    ),
+  );
+
+timeProgram
+  .command("freeze")
+  .description("Stop the node's clock at the current time")
+  .option("--profile <name>", "Profile name or ID")
+  .option("--base-dir <path>", "Caravan-X base directory")
+  .action(
+    profileAction(buildTimeCommands, (timeCommands) =>
+      timeCommands.freeze(program.opts().json),
+    ),
+  );
+
+timeProgram
+  .command("unfreeze")
+  .description("Return the node to the real clock")
+  .option("--profile <name>", "Profile name or ID")
+  .option("--base-dir <path>", "Caravan-X base directory")
+  .action(
+    profileAction(buildTimeCommands, (timeCommands) =>
+      timeCommands.unfreeze(program.opts().json),
+    ),
+  );
+
+// PSBT repair
+const psbtProgram = program
+  .command("psbt")
+  .description("Repair PSBTs for Caravan and signing devices");
+
+psbtProgram
+  .command("fix <file>")
+  .description(
+    "Fill in global xpubs, bip32_derivs and UTXO data from the Caravan config and the node",
+  )
+  .option("-w, --wallet <name>", "Caravan wallet (detected by default)")
+  .option("-o, --output <path>", "Where to write the repaired PSBT")
+  .option("--range <count>", "Address indexes to search", "1000")
+  .option("--profile <name>", "Profile name or ID")
+  .option("--base-dir <path>", "Caravan-X base directory")
+  .action(async (file: string, options) => {
+    try {
+      const app = new CaravanRegtestManager();
+      await app.loadProfile({
+        baseDir: options.baseDir,
+        profile: options.profile,
+      });
+      await new PSBTCommands(app.psbtRepairService, app.transactionService).fix(
+        file,
+        {
+          wallet: options.wallet,
+          output: options.output,
+          range: parseInt(options.range),
+        },
+        program.opts().json,
+      );
+    } catch (error) {
+      log.displayError(CaravanXError.from(error));
+      process.exitCode = 1;
+    }
+  });
+
+// Encrypted key store
+const keysProgram = program
+  .command("keys")
+  .description("Manage encryption of the profile's private key files");
+
+/**
+ * Run a keys subcommand with shared error handling
+ */
+function keysAction(
+  run: (keyStoreCommands: KeyStoreCommands) => Promise<unknown>,
+) {
+  return async (options: { profile?: string; baseDir?: string }) => {
+    try {
+      const app = new CaravanRegtestManager();
+      await app.loadProfile({
+        baseDir: options.baseDir,
+        profile: options.profile,
+        startBitcoind: false,
+      });
+      await run(new KeyStoreCommands(app.caravanService.getKeyStore()));
+    } catch (error) {
+      log.displayError(CaravanXError.from(error));
+      process.exitCode = 1;
+    }
+  };
+}
+
+keysProgram
+  .command("status")
+  .description("Show whether the key files are encrypted")
+  .option("--profile <name>", "Profile name or ID")
+  .option("--base-dir <path>", "Caravan-X base directory")
+  .action(
+    keysAction((keyStoreCommands) =>
+      keyStoreCommands.showStatus(program.opts().json),
+    ),
+  );
+
+keysProgram
+  .command("encrypt")
+  .description("Encrypt existing key files, setting a passphrase if needed")
+  .option("--profile <name>", "Profile name or ID")
+  .option("--base-dir <path>", "Caravan-X base directory")
+  .action(keysAction((keyStoreCommands) => keyStoreCommands.encrypt()));
+
+keysProgram
+  .command("passphrase")
+  .description("Change the key store passphrase and re-encrypt every key")
+  .option("--profile <name>", "Profile name or ID")
+  .option("--base-dir <path>", "Caravan-X base directory")
+  .action(
+    keysAction((keyStoreCommands) => keyStoreCommands.changePassphrase()),
+  );
+
+// Headless control server
+program
+  .command("serve")
+  .description("Run a local HTTP server exposing Caravan-X operations")
+  .option("-p, --port <port>", "Port to listen on", "4100")
+  .option("--host <host>", "Interface to bind", "127.0.0.1")
+  .option(
+    "--token <token>",
+    "Bearer token required on every request (random by default)",
+  )
+  .option("--profile <name>", "Profile name or ID (defaults to the active one)")
+  .option("--base-dir <path>", "Caravan-X base directory")
+  .action(async (options) => {
+    const spinner = ora("Initializing...").start();
+    const app = new CaravanRegtestManager();
+
+    try {
+      await app.loadProfile({
+        baseDir: options.baseDir,
+        profile: options.profile,
+      });
+      spinner.succeed("Initialized");
+
+      const server = new ControlServer(app, {
+        port: Number(options.port),
+        host: options.host,
+        token: options.token,
+      });
+      const url = await server.start();
+
+      console.log(
+        formatSuccess(`Caravan-X control server listening on ${url}`),
+      );
+      console.log(colors.info(`OpenAPI document: ${url}/openapi.json`));
+      if (!options.token) {
+        console.log(colors.info(`Bearer token: ${server.token}`));
+      }
+
+      const shutdown = async () => {
+        app.snapshotScheduler?.stop();
+        await server.stop();
+        process.exit(0);
+      };
+      process.on("SIGINT", shutdown);
+      process.on("SIGTERM", shutdown);
+    } catch (error) {
+      spinner.stop();
+      log.displayError(CaravanXError.from(error));
+      process.exit(1);
+    }
+  });
+
 // Start the interactive app (default command)
 program
   .command("start", { isDefault: true })
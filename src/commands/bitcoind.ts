@@ -0,0 +1,55 @@
+/**
+ * Managed bitcoind Commands for Caravan-X
+ */
+
+import ora from "ora";
+import chalk from "chalk";
+import { BitcoindService, BitcoindStatus } from "../core/bitcoind";
+import { colors } from "../utils/terminal";
+
+export class BitcoindCommands {
+  private bitcoindService: BitcoindService;
+
+  constructor(bitcoindService: BitcoindService) {
+    this.bitcoindService = bitcoindService;
+  }
+
+  async showStatus(json = false): Promise<BitcoindStatus> {
+    const status = await this.bitcoindService.getStatus();
+
+    if (json) {
+      console.log(JSON.stringify(status, null, 2));
+      return status;
+    }
+
+    console.log(chalk.bold("\n⚙️  Managed bitcoind\n"));
+    console.log(
+      `State: ${status.running ? colors.success(`running (pid ${status.pid})`) : colors.muted("stopped")}`,
+    );
+    console.log(`Chain: ${status.chain}`);
+    console.log(`RPC port: ${status.rpcPort}`);
+    console.log(`P2P port: ${status.p2pPort}`);
+    console.log(`Data directory: ${status.dataDir}`);
+    if (status.blocks !== undefined) {
+      console.log(`Height: ${status.blocks}`);
+    }
+
+    return status;
+  }
+
+  async stop(): Promise<void> {
+    if (!(await this.bitcoindService.isRunning())) {
+      console.log(colors.muted("bitcoind is not running"));
+      return;
+    }
+
+    const spinner = ora("Stopping bitcoind...").start();
+    try {
+      await this.bitcoindService.stop();
+      spinner.succeed("bitcoind stopped");
+    } catch (error) {
+      spinner.fail("Failed to stop bitcoind");
+      throw error;
+    }
+  }
+}
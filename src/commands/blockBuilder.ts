@@ -0,0 +1,85 @@
+/**
+ * Block Builder Commands for Caravan-X
+ */
+
+import ora from "ora";
+import chalk from "chalk";
+import Table from "cli-table3";
+import {
+  BlockBuilderService,
+  BlockPlan,
+  BuildBlockOptions,
+  BuiltBlock,
+} from "../core/blockBuilder";
+import { colors, truncate } from "../utils/terminal";
+
+export class BlockBuilderCommands {
+  private blockBuilderService: BlockBuilderService;
+
+  constructor(blockBuilderService: BlockBuilderService) {
+    this.blockBuilderService = blockBuilderService;
+  }
+
+  async buildBlocks(
+    plan: BlockPlan,
+    options: BuildBlockOptions,
+    json = false,
+  ): Promise<BuiltBlock[]> {
+    const spinner = ora("Building blocks...").start();
+
+    let blocks: BuiltBlock[];
+    try {
+      blocks = await this.blockBuilderService.buildPlan(plan, options);
+      spinner.succeed(
+        options.submit === false
+          ? "Block built but not submitted"
+          : `Built ${blocks.length} block(s)`,
+      );
+    } catch (error) {
+      spinner.fail("Failed to build blocks");
+      throw error;
+    }
+
+    if (json) {
+      console.log(JSON.stringify(blocks, null, 2));
+      return blocks;
+    }
+
+    console.log(chalk.bold("\n🧱 Built Blocks\n"));
+
+    const table = new Table({
+      head: ["Height", "Block", "Time", "Coinbase", "Transactions"],
+    });
+
+    for (const block of blocks) {
+      table.push([
+        block.height ?? colors.muted("unsubmitted"),
+        truncate(block.hash),
+        new Date(block.time * 1000).toISOString(),
+        truncate(block.coinbase),
+        block.txids.length,
+      ]);
+    }
+
+    console.log(table.toString());
+
+    for (const block of blocks) {
+      for (const txid of block.txids) {
+        console.log(colors.muted(`  ${truncate(block.hash)}  ${txid}`));
+      }
+    }
+
+    const last = blocks[blocks.length - 1];
+    if (last.hex) {
+      console.log(`\nBlock hex:\n${last.hex}`);
+    }
+    if (last.mockTime !== undefined) {
+      console.log(
+        colors.warning(
+          `\nNode mock time stays at ${new Date(last.mockTime * 1000).toISOString()}; build with --reset-time to clear it.`,
+        ),
+      );
+    }
+    return blocks;
+  }
+}
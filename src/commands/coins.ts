@@ -0,0 +1,157 @@
+/**
+ * Coin Control Commands for Caravan-X
+ */
+
+import chalk from "chalk";
+import Table from "cli-table3";
+import { checkbox, confirm, select } from "@inquirer/prompts";
+import { TransactionService } from "../core/transaction";
+import { CoinControlOptions, Outpoint, WalletCoin } from "../types/bitcoin";
+import { colors, formatBitcoin, truncate } from "../utils/terminal";
+
+export class CoinCommands {
+  private transactionService: TransactionService;
+
+  constructor(transactionService: TransactionService) {
+    this.transactionService = transactionService;
+  }
+
+  async listCoins(
+    wallet: string,
+    minConf = 0,
+    json = false,
+  ): Promise<WalletCoin[]> {
+    const coins = await this.transactionService.listCoins(wallet, minConf);
+
+    if (json) {
+      console.log(JSON.stringify(coins, null, 2));
+      return coins;
+    }
+
+    console.log(chalk.bold(`\n🪙 Coins in ${wallet} (${coins.length})\n`));
+    if (coins.length === 0) {
+      console.log(colors.muted("The wallet has no coins."));
+      return coins;
+    }
+
+    const table = new Table({
+      head: ["Outpoint", "Amount", "Type", "Address", "Conf", "Locked"],
+    });
+
+    for (const coin of coins) {
+      table.push([
+        `${truncate(coin.txid)}:${coin.vout}`,
+        formatBitcoin(coin.amount),
+        coin.scriptType,
+        coin.address ? truncate(coin.address, 10) : colors.muted("-"),
+        coin.confirmations,
+        coin.locked ? colors.warning("locked") : "",
+      ]);
+    }
+
+    console.log(table.toString());
+    return coins;
+  }
+
+  async lockCoins(
+    wallet: string,
+    outpoints: Outpoint[],
+    persistent = false,
+  ): Promise<void> {
+    await this.transactionService.lockCoins(wallet, outpoints, persistent);
+    console.log(
+      colors.success(
+        `✓ Locked ${outpoints.length} coin(s) in ${wallet}${persistent ? " (kept across restarts)" : ""}`,
+      ),
+    );
+  }
+
+  async unlockCoins(wallet: string, outpoints?: Outpoint[]): Promise<void> {
+    await this.transactionService.unlockCoins(wallet, outpoints);
+    console.log(
+      colors.success(
+        outpoints
+          ? `✓ Unlocked ${outpoints.length} coin(s) in ${wallet}`
+          : `✓ Unlocked every coin in ${wallet}`,
+      ),
+    );
+  }
+}
+
+/**
+ * Ask which coins a PSBT should spend, whether the wallet may add more and
+ * which outputs pay the fee
+ */
+export async function promptCoinControl(
+  transactionService: TransactionService,
+  wallet: string,
+  outputs: Record<string, number>[],
+): Promise<CoinControlOptions> {
+  const coins = await transactionService.listCoins(wallet);
+  if (coins.length === 0) {
+    throw new Error(`Wallet ${wallet} has no coins to choose from`);
+  }
+
+  const selected = await checkbox<WalletCoin>({
+    message: "Select coins to spend:",
+    choices: coins.map((coin) => ({
+      name: `${formatBitcoin(coin.amount)}  ${coin.scriptType}  ${coin.address || ""}  ${coin.txid}:${coin.vout}${
+        coin.confirmations === 0 ? colors.warning("  unconfirmed") : ""
+      }${coin.locked ? colors.warning("  locked") : ""}`,
+      value: coin,
+    })),
+    validate: (choices) =>
+      choices.length > 0 ? true : "Select at least one coin",
+  });
+
+  const types = new Set(selected.map((coin) => coin.scriptType));
+  if (types.size > 1) {
+    console.log(
+      colors.warning(
+        `The selection mixes address types: ${[...types].join(", ")}`,
+      ),
+    );
+  }
+
+  const addInputs = await confirm({
+    message: "Let the wallet add more coins if these are not enough?",
+    default: false,
+  });
+
+  let subtractFeeFromOutputs: number[] = [];
+  if (outputs.length === 1) {
+    const subtract = await confirm({
+      message: "Pay the fee from the output instead of change?",
+      default: false,
+    });
+    subtractFeeFromOutputs = subtract ? [0] : [];
+  } else {
+    const feeFrom = await select({
+      message: "Which outputs pay the fee?",
+      choices: [
+        { name: "None (fee comes from change)", value: "none" },
+        { name: "Split across outputs", value: "choose" },
+      ],
+    });
+    if (feeFrom === "choose") {
+      subtractFeeFromOutputs = await checkbox<number>({
+        message: "Outputs that pay the fee, split evenly:",
+        choices: outputs.map((output, index) => {
+          const [address, amount] = Object.entries(output)[0];
+          return {
+            name: `#${index + 1} ${formatBitcoin(amount)} to ${address}`,
+            value: index,
+          };
+        }),
+        validate: (choices) =>
+          choices.length > 0 ? true : "Select at least one output",
+      });
+    }
+  }
+
+  return {
+    inputs: selected.map(({ txid, vout }) => ({ txid, vout })),
+    addInputs,
+    subtractFeeFromOutputs,
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * Fee-Market Commands for Caravan-X
+ */
+
+import ora from "ora";
+import chalk from "chalk";
+import Table from "cli-table3";
+import {
+  FeeMarketService,
+  FeeMarketOptions,
+  FeeMarketResult,
+} from "../core/feeMarket";
+import { colors } from "../utils/terminal";
+
+export class FeeMarketCommands {
+  private feeMarketService: FeeMarketService;
+
+  constructor(feeMarketService: FeeMarketService) {
+    this.feeMarketService = feeMarketService;
+  }
+
+  async runSimulation(
+    options: FeeMarketOptions,
+    json = false,
+  ): Promise<FeeMarketResult> {
+    const spinner = ora("Funding background wallets...").start();
+
+    let result: FeeMarketResult;
+    try {
+      result = await this.feeMarketService.simulate({
+        ...options,
+        onProgress: (_round, _total, message) => {
+          spinner.text = message;
+        },
+      });
+      spinner.succeed(
+        `Fee market simulated: ${result.transactions} transaction(s) over ${result.rounds} block(s)`,
+      );
+    } catch (error) {
+      spinner.fail("Fee market simulation failed");
+      throw error;
+    }
+
+    if (json) {
+      console.log(JSON.stringify(result, null, 2));
+    } else {
+      this.displayResult(result);
+    }
+
+    return result;
+  }
+
+  private displayResult(result: FeeMarketResult): void {
+    console.log(
+      chalk.bold(
+        `\n📈 Fee Market${result.preset ? ` (${result.preset})` : ""}\n`,
+      ),
+    );
+    console.log(
+      `Confirmed: ${result.confirmed} transaction(s) in ${result.blocks.length} block(s)`,
+    );
+    console.log(`Left in mempool: ${result.mempoolSize}`);
+
+    const table = new Table({
+      head: ["Target", "estimatesmartfee"],
+    });
+
+    for (const estimate of result.estimates) {
+      table.push([
+        `${estimate.target} blocks`,
+        estimate.feeRate !== undefined
+          ? `${estimate.feeRate} sat/vB${
+              estimate.blocks !== estimate.target
+                ? colors.muted(` (for ${estimate.blocks} blocks)`)
+                : ""
+            }`
+          : colors.muted("not enough data"),
+      ]);
+    }
+
+    console.log("\n" + table.toString());
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Key Store Commands for Caravan-X
+ */
+
+import ora from "ora";
+import chalk from "chalk";
+import { password } from "@inquirer/prompts";
+import { KeyStore, KeyStoreStatus } from "../core/keystore";
+import { colors } from "../utils/terminal";
+
+export class KeyStoreCommands {
+  private keyStore: KeyStore;
+
+  constructor(keyStore: KeyStore) {
+    this.keyStore = keyStore;
+  }
+
+  async showStatus(json = false): Promise<KeyStoreStatus> {
+    const status = await this.keyStore.getStatus();
+
+    if (json) {
+      console.log(JSON.stringify(status, null, 2));
+      return status;
+    }
+
+    console.log(chalk.bold("\n🔐 Key Store\n"));
+    console.log(
+      `Passphrase: ${status.initialized ? colors.success("set") : colors.warning("not set")}`,
+    );
+    console.log(`Key files: ${status.files}`);
+    console.log(`Encrypted keys: ${status.encryptedKeys}`);
+    console.log(
+      `Plaintext keys: ${status.plaintextKeys > 0 ? colors.warning(status.plaintextKeys.toString()) : status.plaintextKeys}`,
+    );
+
+    if (status.plaintextKeys > 0) {
+      console.log(
+        colors.info("\nRun `caravan-x keys encrypt` to encrypt them."),
+      );
+    }
+
+    return status;
+  }
+
+  /**
+   * Encrypt all plaintext keys, setting a passphrase first if the store
+   * does not have one
+   */
+  async encrypt(): Promise<void> {
+    if (!(await this.keyStore.isInitialized())) {
+      console.log(
+        colors.info(
+          "Choose a passphrase for this profile's key store. It cannot be recovered if lost.",
+        ),
+      );
+      await this.keyStore.initialize(await this.askNewPassphrase());
+    } else if (!(await this.keyStore.isUnlocked())) {
+      await this.keyStore.unlock(
+        await password({ message: "Key store passphrase:", mask: "*" }),
+      );
+    }
+
+    const spinner = ora("Encrypting private keys...").start();
+    try {
+      const count = await this.keyStore.encryptAll();
+      spinner.succeed(
+        count === 0
+          ? "All private keys are already encrypted"
+          : `Encrypted ${count} private key(s)`,
+      );
+    } catch (error) {
+      spinner.fail("Failed to encrypt private keys");
+      throw error;
+    }
+  }
+
+  async changePassphrase(): Promise<void> {
+    if (!(await this.keyStore.isInitialized())) {
+      throw new Error(
+        "The key store has no passphrase; run `caravan-x keys encrypt` first",
+      );
+    }
+
+    await this.keyStore.unlock(
+      await password({ message: "Current passphrase:", mask: "*" }),
+    );
+    const newPassphrase = await this.askNewPassphrase();
+
+    const spinner = ora("Re-encrypting private keys...").start();
+    try {
+      await this.keyStore.changePassphrase(newPassphrase);
+      spinner.succeed("Passphrase changed");
+    } catch (error) {
+      spinner.fail("Failed to change passphrase");
+      throw error;
+    }
+  }
+
+  private async askNewPassphrase(): Promise<string> {
+    const passphrase = await password({
+      message: "New passphrase:",
+      mask: "*",
+      validate: (input) =>
+        input.length >= 8 ? true : "Use at least 8 characters",
+    });
+
+    await password({
+      message: "Repeat passphrase:",
+      mask: "*",
+      validate: (input) =>
+        input === passphrase ? true : "Passphrases do not match",
+    });
+
+    return passphrase;
+  }
+}
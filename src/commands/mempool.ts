@@ -0,0 +1,213 @@
+/**
+ * Mempool Commands for Caravan-X
+ */
+
+import ora from "ora";
+import chalk from "chalk";
+import Table from "cli-table3";
+import {
+  MempoolService,
+  MempoolEntry,
+  MineSelectionOptions,
+  MineSelectionResult,
+  EvictionResult,
+} from "../core/mempool";
+import { colors, truncate } from "../utils/terminal";
+
+export class MempoolCommands {
+  private mempoolService: MempoolService;
+
+  constructor(mempoolService: MempoolService) {
+    this.mempoolService = mempoolService;
+  }
+
+  async listEntries(json = false): Promise<MempoolEntry[]> {
+    const entries = await this.mempoolService.listEntries();
+
+    if (json) {
+      console.log(JSON.stringify(entries, null, 2));
+      return entries;
+    }
+
+    console.log(chalk.bold(`\n🧺 Mempool (${entries.length} transactions)\n`));
+    if (entries.length === 0) {
+      console.log(colors.muted("The mempool is empty."));
+      return entries;
+    }
+
+    const table = new Table({
+      head: [
+        "Transaction",
+        "vB",
+        "Fee (sat)",
+        "sat/vB",
+        "Ancestors",
+        "Descendants",
+        "RBF",
+        "Age",
+      ],
+    });
+
+    const now = Math.floor(Date.now() / 1000);
+    for (const entry of entries) {
+      const prioritised = entry.modifiedFee !== entry.fee;
+      table.push([
+        truncate(entry.txid),
+        entry.vsize,
+        prioritised
+          ? `${entry.fee} ${colors.info(`(${entry.modifiedFee})`)}`
+          : entry.fee,
+        entry.feeRate,
+        `${entry.ancestorCount - 1} (${entry.ancestorFeeRate} sat/vB)`,
+        `${entry.descendantCount - 1} (${entry.descendantFeeRate} sat/vB)`,
+        entry.bip125Replaceable ? colors.success("yes") : "no",
+        formatAge(now - entry.time),
+      ]);
+    }
+
+    console.log(table.toString());
+    console.log(
+      colors.muted(
+        "Ordered by ancestor fee rate, the order a miner picks them. Counts exclude the transaction itself.",
+      ),
+    );
+    return entries;
+  }
+
+  async showEntry(txid: string, json = false): Promise<MempoolEntry> {
+    const entry = await this.mempoolService.getEntry(txid);
+
+    if (json) {
+      console.log(JSON.stringify(entry, null, 2));
+      return entry;
+    }
+
+    console.log(chalk.bold("\n🧾 Mempool Entry\n"));
+    console.log(`Transaction: ${entry.txid}`);
+    console.log(`Size: ${entry.vsize} vB (${entry.weight} WU)`);
+    console.log(`Fee: ${entry.fee} sat (${entry.feeRate} sat/vB)`);
+    if (entry.modifiedFee !== entry.fee) {
+      console.log(colors.info(`Prioritised fee: ${entry.modifiedFee} sat`));
+    }
+    console.log(
+      `Ancestors: ${entry.ancestorCount - 1}, package ${entry.ancestorFeeRate} sat/vB`,
+    );
+    console.log(
+      `Descendants: ${entry.descendantCount - 1}, package ${entry.descendantFeeRate} sat/vB`,
+    );
+    console.log(
+      `BIP125 replaceable: ${entry.bip125Replaceable ? "yes" : "no"}`,
+    );
+    console.log(`Entered at height: ${entry.height}`);
+    for (const parent of entry.depends) {
+      console.log(colors.muted(`  parent ${parent}`));
+    }
+    for (const child of entry.spentBy) {
+      console.log(colors.muted(`  child  ${child}`));
+    }
+    return entry;
+  }
+
+  async prioritise(
+    txid: string,
+    feeDelta: number,
+    json = false,
+  ): Promise<MempoolEntry | undefined> {
+    const entry = await this.mempoolService.prioritise(txid, feeDelta);
+
+    if (json) {
+      console.log(JSON.stringify({ txid, feeDelta, entry }, null, 2));
+      return entry;
+    }
+
+    console.log(
+      colors.success(
+        `✓ Fee delta of ${feeDelta} sat applied to ${truncate(txid)}`,
+      ),
+    );
+    if (entry) {
+      console.log(
+        `Mining fee is now ${entry.modifiedFee} sat (${entry.feeRate} sat/vB)`,
+      );
+    } else {
+      console.log(
+        colors.muted(
+          "The transaction is not in the mempool yet; the delta applies when it arrives.",
+        ),
+      );
+    }
+    return entry;
+  }
+
+  async mineSelected(
+    options: MineSelectionOptions,
+    json = false,
+  ): Promise<MineSelectionResult> {
+    const spinner = ora("Mining block...").start();
+
+    let result: MineSelectionResult;
+    try {
+      result = await this.mempoolService.mineSelected(options);
+      spinner.succeed(
+        `Mined block ${result.height} with ${result.txids.length} transaction(s)`,
+      );
+    } catch (error) {
+      spinner.fail("Failed to mine block");
+      throw error;
+    }
+
+    if (json) {
+      console.log(JSON.stringify(result, null, 2));
+      return result;
+    }
+
+    console.log(`Block: ${result.hash}`);
+    for (const txid of result.txids) {
+      const note = result.addedAncestors.includes(txid)
+        ? colors.muted(" (unconfirmed ancestor)")
+        : "";
+      console.log(colors.success(`  confirmed ${txid}${note}`));
+    }
+    for (const txid of result.leftOut) {
+      console.log(colors.warning(`  left out  ${txid}`));
+    }
+    return result;
+  }
+
+  async evict(txids: string[], json = false): Promise<EvictionResult> {
+    const spinner = ora("Restarting the node with an empty mempool...").start();
+
+    let result: EvictionResult;
+    try {
+      result = await this.mempoolService.evict(txids);
+      spinner.succeed(
+        `Evicted ${result.evicted.length} transaction(s), restored ${result.restored}`,
+      );
+    } catch (error) {
+      spinner.fail("Eviction failed");
+      throw error;
+    }
+
+    if (json) {
+      console.log(JSON.stringify(result, null, 2));
+      return result;
+    }
+
+    for (const txid of result.evicted) {
+      console.log(colors.warning(`  evicted   ${txid}`));
+    }
+    for (const { wallet, txid } of result.abandoned) {
+      console.log(colors.muted(`  abandoned ${truncate(txid)} in ${wallet}`));
+    }
+    for (const { txid, reason } of result.dropped) {
+      console.log(colors.error(`  dropped   ${truncate(txid)}: ${reason}`));
+    }
+    return result;
+  }
+}
+
+function formatAge(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  return `${Math.floor(seconds / 3600)}h`;
+}
@@ -3,11 +3,20 @@ import { CaravanService } from "../core/caravan";
 import { BitcoinService } from "../core/bitcoin";
 import { BitcoinRpcClient } from "../core/rpc";
 import { TransactionService } from "../core/transaction";
+import { promptCoinControl } from "./coins";
+import { displayWalletMatches } from "./transaction";
+import { PSBTWalletMatch } from "../types/bitcoin";
+import {
+  buildTaprootMultisigDescriptor,
+  TAPROOT_CARAVAN_NOTE,
+} from "../core/taproot";
 import {
   CaravanWalletConfig,
   ExtendedPublicKey,
   AddressType,
   Network,
+  CreateMultisigOptions,
+  CreateMultisigResult,
 } from "../types/caravan";
 import clipboard from "clipboardy";
 import { input, confirm, select, number } from "@inquirer/prompts";
@@ -51,6 +60,13 @@ export class MultisigCommands {
     this.transactionService = transactionService;
   }
 
+  /**
+   * Network for Caravan wallet configs: the node's chain (regtest or signet)
+   */
+  private getNetwork(): string {
+    return this.bitcoinRpcClient?.config.network || "regtest";
+  }
+
   /**
    * List all Caravan wallet configurations
    */
@@ -123,6 +139,12 @@ export class MultisigCommands {
             value: AddressType.P2SH_P2WSH,
           },
           { name: colors.highlight("P2SH (Legacy)"), value: AddressType.P2SH },
+          {
+            name:
+              colors.highlight("P2TR (Taproot multisig)") +
+              colors.muted(" - not Caravan-compatible yet"),
+            value: AddressType.P2TR,
+          },
         ],
         default: AddressType.P2WSH,
       });
@@ -217,6 +239,7 @@ export class MultisigCommands {
           descriptorPrefix: "sh(wpkh",
         },
         [AddressType.P2SH]: { path: "44h/1h/0h", descriptorPrefix: "pkh" },
+        [AddressType.P2TR]: { path: "86h/1h/0h", descriptorPrefix: "tr" },
       };
 
       // The BIP path to use based on address type
@@ -487,11 +510,32 @@ export class MultisigCommands {
         }
       }
 
+      // Taproot: optionally let one signer spend alone through the key path
+      let taproot: CaravanWalletConfig["taproot"];
+      if (addressType === AddressType.P2TR) {
+        const keyPathSigner = await select({
+          message: "Internal key (key-path spend):",
+          choices: [
+            {
+              name: colors.highlight("None - script path only (NUMS key)"),
+              value: -1,
+            },
+            ...extendedPublicKeys.map((key, i) => ({
+              name: colors.highlight(key.name),
+              value: i,
+            })),
+          ],
+          default: -1,
+        });
+        taproot = keyPathSigner >= 0 ? { keyPathSigner } : {};
+      }
+
       // Create the Caravan wallet configuration
       const caravanConfig: CaravanWalletConfig = {
         name,
         addressType,
-        network: "regtest", // Always regtest for this tool
+        ...(taproot ? { taproot } : {}),
+        network: this.getNetwork(),
         quorum: {
           requiredSigners: requiredSigners!,
           totalSigners: totalSigners!,
@@ -548,15 +592,20 @@ export class MultisigCommands {
         importSpinner.succeed("Multisig descriptors imported successfully!");
 
         console.log(
-          boxText(
-            "When using Caravan, you need to import addresses to see your funds.\n" +
-              "Follow these steps in Caravan after importing your wallet configuration:\n\n" +
-              '1. Go to the "Addresses" tab\n' +
-              '2. Click the "Import Addresses" button at the bottom\n' +
-              '3. Toggle the "Rescan" switch if this is your first time importing\n' +
-              '4. Click "Import Addresses" to complete the process',
-            { title: "IMPORTANT", titleColor: colors.warning },
-          ),
+          caravanConfig.addressType === AddressType.P2TR
+            ? boxText(TAPROOT_CARAVAN_NOTE, {
+                title: "NOT CARAVAN-COMPATIBLE",
+                titleColor: colors.warning,
+              })
+            : boxText(
+                "When using Caravan, you need to import addresses to see your funds.\n" +
+                  "Follow these steps in Caravan after importing your wallet configuration:\n\n" +
+                  '1. Go to the "Addresses" tab\n' +
+                  '2. Click the "Import Addresses" button at the bottom\n' +
+                  '3. Toggle the "Rescan" switch if this is your first time importing\n' +
+                  '4. Click "Import Addresses" to complete the process',
+                { title: "IMPORTANT", titleColor: colors.warning },
+              ),
         );
       } catch (error) {
         console.error(
@@ -591,6 +640,326 @@ export class MultisigCommands {
     }
   }
 
+  /**
+   * Create a Caravan multisig wallet from options, without any prompts.
+   * Used by the script engine and other unattended callers.
+   */
+  async createCaravanWalletWithOptions(
+    options: CreateMultisigOptions,
+  ): Promise<CreateMultisigResult> {
+    const {
+      name,
+      addressType,
+      requiredSigners,
+      totalSigners,
+      signerWallets: requestedSigners = [],
+      extendedPublicKeys: suppliedKeys = [],
+      fundAmount,
+      taproot,
+    } = options;
+
+    if (!name || name.trim() === "") {
+      throw new Error("A wallet name is required");
+    }
+    if (
+      !Number.isInteger(requiredSigners) ||
+      !Number.isInteger(totalSigners) ||
+      requiredSigners <= 0 ||
+      totalSigners <= 0
+    ) {
+      throw new Error(
+        "requiredSigners and totalSigners must be positive integers",
+      );
+    }
+    if (requiredSigners > totalSigners) {
+      throw new Error("requiredSigners cannot be greater than totalSigners");
+    }
+    if (suppliedKeys.length > totalSigners) {
+      throw new Error(
+        `Got ${suppliedKeys.length} extended public keys for only ${totalSigners} signers`,
+      );
+    }
+    if (
+      requestedSigners.length > 0 &&
+      suppliedKeys.length + requestedSigners.length !== totalSigners
+    ) {
+      throw new Error(
+        `Got ${requestedSigners.length} signer wallets and ${suppliedKeys.length} extended public keys for ${totalSigners} signers`,
+      );
+    }
+    if (
+      fundAmount !== undefined &&
+      (!Number.isFinite(fundAmount) || fundAmount < 0)
+    ) {
+      throw new Error("fundAmount must be a non-negative number");
+    }
+    if (
+      taproot?.keyPathSigner !== undefined &&
+      (!Number.isInteger(taproot.keyPathSigner) ||
+        taproot.keyPathSigner < 0 ||
+        taproot.keyPathSigner >= totalSigners)
+    ) {
+      throw new Error(
+        `keyPathSigner must be a signer index from 0 to ${totalSigners - 1}`,
+      );
+    }
+
+    // Map of address types to BIP paths and descriptor types
+    const formatInfo = {
+      [AddressType.P2WSH]: { path: "84'/1'/0'", descriptorPrefix: "wpkh" },
+      [AddressType.P2SH_P2WSH]: {
+        path: "49'/1'/0'",
+        descriptorPrefix: "sh(wpkh",
+      },
+      [AddressType.P2SH]: { path: "44'/1'/0'", descriptorPrefix: "pkh" },
+      [AddressType.P2TR]: { path: "86'/1'/0'", descriptorPrefix: "tr" },
+    };
+
+    if (!formatInfo[addressType]) {
+      throw new Error(`Unsupported address type: ${addressType}`);
+    }
+
+    const safeName = name.replace(/\s+/g, "_").toLowerCase();
+    const bipPath = formatInfo[addressType].path;
+    const displayBipPath = `m/${bipPath}`;
+    const watcherWalletName = `${safeName}_watcher`;
+
+    const existingWallets = await this.bitcoinService.listWallets();
+    if (existingWallets.includes(watcherWalletName)) {
+      throw new Error(`Watch wallet "${watcherWalletName}" already exists`);
+    }
+
+    // Supplied keys take the first slots, signer wallets fill the rest
+    const extendedPublicKeys: ExtendedPublicKey[] = suppliedKeys.map(
+      (key, i) => ({
+        name: key.name || `Extended Public Key ${i + 1}`,
+        xpub: key.xpub,
+        bip32Path: key.bip32Path || displayBipPath,
+        xfp: key.xfp,
+        method: key.method || "text",
+      }),
+    );
+    const signerWallets: string[] = [];
+
+    for (let i = extendedPublicKeys.length; i < totalSigners; i++) {
+      const signerName =
+        requestedSigners[i - suppliedKeys.length] ||
+        `${safeName}_signer_${i + 1}`;
+      const spinner = ora(`Preparing signer wallet ${signerName}...`).start();
+
+      try {
+        if (!existingWallets.includes(signerName)) {
+          await this.bitcoinService.createWallet(signerName, {
+            disablePrivateKeys: false,
+            blank: false,
+            descriptorWallet: true,
+          });
+          await new Promise((resolve) => setTimeout(resolve, 1000));
+        }
+
+        const descriptors = await this.getWalletDescriptors(signerName);
+        if (!descriptors) {
+          throw new Error(`Could not get descriptors for wallet ${signerName}`);
+        }
+
+        // listdescriptors reports hardened steps as "h", normalize before matching
+        const hPath = bipPath.replace(/'/g, "h");
+        const matchingDesc = descriptors.find((d) => {
+          const desc = d.desc.replace(/'/g, "h");
+          return (
+            !d.internal &&
+            desc.startsWith(formatInfo[addressType].descriptorPrefix) &&
+            desc.includes(hPath)
+          );
+        });
+
+        if (!matchingDesc) {
+          throw new Error(
+            `No ${formatInfo[addressType].descriptorPrefix} descriptor at ${displayBipPath} in wallet ${signerName}`,
+          );
+        }
+
+        const xpubMatch = matchingDesc.desc.match(
+          /\[([a-f0-9]+)\/.*?\](.*?)\/[0-9]+\/\*\)/,
+        );
+        if (!xpubMatch) {
+          throw new Error(
+            `Could not extract xpub from descriptor: ${matchingDesc.desc}`,
+          );
+        }
+
+        extendedPublicKeys.push({
+          name: `Extended Public Key ${i + 1} (${signerName})`,
+          xpub: xpubMatch[2],
+          bip32Path: displayBipPath,
+          xfp: xpubMatch[1],
+          method: "text",
+        });
+        signerWallets.push(signerName);
+        spinner.succeed(`Signer ${i + 1}: ${signerName}`);
+      } catch (error) {
+        spinner.fail(`Failed to prepare signer ${i + 1}`);
+        throw error;
+      }
+    }
+
+    const watcherSpinner = ora(
+      `Creating watch-only wallet ${watcherWalletName}...`,
+    ).start();
+    await this.bitcoinService.createWallet(watcherWalletName, {
+      disablePrivateKeys: true,
+      blank: true,
+      descriptorWallet: true,
+    });
+    watcherSpinner.succeed(`Watch-only wallet "${watcherWalletName}" created`);
+
+    const caravanConfig: CaravanWalletConfig = {
+      name,
+      addressType,
+      ...(addressType === AddressType.P2TR ? { taproot: taproot || {} } : {}),
+      network: this.getNetwork(),
+      quorum: {
+        requiredSigners,
+        totalSigners,
+      },
+      extendedPublicKeys,
+      startingAddressIndex: 0,
+      uuid: crypto.randomBytes(16).toString("hex"),
+      client: {
+        type: "private",
+        url: this.bitcoinRpcClient?.baseUrl || "http://127.0.0.1:18443",
+        username: this.bitcoinRpcClient?.auth.username || "user",
+        walletName: watcherWalletName,
+      },
+    };
+
+    const exportConfig =
+      this.caravanService.formatCaravanConfigForExport(caravanConfig);
+    const configPath = path.join(
+      this.caravanService.getCaravanDir(),
+      `${safeName}_config.json`,
+    );
+
+    // Remove credentials if present
+    if (exportConfig.client?.password) {
+      delete exportConfig.client.password;
+    }
+    await fs.writeJson(configPath, exportConfig, { spaces: 2 });
+
+    const imported = await this.importMultisigDescriptorsWithValidation(
+      caravanConfig,
+      watcherWalletName,
+      false,
+    );
+    if (!imported) {
+      throw new Error(
+        `Failed to import multisig descriptors into ${watcherWalletName}`,
+      );
+    }
+
+    const result: CreateMultisigResult = {
+      config: caravanConfig,
+      configPath,
+      watcherWallet: watcherWalletName,
+      signerWallets,
+    };
+
+    if (fundAmount && fundAmount > 0) {
+      const fundingWallet = options.fundingWallet || signerWallets[0];
+      if (!fundingWallet) {
+        throw new Error(
+          "fundAmount requires a fundingWallet when no signer wallets are created",
+        );
+      }
+
+      const fundSpinner = ora(
+        `Funding ${name} with ${fundAmount} BTC from ${fundingWallet}...`,
+      ).start();
+
+      const walletInfo = await this.bitcoinService.getWalletInfo(fundingWallet);
+      if (walletInfo.balance < fundAmount) {
+        // 101 blocks so the first coinbase is mature and spendable
+        const minerAddress =
+          await this.bitcoinService.getNewAddress(fundingWallet);
+        await this.bitcoinService.generateToAddress(101, minerAddress);
+      }
+
+      const fundingAddress =
+        await this.bitcoinService.getNewAddress(watcherWalletName);
+      const txid = await this.bitcoinService.sendToAddress(
+        fundingWallet,
+        fundingAddress,
+        fundAmount,
+      );
+
+      const confirmAddress =
+        await this.bitcoinService.getNewAddress(fundingWallet);
+      await this.bitcoinService.generateToAddress(1, confirmAddress);
+
+      fundSpinner.succeed(
+        `Funded ${fundingAddress} (txid: ${truncate(txid, 10)})`,
+      );
+      result.fundingTxid = txid;
+      result.fundingAddress = fundingAddress;
+    }
+
+    console.log(
+      formatSuccess(
+        `Caravan wallet "${name}" (${requiredSigners} of ${totalSigners}, ${addressType}) saved to ${configPath}`,
+      ),
+    );
+    if (addressType === AddressType.P2TR) {
+      console.log(formatWarning(TAPROOT_CARAVAN_NOTE));
+    }
+
+    return result;
+  }
+
+  /**
+   * Build an unsigned PSBT from the watch wallet, letting the user pick
+   * the exact UTXOs it spends
+   */
+  private async createPSBTWithCoinControl(
+    watcherWalletName: string,
+  ): Promise<string> {
+    const outputs: Record<string, number>[] = [];
+    do {
+      const address = await input({
+        message: `Destination address for output #${outputs.length + 1}:`,
+        validate: (input) =>
+          input.trim() !== "" ? true : "Please enter a valid address",
+      });
+      const amount = await number({
+        message: "Amount in BTC:",
+        validate: (input) =>
+          input !== undefined && input > 0
+            ? true
+            : "Please enter a positive amount",
+      });
+      outputs.push({ [address.trim()]: amount! });
+    } while (await confirm({ message: "Add another output?", default: false }));
+
+    const coinControl = await promptCoinControl(
+      this.transactionService,
+      watcherWalletName,
+      outputs,
+    );
+
+    const spinner = ora("Creating PSBT from the watch wallet...").start();
+    try {
+      const psbt = await this.transactionService.createPSBT(
+        watcherWalletName,
+        outputs,
+        { ...coinControl, includeWatching: true },
+      );
+      spinner.succeed("PSBT created");
+      return psbt;
+    } catch (error) {
+      spinner.fail("Error creating PSBT");
+      throw error;
+    }
+  }
+
   /**
    * Spend funds from a Caravan multisig wallet
    */
@@ -695,26 +1064,47 @@ export class MultisigCommands {
         }
       }
 
-      // Step 2: Guide the user to create a PSBT with Caravan
-      console.log(
-        boxText(
-          "1. Open Caravan in your browser\n" +
-            '2. Go to "Wallet" tab and select your wallet\n' +
-            '3. Navigate to the "Spend" tab\n' +
-            "4. Create a transaction by filling in the recipient address and amount\n" +
-            '5. Click "Create Transaction" to generate the PSBT\n' +
-            "6. Copy the PSBT string",
-          { title: "Create Transaction in Caravan", titleColor: colors.info },
-        ),
-      );
-
-      // Get the PSBT from the user
-      const psbtBase64 = await input({
-        message: "Paste the PSBT from Caravan:",
-        validate: (input) =>
-          input.trim() !== "" ? true : "Please enter a valid PSBT",
+      // Step 2: Create the PSBT here with coin control, or in Caravan
+      const psbtSource = await select({
+        message: "How do you want to create the transaction?",
+        choices: [
+          {
+            name: colors.highlight(
+              "Create it here, choosing which coins to spend",
+            ),
+            value: "coin-control",
+          },
+          {
+            name: colors.highlight("Create it in Caravan and paste the PSBT"),
+            value: "caravan",
+          },
+        ],
       });
 
+      let psbtBase64: string;
+      if (psbtSource === "coin-control") {
+        psbtBase64 = await this.createPSBTWithCoinControl(watcherWalletName);
+      } else {
+        console.log(
+          boxText(
+            "1. Open Caravan in your browser\n" +
+              '2. Go to "Wallet" tab and select your wallet\n' +
+              '3. Navigate to the "Spend" tab\n' +
+              "4. Create a transaction by filling in the recipient address and amount\n" +
+              '5. Click "Create Transaction" to generate the PSBT\n' +
+              "6. Copy the PSBT string",
+            { title: "Create Transaction in Caravan", titleColor: colors.info },
+          ),
+        );
+
+        // Get the PSBT from the user
+        psbtBase64 = await input({
+          message: "Paste the PSBT from Caravan:",
+          validate: (input) =>
+            input.trim() !== "" ? true : "Please enter a valid PSBT",
+        });
+      }
+
       // Step 3: Process the PSBT with the watcher wallet
       console.log(
         colors.info(
@@ -1406,6 +1796,18 @@ export class MultisigCommands {
           receiveDescriptor = `sh(multi(${requiredSigners},${xpubsReceive.join(",")}))`;
           changeDescriptor = `sh(multi(${requiredSigners},${xpubsChange.join(",")}))`;
           break;
+        case AddressType.P2TR:
+          receiveDescriptor = buildTaprootMultisigDescriptor(
+            xpubsReceive,
+            requiredSigners,
+            caravanConfig.taproot,
+          );
+          changeDescriptor = buildTaprootMultisigDescriptor(
+            xpubsChange,
+            requiredSigners,
+            caravanConfig.taproot,
+          );
+          break;
         default:
           throw new Error(`Unsupported address type: ${addressType}`);
       }
@@ -2442,14 +2844,19 @@ export class MultisigCommands {
       let caravanWallets;
       let caravanConfig;
       let isTerminalCreatedWallet = false;
+      let walletMatches: PSBTWalletMatch[] = [];
 
       try {
         caravanWallets = await this.caravanService.listCaravanWallets();
-        caravanConfig =
-          await this.transactionService.detectCaravanWalletForPSBT(
+        walletMatches = (
+          await this.transactionService.matchCaravanWallets(
             psbtBase64!,
             caravanWallets,
-          );
+          )
+        ).matches;
+        caravanConfig = caravanWallets.find(
+          (wallet) => wallet.name === walletMatches[0]?.wallet,
+        );
 
         if (caravanConfig) {
           // Check if this is a wallet created by our terminal tool
@@ -2477,6 +2884,9 @@ export class MultisigCommands {
             { title: "Caravan Wallet Information", titleColor: colors.success },
           ),
         );
+        if (walletMatches.length > 1) {
+          displayWalletMatches(walletMatches);
+        }
       } else {
         detectSpinner.warn("No Caravan wallet detected");
         console.log(
@@ -2594,6 +3004,25 @@ export class MultisigCommands {
         }
       };
 
+      // Private keys saved for this wallet (decrypted from the key store)
+      let storedKeys: Array<{ name: string; privateKey: string }> = [];
+      if (caravanConfig) {
+        try {
+          const keyData =
+            await this.caravanService.loadCaravanPrivateKeyData(caravanConfig);
+          storedKeys = keyData.keyData
+            .filter((k) => k.privateKey)
+            .map((k) => ({
+              name:
+                caravanConfig.extendedPublicKeys.find((x) => x.xpub === k.xpub)
+                  ?.name || truncate(k.xpub, 8),
+              privateKey: k.privateKey!,
+            }));
+        } catch (error) {
+          // No key file, or the key store could not be unlocked
+        }
+      }
+
       // Step 4: Collect signatures based on wallet detection and quorum requirements
       for (let i = 0; i < requiredSigners; i++) {
         console.log(
@@ -2653,6 +3082,14 @@ export class MultisigCommands {
             message: "How would you like to sign?",
             choices: [
               { name: colors.highlight("Sign with wallet"), value: "wallet" },
+              ...(storedKeys.some((k) => !usedSigners.has(k.name))
+                ? [
+                    {
+                      name: colors.highlight("Sign with stored key"),
+                      value: "stored",
+                    },
+                  ]
+                : []),
               {
                 name: colors.highlight("Sign with private key"),
                 value: "privkey",
@@ -2703,6 +3140,22 @@ export class MultisigCommands {
               i--;
               continue;
             }
+          } else if (signMethod === "stored") {
+            const storedKey = await select({
+              message: `Select key for signature ${i + 1}:`,
+              choices: storedKeys
+                .filter((k) => !usedSigners.has(k.name))
+                .map((k) => ({ name: colors.highlight(k.name), value: k })),
+            });
+
+            const success = await signWithPrivateKey(storedKey.privateKey);
+
+            if (!success) {
+              // If signing failed, retry this signature
+              i--;
+              continue;
+            }
+            usedSigners.add(storedKey.name);
           } else if (signMethod === "privkey") {
             // Sign with private key
             console.log(
@@ -2746,6 +3199,18 @@ export class MultisigCommands {
         return false;
       }
 
+      // Caravan cannot import Schnorr signatures; hand back the signed PSBT
+      if (caravanConfig?.addressType === AddressType.P2TR) {
+        console.log(formatWarning(TAPROOT_CARAVAN_NOTE));
+        console.log(
+          boxText(colors.code(currentPSBT), {
+            title: "Signed PSBT (finalize with Bitcoin Core)",
+            titleColor: colors.info,
+          }),
+        );
+        return { signatures: [], psbt: currentPSBT };
+      }
+
       // Step 5: Extract signatures directly from the decoded PSBT
       // We only need an array of signature strings for Caravan
 
@@ -3077,7 +3542,7 @@ export class MultisigCommands {
         const caravanConfig: CaravanWalletConfig = {
           name: walletName,
           addressType,
-          network: "regtest",
+          network: this.getNetwork(),
           quorum: {
             requiredSigners: requiredSigners!,
             totalSigners: totalSigners!,
@@ -3593,7 +4058,7 @@ export class MultisigCommands {
     const caravanConfig: CaravanWalletConfig = {
       name: walletName,
       addressType,
-      network: "regtest",
+      network: this.getNetwork(),
       quorum: {
         requiredSigners: requiredSigners,
         totalSigners: totalSigners,
@@ -3679,14 +4144,17 @@ export class MultisigCommands {
       }
     }
 
-    // Verify addresses are multisig addresses (should start with bcrt1q for P2WSH in regtest)
+    // Verify addresses are multisig addresses (bcrt1q for P2WSH in regtest, tb1q on signet)
+    const hrp = this.getNetwork() === "signet" ? "tb1" : "bcrt1";
     const validAddresses = multisigAddresses.filter((addr) => {
       switch (addressType) {
         case AddressType.P2WSH:
-          return addr.startsWith("bcrt1q");
+          return addr.startsWith(`${hrp}q`);
+        case AddressType.P2TR:
+          return addr.startsWith(`${hrp}p`);
         case AddressType.P2SH_P2WSH:
         case AddressType.P2SH:
-          return addr.startsWith("2") || addr.startsWith("bcrt1q");
+          return addr.startsWith("2") || addr.startsWith(`${hrp}q`);
         default:
           return true;
       }
@@ -3878,6 +4346,11 @@ export class MultisigCommands {
     // Build xpub strings with full derivation info like Caravan does
     // Format: [fingerprint/derivation/path]xpub/internal_or_external/*
     const xpubsWithDerivation = extendedPublicKeys.map((key) => {
+      // Keys supplied without a fingerprint have no origin to describe
+      if (!key.xfp || !key.bip32Path) {
+        return { origin: "", xpub: key.xpub };
+      }
+
       // Extract the derivation path numbers (remove 'm/' and 'h')
       const pathParts = key.bip32Path
         .replace(/^m\//, "")
@@ -3886,22 +4359,19 @@ export class MultisigCommands {
       const derivationPath = pathParts.join("/");
 
       return {
-        fingerprint: key.xfp,
-        derivationPath,
+        origin: `[${key.xfp}/${derivationPath}]`,
         xpub: key.xpub,
       };
     });
 
     // Create receive descriptor (0/*)
     const receiveXpubs = xpubsWithDerivation.map(
-      ({ fingerprint, derivationPath, xpub }) =>
-        `[${fingerprint}/${derivationPath}]${xpub}/0/*`,
+      ({ origin, xpub }) => `${origin}${xpub}/0/*`,
     );
 
     // Create change descriptor (1/*)
     const changeXpubs = xpubsWithDerivation.map(
-      ({ fingerprint, derivationPath, xpub }) =>
-        `[${fingerprint}/${derivationPath}]${xpub}/1/*`,
+      ({ origin, xpub }) => `${origin}${xpub}/1/*`,
     );
 
     // Use sortedmulti like Caravan does - this automatically sorts keys in BIP67 order
@@ -3921,6 +4391,18 @@ export class MultisigCommands {
         receiveDescriptor = `sh(sortedmulti(${requiredSigners},${receiveXpubs.join(",")}))`;
         changeDescriptor = `sh(sortedmulti(${requiredSigners},${changeXpubs.join(",")}))`;
         break;
+      case AddressType.P2TR:
+        receiveDescriptor = buildTaprootMultisigDescriptor(
+          receiveXpubs,
+          requiredSigners,
+          caravanConfig.taproot,
+        );
+        changeDescriptor = buildTaprootMultisigDescriptor(
+          changeXpubs,
+          requiredSigners,
+          caravanConfig.taproot,
+        );
+        break;
       default:
         throw new Error(`Unsupported address type: ${addressType}`);
     }
@@ -0,0 +1,148 @@
+/**
+ * Node Topology Commands for Caravan-X
+ */
+
+import ora from "ora";
+import chalk from "chalk";
+import Table from "cli-table3";
+import {
+  NodeTopologyService,
+  NodeStatus,
+  ReconnectResult,
+} from "../core/topology";
+import { colors, truncate } from "../utils/terminal";
+
+export class NodeCommands {
+  private topologyService: NodeTopologyService;
+
+  constructor(topologyService: NodeTopologyService) {
+    this.topologyService = topologyService;
+  }
+
+  async showStatus(json = false): Promise<NodeStatus[]> {
+    const statuses = await this.topologyService.getStatus();
+
+    if (json) {
+      console.log(JSON.stringify(statuses, null, 2));
+      return statuses;
+    }
+
+    console.log(chalk.bold("\n🕸️  Regtest Nodes\n"));
+
+    const table = new Table({
+      head: ["Node", "Container", "State", "RPC", "Height", "Tip", "Peers"],
+    });
+
+    for (const node of statuses) {
+      table.push([
+        node.primary ? `${node.name} ${colors.muted("(primary)")}` : node.name,
+        node.containerName,
+        node.running ? colors.success("running") : colors.muted("stopped"),
+        node.rpcPort?.toString() ?? "-",
+        node.blocks?.toString() ?? "-",
+        node.bestBlockHash ? truncate(node.bestBlockHash, 6) : "-",
+        node.peers?.toString() ?? "-",
+      ]);
+    }
+
+    console.log(table.toString());
+    return statuses;
+  }
+
+  async startNodes(): Promise<void> {
+    await this.topologyService.startNodes();
+
+    const spinner = ora("Waiting for nodes to sync...").start();
+    if (await this.topologyService.waitForSync()) {
+      spinner.succeed("All nodes are connected and in sync");
+    } else {
+      spinner.warn("Nodes started but have not converged on one tip yet");
+    }
+
+    await this.showStatus();
+  }
+
+  async stopNodes(): Promise<void> {
+    await this.topologyService.stopNodes();
+  }
+
+  async mine(
+    node: string,
+    blocks: number,
+    wallet?: string,
+    json = false,
+  ): Promise<string[]> {
+    const spinner = ora(`Mining ${blocks} block(s) on ${node}...`).start();
+    const hashes = await this.topologyService.mine(node, blocks, wallet);
+    spinner.succeed(`Mined ${hashes.length} block(s) on ${node}`);
+
+    if (json) {
+      console.log(JSON.stringify(hashes, null, 2));
+    }
+    return hashes;
+  }
+
+  async callRpc(
+    node: string,
+    method: string,
+    params: any[],
+    wallet?: string,
+  ): Promise<any> {
+    const result = await this.topologyService.callRpc(
+      node,
+      method,
+      params,
+      wallet,
+    );
+    console.log(
+      typeof result === "string" ? result : JSON.stringify(result, null, 2),
+    );
+    return result;
+  }
+
+  async partition(nodes: string[]): Promise<void> {
+    const spinner = ora("Partitioning network...").start();
+    const { isolated, rest } = await this.topologyService.partition(nodes);
+    spinner.succeed("Network partitioned");
+
+    console.log(`  Side A: ${isolated.join(", ")}`);
+    console.log(`  Side B: ${rest.join(", ")}`);
+    console.log(
+      colors.info(
+        "\nMine on both sides, then run `caravan-x node reconnect` to reorg onto the longer chain.",
+      ),
+    );
+  }
+
+  async reconnect(json = false): Promise<ReconnectResult> {
+    const spinner = ora("Reconnecting nodes...").start();
+    const result = await this.topologyService.reconnect();
+
+    if (result.synced) {
+      spinner.succeed("Nodes reconnected and converged on one tip");
+    } else {
+      spinner.warn("Nodes reconnected but have not converged yet");
+    }
+
+    if (json) {
+      console.log(JSON.stringify(result, null, 2));
+      return result;
+    }
+
+    const table = new Table({
+      head: ["Node", "Before", "After", "Reorg"],
+    });
+
+    for (const node of result.nodes) {
+      table.push([
+        node.name,
+        `${node.heightBefore} ${colors.muted(truncate(node.tipBefore, 6))}`,
+        `${node.heightAfter} ${colors.muted(truncate(node.tipAfter, 6))}`,
+        node.reorged ? colors.warning("yes") : "no",
+      ]);
+    }
+
+    console.log(table.toString());
+    return result;
+  }
+}
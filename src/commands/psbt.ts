@@ -0,0 +1,100 @@
+/**
+ * PSBT Repair Commands for Caravan-X
+ */
+
+import ora from "ora";
+import chalk from "chalk";
+import * as fs from "fs-extra";
+import * as path from "path";
+import {
+  PSBTRepairService,
+  PSBTRepairChange,
+  PSBTRepairResult,
+  RepairOptions,
+} from "../core/psbtRepair";
+import { TransactionService } from "../core/transaction";
+import { colors } from "../utils/terminal";
+
+export interface FixOptions extends RepairOptions {
+  /** Where to write the repaired PSBT; defaults to <name>-fixed.psbt */
+  output?: string;
+}
+
+export class PSBTCommands {
+  private psbtRepairService: PSBTRepairService;
+  private transactionService: TransactionService;
+
+  constructor(
+    psbtRepairService: PSBTRepairService,
+    transactionService: TransactionService,
+  ) {
+    this.psbtRepairService = psbtRepairService;
+    this.transactionService = transactionService;
+  }
+
+  async fix(
+    file: string,
+    options: FixOptions = {},
+    json = false,
+  ): Promise<PSBTRepairResult> {
+    const data = this.transactionService.readPSBT(await fs.readFile(file));
+    const output =
+      options.output ||
+      path.join(
+        path.dirname(file),
+        `${path.basename(file, path.extname(file))}-fixed.psbt`,
+      );
+
+    const spinner = ora("Repairing PSBT...").start();
+    let result: PSBTRepairResult;
+    try {
+      result = await this.psbtRepairService.repair(data, options);
+      spinner.succeed(
+        result.changes.length > 0
+          ? `Repaired PSBT with ${result.changes.length} change(s)`
+          : "PSBT needed no changes",
+      );
+    } catch (error) {
+      spinner.fail("Failed to repair PSBT");
+      throw error;
+    }
+
+    await fs.writeFile(output, result.psbt);
+
+    if (json) {
+      console.log(JSON.stringify({ ...result, output }, null, 2));
+      return result;
+    }
+
+    console.log(
+      chalk.bold(
+        `\n🩹 PSBT repaired for ${
+          result.wallets.length > 0 ? result.wallets.join(", ") : "no wallet"
+        }\n`,
+      ),
+    );
+
+    for (const change of result.changes) {
+      console.log(colors.success(`  ✓ ${describe(change)}`));
+    }
+    for (const change of result.missing) {
+      console.log(colors.warning(`  ! ${describe(change)}`));
+    }
+    for (const note of result.notes) {
+      console.log(colors.muted(`  ${note}`));
+    }
+
+    console.log(colors.success(`\n✓ Repaired PSBT saved to ${output}`));
+    return result;
+  }
+}
+
+function describe(change: PSBTRepairChange): string {
+  const where =
+    change.input !== undefined
+      ? `input ${change.input}: `
+      : change.output !== undefined
+        ? `output ${change.output}: `
+        : "";
+  return `${where}${change.message}`;
+}
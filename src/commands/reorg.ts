@@ -0,0 +1,86 @@
+/**
+ * Reorg Commands for Caravan-X
+ */
+
+import ora from "ora";
+import chalk from "chalk";
+import Table from "cli-table3";
+import { ReorgService, ReorgOptions, ReorgResult } from "../core/reorg";
+import { colors, truncate } from "../utils/terminal";
+
+export class ReorgCommands {
+  private reorgService: ReorgService;
+
+  constructor(reorgService: ReorgService) {
+    this.reorgService = reorgService;
+  }
+
+  async runReorg(options: ReorgOptions, json = false): Promise<ReorgResult> {
+    const spinner = ora(
+      `Reorganizing the last ${options.depth} block(s)...`,
+    ).start();
+
+    let result: ReorgResult;
+    try {
+      result = await this.reorgService.reorg(options);
+      spinner.succeed(
+        `Reorg complete: ${result.invalidatedBlocks.length} block(s) replaced by ${result.branchBlocks.length}`,
+      );
+    } catch (error) {
+      spinner.fail("Reorg failed");
+      throw error;
+    }
+
+    if (json) {
+      console.log(JSON.stringify(result, null, 2));
+    } else {
+      this.displayReorgResult(result);
+    }
+
+    return result;
+  }
+
+  private displayReorgResult(result: ReorgResult): void {
+    console.log(chalk.bold("\n🔀 Chain Reorganization\n"));
+    console.log(`Fork point: block ${result.forkHeight}`);
+    console.log(`Old tip: ${result.oldTip}`);
+    console.log(`New tip: ${result.newTip} (height ${result.newHeight})`);
+
+    for (const doubleSpend of result.doubleSpends) {
+      console.log(
+        colors.warning(
+          `Double-spent ${truncate(doubleSpend.originalTxid)} with ${truncate(doubleSpend.txid)} (${doubleSpend.wallet})`,
+        ),
+      );
+    }
+
+    if (result.changes.length === 0) {
+      console.log(colors.muted("\nNo wallet transactions changed status."));
+      return;
+    }
+
+    const table = new Table({
+      head: ["Wallet", "Transaction", "Before", "After"],
+    });
+
+    for (const change of result.changes) {
+      const after =
+        change.after === "conflicted" || change.after === "absent"
+          ? colors.error(change.after)
+          : change.after === "unconfirmed"
+            ? colors.warning(change.after)
+            : change.blockChanged
+              ? colors.info(`${change.after} (new block)`)
+              : colors.success(change.after);
+
+      table.push([
+        change.wallet,
+        truncate(change.txid),
+        `${change.before}${change.confirmationsBefore !== undefined ? ` (${change.confirmationsBefore})` : ""}`,
+        `${after}${change.confirmationsAfter !== undefined ? ` (${change.confirmationsAfter})` : ""}`,
+      ]);
+    }
+
+    console.log("\n" + table.toString());
+  }
+}
@@ -13,6 +13,7 @@ import { BitcoinService } from "../core/bitcoin";
 import { CaravanService } from "../core/caravan";
 import { MultisigCommands } from "./multisig";
 import { TransactionService } from "../core/transaction";
+import { TimeService } from "../core/time";
 import {
   colors,
   displayCommandTitle,
@@ -49,6 +50,7 @@ export class ScriptCommands {
     transactionService: TransactionService,
     rpcClient: BitcoinRpcClient,
     multisigCommands: MultisigCommands,
+    timeService?: TimeService,
   ) {
     this.configManager = configManager;
     this.bitcoinService = bitcoinService;
@@ -65,6 +67,7 @@ export class ScriptCommands {
       configManager,
       rpcClient,
       multisigCommands,
+      timeService,
     );
   }
 
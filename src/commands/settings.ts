@@ -277,23 +277,6 @@ export class SettingsCommands {
     const targetProfiles =
       await this.profileManager.getProfilesByMode(targetMode);
 
-    if (targetMode === SetupMode.MANUAL && targetProfiles.length > 0) {
-      // Only one manual profile allowed — just offer to switch to it
-      const profile = await this.profileManager.getProfile(
-        targetProfiles[0].id,
-      );
-      if (profile) {
-        await fs.writeJson(this.configPath, profile.config, { spaces: 2 });
-        await this.profileManager.setActiveProfile(profile.id);
-        console.log(chalk.green(`\n✅ Switched to: ${profile.name}`));
-        console.log(
-          chalk.yellow("\nRestart Caravan-X for changes to take effect."),
-        );
-        await this.pressEnter();
-      }
-      return;
-    }
-
     if (targetProfiles.length > 0) {
       console.log(
         chalk.green(
@@ -350,23 +333,6 @@ export class SettingsCommands {
    * into the new profile's isolated directory.
    */
   private async createAndSwitchToNew(mode: SetupMode): Promise<void> {
-    // Enforce single-profile limit for Manual mode
-    if (mode === SetupMode.MANUAL) {
-      const existing = await this.profileManager.getProfilesByMode(
-        SetupMode.MANUAL,
-      );
-      if (existing.length > 0) {
-        console.log(
-          chalk.yellow(
-            "\n⚠️  Manual mode only supports one profile.\n" +
-              "   Delete the existing manual profile first, or use Docker mode.\n",
-          ),
-        );
-        await this.pressEnter();
-        return;
-      }
-    }
-
     const wizard = new SetupWizard(this.appDir);
 
     // DEV: Wizard only collects preferences — no Docker start
@@ -374,7 +340,10 @@ export class SettingsCommands {
     if (mode === SetupMode.DOCKER) {
       config = await wizard.setupDockerMode();
     } else {
-      config = await wizard.setupManualMode();
+      // Only one Manual profile may use an external bitcoind
+      config = await wizard.setupManualMode({
+        requireManaged: await this.profileManager.hasExternalManualProfile(),
+      });
     }
 
     const profileName = await input({
@@ -4,8 +4,18 @@
 
 import { select, input, confirm, checkbox } from "@inquirer/prompts";
 import chalk from "chalk";
-import { SnapshotService } from "../core/snapshot";
-import { colors, displayCommandTitle } from "../utils/terminal";
+import {
+  SnapshotService,
+  SnapshotDiff,
+  SnapshotDiskUsage,
+} from "../core/snapshot";
+import {
+  colors,
+  displayCommandTitle,
+  formatBitcoin,
+  formatBytes,
+  truncate,
+} from "../utils/terminal";
 import Table from "cli-table3";
 
 export class SnapshotCommands {
@@ -26,6 +36,7 @@ export class SnapshotCommands {
         { name: "♻️  Restore Snapshot", value: "restore" },
         { name: "🔍 Compare Snapshots", value: "diff" },
         { name: "🗑️  Delete Snapshot", value: "delete" },
+        { name: "💾 Disk Usage", value: "du" },
         { name: "🔙 Back", value: "back" },
       ],
     });
@@ -46,6 +57,9 @@ export class SnapshotCommands {
       case "delete":
         await this.deleteSnapshot();
         break;
+      case "du":
+        await this.showDiskUsage();
+        break;
       case "back":
         return;
     }
@@ -154,7 +168,29 @@ export class SnapshotCommands {
     });
 
     const diff = await this.snapshotService.diffSnapshots(snapshot1, snapshot2);
+    this.displaySnapshotDiff(diff);
+  }
+
+  /**
+   * Compare two snapshots by ID or name, as a table or JSON
+   */
+  async diffSnapshots(
+    first: string,
+    second: string,
+    json = false,
+  ): Promise<SnapshotDiff> {
+    const diff = await this.snapshotService.diffSnapshots(first, second);
+
+    if (json) {
+      console.log(JSON.stringify(diff, null, 2));
+    } else {
+      this.displaySnapshotDiff(diff);
+    }
 
+    return diff;
+  }
+
+  private displaySnapshotDiff(diff: SnapshotDiff): void {
     console.log(chalk.bold("\n🔍 Snapshot Comparison\n"));
     console.log(`${diff.snapshot1.name} → ${diff.snapshot2.name}`);
     console.log(`Block height difference: ${diff.heightDiff}`);
@@ -164,6 +200,117 @@ export class SnapshotCommands {
     console.log(
       `Wallets removed: ${diff.walletsDiff.removed.join(", ") || "none"}`,
     );
+
+    if (!diff.stateAvailable) {
+      console.log(
+        colors.warning(
+          "\nWallet state was not recorded for one of these snapshots; only heights and wallet names can be compared.",
+        ),
+      );
+      return;
+    }
+
+    const table = new Table({
+      head: [
+        "Wallet",
+        "Before",
+        "After",
+        "Delta",
+        "UTXOs +/-",
+        "New Txs",
+        "Descriptors +/-",
+      ],
+    });
+
+    for (const wallet of diff.wallets) {
+      const delta =
+        wallet.balanceDelta > 0
+          ? colors.success(`+${wallet.balanceDelta}`)
+          : wallet.balanceDelta < 0
+            ? colors.error(`${wallet.balanceDelta}`)
+            : "0";
+
+      table.push([
+        wallet.name,
+        formatBitcoin(wallet.balanceBefore),
+        formatBitcoin(wallet.balanceAfter),
+        delta,
+        `+${wallet.utxosAdded.length} / -${wallet.utxosRemoved.length}`,
+        wallet.newTxids.length,
+        `+${wallet.descriptorsAdded.length} / -${wallet.descriptorsRemoved.length}`,
+      ]);
+    }
+
+    console.log("\n" + table.toString());
+
+    for (const wallet of diff.wallets) {
+      if (wallet.newTxids.length === 0) {
+        continue;
+      }
+      console.log(chalk.bold(`\n${wallet.name} new transactions:`));
+      for (const txid of wallet.newTxids) {
+        console.log(`  ${truncate(txid, 12)}`);
+      }
+    }
+
+    console.log(chalk.bold("\nMempool:"));
+    console.log(
+      `  Entered: ${diff.mempool.added.map((txid) => truncate(txid, 8)).join(", ") || "none"}`,
+    );
+    console.log(
+      `  Left: ${diff.mempool.removed.map((txid) => truncate(txid, 8)).join(", ") || "none"}`,
+    );
+  }
+
+  /**
+   * Show shared vs. unique bytes per snapshot, as a table or JSON
+   */
+  async showDiskUsage(json = false): Promise<SnapshotDiskUsage> {
+    const usage = await this.snapshotService.getDiskUsage();
+
+    if (json) {
+      console.log(JSON.stringify(usage, null, 2));
+      return usage;
+    }
+
+    if (usage.snapshots.length === 0) {
+      console.log(colors.warning("\nNo snapshots found."));
+      return usage;
+    }
+
+    const table = new Table({
+      head: ["Name", "Storage", "Restores", "Unique", "Shared"],
+      colWidths: [25, 10, 12, 12, 12],
+    });
+
+    for (const snapshot of usage.snapshots) {
+      table.push([
+        snapshot.name,
+        snapshot.storage,
+        formatBytes(snapshot.logicalBytes),
+        formatBytes(snapshot.uniqueBytes),
+        formatBytes(snapshot.sharedBytes),
+      ]);
+    }
+
+    console.log("\n" + table.toString());
+    console.log(
+      colors.info(
+        `\nStore: ${formatBytes(usage.storeBytes)} in ${usage.objectCount} chunks`,
+      ),
+    );
+    if (usage.archiveBytes > 0) {
+      console.log(
+        colors.info(`Legacy archives: ${formatBytes(usage.archiveBytes)}`),
+      );
+    }
+    console.log(
+      colors.info(
+        `On disk: ${formatBytes(usage.storeBytes + usage.archiveBytes)} for ${formatBytes(usage.logicalBytes)} of snapshot data`,
+      ),
+    );
+
+    return usage;
   }
 
   private async deleteSnapshot(): Promise<void> {
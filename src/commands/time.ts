@@ -0,0 +1,119 @@
+/**
+ * Time Control Commands for Caravan-X
+ */
+
+import ora from "ora";
+import chalk from "chalk";
+import {
+  TimeService,
+  TimeStatus,
+  AdvanceOptions,
+  AdvanceResult,
+} from "../core/time";
+import { colors, truncate } from "../utils/terminal";
+
+export class TimeCommands {
+  private timeService: TimeService;
+
+  constructor(timeService: TimeService) {
+    this.timeService = timeService;
+  }
+
+  async showStatus(json = false): Promise<TimeStatus> {
+    const status = await this.timeService.getStatus();
+
+    if (json) {
+      console.log(JSON.stringify(status, null, 2));
+    } else {
+      this.displayStatus(status);
+    }
+    return status;
+  }
+
+  async setTime(time: number | string, json = false): Promise<TimeStatus> {
+    const status = await this.timeService.setTime(time);
+    return this.report(status, "Node clock frozen", json);
+  }
+
+  async freeze(json = false): Promise<TimeStatus> {
+    const status = await this.timeService.freeze();
+    return this.report(status, "Node clock frozen", json);
+  }
+
+  async unfreeze(json = false): Promise<TimeStatus> {
+    const status = await this.timeService.unfreeze();
+    return this.report(status, "Node clock back on real time", json);
+  }
+
+  async advance(
+    duration: number | string,
+    options: AdvanceOptions,
+    json = false,
+  ): Promise<AdvanceResult> {
+    const spinner = ora("Advancing node time...").start();
+
+    let result: AdvanceResult;
+    try {
+      result = await this.timeService.advance(duration, options);
+      spinner.succeed(
+        `Advanced node time by ${formatDuration(result.advancedBy)}${
+          result.blockHashes.length > 0
+            ? `, mining ${result.blockHashes.length} block(s)`
+            : ""
+        }`,
+      );
+    } catch (error) {
+      spinner.fail("Failed to advance node time");
+      throw error;
+    }
+
+    if (json) {
+      console.log(JSON.stringify(result, null, 2));
+      return result;
+    }
+
+    this.displayStatus(result);
+    for (const hash of result.blockHashes) {
+      console.log(colors.muted(`  mined ${truncate(hash)}`));
+    }
+    return result;
+  }
+
+  private report(
+    status: TimeStatus,
+    message: string,
+    json: boolean,
+  ): TimeStatus {
+    if (json) {
+      console.log(JSON.stringify(status, null, 2));
+    } else {
+      console.log(colors.success(`✓ ${message}`));
+      this.displayStatus(status);
+    }
+    return status;
+  }
+
+  private displayStatus(status: TimeStatus): void {
+    console.log(chalk.bold("\n🕰️  Node Time\n"));
+    console.log(
+      `Node time: ${formatTime(status.nodeTime)} ${
+        status.frozen
+          ? colors.warning("(frozen)")
+          : colors.muted("(real clock)")
+      }`,
+    );
+    console.log(`Tip: block ${status.height} at ${formatTime(status.tipTime)}`);
+    console.log(`Median time past: ${formatTime(status.medianTime)}`);
+  }
+}
+
+function formatTime(time: number): string {
+  return `${new Date(time * 1000).toISOString()} (${time})`;
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds % 86400 === 0) return `${seconds / 86400}d`;
+  if (seconds % 3600 === 0) return `${seconds / 3600}h`;
+  if (seconds % 60 === 0) return `${seconds / 60}m`;
+  return `${seconds}s`;
+}
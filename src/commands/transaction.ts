@@ -2,10 +2,22 @@
 import { TransactionService } from "../core/transaction";
 import { CaravanService } from "../core/caravan";
 import { BitcoinService } from "../core/bitcoin";
+import {
+  CosignerStatus,
+  PSBTAnalysis,
+  PSBTAnalysisService,
+} from "../core/psbtAnalysis";
+import { promptCoinControl } from "./coins";
+import {
+  CoinControlOptions,
+  PSBTWalletMatch,
+  SignatureImportResult,
+} from "../types/bitcoin";
 import { input, confirm, select, number, password } from "@inquirer/prompts";
 import * as fs from "fs-extra";
 import clipboard from "clipboardy";
 import ora from "ora";
+import Table from "cli-table3";
 import {
   colors,
   displayCommandTitle,
@@ -30,15 +42,18 @@ export class TransactionCommands {
   private readonly transactionService: TransactionService;
   private readonly caravanService: CaravanService;
   private readonly bitcoinService: BitcoinService;
+  private readonly psbtAnalysisService: PSBTAnalysisService;
 
   constructor(
     transactionService: TransactionService,
     caravanService: CaravanService,
     bitcoinService: BitcoinService,
+    psbtAnalysisService: PSBTAnalysisService,
   ) {
     this.transactionService = transactionService;
     this.caravanService = caravanService;
     this.bitcoinService = bitcoinService;
+    this.psbtAnalysisService = psbtAnalysisService;
   }
 
   /**
@@ -291,12 +306,42 @@ export class TransactionCommands {
         );
       }
 
+      const useCoinControl = await confirm({
+        message: "Choose which coins to spend (coin control)?",
+        default: false,
+      });
+      const coinControl = useCoinControl
+        ? await promptCoinControl(
+            this.transactionService,
+            selectedWallet,
+            outputs,
+          )
+        : undefined;
+
       // Show summary
       console.log(divider());
       console.log(colors.header("Transaction Summary"));
       console.log(keyValue("Total amount", formatBitcoin(totalAmount)));
       console.log(keyValue("From wallet", selectedWallet));
       console.log(keyValue("Number of outputs", numOutputs!.toString()));
+      if (coinControl) {
+        console.log(
+          keyValue(
+            "Inputs",
+            `${coinControl.inputs!.length} chosen${coinControl.addInputs ? ", more if needed" : " only"}`,
+          ),
+        );
+        if (coinControl.subtractFeeFromOutputs!.length > 0) {
+          console.log(
+            keyValue(
+              "Fee paid by outputs",
+              coinControl
+                .subtractFeeFromOutputs!.map((index) => `#${index + 1}`)
+                .join(", "),
+            ),
+          );
+        }
+      }
 
       // Confirm with back option
       const confirmOptions = [
@@ -323,6 +368,7 @@ export class TransactionCommands {
         psbt = await this.transactionService.createPSBT(
           selectedWallet,
           outputs,
+          coinControl,
         );
         createSpinner.succeed("PSBT created successfully");
       } catch (error) {
@@ -424,6 +470,30 @@ export class TransactionCommands {
     }
   }
 
+  /**
+   * Create a PSBT without prompts and print it, for the command line
+   */
+  async createPSBTFromOptions(
+    wallet: string,
+    outputs: Record<string, number>[],
+    coinControl: CoinControlOptions,
+  ): Promise<string> {
+    const spinner = ora("Creating PSBT...").start();
+    try {
+      const psbt = await this.transactionService.createPSBT(
+        wallet,
+        outputs,
+        coinControl,
+      );
+      spinner.succeed("PSBT created successfully");
+      console.log(psbt);
+      return psbt;
+    } catch (error) {
+      spinner.fail("Error creating PSBT");
+      throw error;
+    }
+  }
+
   /**
    * Sign a PSBT with a wallet
    */
@@ -823,12 +893,17 @@ export class TransactionCommands {
 
       try {
         caravanWallets = await this.caravanService.listCaravanWallets();
-        caravanConfig =
-          await this.transactionService.detectCaravanWalletForPSBT(
-            psbtBase64,
-            caravanWallets,
-          );
+        const { matches } = await this.transactionService.matchCaravanWallets(
+          psbtBase64,
+          caravanWallets,
+        );
+        caravanConfig = caravanWallets.find(
+          (wallet) => wallet.name === matches[0]?.wallet,
+        );
         detectSpinner.succeed("PSBT analysis complete");
+        if (matches.length > 1) {
+          displayWalletMatches(matches);
+        }
       } catch (error) {
         return this.handleSpinnerError(
           detectSpinner,
@@ -1701,243 +1776,133 @@ export class TransactionCommands {
   }
 
   /**
-   * Analyze a PSBT (decode and show details)
+   * Analyze a PSBT: signing status per cosigner, fee, change and warnings.
+   * With a file the analysis is printed without prompts.
    */
-  async analyzePSBT(): Promise<any | false | null> {
-    displayCommandTitle("Analyze PSBT");
+  async analyzePSBT(
+    file?: string,
+    json = false,
+  ): Promise<PSBTAnalysis | false | null> {
+    if (!json) {
+      displayCommandTitle("Analyze PSBT");
+    }
 
     try {
-      // Get the PSBT with back option
-      const sourceOptions = [
-        { name: colors.highlight("Load from file"), value: "file" },
-        { name: colors.highlight("Paste Base64 string"), value: "paste" },
-        { name: colors.highlight("Read from clipboard"), value: "clipboard" },
-      ];
-
-      const source = await select({
-        message: "How would you like to provide the PSBT?",
-        choices: this.addBackOption(sourceOptions),
-      });
-
-      // Check if user wants to go back
-      if (this.isBackOption(source)) {
-        return false;
-      }
-
       let psbtBase64: string;
 
-      switch (source) {
-        case "file": {
-          // Get filename with back option
-          const filename = await this.inputWithBack({
-            message: "Enter path to PSBT file:",
-            validate: (input) =>
-              fs.existsSync(input) ? true : "File does not exist",
-          });
+      if (file) {
+        psbtBase64 = this.transactionService.readPSBT(await fs.readFile(file));
+      } else {
+        // Get the PSBT with back option
+        const sourceOptions = [
+          { name: colors.highlight("Load from file"), value: "file" },
+          { name: colors.highlight("Paste Base64 string"), value: "paste" },
+          { name: colors.highlight("Read from clipboard"), value: "clipboard" },
+        ];
 
-          // Check if user wants to go back
-          if (this.isBackOption(filename)) {
-            return false;
-          }
+        const source = await select({
+          message: "How would you like to provide the PSBT?",
+          choices: this.addBackOption(sourceOptions),
+        });
 
-          // Read with proper error handling
-          const readSpinner = ora(`Reading PSBT from ${filename}...`).start();
-          try {
-            psbtBase64 = (await fs.readFile(filename, "utf8")).trim();
-            readSpinner.succeed("PSBT loaded from file");
-          } catch (error) {
-            return this.handleSpinnerError(
-              readSpinner,
-              `Error reading from ${filename}`,
-              error,
-            );
-          }
-          break;
+        // Check if user wants to go back
+        if (this.isBackOption(source)) {
+          return false;
         }
-        case "paste": {
-          // Get PSBT string with back option
-          const pastedPsbt = await this.inputWithBack({
-            message: "Paste the base64-encoded PSBT:",
-            validate: (input) =>
-              input.trim() !== "" ? true : "Please enter a valid PSBT",
-          });
 
-          // Check if user wants to go back
-          if (this.isBackOption(pastedPsbt)) {
-            return false;
-          }
+        switch (source) {
+          case "file": {
+            // Get filename with back option
+            const filename = await this.inputWithBack({
+              message: "Enter path to PSBT file:",
+              validate: (input) =>
+                fs.existsSync(input) ? true : "File does not exist",
+            });
 
-          psbtBase64 = pastedPsbt.trim();
-          break;
-        }
-        case "clipboard":
-          // Read from clipboard with proper error handling
-          try {
-            const clipboardSpinner = ora("Reading from clipboard...").start();
-            psbtBase64 = await clipboard.read();
-            clipboardSpinner.succeed("PSBT read from clipboard");
-          } catch (error) {
-            return this.handleSpinnerError(
-              clipboardSpinner,
-              "Error reading from clipboard",
-              error,
-            );
-          }
-          break;
-      }
+            // Check if user wants to go back
+            if (this.isBackOption(filename)) {
+              return false;
+            }
 
-      // Detect Caravan PSBT with proper error handling
-      const detectSpinner = ora(
-        "Detecting if this is a Caravan PSBT...",
-      ).start();
-      let caravanWallets;
-      let caravanConfig;
+            // Read with proper error handling
+            const readSpinner = ora(`Reading PSBT from ${filename}...`).start();
+            try {
+              psbtBase64 = (await fs.readFile(filename, "utf8")).trim();
+              readSpinner.succeed("PSBT loaded from file");
+            } catch (error) {
+              return this.handleSpinnerError(
+                readSpinner,
+                `Error reading from ${filename}`,
+                error,
+              );
+            }
+            break;
+          }
+          case "paste": {
+            // Get PSBT string with back option
+            const pastedPsbt = await this.inputWithBack({
+              message: "Paste the base64-encoded PSBT:",
+              validate: (input) =>
+                input.trim() !== "" ? true : "Please enter a valid PSBT",
+            });
 
-      try {
-        caravanWallets = await this.caravanService.listCaravanWallets();
-        caravanConfig =
-          await this.transactionService.detectCaravanWalletForPSBT(
-            psbtBase64,
-            caravanWallets,
-          );
-      } catch (error) {
-        detectSpinner.warn("Error detecting Caravan wallet");
-        console.log(
-          formatWarning("Could not check if this is a Caravan PSBT."),
-        );
-        caravanConfig = null;
-      }
+            // Check if user wants to go back
+            if (this.isBackOption(pastedPsbt)) {
+              return false;
+            }
 
-      if (caravanConfig) {
-        detectSpinner.succeed("Caravan wallet detected");
-        console.log(
-          boxText(
-            `PSBT belongs to Caravan wallet: ${colors.highlight(caravanConfig.name)}\n` +
-              `Quorum: ${colors.highlight(`${caravanConfig.quorum.requiredSigners} of ${caravanConfig.quorum.totalSigners}`)}`,
-            { title: "Caravan Wallet Information", titleColor: colors.success },
-          ),
-        );
-      } else {
-        detectSpinner.succeed("PSBT analysis complete");
+            psbtBase64 = pastedPsbt.trim();
+            break;
+          }
+          case "clipboard":
+            // Read from clipboard with proper error handling
+            try {
+              const clipboardSpinner = ora("Reading from clipboard...").start();
+              psbtBase64 = await clipboard.read();
+              clipboardSpinner.succeed("PSBT read from clipboard");
+            } catch (error) {
+              return this.handleSpinnerError(
+                clipboardSpinner,
+                "Error reading from clipboard",
+                error,
+              );
+            }
+            break;
+        }
       }
 
-      // Decode the PSBT with proper error handling
-      const decodeSpinner = ora("Decoding PSBT...").start();
-      let decodedPsbt;
-
+      const analyzeSpinner = ora("Analyzing PSBT...").start();
+      let analysis: PSBTAnalysis;
       try {
-        decodedPsbt = await this.transactionService.decodePSBT(psbtBase64);
-        decodeSpinner.succeed("PSBT decoded successfully");
+        analysis = await this.psbtAnalysisService.analyze(psbtBase64);
+        analyzeSpinner.succeed("PSBT analyzed");
       } catch (error) {
         return this.handleSpinnerError(
-          decodeSpinner,
-          "Error decoding PSBT",
+          analyzeSpinner,
+          "Error analyzing PSBT",
           error,
         );
       }
 
-      // Display basic information
-      const basicInfo = `
-${keyValue("Version", decodedPsbt.tx.version.toString())}
-${keyValue("Locktime", decodedPsbt.tx.locktime.toString())}
-${keyValue("Inputs", decodedPsbt.tx.vin.length.toString())}
-${keyValue("Outputs", decodedPsbt.tx.vout.length.toString())}
-${
-  decodedPsbt.fee
-    ? keyValue("Fee", formatBitcoin(decodedPsbt.fee)) +
-      "\n" +
-      keyValue(
-        "Fee rate",
-        `${(decodedPsbt.fee / (decodedPsbt.tx.vsize / 1000)).toFixed(8)} BTC/kB`,
-      )
-    : ""
-}`;
-
-      console.log(
-        boxText(basicInfo, {
-          title: "Transaction Details",
-          titleColor: colors.header,
-        }),
-      );
-
-      // Ask for detail level with back option
-      const levelOptions = [
-        { name: colors.highlight("Basic"), value: "basic" },
-        { name: colors.highlight("Detailed"), value: "detailed" },
-        { name: colors.highlight("Raw JSON"), value: "raw" },
-      ];
-
-      const level = await select({
-        message: "How much detail would you like to see?",
-        choices: this.addBackOption(levelOptions),
-      });
-
-      // Check if user wants to go back
-      if (this.isBackOption(level)) {
-        return false;
+      if (json) {
+        console.log(JSON.stringify(analysis, null, 2));
+        return analysis;
       }
 
-      if (level === "detailed" || level === "raw") {
-        // Display inputs
-        console.log("\n" + colors.header("=== Inputs ==="));
-        decodedPsbt.inputs.forEach((input, index) => {
-          const inputInfo = `
-Input #${index + 1}:
-  ${keyValue("TXID", truncate(decodedPsbt.tx.vin[index].txid, 15))}
-  ${keyValue("VOUT", decodedPsbt.tx.vin[index].vout.toString())}
-  ${keyValue("Sequence", decodedPsbt.tx.vin[index].sequence.toString())}
-  ${
-    input.has_utxo
-      ? keyValue("Amount", formatBitcoin(input.utxo.amount)) +
-        "\n  " +
-        keyValue("Script Type", input.utxo.scriptPubKey.type || "Unknown") +
-        "\n  " +
-        keyValue("Address", input.utxo.scriptPubKey.address || "Unknown")
-      : ""
-  }
-  ${input.has_sighash ? keyValue("Sighash", input.sighash_type.toString()) : ""}
-  ${
-    input.partial_signatures
-      ? keyValue("Signatures", input.partial_signatures.length.toString()) +
-        input.partial_signatures
-          .map(
-            (sig, sigIndex) =>
-              `\n    Signature #${sigIndex + 1}: ${sig.pubkey ? truncate(sig.pubkey, 8) : "Unknown"}`,
-          )
-          .join("")
-      : ""
-  }`;
-
-          console.log(boxText(inputInfo, { padding: 1 }));
-        });
+      this.displayPSBTAnalysis(analysis);
 
-        // Display outputs
-        console.log("\n" + colors.header("=== Outputs ==="));
-        decodedPsbt.tx.vout.forEach((output, index) => {
-          const outputInfo = `
-Output #${index + 1}:
-  ${keyValue("Amount", formatBitcoin(output.value))}
-  ${keyValue("Script Type", output.scriptPubKey.type || "Unknown")}
-  ${keyValue("Address", output.scriptPubKey.address || "Unknown")}`;
-
-          console.log(boxText(outputInfo, { padding: 1 }));
-        });
-      }
-
-      // Display raw JSON if requested
-      if (level === "raw") {
-        console.log("\n" + colors.header("=== Raw PSBT Data ==="));
-        console.log(JSON.stringify(decodedPsbt, null, 2));
+      if (file) {
+        return analysis;
       }
 
       // Ask about saving with back option
       const saveOptions = [
-        { name: colors.highlight("Yes, save decoded PSBT"), value: "yes" },
+        { name: colors.highlight("Yes, save the analysis"), value: "yes" },
         { name: colors.highlight("No, skip saving"), value: "no" },
       ];
 
       const save = await select({
-        message: "Would you like to save the decoded PSBT to a file?",
+        message: "Would you like to save the analysis to a file?",
         choices: this.addBackOption(saveOptions),
       });
 
@@ -1950,7 +1915,7 @@ Output #${index + 1}:
         // Get filename with back option
         const filename = await this.inputWithBack({
           message: "Enter file name:",
-          default: "decoded-psbt.json",
+          default: "psbt-analysis.json",
         });
 
         // Check if user wants to go back
@@ -1959,12 +1924,10 @@ Output #${index + 1}:
         }
 
         // Save with proper error handling
-        const saveSpinner = ora(
-          `Saving decoded PSBT to ${filename}...`,
-        ).start();
+        const saveSpinner = ora(`Saving analysis to ${filename}...`).start();
         try {
-          await fs.writeJson(filename, decodedPsbt, { spaces: 2 });
-          saveSpinner.succeed("Decoded PSBT saved");
+          await fs.writeJson(filename, analysis, { spaces: 2 });
+          saveSpinner.succeed("Analysis saved");
         } catch (error) {
           return this.handleSpinnerError(
             saveSpinner,
@@ -1972,8 +1935,6 @@ Output #${index + 1}:
             error,
           );
         }
-
-        console.log(formatSuccess(`Decoded PSBT saved to ${filename}`));
       }
 
       // Ask what action to take next with back option
@@ -2004,14 +1965,313 @@ Output #${index + 1}:
           return this.signPSBTWithPrivateKey();
         case "finalize":
           return this.finalizeAndBroadcastPSBT(psbtBase64);
-        case "exit":
-          return decodedPsbt;
       }
 
-      return decodedPsbt;
+      return analysis;
     } catch (error) {
       console.error(formatError("Error analyzing PSBT:"), error);
       return false;
     }
   }
+
+  private displayPSBTAnalysis(analysis: PSBTAnalysis): void {
+    const summary = [
+      keyValue("TXID", analysis.txid),
+      keyValue(
+        "Wallet",
+        analysis.wallet
+          ? `${analysis.wallet} (${analysis.quorum.requiredSigners} of ${analysis.quorum.totalSigners}, ${describeConfidence(analysis.walletMatches[0])})`
+          : "No stored Caravan wallet matched",
+      ),
+      keyValue("Inputs", analysis.inputs.length.toString()),
+      keyValue("Outputs", analysis.outputs.length.toString()),
+      keyValue(
+        "Fee",
+        analysis.fee !== undefined ? formatBitcoin(analysis.fee) : "Unknown",
+      ),
+      keyValue(
+        "Estimated vsize",
+        analysis.estimatedVsize !== undefined
+          ? `${analysis.estimatedVsize} vB`
+          : "Unknown until every input has its UTXO and scripts",
+      ),
+      keyValue(
+        "Fee rate",
+        analysis.estimatedFeeRate !== undefined
+          ? `${analysis.estimatedFeeRate.toFixed(2)} sat/vB`
+          : "Unknown",
+      ),
+      keyValue(
+        "Next step",
+        analysis.complete
+          ? colors.success("ready to extract and broadcast")
+          : analysis.next,
+      ),
+    ].join("\n");
+
+    console.log(
+      boxText(summary, { title: "PSBT Analysis", titleColor: colors.header }),
+    );
+
+    const inputTable = new Table({
+      head: ["#", "Outpoint", "Amount", "Wallet", "Sigs", "Signed", "Missing"],
+    });
+    for (const input of analysis.inputs) {
+      const signed = input.cosigners
+        .filter((cosigner) => cosigner.state === "signed")
+        .map((cosigner) => cosignerLabel(cosigner))
+        .concat(input.unknownSigners.map((pubkey) => truncate(pubkey, 8)));
+      const missing = input.cosigners
+        .filter((cosigner) => cosigner.state !== "signed")
+        .map(
+          (cosigner) =>
+            `${cosignerLabel(cosigner)}${cosigner.state === "unknown" ? colors.muted(" (no derivation)") : ""}${cosigner.keyStored ? colors.info(" (key stored)") : ""}`,
+        );
+
+      inputTable.push([
+        input.index,
+        `${truncate(input.txid, 8)}:${input.vout}`,
+        input.amount !== undefined ? formatBitcoin(input.amount) : "-",
+        input.wallet || colors.muted("-"),
+        input.isFinal
+          ? colors.success("final")
+          : `${input.signatures}${input.requiredSigners ? `/${input.requiredSigners}` : ""}`,
+        colors.success(signed.join("\n")),
+        input.isFinal ? "" : colors.warning(missing.join("\n")),
+      ]);
+    }
+    console.log(colors.header("\nInputs"));
+    console.log(inputTable.toString());
+
+    const outputTable = new Table({
+      head: ["#", "Address", "Amount", "Type", "Change"],
+    });
+    for (const output of analysis.outputs) {
+      outputTable.push([
+        output.index,
+        output.address || colors.muted("-"),
+        formatBitcoin(output.amount),
+        output.scriptType,
+        output.change
+          ? colors.info(`change (${output.wallet})`)
+          : output.wallet
+            ? colors.info(output.wallet)
+            : "",
+      ]);
+    }
+    console.log(colors.header("\nOutputs"));
+    console.log(outputTable.toString());
+
+    if (analysis.walletMatches.length > 1) {
+      displayWalletMatches(analysis.walletMatches);
+    }
+
+    if (analysis.warnings.length > 0) {
+      console.log(colors.header("\nWarnings"));
+      for (const warning of analysis.warnings) {
+        const where =
+          warning.input !== undefined
+            ? `input ${warning.input}: `
+            : warning.output !== undefined
+              ? `output ${warning.output}: `
+              : "";
+        console.log(formatWarning(`${where}${warning.message}`));
+      }
+    }
+  }
+
+  /**
+   * Merge PSBT files signed by different cosigners into one. Prompts for
+   * the files when none are given.
+   */
+  async combinePSBTs(
+    files?: string[],
+    outputFile?: string,
+  ): Promise<string | false> {
+    displayCommandTitle("Combine PSBTs");
+
+    if (!files || files.length === 0) {
+      const answer = await this.inputWithBack({
+        message: "PSBT files to combine (separated by spaces):",
+        validate: (input) =>
+          input.trim().split(/\s+/).length >= 2
+            ? true
+            : "Enter at least two files",
+      });
+      if (this.isBackOption(answer)) {
+        return false;
+      }
+      files = answer.trim().split(/\s+/);
+
+      const output = await this.inputWithBack({
+        message: "Save the combined PSBT to (leave empty to display it):",
+        default: "",
+      });
+      if (this.isBackOption(output)) {
+        return false;
+      }
+      outputFile = output.trim() || undefined;
+    }
+
+    const spinner = ora(`Combining ${files.length} PSBTs...`).start();
+    let combined: string;
+    try {
+      const psbts = await Promise.all(
+        files.map(async (file) =>
+          this.transactionService.readPSBT(await fs.readFile(file)),
+        ),
+      );
+      combined = await this.transactionService.combinePSBTs(psbts);
+      spinner.succeed("PSBTs combined");
+    } catch (error) {
+      spinner.fail("Error combining PSBTs");
+      throw error;
+    }
+
+    this.displaySignatureCounts(combined);
+    await this.outputPSBT(combined, outputFile);
+    return combined;
+  }
+
+  /**
+   * Apply signatures exported from Caravan, or a PSBT signed in Caravan, to
+   * a PSBT. Prompts for the files when they are not given.
+   */
+  async importCaravanSignatures(
+    psbtFile?: string,
+    sourceFile?: string,
+    outputFile?: string,
+  ): Promise<SignatureImportResult | false> {
+    displayCommandTitle("Import Signatures from Caravan");
+
+    if (!psbtFile || !sourceFile) {
+      const psbtAnswer = await this.inputWithBack({
+        message: "PSBT file to add the signatures to:",
+        validate: (input) =>
+          fs.existsSync(input.trim()) ? true : "File does not exist",
+      });
+      if (this.isBackOption(psbtAnswer)) {
+        return false;
+      }
+
+      const sourceAnswer = await this.inputWithBack({
+        message: "Caravan signature JSON or signed PSBT file:",
+        validate: (input) =>
+          fs.existsSync(input.trim()) ? true : "File does not exist",
+      });
+      if (this.isBackOption(sourceAnswer)) {
+        return false;
+      }
+
+      const output = await this.inputWithBack({
+        message: "Save the signed PSBT to (leave empty to display it):",
+        default: "",
+      });
+      if (this.isBackOption(output)) {
+        return false;
+      }
+
+      psbtFile = psbtAnswer.trim();
+      sourceFile = sourceAnswer.trim();
+      outputFile = output.trim() || undefined;
+    }
+
+    const spinner = ora("Importing signatures...").start();
+    let result: SignatureImportResult;
+    try {
+      result = await this.transactionService.importCaravanSignatures(
+        this.transactionService.readPSBT(await fs.readFile(psbtFile)),
+        await fs.readFile(sourceFile),
+      );
+      spinner.succeed(
+        `Added ${result.added.length} signature(s) from ${
+          result.source === "psbt" ? "a signed PSBT" : "signature JSON"
+        }`,
+      );
+    } catch (error) {
+      spinner.fail("Error importing signatures");
+      throw error;
+    }
+
+    for (const { input, pubkey } of result.added) {
+      console.log(
+        colors.success(`  input ${input}: signed by ${truncate(pubkey)}`),
+      );
+    }
+    for (const { input, reason } of result.skipped) {
+      console.log(colors.warning(`  input ${input}: skipped, ${reason}`));
+    }
+
+    this.displaySignatureCounts(result.psbt);
+    await this.outputPSBT(result.psbt, outputFile);
+    return result;
+  }
+
+  private displaySignatureCounts(psbtBase64: string): void {
+    const counts = this.transactionService.countSignatures(psbtBase64);
+
+    console.log(colors.header("\nSignatures per input"));
+    counts.forEach((count, input) => {
+      console.log(keyValue(`Input ${input}`, count.toString()));
+    });
+  }
+
+  private async outputPSBT(psbt: string, outputFile?: string): Promise<void> {
+    if (outputFile) {
+      await fs.writeFile(outputFile, psbt);
+      console.log(formatSuccess(`PSBT saved to ${outputFile}`));
+    } else {
+      console.log(
+        boxText(colors.code(psbt), {
+          title: "PSBT (Base64)",
+          titleColor: colors.info,
+        }),
+      );
+    }
+  }
+}
+
+function cosignerLabel(cosigner: CosignerStatus): string {
+  return cosigner.fingerprint && cosigner.fingerprint !== cosigner.name
+    ? `${cosigner.name} [${cosigner.fingerprint}]`
+    : cosigner.name;
+}
+
+/**
+ * Confidence of a wallet match, naming the wallets it could not be told
+ * apart from
+ */
+function describeConfidence(match: PSBTWalletMatch): string {
+  return match.ambiguousWith
+    ? `ambiguous, could also be ${match.ambiguousWith.join(", ")}`
+    : `${match.confidence} confidence`;
+}
+
+/**
+ * Confidence report for a PSBT that spends from several Caravan wallets
+ */
+export function displayWalletMatches(matches: PSBTWalletMatch[]): void {
+  console.log(
+    formatWarning(`This PSBT spends from ${matches.length} Caravan wallets`),
+  );
+
+  const table = new Table({
+    head: ["Wallet", "Inputs", "Outputs", "Keys matched", "Confidence"],
+  });
+  for (const match of matches) {
+    table.push([
+      match.wallet,
+      match.inputs.join(", "),
+      match.outputs.join(", ") || colors.muted("-"),
+      `${match.matchedKeys}/${match.totalKeys}`,
+      match.confidence === "high"
+        ? colors.success(match.confidence)
+        : match.ambiguousWith
+          ? colors.warning(
+              `${match.confidence} (also ${match.ambiguousWith.join(", ")})`,
+            )
+          : colors.warning(match.confidence),
+    ]);
+  }
+  console.log(table.toString());
 }
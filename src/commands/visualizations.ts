@@ -64,8 +64,9 @@ export class VisualizationCommands {
         const blockchainInfo = (await this.bitcoinRpcClient.callRpc(
           "getblockchaininfo",
         )) as { chain: string };
-        bitcoinCoreRunning = blockchainInfo.chain === "regtest";
-        spinner.succeed("Connected to Bitcoin Core (regtest mode)");
+        const chain = this.bitcoinRpcClient.config.network || "regtest";
+        bitcoinCoreRunning = blockchainInfo.chain === chain;
+        spinner.succeed(`Connected to Bitcoin Core (${chain} mode)`);
       } catch (error) {
         spinner.fail("Could not connect to Bitcoin Core");
         console.log(
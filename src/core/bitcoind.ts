@@ -0,0 +1,260 @@
+/**
+ * Managed bitcoind for Caravan-X (Manual mode)
+ * Launches and supervises a local bitcoind per profile, with its own
+ * -datadir, allocated RPC/P2P ports and a pidfile, so manual profiles get
+ * the same isolation Docker profiles have
+ */
+
+import { spawn } from "child_process";
+import * as fs from "fs-extra";
+import * as path from "path";
+import { BitcoinRpcClient } from "./rpc";
+import { signetArgs } from "./signet";
+import { EnhancedAppConfig, ManagedBitcoindConfig } from "../types/config";
+import { findAvailablePort, isPortInUse } from "../utils/ports";
+import { log } from "../utils/logger";
+
+/**
+ * How long to wait for RPC after launching, and for exit after stopping
+ */
+const STARTUP_TIMEOUT_MS = 60000;
+const SHUTDOWN_TIMEOUT_MS = 30000;
+
+export interface BitcoindStatus {
+  running: boolean;
+  pid?: number;
+  chain: string;
+  rpcPort: number;
+  p2pPort: number;
+  dataDir: string;
+  blocks?: number;
+}
+
+export class BitcoindService {
+  private readonly config: EnhancedAppConfig;
+
+  constructor(config: EnhancedAppConfig) {
+    if (!config.managedBitcoind?.enabled) {
+      throw new Error("This profile does not use a managed bitcoind");
+    }
+    this.config = config;
+  }
+
+  private get managed(): ManagedBitcoindConfig {
+    return this.config.managedBitcoind!;
+  }
+
+  private get dataDir(): string {
+    return this.config.bitcoin.dataDir;
+  }
+
+  get pidFile(): string {
+    return path.join(this.dataDir, "bitcoind.pid");
+  }
+
+  /**
+   * PID of the running bitcoind, or null if the pidfile is missing or stale
+   */
+  async getPid(): Promise<number | null> {
+    if (!(await fs.pathExists(this.pidFile))) {
+      return null;
+    }
+
+    const pid = parseInt((await fs.readFile(this.pidFile, "utf8")).trim());
+    if (isNaN(pid)) {
+      return null;
+    }
+
+    try {
+      // Signal 0 only checks that the process exists
+      process.kill(pid, 0);
+      return pid;
+    } catch {
+      return null;
+    }
+  }
+
+  async isRunning(): Promise<boolean> {
+    return (await this.getPid()) !== null;
+  }
+
+  /**
+   * Launch bitcoind if it is not running and wait for RPC. Ports taken by
+   * another process are re-allocated and written back to the config, so
+   * the caller should save the profile afterwards. extraArgs are added to
+   * the command line for this run only.
+   */
+  async start(extraArgs: string[] = []): Promise<void> {
+    if (await this.isRunning()) {
+      return;
+    }
+
+    await fs.ensureDir(this.dataDir);
+    await this.allocatePorts();
+
+    const binary = this.managed.binary || "bitcoind";
+    const { signet } = this.config.bitcoin;
+    const chainArgs =
+      this.config.bitcoin.network === "signet" && signet
+        ? signetArgs(signet)
+        : ["-regtest"];
+    const args = [
+      ...chainArgs,
+      `-datadir=${this.dataDir}`,
+      `-pid=${this.pidFile}`,
+      "-server=1",
+      "-txindex=1",
+      "-fallbackfee=0.00001",
+      "-printtoconsole=0",
+      `-rpcport=${this.managed.rpcPort}`,
+      `-port=${this.managed.p2pPort}`,
+      "-bind=127.0.0.1",
+      "-rpcbind=127.0.0.1",
+      "-rpcallowip=127.0.0.1",
+      `-rpcuser=${this.config.bitcoin.user}`,
+      `-rpcpassword=${this.config.bitcoin.pass}`,
+      // Keep a frozen clock across restarts
+      ...(this.config.mockTime !== undefined
+        ? [`-mocktime=${this.config.mockTime}`]
+        : []),
+      ...extraArgs,
+    ];
+
+    log.command(`${binary} ${chainArgs[0]} -datadir=${this.dataDir} ...`);
+
+    // Startup errors (bad datadir, lock held, ...) are printed to stderr
+    const stderrPath = path.join(this.dataDir, "bitcoind-stderr.log");
+    const stderr = await fs.open(stderrPath, "w");
+
+    const child = spawn(binary, args, {
+      detached: true,
+      stdio: ["ignore", "ignore", stderr],
+    });
+
+    let exited: string | null = null;
+    child.on("error", (error: any) => {
+      exited =
+        error.code === "ENOENT"
+          ? `bitcoind not found at "${binary}". Install Bitcoin Core or set the binary path in the profile.`
+          : error.message;
+    });
+    child.on("exit", (code) => {
+      exited = exited || `bitcoind exited with code ${code}`;
+    });
+    child.unref();
+    await fs.close(stderr);
+
+    const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+      if (exited) {
+        const output = (await fs.readFile(stderrPath, "utf8")).trim();
+        throw new Error(output ? `${exited}: ${output}` : exited);
+      }
+
+      try {
+        await this.getRpcClient().callRpc("getblockchaininfo");
+        return;
+      } catch {
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      }
+    }
+
+    throw new Error(
+      `bitcoind did not answer RPC within ${STARTUP_TIMEOUT_MS / 1000} seconds; see ${path.join(this.dataDir, this.config.bitcoin.network || "regtest", "debug.log")}`,
+    );
+  }
+
+  /**
+   * Stop bitcoind through RPC, falling back to SIGTERM
+   */
+  async stop(): Promise<void> {
+    const pid = await this.getPid();
+    if (pid === null) {
+      return;
+    }
+
+    try {
+      await this.getRpcClient().callRpc("stop");
+    } catch (error: any) {
+      log.debug(`RPC stop failed, sending SIGTERM: ${error.message}`);
+      process.kill(pid, "SIGTERM");
+    }
+
+    const deadline = Date.now() + SHUTDOWN_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+      if (!(await this.isRunning())) {
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 500));
+    }
+
+    throw new Error(
+      `bitcoind (pid ${pid}) did not exit within ${SHUTDOWN_TIMEOUT_MS / 1000} seconds`,
+    );
+  }
+
+  /**
+   * Stop and start again, with extraArgs for the new run
+   */
+  async restart(extraArgs: string[] = []): Promise<void> {
+    await this.stop();
+    await this.start(extraArgs);
+  }
+
+  async getStatus(): Promise<BitcoindStatus> {
+    const pid = await this.getPid();
+    const status: BitcoindStatus = {
+      running: pid !== null,
+      pid: pid ?? undefined,
+      chain: this.config.bitcoin.network || "regtest",
+      rpcPort: this.managed.rpcPort,
+      p2pPort: this.managed.p2pPort,
+      dataDir: this.dataDir,
+    };
+
+    if (status.running) {
+      try {
+        status.blocks =
+          await this.getRpcClient().callRpc<number>("getblockcount");
+      } catch {
+        // Still starting up
+      }
+    }
+
+    return status;
+  }
+
+  private getRpcClient(): BitcoinRpcClient {
+    return new BitcoinRpcClient({
+      ...this.config.bitcoin,
+      protocol: "http",
+      host: "127.0.0.1",
+      port: this.managed.rpcPort,
+    });
+  }
+
+  /**
+   * Move to free ports if another process (e.g. another profile's node)
+   * holds the configured ones
+   */
+  private async allocatePorts(): Promise<void> {
+    const managed = this.managed;
+
+    if (await isPortInUse(managed.rpcPort)) {
+      managed.rpcPort = await findAvailablePort(managed.rpcPort, [
+        managed.p2pPort,
+      ]);
+    }
+    if (await isPortInUse(managed.p2pPort)) {
+      managed.p2pPort = await findAvailablePort(managed.p2pPort, [
+        managed.rpcPort,
+      ]);
+    }
+
+    this.config.bitcoin.port = managed.rpcPort;
+    if (this.config.sharedConfig) {
+      this.config.sharedConfig.bitcoin.rpcPort = managed.rpcPort;
+      this.config.sharedConfig.bitcoin.p2pPort = managed.p2pPort;
+    }
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * Block Builder for Caravan-X
+ * Builds blocks with generateblock from an exact, ordered list of raw
+ * transactions and mempool txids, with a chosen coinbase destination and
+ * timestamp, to reproduce chain states from bug reports
+ */
+
+import { BitcoinRpcClient } from "./rpc";
+import { TimeService, parseTime } from "./time";
+import { log } from "../utils/logger";
+
+export interface BlockSpec {
+  /** Raw transaction hex or mempool txids, in block order */
+  transactions?: string[];
+  /** Coinbase address or descriptor; defaults to a mining wallet address */
+  coinbase?: string;
+  /** Block timestamp: unix seconds or an ISO 8601 date */
+  time?: number | string;
+  /** Seconds after the previous block's timestamp */
+  advance?: number;
+}
+
+export interface BlockPlan {
+  blocks: BlockSpec[];
+}
+
+export interface BuildBlockOptions {
+  /** Return the block hex instead of submitting it */
+  submit?: boolean;
+  /** Clear the mock time after the block instead of keeping the node there */
+  resetTime?: boolean;
+}
+
+export interface BuiltBlock {
+  hash: string;
+  /** Undefined when the block was not submitted */
+  height?: number;
+  time: number;
+  coinbase: string;
+  txids: string[];
+  /** Block hex, only when not submitted */
+  hex?: string;
+  /** Node mock time set for the block, if any */
+  mockTime?: number;
+}
+
+const TXID_PATTERN = /^[0-9a-fA-F]{64}$/;
+
+export class BlockBuilderService {
+  private readonly rpc: BitcoinRpcClient;
+  private readonly timeService: TimeService;
+
+  /**
+   * Mock time goes through timeService so the profile keeps it
+   */
+  constructor(rpc: BitcoinRpcClient, timeService = new TimeService(rpc)) {
+    this.rpc = rpc;
+    this.timeService = timeService;
+  }
+
+  /**
+   * Build one block. A time or advance sets the node's mock time with
+   * setmocktime, which generateblock uses as the block timestamp.
+   */
+  async buildBlock(
+    spec: BlockSpec,
+    options: BuildBlockOptions = {},
+  ): Promise<BuiltBlock> {
+    const { submit = true, resetTime = false } = options;
+
+    // Signet blocks need the challenge signature, which generateblock lacks
+    if (this.rpc.signetMiner) {
+      throw new Error("The block builder only works on regtest");
+    }
+    if (spec.time !== undefined && spec.advance !== undefined) {
+      throw new Error("Set a block time or advance it, not both");
+    }
+
+    const transactions = spec.transactions || [];
+    const txids: string[] = [];
+    for (const transaction of transactions) {
+      txids.push(await this.getTxid(transaction));
+    }
+
+    const mockTime = await this.resolveTime(spec);
+    if (mockTime !== undefined) {
+      await this.timeService.setTime(mockTime);
+    }
+
+    const coinbase = spec.coinbase || (await this.getMiningAddress());
+
+    let result: { hash: string; hex?: string };
+    try {
+      result = await this.rpc.callRpc<{ hash: string; hex?: string }>(
+        "generateblock",
+        [coinbase, transactions, submit],
+      );
+    } finally {
+      if (mockTime !== undefined && resetTime) {
+        await this.timeService.unfreeze();
+      }
+    }
+
+    if (!submit) {
+      return {
+        hash: result.hash,
+        time: readHeaderTime(result.hex!),
+        coinbase,
+        txids,
+        hex: result.hex,
+        mockTime: resetTime ? undefined : mockTime,
+      };
+    }
+
+    const block = await this.rpc.getBlock(result.hash);
+    log.verbose(`Built block ${block.height} (${result.hash})`);
+
+    return {
+      hash: result.hash,
+      height: block.height,
+      time: block.time,
+      coinbase,
+      txids,
+      mockTime: resetTime ? undefined : mockTime,
+    };
+  }
+
+  /**
+   * Build every block of a plan in order
+   */
+  async buildPlan(
+    plan: BlockPlan,
+    options: BuildBlockOptions = {},
+  ): Promise<BuiltBlock[]> {
+    if (!Array.isArray(plan.blocks) || plan.blocks.length === 0) {
+      throw new Error("A block plan needs a non-empty blocks array");
+    }
+    if (options.submit === false && plan.blocks.length > 1) {
+      throw new Error(
+        "Only single blocks can be built without submitting; later blocks would have no parent",
+      );
+    }
+
+    const built: BuiltBlock[] = [];
+    for (const spec of plan.blocks) {
+      built.push(await this.buildBlock(spec, options));
+    }
+    return built;
+  }
+
+  /**
+   * Mock time for the block, from an absolute time or an offset from the
+   * tip's timestamp
+   */
+  private async resolveTime(spec: BlockSpec): Promise<number | undefined> {
+    if (spec.advance !== undefined) {
+      if (!Number.isInteger(spec.advance) || spec.advance <= 0) {
+        throw new Error("advance must be a positive number of seconds");
+      }
+      const tip = await this.rpc.getBlock(
+        await this.rpc.callRpc<string>("getbestblockhash"),
+      );
+      return tip.time + spec.advance;
+    }
+
+    if (spec.time === undefined) {
+      return undefined;
+    }
+
+    return parseTime(spec.time);
+  }
+
+  /**
+   * Txid of a mempool txid or raw transaction entry
+   */
+  private async getTxid(transaction: string): Promise<string> {
+    if (TXID_PATTERN.test(transaction)) {
+      try {
+        await this.rpc.callRpc("getmempoolentry", [transaction]);
+      } catch {
+        throw new Error(
+          `Transaction ${transaction} is not in the mempool; pass its raw hex instead`,
+        );
+      }
+      return transaction;
+    }
+
+    try {
+      const decoded = await this.rpc.callRpc<any>("decoderawtransaction", [
+        transaction,
+      ]);
+      return decoded.txid;
+    } catch {
+      throw new Error(
+        `Not a txid or raw transaction: ${transaction.substring(0, 20)}…`,
+      );
+    }
+  }
+
+  private async getMiningAddress(): Promise<string> {
+    const wallets = await this.rpc.listWallets();
+    const wallet = wallets.includes("mining_wallet")
+      ? "mining_wallet"
+      : wallets[0];
+    if (!wallet) {
+      throw new Error(
+        "No wallet is loaded for the coinbase; pass a coinbase address or descriptor",
+      );
+    }
+    return this.rpc.getNewAddress(wallet);
+  }
+}
+
+/**
+ * Timestamp from a serialized block header: version, previous hash and
+ * merkle root come first, then the little-endian time
+ */
+function readHeaderTime(blockHex: string): number {
+  return Buffer.from(blockHex.substring(136, 144), "hex").readUInt32LE(0);
+}
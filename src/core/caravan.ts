@@ -2,6 +2,18 @@ import * as fs from "fs-extra";
 import * as path from "path";
 import * as crypto from "crypto";
 import { BitcoinRpcClient } from "./rpc";
+import { KeyStore } from "./keystore";
+import {
+  buildTaprootMultisigDescriptor,
+  TAPROOT_CARAVAN_NOTE,
+} from "./taproot";
+import {
+  caravanConfigToDescriptors,
+  formatWalletFile,
+  parseWalletFile,
+  WalletFileFormat,
+  WalletFileOptions,
+} from "./walletFormats";
 import {
   CaravanWalletConfig,
   ExtendedPublicKey,
@@ -17,11 +29,13 @@ export class CaravanService {
   private readonly rpc: BitcoinRpcClient;
   private readonly caravanDir: string;
   private readonly keysDir: string;
+  private readonly keyStore: KeyStore;
 
   constructor(rpc: BitcoinRpcClient, caravanDir: string, keysDir: string) {
     this.rpc = rpc;
     this.caravanDir = caravanDir;
     this.keysDir = keysDir;
+    this.keyStore = new KeyStore(keysDir);
 
     // Ensure directories exist
     fs.ensureDirSync(this.caravanDir);
@@ -35,6 +49,59 @@ export class CaravanService {
     return this.caravanDir;
   }
 
+  /**
+   * Key store holding this profile's private key files
+   */
+  getKeyStore(): KeyStore {
+    return this.keyStore;
+  }
+
+  /**
+   * Name of the private key file for a Caravan wallet
+   */
+  getKeyFileName(caravanName: string): string {
+    return `${caravanName.replace(/\s+/g, "_").toLowerCase()}_keys.json`;
+  }
+
+  /**
+   * Load the private keys for a Caravan wallet, decrypting them if the key
+   * store is encrypted (prompts for the passphrase once per session)
+   */
+  async loadCaravanPrivateKeyData(
+    config: CaravanWalletConfig,
+  ): Promise<CaravanKeyData> {
+    const keyData = await this.keyStore.readKeyData(
+      this.getKeyFileName(config.name),
+    );
+    if (!keyData) {
+      throw new Error(`No key data found for Caravan wallet ${config.name}`);
+    }
+    return keyData;
+  }
+
+  /**
+   * Xpubs of a Caravan wallet whose private keys are stored. Does not need
+   * the passphrase.
+   */
+  async getStoredKeyXpubs(config: CaravanWalletConfig): Promise<string[]> {
+    const keyData = await this.keyStore.readKeyDataLocked(
+      this.getKeyFileName(config.name),
+    );
+    return (keyData?.keyData || [])
+      .filter((key) => key.privateKey)
+      .map((key) => key.xpub);
+  }
+
+  /**
+   * Save the private keys for a Caravan wallet, encrypted if the key store
+   * has a passphrase
+   */
+  async saveCaravanPrivateKeyData(keyData: CaravanKeyData): Promise<string> {
+    const fileName = this.getKeyFileName(keyData.caravanName);
+    await this.keyStore.writeKeyData(fileName, keyData);
+    return path.join(this.keysDir, fileName);
+  }
+
   /**
    * Convert BIP32 path from 'h' notation to apostrophe notation
    * Example: "m/84h/1h/0h" becomes "m/84'/1'/0'"
@@ -67,9 +134,70 @@ export class CaravanService {
         }));
     }
 
+    // Caravan rejects address types it does not know; say so in the file
+    if (formattedConfig.addressType === AddressType.P2TR) {
+      formattedConfig.caravanCompatible = false;
+      formattedConfig.caravanCompatibilityNote = TAPROOT_CARAVAN_NOTE;
+    }
+
     return formattedConfig;
   }
 
+  /**
+   * Read a wallet file in any supported format. BSMS files are rejected if
+   * their first address does not match what the node derives.
+   */
+  async parseWalletFile(
+    content: string,
+    format?: WalletFileFormat,
+    options: WalletFileOptions = {},
+  ): Promise<CaravanWalletConfig> {
+    const { config, firstAddress } = parseWalletFile(content, format, {
+      network: this.rpc.config.network,
+      ...options,
+    });
+
+    if (firstAddress) {
+      const derived = await this.deriveFirstAddress(config);
+      if (derived !== firstAddress) {
+        throw new Error(
+          `BSMS first address ${firstAddress} does not match the descriptor (derived ${derived})`,
+        );
+      }
+    }
+
+    return config;
+  }
+
+  /**
+   * Render a Caravan wallet in another coordinator's format
+   */
+  async formatWalletFile(
+    config: CaravanWalletConfig,
+    format: WalletFileFormat,
+  ): Promise<string> {
+    if (format === "caravan") {
+      return formatWalletFile(
+        this.formatCaravanConfigForExport(config),
+        format,
+      );
+    }
+
+    const firstAddress =
+      format === "bsms" ? await this.deriveFirstAddress(config) : undefined;
+    return formatWalletFile(config, format, firstAddress);
+  }
+
+  private async deriveFirstAddress(
+    config: CaravanWalletConfig,
+  ): Promise<string> {
+    const [address] = await this.rpc.callRpc<string[]>("deriveaddresses", [
+      caravanConfigToDescriptors(config).receive,
+      [0, 0],
+    ]);
+    return address;
+  }
+
   /**
    * List all Caravan wallet configurations
    */
@@ -221,6 +349,18 @@ export class CaravanService {
         receiveDescriptor = `sh(multi(${requiredSigners},${xpubs.join(",")}))`;
         changeDescriptor = `sh(multi(${requiredSigners},${changeXpubs.join(",")}))`;
         break;
+      case AddressType.P2TR:
+        receiveDescriptor = buildTaprootMultisigDescriptor(
+          xpubs,
+          requiredSigners,
+          caravanConfig.taproot,
+        );
+        changeDescriptor = buildTaprootMultisigDescriptor(
+          changeXpubs,
+          requiredSigners,
+          caravanConfig.taproot,
+        );
+        break;
       default:
         throw new Error(
           `Unsupported address type: ${caravanConfig.addressType}`,
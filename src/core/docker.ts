@@ -5,10 +5,13 @@ import ora from "ora";
 import boxen from "boxen";
 import chalk from "chalk";
 import cliProgress from "cli-progress";
-import { DockerConfig, SharedConfig } from "../types/config";
+import { DockerConfig, SharedConfig, SignetConfig } from "../types/config";
 import { execAsync } from "../utils/exec";
+import { findAvailablePort, isPortInUse } from "../utils/ports";
 import { log } from "../utils/logger";
 import { CaravanXError } from "../utils/errors";
+import { BitcoinRpcClient } from "./rpc";
+import { bitcoinUtilGrinder, HeaderGrinder, signetArgs } from "./signet";
 
 interface ContainerStatus {
   running: boolean;
@@ -33,6 +36,16 @@ interface PortCheckResult {
 const INTERNAL_RPC_PORT = 18443;
 const INTERNAL_P2P_PORT = 18444;
 
+/**
+ * Bitcoin data directory inside the container (the volume mount point)
+ */
+const CONTAINER_DATA_DIR = "/home/bitcoin/.bitcoin";
+
+/**
+ * Start of the options restartWithArgs() adds to bitcoin.conf
+ */
+const TEMPORARY_CONF_MARKER = "# Temporary options set by Caravan-X";
+
 /**
  * Docker service for managing Bitcoin Core containers
  *
@@ -48,10 +61,35 @@ export class DockerService {
   private dataDir: string;
   private rpcUser: string = "user";
   private rpcPassword: string = "pass";
+  private signet?: SignetConfig;
 
-  constructor(config: DockerConfig, dataDir: string) {
+  /**
+   * signet is the profile's custom signet, if it runs one instead of
+   * regtest; startContainer() also takes it from the shared config
+   */
+  constructor(config: DockerConfig, dataDir: string, signet?: SignetConfig) {
     this.config = config;
     this.dataDir = dataDir;
+    this.signet = signet;
+  }
+
+  /**
+   * Chain name, which is also the chain's directory in the data volume
+   */
+  get chain(): "regtest" | "signet" {
+    return this.signet ? "signet" : "regtest";
+  }
+
+  /**
+   * Grind signet blocks with bitcoin-util inside the container
+   */
+  getSignetGrinder(): HeaderGrinder {
+    return bitcoinUtilGrinder([
+      "docker",
+      "exec",
+      this.config.containerName,
+      "bitcoin-util",
+    ]);
   }
 
   // ============================================================================
@@ -90,19 +128,11 @@ export class DockerService {
    * Check if a specific port is in use
    */
   async isPortInUse(port: number): Promise<boolean> {
-    try {
-      const { stdout } = await execAsync(
-        `lsof -i :${port} 2>/dev/null || netstat -an 2>/dev/null | grep ${port} || true`,
-      );
-      return stdout.trim().length > 0;
-    } catch (error) {
-      return false;
-    }
+    return isPortInUse(port);
   }
 
   /**
    * Find an available port starting from a base port
-   * Tries up to 50 ports sequentially
    * @param basePort The starting port number
    * @param excludePorts Array of ports to skip (even if they are free)
    */
@@ -110,26 +140,7 @@ export class DockerService {
     basePort: number,
     excludePorts: number[] = [],
   ): Promise<number> {
-    let port = basePort;
-    let attempts = 0;
-    const maxAttempts = 50;
-
-    while (attempts < maxAttempts) {
-      // Check if port is in use by OS OR if it's in our exclusion list
-      const inUseByOs = await this.isPortInUse(port);
-      const isExcluded = excludePorts.includes(port);
-
-      if (!inUseByOs && !isExcluded) {
-        return port;
-      }
-
-      port++;
-      attempts++;
-    }
-
-    throw new Error(
-      `Could not find available port near ${basePort} after ${maxAttempts} attempts`,
-    );
+    return findAvailablePort(basePort, excludePorts);
   }
 
   /**
@@ -336,6 +347,12 @@ export class DockerService {
         this.rpcUser = sharedConfig.bitcoin.rpcUser;
         this.rpcPassword = sharedConfig.bitcoin.rpcPassword;
       }
+      if (sharedConfig) {
+        this.signet =
+          sharedConfig.bitcoin.network === "signet"
+            ? sharedConfig.bitcoin.signet
+            : undefined;
+      }
 
       // Step 4: Ensure ports are available (auto-adjust if needed)
       mainProgress.update(25, { status: "Checking ports..." });
@@ -361,8 +378,8 @@ export class DockerService {
       const bitcoinDataDir = this.config.volumes.bitcoinData;
 
       await fs.ensureDir(bitcoinDataDir);
-      await fs.ensureDir(path.join(bitcoinDataDir, "regtest"));
-      await fs.ensureDir(path.join(bitcoinDataDir, "regtest", "wallets"));
+      await fs.ensureDir(path.join(bitcoinDataDir, this.chain));
+      await fs.ensureDir(path.join(bitcoinDataDir, this.chain, "wallets"));
 
       // DEV: Only clean mining_wallet on fresh setups, NOT on imports.
       // Imported environments need mining_wallet intact because it holds
@@ -370,7 +387,7 @@ export class DockerService {
       if (!options?.skipDataPrep) {
         const miningWalletPath = path.join(
           bitcoinDataDir,
-          "regtest",
+          this.chain,
           "wallets",
           "mining_wallet",
         );
@@ -429,9 +446,11 @@ export class DockerService {
       dockerCommand += ` -p ${this.config.ports.rpc}:${INTERNAL_RPC_PORT}`;
       dockerCommand += ` -p ${this.config.ports.p2p}:${INTERNAL_P2P_PORT}`;
 
-      dockerCommand += ` -v "${bitcoinDataDir}":/home/bitcoin/.bitcoin`;
+      dockerCommand += ` -v "${bitcoinDataDir}":${CONTAINER_DATA_DIR}`;
       dockerCommand += ` ${this.config.image}`;
-      dockerCommand += ` -regtest=1`;
+      dockerCommand += this.signet
+        ? ` ${signetArgs(this.signet).join(" ")}`
+        : ` -regtest=1`;
       dockerCommand += ` -server=1`;
       dockerCommand += ` -rest=1`;
       dockerCommand += ` -txindex=1`;
@@ -571,12 +590,30 @@ export class DockerService {
       mainProgress.update(97, {
         status: `Generating ${targetHeight} blocks...`,
       });
-      await this.execBitcoinCli(
-        `-rpcwallet=mining_wallet generatetoaddress ${targetHeight} ${address.trim()}`,
-      );
+      if (this.signet) {
+        // bitcoind cannot sign signet blocks; mine them over RPC
+        const rpc = new BitcoinRpcClient({
+          protocol: "http",
+          host: "127.0.0.1",
+          port: this.config.ports.rpc,
+          user: this.rpcUser,
+          pass: this.rpcPassword,
+          dataDir: this.config.volumes.bitcoinData,
+          network: "signet",
+          signet: this.signet,
+        });
+        rpc.signetMiner!.setGrinder(this.getSignetGrinder());
+        await rpc.generateToAddress(targetHeight, address.trim());
+      } else {
+        await this.execBitcoinCli(
+          `-rpcwallet=mining_wallet generatetoaddress ${targetHeight} ${address.trim()}`,
+        );
+      }
     } catch (error: any) {
-      log.warn("Could not generate initial blocks");
-      log.debug("Block generation error:", error.message);
+      // DEV: An environment without its initial chain (e.g. signet blocks
+      // rejected by the node) is unusable, so fail the start instead of
+      // carrying on with an empty chain.
+      throw new Error(`Could not generate initial blocks: ${error.message}`);
     }
   }
 
@@ -1022,6 +1059,13 @@ export class DockerService {
       console.log(chalk.dim("    2. Select ") + chalk.white("Private"));
       console.log(chalk.dim("    3. Select ") + chalk.white("Custom"));
       console.log(chalk.dim("    4. Enter these settings:\n"));
+      if (this.signet) {
+        console.log(
+          chalk.dim("    Set Caravan's network to ") +
+            chalk.white("Signet") +
+            chalk.dim(" (addresses start with tb1)\n"),
+        );
+      }
 
       console.log(
         boxen(
@@ -1047,7 +1091,7 @@ export class DockerService {
       console.log(chalk.dim("    Click ") + chalk.white("'Test Connection'"));
       console.log(
         chalk.dim("    You should see: ") +
-          chalk.green("✓ Connected to regtest"),
+          chalk.green(`✓ Connected to ${this.chain}`),
       );
 
       console.log(chalk.bold.cyan("━".repeat(70)));
@@ -1111,6 +1155,35 @@ export class DockerService {
     }
   }
 
+  /**
+   * Restart the container with extra bitcoind options (e.g.
+   * "-persistmempool=0"). The container's command line is fixed, so they
+   * go into bitcoin.conf in the data volume; restarting without options
+   * removes them again.
+   */
+  async restartWithArgs(extraArgs: string[] = []): Promise<void> {
+    const confPath = path.join(this.config.volumes.bitcoinData, "bitcoin.conf");
+    const existing = (await fs.pathExists(confPath))
+      ? await fs.readFile(confPath, "utf8")
+      : "";
+    const base = existing.split(TEMPORARY_CONF_MARKER)[0];
+
+    const options = extraArgs.map((arg) => arg.replace(/^-+/, ""));
+    const content =
+      options.length > 0
+        ? `${base}${TEMPORARY_CONF_MARKER}\n${options.join("\n")}\n`
+        : base;
+
+    if (content.trim() === "") {
+      await fs.remove(confPath);
+    } else {
+      await fs.writeFile(confPath, content);
+    }
+
+    log.command(`docker restart ${this.config.containerName}`);
+    await execAsync(`docker restart ${this.config.containerName}`);
+  }
+
   async removeContainer(): Promise<void> {
     const spinner = ora("Removing container...").start();
     try {
@@ -1130,6 +1203,81 @@ export class DockerService {
     }
   }
 
+  // ============================================================================
+  // DATA TRANSFER
+  // ============================================================================
+
+  /**
+   * Copy the container's chain directory (e.g. regtest) into destDir and
+   * return the copied directory.
+   * The container is stopped for a consistent copy and, unless restart is
+   * false, started again afterwards; callers should wait for RPC before
+   * using the node.
+   */
+  async copyChainDataFromContainer(
+    destDir: string,
+    options: { restart?: boolean } = {},
+  ): Promise<string> {
+    const containerName = this.config.containerName;
+    const wasRunning = (await this.getContainerStatus()).running;
+    const restart = wasRunning && options.restart !== false;
+
+    await fs.ensureDir(destDir);
+
+    try {
+      if (wasRunning) {
+        await execAsync(`docker stop ${containerName}`);
+      }
+
+      await execAsync(
+        `docker cp "${containerName}:${CONTAINER_DATA_DIR}/${this.chain}" "${destDir}"`,
+      );
+    } finally {
+      if (restart) {
+        await execAsync(`docker start ${containerName}`);
+      }
+    }
+
+    const copiedDir = path.join(destDir, this.chain);
+    if (!(await fs.pathExists(copiedDir))) {
+      throw new Error(
+        `No ${this.chain} data was copied out of container ${containerName}`,
+      );
+    }
+    return copiedDir;
+  }
+
+  /**
+   * Replace the container's chain directory with sourceDir.
+   * The container is stopped while its data is swapped and then started.
+   */
+  async copyChainDataToContainer(sourceDir: string): Promise<void> {
+    const containerName = this.config.containerName;
+    const status = await this.getContainerStatus();
+
+    if (!status.containerId) {
+      throw new Error(`Container ${containerName} does not exist`);
+    }
+
+    if (status.running) {
+      await execAsync(`docker stop ${containerName}`);
+    }
+
+    try {
+      // DEV: docker cp merges into existing directories, so clear the old
+      // data first. The files belong to the container user, so remove them
+      // from a throwaway container on the same volume rather than the host.
+      await execAsync(
+        `docker run --rm --entrypoint rm -v "${this.config.volumes.bitcoinData}":${CONTAINER_DATA_DIR} ${this.config.image} -rf ${CONTAINER_DATA_DIR}/${this.chain}`,
+      );
+      await execAsync(
+        `docker cp "${sourceDir}" "${containerName}:${CONTAINER_DATA_DIR}/${this.chain}"`,
+      );
+    } finally {
+      await execAsync(`docker start ${containerName}`);
+    }
+  }
+
   // ============================================================================
   // UTILITY METHODS
   // ============================================================================
@@ -1142,7 +1290,7 @@ export class DockerService {
     try {
       // DEV: bitcoin-cli runs INSIDE the container, so it talks to
       // bitcoind on the fixed internal port, not the host-mapped port.
-      const cliCommand = `docker exec ${this.config.containerName} bitcoin-cli -regtest -rpcport=${INTERNAL_RPC_PORT} -rpcuser="${this.rpcUser}" -rpcpassword="${this.rpcPassword}" ${command}`;
+      const cliCommand = `docker exec ${this.config.containerName} bitcoin-cli -${this.chain} -rpcport=${INTERNAL_RPC_PORT} -rpcuser="${this.rpcUser}" -rpcpassword="${this.rpcPassword}" ${command}`;
       const { stdout } = await execAsync(cliCommand);
       return stdout.trim();
     } catch (error: any) {
@@ -1150,6 +1298,40 @@ export class DockerService {
     }
   }
 
+  /**
+   * Host port that Docker maps to the container's RPC port
+   */
+  async getHostRpcPort(): Promise<number> {
+    const { stdout } = await execAsync(
+      `docker port ${this.config.containerName} ${INTERNAL_RPC_PORT}`,
+    );
+    // e.g. "0.0.0.0:18443\n[::]:18443"
+    const port = parseInt(stdout.trim().split("\n")[0].split(":").pop() || "");
+    if (isNaN(port)) {
+      throw new Error(
+        `RPC port of ${this.config.containerName} is not published`,
+      );
+    }
+    return port;
+  }
+
+  /**
+   * The container's IP address on the Caravan-X network
+   */
+  async getContainerIp(): Promise<string> {
+    const { stdout } = await execAsync(
+      `docker inspect -f "{{(index .NetworkSettings.Networks \\"${this.config.network}\\").IPAddress}}" ${this.config.containerName}`,
+    );
+    return stdout.trim();
+  }
+
+  /**
+   * Address other containers on the network use to reach this node over P2P
+   */
+  getPeerAddress(): string {
+    return `${this.config.containerName}:${INTERNAL_P2P_PORT}`;
+  }
+
   async getLogs(tail = 100): Promise<string> {
     try {
       const { stdout } = await execAsync(
@@ -36,6 +36,7 @@ import { CaravanService } from "./caravan";
 import { BitcoinService } from "./bitcoin";
 import { DockerService } from "./docker";
 import { SnapshotService } from "./snapshot";
+import { signetArgs } from "./signet";
 import {
   EnvironmentManifest,
   WalletDescriptorExport,
@@ -45,8 +46,14 @@ import {
   EnvironmentExportOptions,
   EnvironmentImportOptions,
   EnvironmentImportResult,
+  WalletStateSummary,
 } from "../types/environment";
-import { EnhancedAppConfig, SetupMode, SharedConfig } from "../types/config";
+import {
+  BitcoinChain,
+  EnhancedAppConfig,
+  SetupMode,
+  SharedConfig,
+} from "../types/config";
 import { log } from "../utils/logger";
 
 const execAsync = promisify(exec);
@@ -57,6 +64,9 @@ const ENV_SCHEMA_VERSION = "1.0.0";
 /** Caravan-X version — update with releases */
 const CARAVAN_X_VERSION = "1.3.0";
 
+/** Wallet that mines blocks whose coinbase went to no exported wallet */
+const REPLAY_MINER_WALLET = "replay_miner";
+
 export class EnvironmentService {
   private readonly rpc: BitcoinRpcClient;
   private readonly caravanService: CaravanService;
@@ -119,12 +129,19 @@ export class EnvironmentService {
         ? loadedWallets.filter((w) => options.walletFilter!.includes(w))
         : loadedWallets;
 
+      const walletStates = await this.captureWalletStates(walletsToExport);
+
       // ── Step 3: Export wallet descriptors ──
       spinner.text = "Exporting wallet descriptors...";
+      // The spinner is paused in case the key store asks for its passphrase
+      if (options.includePrivateKeys) {
+        spinner.stop();
+      }
       const walletExports = await this.exportAllWalletDescriptors(
         walletsToExport,
         options.includePrivateKeys,
       );
+      spinner.start();
 
       // Save descriptor exports
       const descriptorsDir = path.join(stagingDir, "descriptors");
@@ -160,19 +177,13 @@ export class EnvironmentService {
       const keysDir = path.join(stagingDir, "keys");
       await fs.ensureDir(keysDir);
 
-      const keyFileNames: string[] = [];
-      if (await fs.pathExists(this.config.keysDir)) {
-        const keyFiles = await fs.readdir(this.config.keysDir);
-        for (const keyFile of keyFiles) {
-          if (keyFile.endsWith(".json")) {
-            await fs.copy(
-              path.join(this.config.keysDir, keyFile),
-              path.join(keysDir, keyFile),
-            );
-            keyFileNames.push(keyFile);
-          }
-        }
-      }
+      // Plaintext keys are encrypted in the archive when a passphrase is
+      // set. The spinner is paused in case the key store asks for it.
+      spinner.stop();
+      const keyFileNames = await this.caravanService
+        .getKeyStore()
+        .exportTo(keysDir);
+      spinner.start();
 
       // ── Step 6: Copy scenario scripts ──
       spinner.text = "Packaging scenarios...";
@@ -205,19 +216,19 @@ export class EnvironmentService {
         const blockchainDir = path.join(stagingDir, "blockchain");
         await fs.ensureDir(blockchainDir);
 
-        // Determine the regtest data directory
-        const regtestDir = await this.getRegtestDataDir();
+        // Determine the chain's data directory
+        const chainDir = await this.getChainDataDir();
 
-        if (regtestDir && (await fs.pathExists(regtestDir))) {
+        if (chainDir && (await fs.pathExists(chainDir))) {
           // Copy blocks directory
-          const blocksDir = path.join(regtestDir, "blocks");
+          const blocksDir = path.join(chainDir, "blocks");
           if (await fs.pathExists(blocksDir)) {
             spinner.text = "Copying blockchain blocks...";
             await fs.copy(blocksDir, path.join(blockchainDir, "blocks"));
           }
 
           // Copy chainstate directory
-          const chainstateDir = path.join(regtestDir, "chainstate");
+          const chainstateDir = path.join(chainDir, "chainstate");
           if (await fs.pathExists(chainstateDir)) {
             spinner.text = "Copying chainstate...";
             await fs.copy(
@@ -227,7 +238,7 @@ export class EnvironmentService {
           }
 
           // Copy Bitcoin Core wallet directories (the actual wallet.dat / db files)
-          const coreWalletsDir = path.join(regtestDir, "wallets");
+          const coreWalletsDir = path.join(chainDir, "wallets");
           if (await fs.pathExists(coreWalletsDir)) {
             spinner.text = "Copying Bitcoin Core wallet files...";
             const bcWalletsDir = path.join(blockchainDir, "wallets");
@@ -241,7 +252,7 @@ export class EnvironmentService {
             }
           }
 
-          const settingsFile = path.join(regtestDir, "settings.json");
+          const settingsFile = path.join(chainDir, "settings.json");
           if (await fs.pathExists(settingsFile)) {
             await fs.copy(
               settingsFile,
@@ -261,9 +272,12 @@ export class EnvironmentService {
 
           // Remove the uncompressed directory, keep only the tarball
           await fs.remove(blockchainDir);
+          if (chainDir.includes("docker-chain-")) {
+            await fs.remove(path.dirname(chainDir));
+          }
         } else {
           spinner.warn(
-            "Could not locate regtest data directory — skipping binary blockchain data",
+            `Could not locate ${this.chain} data directory — skipping binary blockchain data`,
           );
         }
       }
@@ -318,11 +332,12 @@ export class EnvironmentService {
         createdAt: new Date().toISOString(),
         caravanXVersion: CARAVAN_X_VERSION,
         bitcoinCoreVersion,
-        network: "regtest",
+        network: this.chain,
         blockchainState: {
           blockHeight: blockchainInfo.blocks,
           blockHash: bestBlockHash,
           chainWork: blockchainInfo.chainwork,
+          wallets: walletStates,
         },
         contents: {
           hasBlockchainData: options.includeBlockchainData,
@@ -658,16 +673,11 @@ export class EnvironmentService {
       spinner.text = "Importing key data...";
       const keysSrcDir = path.join(extractDir, "keys");
       if (await fs.pathExists(keysSrcDir)) {
-        const keyFiles = await fs.readdir(keysSrcDir);
-        for (const file of keyFiles) {
-          if (file.endsWith(".json")) {
-            await fs.copy(
-              path.join(keysSrcDir, file),
-              path.join(this.config.keysDir, file),
-              { overwrite: true },
-            );
-          }
-        }
+        // Re-encrypted under this profile's passphrase if the two differ,
+        // which may prompt for the archive's passphrase
+        spinner.stop();
+        await this.caravanService.getKeyStore().importFrom(keysSrcDir);
+        spinner.start();
       }
 
       // ── Step 9: Import scenarios ──
@@ -869,13 +879,12 @@ export class EnvironmentService {
           ) {
             caravanConfig = cc;
 
-            // Try to find key data
-            const keyFilePath = path.join(
-              this.config.keysDir,
-              `${cc.name.replace(/\s+/g, "_").toLowerCase()}_keys.json`,
-            );
-            if (await fs.pathExists(keyFilePath)) {
-              keyData = await fs.readJson(keyFilePath);
+            // Key data goes in only with private keys, decrypted like the
+            // private descriptors above
+            if (includePrivateKeys) {
+              keyData = await this.caravanService
+                .getKeyStore()
+                .readKeyData(this.caravanService.getKeyFileName(cc.name));
             }
             break;
           }
@@ -901,6 +910,12 @@ export class EnvironmentService {
 
   /**
    * Generate a declarative replay script that can recreate the environment.
+   *
+   * After creating the wallets, the script walks the chain block by block:
+   * every wallet transaction is re-sent with its original inputs and
+   * outputs before the block that confirmed it is mined, and coinbases
+   * that paid an exported wallet are mined to the same address. Replaying
+   * it reproduces the block height, balances and UTXO counts.
    */
   private async generateReplayScript(
     walletNames: string[],
@@ -909,14 +924,13 @@ export class EnvironmentService {
   ): Promise<ReplayScript> {
     const steps: ReplayStep[] = [];
 
-    // Step 1: Generate initial blocks to fund the miner wallet
+    // Step 1: Create all wallets
     steps.push({
-      type: "generate_blocks",
-      description: "Generate initial blocks for coinbase maturity",
-      params: { count: 101, toWallet: "default" },
+      type: "create_wallet",
+      description: `Create miner wallet: ${REPLAY_MINER_WALLET}`,
+      params: { name: REPLAY_MINER_WALLET, descriptorWallet: true },
     });
 
-    // Step 2: Create all wallets
     for (const walletExport of walletExports) {
       const { descriptorExport } = walletExport;
 
@@ -957,7 +971,7 @@ export class EnvironmentService {
       }
     }
 
-    // Step 3: Import Caravan wallet configs
+    // Step 2: Import Caravan wallet configs
     for (const walletExport of walletExports) {
       if (walletExport.caravanConfig) {
         steps.push({
@@ -970,28 +984,257 @@ export class EnvironmentService {
       }
     }
 
-    // Step 4: Mine remaining blocks to reach target height
-    // We already mined 101 blocks
-    const remainingBlocks = targetBlockHeight - 101;
-    if (remainingBlocks > 0) {
+    // Step 3: Rebuild the chain with the wallets' transaction history
+    const history = await this.collectWalletHistory(walletNames);
+
+    let fillerBlocks = 0;
+    const flushFiller = () => {
+      if (fillerBlocks > 0) {
+        steps.push({
+          type: "mine_to_address",
+          description: `Mine ${fillerBlocks} block(s) with no wallet activity`,
+          params: { count: fillerBlocks, toWallet: REPLAY_MINER_WALLET },
+        });
+        fillerBlocks = 0;
+      }
+    };
+
+    for (let height = 1; height <= targetBlockHeight; height++) {
+      const hash = await this.rpc.callRpc<string>("getblockhash", [height]);
+      if (!history.blocks.has(hash)) {
+        fillerBlocks++;
+        continue;
+      }
+
+      flushFiller();
+      const block = await this.rpc.callRpc<any>("getblock", [hash, 2]);
+      const [coinbase, ...txs] = block.tx;
+
+      for (const tx of txs) {
+        if (history.txids.has(tx.txid)) {
+          steps.push(this.replayTransactionStep(tx, history));
+        }
+      }
+
+      const coinbaseAddress = history.coinbases.get(coinbase.txid);
+      // DEV: subsidy and fees differ on replay, so coinbase outputs are
+      // matched by script alone
+      const coinbaseOutputs = coinbaseAddress
+        ? coinbase.vout
+            .filter(
+              (vout: any) => vout.scriptPubKey.address === coinbaseAddress,
+            )
+            .map((vout: any) => ({
+              n: vout.n,
+              scriptPubKey: vout.scriptPubKey.hex,
+            }))
+        : [];
       steps.push({
-        type: "generate_blocks",
-        description: `Mine remaining blocks to reach height ${targetBlockHeight}`,
-        params: { count: remainingBlocks, toWallet: "default" },
+        type: "mine_to_address",
+        description: `Mine block ${height}${coinbaseAddress ? ` to ${coinbaseAddress}` : ""}`,
+        params: {
+          count: 1,
+          ...(coinbaseAddress
+            ? { address: coinbaseAddress }
+            : { toWallet: REPLAY_MINER_WALLET }),
+          coinbaseTxid: coinbase.txid,
+          coinbaseOutputs,
+        },
       });
     }
+    flushFiller();
+
+    // Step 4: Re-send transactions that were still in the mempool
+    for (const txid of history.unconfirmed) {
+      const wallet = history.senders.get(txid) || history.receivers.get(txid)!;
+      const tx = await this.rpc.callRpc<any>(
+        "gettransaction",
+        [txid, true, true],
+        wallet,
+      );
+      steps.push(this.replayTransactionStep(tx.decoded, history));
+    }
 
     return {
       version: ENV_SCHEMA_VERSION,
       name: "Environment Replay Script",
       description:
         "Declarative script to reconstruct the environment from scratch. " +
-        "Note: Block hashes will differ from the original since regtest mining is non-deterministic. " +
-        "Wallet states and balances will match if transactions are replayed correctly.",
+        "Note: Block hashes and txids will differ from the original since regtest mining is non-deterministic. " +
+        "Block height, balances and UTXO counts match the exported environment.",
       steps,
     };
   }
 
+  /**
+   * Index the transaction history of the given wallets: which blocks and
+   * transactions involve them, which coinbases paid them and which wallet
+   * sent each transaction
+   */
+  private async collectWalletHistory(walletNames: string[]): Promise<{
+    blocks: Set<string>;
+    txids: Set<string>;
+    coinbases: Map<string, string>;
+    senders: Map<string, string>;
+    receivers: Map<string, string>;
+    receivedOutputs: Map<string, Set<number>>;
+    unconfirmed: string[];
+  }> {
+    const blocks = new Set<string>();
+    const txids = new Set<string>();
+    const coinbases = new Map<string, string>();
+    const senders = new Map<string, string>();
+    const receivers = new Map<string, string>();
+    const receivedOutputs = new Map<string, Set<number>>();
+    const unconfirmed: { txid: string; time: number }[] = [];
+
+    for (const wallet of walletNames) {
+      const entries = await this.rpc.callRpc<any[]>(
+        "listtransactions",
+        ["*", 1000000, 0, true],
+        wallet,
+      );
+
+      for (const entry of entries) {
+        // Replaced or double-spent transactions are not part of the history
+        if (entry.confirmations < 0) continue;
+
+        if (["generate", "immature", "orphan"].includes(entry.category)) {
+          if (entry.confirmations > 0) {
+            blocks.add(entry.blockhash);
+            coinbases.set(entry.txid, entry.address);
+          }
+          continue;
+        }
+
+        if (entry.confirmations > 0) {
+          blocks.add(entry.blockhash);
+        } else if (!txids.has(entry.txid)) {
+          unconfirmed.push({ txid: entry.txid, time: entry.time });
+        }
+        txids.add(entry.txid);
+
+        if (entry.category === "send") {
+          senders.set(entry.txid, wallet);
+        } else if (entry.category === "receive") {
+          receivers.set(entry.txid, wallet);
+          if (!receivedOutputs.has(entry.txid)) {
+            receivedOutputs.set(entry.txid, new Set());
+          }
+          receivedOutputs.get(entry.txid)!.add(entry.vout);
+        }
+      }
+    }
+
+    return {
+      blocks,
+      txids,
+      coinbases,
+      senders,
+      receivers,
+      receivedOutputs,
+      // Mempool parents were accepted before their children
+      unconfirmed: unconfirmed
+        .sort((a, b) => a.time - b.time)
+        .map((tx) => tx.txid),
+    };
+  }
+
+  /**
+   * Build the send_transaction step that recreates one decoded transaction.
+   * Transactions sent by an exported wallet keep their exact inputs and
+   * outputs; payments from outside are funded by the miner wallet and only
+   * recreate the outputs an exported wallet received.
+   */
+  private replayTransactionStep(
+    tx: any,
+    history: {
+      senders: Map<string, string>;
+      receivedOutputs: Map<string, Set<number>>;
+    },
+  ): ReplayStep {
+    const sender = history.senders.get(tx.txid);
+    const received = history.receivedOutputs.get(tx.txid) || new Set();
+
+    const kept = tx.vout.filter((vout: any) => sender || received.has(vout.n));
+    const originalOutputs = kept.map((vout: any) => ({
+      n: vout.n,
+      scriptPubKey: vout.scriptPubKey.hex,
+      value: vout.value,
+    }));
+    const outputs = kept.map((vout: any) => {
+      const { scriptPubKey } = vout;
+      if (scriptPubKey.address) {
+        return { [scriptPubKey.address]: vout.value };
+      }
+      if (scriptPubKey.type === "nulldata") {
+        return { data: scriptPubKey.asm.split(" ")[1] || "" };
+      }
+      return { unsupported: scriptPubKey.type };
+    });
+
+    if (!sender) {
+      return {
+        type: "send_transaction",
+        description: `Fund ${received.size} output(s) of ${tx.txid.substring(0, 8)}… from ${REPLAY_MINER_WALLET}`,
+        params: {
+          txid: tx.txid,
+          fromWallet: REPLAY_MINER_WALLET,
+          outputs,
+          originalOutputs,
+        },
+      };
+    }
+
+    return {
+      type: "send_transaction",
+      description: `Re-send ${tx.txid.substring(0, 8)}… from ${sender}`,
+      params: {
+        txid: tx.txid,
+        fromWallet: sender,
+        inputs: tx.vin.map((vin: any) => ({
+          txid: vin.txid,
+          vout: vin.vout,
+          sequence: vin.sequence,
+        })),
+        outputs,
+        originalOutputs,
+        locktime: tx.locktime,
+      },
+    };
+  }
+
+  /**
+   * Balance and UTXO count of each wallet
+   */
+  private async captureWalletStates(
+    walletNames: string[],
+  ): Promise<Record<string, WalletStateSummary>> {
+    const states: Record<string, WalletStateSummary> = {};
+
+    for (const wallet of walletNames) {
+      try {
+        const balances = await this.rpc.callRpc<any>("getbalances", [], wallet);
+        const utxos = await this.rpc.callRpc<any[]>("listunspent", [0], wallet);
+
+        // Watch-only wallets report under "watchonly" on older Core versions
+        const sum = (b: any) =>
+          b ? b.trusted + b.untrusted_pending + b.immature : 0;
+
+        states[wallet] = {
+          balance: Number(
+            (sum(balances.mine) + sum(balances.watchonly)).toFixed(8),
+          ),
+          utxoCount: utxos.length,
+        };
+      } catch (error: any) {
+        log.debug(`Could not capture state of ${wallet}: ${error.message}`);
+      }
+    }
+
+    return states;
+  }
+
   /**
    * Remove sensitive or machine-specific paths from config before export.
    */
@@ -1022,6 +1265,9 @@ export class EnvironmentService {
         enabled: config.snapshots.enabled,
         directory: "",
         autoSnapshot: config.snapshots.autoSnapshot,
+        snapshotInterval: config.snapshots.snapshotInterval,
+        intervalUnit: config.snapshots.intervalUnit,
+        retention: config.snapshots.retention,
       },
       // Omit appDir, caravanDir, keysDir — these are machine-specific
     } as any;
@@ -1043,13 +1289,15 @@ export class EnvironmentService {
     options: EnvironmentImportOptions,
   ): Promise<void> {
     // DEV: Pass createIfMissing=true because on a fresh imported profile
-    // the regtest directory doesn't exist yet (Docker hasn't started).
+    // the chain directory doesn't exist yet (Docker hasn't started).
     // We just need the target path to copy binary data into.
-    const regtestDir = await this.getRegtestDataDir(true);
+    const chain: BitcoinChain =
+      manifest.network === "signet" ? "signet" : "regtest";
+    const chainDir = await this.getChainDataDir(true, chain);
 
-    if (!regtestDir) {
+    if (!chainDir) {
       throw new Error(
-        "Cannot determine regtest data directory. Please check your configuration.",
+        `Cannot determine ${chain} data directory. Please check your configuration.`,
       );
     }
 
@@ -1065,39 +1313,39 @@ export class EnvironmentService {
     await fs.ensureDir(blockchainDir);
     await this.extractTarGz(blockchainTarPath, blockchainDir);
 
-    // Backup current regtest directory
-    spinner.text = "Backing up current regtest data...";
+    // Backup current chain directory
+    spinner.text = `Backing up current ${chain} data...`;
     const backupDir = path.join(
       this.config.appDir,
-      `regtest_backup_${Date.now()}`,
+      `${chain}_backup_${Date.now()}`,
     );
-    // DEV: Only backup if regtest dir has actual data.
+    // DEV: Only backup if the chain dir has actual data.
     // For fresh profiles (created during import), the dir exists
     // but is empty — no point backing up nothing.
-    const regtestContents = await fs.readdir(regtestDir).catch(() => []);
-    const hasExistingData = regtestContents.length > 0;
+    const chainContents = await fs.readdir(chainDir).catch(() => []);
+    const hasExistingData = chainContents.length > 0;
 
     if (hasExistingData) {
-      await fs.copy(regtestDir, backupDir);
-      result.warnings.push(`Previous regtest data backed up to: ${backupDir}`);
+      await fs.copy(chainDir, backupDir);
+      result.warnings.push(`Previous ${chain} data backed up to: ${backupDir}`);
     }
 
-    // After copying files to regtestDir, if in Docker mode and using docker cp:
+    // After copying files to chainDir, if in Docker mode and using docker cp:
     if (
       this.config.mode === SetupMode.DOCKER &&
       this.config.docker &&
-      regtestDir.includes("docker-regtest-") // Was obtained via docker cp
+      chainDir.includes("docker-chain-") // Was obtained via docker cp
     ) {
       const containerName = this.config.docker.containerName;
       spinner.text = "Copying data back into Docker container...";
       try {
-        // Remove existing regtest data in container
+        // Remove existing chain data in container
         await execAsync(
-          `docker exec "${containerName}" rm -rf /home/bitcoin/.bitcoin/regtest 2>/dev/null || true`,
+          `docker exec "${containerName}" rm -rf /home/bitcoin/.bitcoin/${chain} 2>/dev/null || true`,
         );
         // Copy new data in
         await execAsync(
-          `docker cp "${regtestDir}" "${containerName}:/home/bitcoin/.bitcoin/regtest"`,
+          `docker cp "${chainDir}" "${containerName}:/home/bitcoin/.bitcoin/${chain}"`,
         );
       } catch (err: any) {
         result.warnings.push(
@@ -1111,7 +1359,7 @@ export class EnvironmentService {
       // Replace blocks
       spinner.text = "Importing blockchain blocks...";
       const srcBlocks = path.join(blockchainDir, "blocks");
-      const destBlocks = path.join(regtestDir, "blocks");
+      const destBlocks = path.join(chainDir, "blocks");
       if (await fs.pathExists(srcBlocks)) {
         if (await fs.pathExists(destBlocks)) {
           await fs.remove(destBlocks);
@@ -1122,7 +1370,7 @@ export class EnvironmentService {
       // Replace chainstate
       spinner.text = "Importing chainstate...";
       const srcChainstate = path.join(blockchainDir, "chainstate");
-      const destChainstate = path.join(regtestDir, "chainstate");
+      const destChainstate = path.join(chainDir, "chainstate");
       if (await fs.pathExists(srcChainstate)) {
         if (await fs.pathExists(destChainstate)) {
           await fs.remove(destChainstate);
@@ -1133,7 +1381,7 @@ export class EnvironmentService {
       // Replace wallet files
       spinner.text = "Importing wallet files...";
       const srcWallets = path.join(blockchainDir, "wallets");
-      const destWallets = path.join(regtestDir, "wallets");
+      const destWallets = path.join(chainDir, "wallets");
       if (await fs.pathExists(srcWallets)) {
         if (await fs.pathExists(destWallets)) {
           await fs.remove(destWallets);
@@ -1147,7 +1395,7 @@ export class EnvironmentService {
       // disk but Bitcoin Core won't load them.
       spinner.text = "Importing wallet settings...";
       const srcSettings = path.join(blockchainDir, "settings.json");
-      const destSettings = path.join(regtestDir, "settings.json");
+      const destSettings = path.join(chainDir, "settings.json");
       if (await fs.pathExists(srcSettings)) {
         // DEV: Reconcile settings.json with the manifest's wallet list.
         // Some wallets (like mining_wallet) may have been created without
@@ -1194,8 +1442,8 @@ export class EnvironmentService {
       // Restore backup on failure
       spinner.text = "Import failed — restoring backup...";
       if (await fs.pathExists(backupDir)) {
-        await fs.remove(regtestDir);
-        await fs.copy(backupDir, regtestDir);
+        await fs.remove(chainDir);
+        await fs.copy(backupDir, chainDir);
       }
       throw error;
     }
@@ -1261,13 +1509,15 @@ export class EnvironmentService {
       );
     }
 
-    // Execute replay steps
+    // Execute replay steps. Original outpoints ("txid:vout") map to their
+    // replayed outpoints so later steps can spend the outputs of earlier ones.
+    const outpointMap = new Map<string, string>();
     for (let i = 0; i < replayScript.steps.length; i++) {
       const step = replayScript.steps[i];
       spinner.text = `[${i + 1}/${replayScript.steps.length}] ${step.description}`;
 
       try {
-        await this.executeReplayStep(step);
+        await this.executeReplayStep(step, outpointMap);
         result.walletsImported.push(
           ...(step.type === "create_wallet" ? [step.params.name] : []),
         );
@@ -1332,12 +1582,62 @@ export class EnvironmentService {
         }
       }
     }
+
+    spinner.text = "Verifying replayed state...";
+    result.verification = await this.verifyReplayedState(manifest);
+    result.warnings.push(...result.verification.mismatches);
+  }
+
+  /**
+   * Compare the replayed chain and wallets with the manifest's
+   * blockchainState
+   */
+  private async verifyReplayedState(
+    manifest: EnvironmentManifest,
+  ): Promise<{ verified: boolean; mismatches: string[] }> {
+    const mismatches: string[] = [];
+    const expected = manifest.blockchainState;
+
+    const height = await this.rpc.callRpc<number>("getblockcount");
+    if (height !== expected.blockHeight) {
+      mismatches.push(
+        `Block height is ${height}, expected ${expected.blockHeight}`,
+      );
+    }
+
+    const expectedWallets = expected.wallets || {};
+    const actualWallets = await this.captureWalletStates(
+      Object.keys(expectedWallets),
+    );
+
+    for (const [wallet, state] of Object.entries(expectedWallets)) {
+      const actual = actualWallets[wallet];
+      if (!actual) {
+        mismatches.push(`Wallet ${wallet} is missing after replay`);
+        continue;
+      }
+      if (actual.balance !== state.balance) {
+        mismatches.push(
+          `Wallet ${wallet} balance is ${actual.balance} BTC, expected ${state.balance} BTC`,
+        );
+      }
+      if (actual.utxoCount !== state.utxoCount) {
+        mismatches.push(
+          `Wallet ${wallet} has ${actual.utxoCount} UTXOs, expected ${state.utxoCount}`,
+        );
+      }
+    }
+
+    return { verified: mismatches.length === 0, mismatches };
   }
 
   /**
    * Execute a single replay step
    */
-  private async executeReplayStep(step: ReplayStep): Promise<void> {
+  private async executeReplayStep(
+    step: ReplayStep,
+    outpointMap: Map<string, string> = new Map(),
+  ): Promise<void> {
     switch (step.type) {
       case "create_wallet":
         try {
@@ -1418,18 +1718,65 @@ export class EnvironmentService {
 
       case "fund_address":
       case "mine_to_address":
-        await this.rpc.callRpc("generatetoaddress", [
-          step.params.count || 1,
-          step.params.address,
-        ]);
+        {
+          const address =
+            step.params.address ||
+            (await this.rpc.callRpc<string>(
+              "getnewaddress",
+              [],
+              step.params.toWallet,
+            ));
+          const hashes = await this.rpc.callRpc<string[]>("generatetoaddress", [
+            step.params.count || 1,
+            address,
+          ]);
+
+          if (step.params.coinbaseOutputs?.length && hashes.length === 1) {
+            const block = await this.rpc.callRpc<any>("getblock", [
+              hashes[0],
+              2,
+            ]);
+            this.mapOutpoints(
+              step.params.coinbaseTxid,
+              step.params.coinbaseOutputs,
+              block.tx[0],
+              outpointMap,
+            );
+          }
+        }
         break;
 
       case "send_transaction":
-        await this.rpc.callRpc(
-          "sendtoaddress",
-          [step.params.address, step.params.amount],
-          step.params.fromWallet,
-        );
+        if (step.params.inputs || step.params.outputs) {
+          const txid = step.params.inputs
+            ? await this.resendTransaction(step.params, outpointMap)
+            : (
+                await this.rpc.callRpc<any>(
+                  "send",
+                  [step.params.outputs],
+                  step.params.fromWallet,
+                )
+              ).txid;
+
+          if (step.params.txid && step.params.originalOutputs) {
+            const tx = await this.rpc.callRpc<any>("getrawtransaction", [
+              txid,
+              true,
+            ]);
+            this.mapOutpoints(
+              step.params.txid,
+              step.params.originalOutputs,
+              tx,
+              outpointMap,
+            );
+          }
+        } else {
+          await this.rpc.callRpc(
+            "sendtoaddress",
+            [step.params.address, step.params.amount],
+            step.params.fromWallet,
+          );
+        }
         break;
 
       case "wait":
@@ -1444,46 +1791,159 @@ export class EnvironmentService {
     }
   }
 
+  /**
+   * Record where each original output landed in its replayed transaction,
+   * matching by scriptPubKey and, when the step has one, amount. Outputs
+   * can move because the replayed transaction may add change or reorder.
+   */
+  private mapOutpoints(
+    originalTxid: string,
+    originalOutputs: { n: number; scriptPubKey: string; value?: number }[],
+    tx: any,
+    outpointMap: Map<string, string>,
+  ): void {
+    const used = new Set<number>();
+
+    for (const output of originalOutputs) {
+      const match = tx.vout.find(
+        (vout: any) =>
+          !used.has(vout.n) &&
+          vout.scriptPubKey.hex === output.scriptPubKey &&
+          (output.value === undefined ||
+            Math.round(vout.value * 1e8) === Math.round(output.value * 1e8)),
+      );
+      if (!match) {
+        log.debug(
+          `No replayed output of ${tx.txid} matches ${originalTxid}:${output.n}`,
+        );
+        continue;
+      }
+
+      used.add(match.n);
+      outpointMap.set(`${originalTxid}:${output.n}`, `${tx.txid}:${match.n}`);
+    }
+  }
+
+  /**
+   * Rebuild a transaction with its original inputs (translated to replayed
+   * outpoints) and outputs, sign it with whichever wallets hold the keys and
+   * broadcast it. Returns the new txid.
+   */
+  private async resendTransaction(
+    params: Record<string, any>,
+    outpointMap: Map<string, string>,
+  ): Promise<string> {
+    const inputs = params.inputs.map((input: any) => {
+      const replayed = outpointMap.get(`${input.txid}:${input.vout}`);
+      if (!replayed) {
+        throw new Error(
+          `Input ${input.txid}:${input.vout} was not recreated by an earlier step`,
+        );
+      }
+      const [txid, vout] = replayed.split(":");
+      return { ...input, txid, vout: Number(vout) };
+    });
+
+    let psbt = await this.rpc.callRpc<string>("createpsbt", [
+      inputs,
+      params.outputs,
+      params.locktime || 0,
+    ]);
+
+    // DEV: The sending wallet goes first so it fills in UTXO, script and
+    // derivation data; multisig signer wallets need that to add their
+    // signatures.
+    const wallets = await this.rpc.callRpc<string[]>("listwallets");
+    const signers = [
+      params.fromWallet,
+      ...wallets.filter((w) => w !== params.fromWallet),
+    ];
+
+    for (const wallet of signers) {
+      try {
+        const processed = await this.rpc.callRpc<any>(
+          "walletprocesspsbt",
+          [psbt, true],
+          wallet,
+        );
+        psbt = processed.psbt;
+        if (processed.complete) break;
+      } catch (error: any) {
+        // e.g. an encrypted wallet; another wallet may still sign
+        log.debug(`walletprocesspsbt in ${wallet} failed: ${error.message}`);
+      }
+    }
+
+    const finalized = await this.rpc.callRpc<any>("finalizepsbt", [psbt]);
+    if (!finalized.complete) {
+      throw new Error(
+        "No loaded wallet could sign it (were private keys exported?)",
+      );
+    }
+
+    return this.rpc.callRpc<string>("sendrawtransaction", [finalized.hex]);
+  }
+
   // ==========================================================================
   // PRIVATE — Bitcoin Core lifecycle helpers
   // ==========================================================================
 
   /**
-   * Get the regtest data directory path.
-   * Handles both Docker mode (data inside container) and manual mode.
+   * Chain the profile's node runs, which is also its data directory name
+   */
+  private get chain(): BitcoinChain {
+    return (
+      this.dockerService?.chain || this.config.bitcoin.network || "regtest"
+    );
+  }
+
+  /**
+   * bitcoind flags that select the profile's chain
+   */
+  private chainArgs(): string {
+    return this.chain === "signet" && this.config.bitcoin.signet
+      ? signetArgs(this.config.bitcoin.signet).join(" ")
+      : "-regtest";
+  }
+
+  /**
+   * Get the data directory of the profile's chain.
    *  Handles both Docker mode and manual mode.
    *
    * @param createIfMissing — If true, create the directory if it doesn't
    *   exist. Used during import where we need a target path before
    *   Bitcoin Core has ever started.
+   * @param chain — Chain whose directory to find; the profile's chain by
+   *   default
    */
-  private async getRegtestDataDir(
+  private async getChainDataDir(
     createIfMissing = false,
+    chain: BitcoinChain = this.chain,
   ): Promise<string | null> {
     if (this.config.mode === SetupMode.DOCKER && this.config.docker) {
       // In Docker mode, we ALWAYS use docker cp to get/put data
       // The volume path in config.docker.volumes.bitcoinData is the host-side mount
       const volumePath = this.config.docker.volumes.bitcoinData;
-      const regtestViaVolume = path.join(volumePath, "regtest");
+      const chainViaVolume = path.join(volumePath, chain);
 
-      if (await fs.pathExists(regtestViaVolume)) {
-        return regtestViaVolume;
+      if (await fs.pathExists(chainViaVolume)) {
+        return chainViaVolume;
       }
 
-      // DEV: For fresh profiles (e.g. import), the regtest dir doesn't
+      // DEV: For fresh profiles (e.g. import), the chain dir doesn't
       // exist yet because Docker hasn't started. Create it so the
       // binary import has somewhere to write data.
       if (createIfMissing && volumePath) {
-        await fs.ensureDir(regtestViaVolume);
-        return regtestViaVolume;
+        await fs.ensureDir(chainViaVolume);
+        return chainViaVolume;
       }
 
       // Fallback: check the docker-data directory caravan-x creates
       const dockerDataDir = path.join(this.config.appDir, "docker-data");
       const candidates = [
-        path.join(dockerDataDir, "bitcoin", "regtest"),
-        path.join(dockerDataDir, "regtest"),
-        path.join(dockerDataDir, "bitcoin-data", "regtest"),
+        path.join(dockerDataDir, "bitcoin", chain),
+        path.join(dockerDataDir, chain),
+        path.join(dockerDataDir, "bitcoin-data", chain),
       ];
 
       for (const c of candidates) {
@@ -1493,21 +1953,40 @@ export class EnvironmentService {
       // DEV: If still nothing found and we're allowed to create,
       // use the canonical Docker volume path
       if (createIfMissing) {
-        await fs.ensureDir(regtestViaVolume);
-        return regtestViaVolume;
+        await fs.ensureDir(chainViaVolume);
+        return chainViaVolume;
       }
 
-      // Last resort: docker cp from container to temp dir
-      return this.copyRegtestFromContainer();
+      // Last resort: copy the data out of the container to a temp dir.
+      // The container is stopped for the copy and started again.
+      if (!this.dockerService) {
+        return null;
+      }
+      const tempDir = path.join(
+        this.config.appDir,
+        `docker-chain-${Date.now()}`,
+      );
+      try {
+        const copiedDir =
+          await this.dockerService.copyChainDataFromContainer(tempDir);
+        await this.waitForRpc();
+        return copiedDir;
+      } catch (error: any) {
+        log.verbose(
+          `Could not copy ${chain} data out of Docker: ${error.message}`,
+        );
+        await fs.remove(tempDir);
+        return null;
+      }
     } else {
       // Manual mode
-      const regtestDir = path.join(this.config.bitcoin.dataDir, "regtest");
-      if (await fs.pathExists(regtestDir)) return regtestDir;
+      const chainDir = path.join(this.config.bitcoin.dataDir, chain);
+      if (await fs.pathExists(chainDir)) return chainDir;
 
       const home = process.env.HOME || "";
       const candidates = [
-        path.join(home, ".bitcoin", "regtest"),
-        path.join(home, "Library", "Application Support", "Bitcoin", "regtest"),
+        path.join(home, ".bitcoin", chain),
+        path.join(home, "Library", "Application Support", "Bitcoin", chain),
       ];
 
       for (const c of candidates) {
@@ -1518,36 +1997,6 @@ export class EnvironmentService {
     }
   }
 
-  /**
-   * Copy regtest data from Docker container to a temp directory.
-   * Used when we can't find the volume mount on the host.
-   */
-  private async copyRegtestFromContainer(): Promise<string | null> {
-    const containerName =
-      this.config.docker?.containerName || "caravan-x-bitcoin";
-    const tempDir = path.join(
-      this.config.appDir,
-      `docker-regtest-${Date.now()}`,
-    );
-
-    try {
-      await fs.ensureDir(tempDir);
-      // Try common bitcoind data paths inside containers
-      await execAsync(
-        `docker cp "${containerName}:/home/bitcoin/.bitcoin/regtest" "${tempDir}/regtest" 2>/dev/null || ` +
-          `docker cp "${containerName}:/root/.bitcoin/regtest" "${tempDir}/regtest" 2>/dev/null`,
-      );
-
-      const copiedDir = path.join(tempDir, "regtest");
-      if (await fs.pathExists(copiedDir)) return copiedDir;
-    } catch {
-      // Container might be stopped or path wrong
-    }
-
-    await fs.remove(tempDir);
-    return null;
-  }
-
   /**
    * Stop Bitcoin Core gracefully
    */
@@ -1589,7 +2038,7 @@ export class EnvironmentService {
     } else {
       try {
         await execAsync(
-          `bitcoind -regtest -daemon -datadir="${this.config.bitcoin.dataDir}"`,
+          `bitcoind ${this.chainArgs()} -daemon -datadir="${this.config.bitcoin.dataDir}"`,
         );
       } catch {
         // bitcoind might already be running
@@ -0,0 +1,472 @@
+/**
+ * Fee-Market Simulator for Caravan-X
+ * Broadcasts background transactions across a fee-rate distribution and
+ * mines size-limited blocks that take them highest fee rate first, so
+ * Bitcoin Core's fee estimator sees a real market and estimatesmartfee
+ * starts returning estimates on regtest
+ */
+
+import { BitcoinRpcClient } from "./rpc";
+import { log } from "../utils/logger";
+
+export type FeeMarketPreset = "calm" | "congested" | "spike";
+
+/**
+ * Fee rates between min and max (sat/vB), picked with a relative weight
+ */
+export interface FeeRateBand {
+  min: number;
+  max: number;
+  weight: number;
+}
+
+export interface FeeMarketPhase {
+  /** Rounds in this phase; each round broadcasts and then mines one block */
+  rounds: number;
+  /** Transactions broadcast before each block */
+  transactionsPerRound: number;
+  feeRates: FeeRateBand[];
+}
+
+export interface FeeMarketProfile {
+  phases: FeeMarketPhase[];
+  /** Most background transactions a block confirms; the rest wait */
+  blockCapacity: number;
+}
+
+export interface FeeMarketOptions {
+  /** Built-in profile; defaults to "calm" */
+  preset?: FeeMarketPreset;
+  /** Custom profile, used instead of the preset */
+  profile?: FeeMarketProfile;
+  /** Number of background wallets (default 3) */
+  wallets?: number;
+  /** Wallet that funds the background wallets (default mining_wallet) */
+  fundingWallet?: string;
+  onProgress?: (round: number, total: number, message: string) => void;
+}
+
+export interface FeeEstimate {
+  /** Confirmation target in blocks */
+  target: number;
+  /** sat/vB; undefined while the estimator has too little data */
+  feeRate?: number;
+  /** Target the estimate actually applies to */
+  blocks?: number;
+}
+
+export interface FeeMarketResult {
+  preset?: FeeMarketPreset;
+  rounds: number;
+  transactions: number;
+  confirmed: number;
+  blocks: string[];
+  /** Transactions still waiting in the mempool */
+  mempoolSize: number;
+  estimates: FeeEstimate[];
+}
+
+interface Coin {
+  wallet: string;
+  txid: string;
+  vout: number;
+  amount: number;
+}
+
+const CALM_FEE_RATES: FeeRateBand[] = [
+  { min: 1, max: 3, weight: 6 },
+  { min: 3, max: 8, weight: 3 },
+  { min: 8, max: 15, weight: 1 },
+];
+
+export const FEE_MARKET_PRESETS: Record<FeeMarketPreset, FeeMarketProfile> = {
+  // Blocks have room for everything; estimates settle near the minimum
+  calm: {
+    blockCapacity: 20,
+    phases: [{ rounds: 40, transactionsPerRound: 8, feeRates: CALM_FEE_RATES }],
+  },
+  // More demand than block space; low fee rates wait or never confirm
+  congested: {
+    blockCapacity: 12,
+    phases: [
+      {
+        rounds: 40,
+        transactionsPerRound: 20,
+        feeRates: [
+          { min: 1, max: 5, weight: 4 },
+          { min: 5, max: 20, weight: 4 },
+          { min: 20, max: 60, weight: 2 },
+        ],
+      },
+    ],
+  },
+  // A calm market, a burst of high-fee demand, then the backlog clearing
+  spike: {
+    blockCapacity: 15,
+    phases: [
+      { rounds: 25, transactionsPerRound: 10, feeRates: CALM_FEE_RATES },
+      {
+        rounds: 10,
+        transactionsPerRound: 30,
+        feeRates: [
+          { min: 10, max: 40, weight: 3 },
+          { min: 40, max: 150, weight: 2 },
+        ],
+      },
+      { rounds: 5, transactionsPerRound: 5, feeRates: CALM_FEE_RATES },
+    ],
+  },
+};
+
+export const FEE_MARKET_PRESET_NAMES = Object.keys(
+  FEE_MARKET_PRESETS,
+) as FeeMarketPreset[];
+
+const ESTIMATE_TARGETS = [2, 3, 6, 12, 24];
+// Upper bound for a one-input, one-output background transaction
+const MAX_TX_VSIZE = 200;
+const MIN_FUNDING_AMOUNT = 0.001;
+// sendmany stays well under the standard transaction size
+const FUNDING_BATCH = 200;
+
+export class FeeMarketService {
+  private readonly rpc: BitcoinRpcClient;
+
+  constructor(rpc: BitcoinRpcClient) {
+    this.rpc = rpc;
+  }
+
+  async simulate(options: FeeMarketOptions = {}): Promise<FeeMarketResult> {
+    const preset = options.profile ? undefined : options.preset || "calm";
+    const profile = options.profile || FEE_MARKET_PRESETS[preset!];
+    if (!profile) {
+      throw new Error(
+        `Unknown fee market preset "${preset}" (expected ${FEE_MARKET_PRESET_NAMES.join(", ")})`,
+      );
+    }
+    validateProfile(profile);
+
+    const walletCount = options.wallets ?? 3;
+    if (!Number.isInteger(walletCount) || walletCount <= 0) {
+      throw new Error(
+        "Number of background wallets must be a positive integer",
+      );
+    }
+
+    // DEV: the market depends on choosing which transactions each block
+    // confirms, which generateblock cannot do on signet
+    if (this.rpc.signetMiner) {
+      throw new Error("The fee market simulator only runs on regtest");
+    }
+
+    const totalRounds = profile.phases.reduce((n, p) => n + p.rounds, 0);
+    const totalTransactions = profile.phases.reduce(
+      (n, p) => n + p.rounds * p.transactionsPerRound,
+      0,
+    );
+    const maxFeeRate = Math.max(
+      ...profile.phases.flatMap((p) => p.feeRates.map((band) => band.max)),
+    );
+    const minCoin = (maxFeeRate * MAX_TX_VSIZE * 2) / 1e8;
+
+    const fundingWallet = options.fundingWallet || "mining_wallet";
+    await this.ensureWallet(fundingWallet);
+    const minerAddress = await this.rpc.getNewAddress(fundingWallet);
+
+    const wallets: string[] = [];
+    for (let i = 1; i <= walletCount; i++) {
+      const wallet = `fee_market_${i}`;
+      await this.ensureWallet(wallet);
+      wallets.push(wallet);
+    }
+
+    const coins = await this.prepareCoins(
+      wallets,
+      fundingWallet,
+      minerAddress,
+      totalTransactions,
+      minCoin,
+    );
+
+    const blocks: string[] = [];
+    let transactions = 0;
+    let confirmed = 0;
+    let round = 0;
+
+    for (const phase of profile.phases) {
+      for (let i = 0; i < phase.rounds; i++) {
+        round++;
+        options.onProgress?.(
+          round,
+          totalRounds,
+          `Round ${round}/${totalRounds}: broadcasting ${phase.transactionsPerRound} transaction(s)`,
+        );
+
+        for (let t = 0; t < phase.transactionsPerRound; t++) {
+          const coin = coins.shift()!;
+          const to = wallets[Math.floor(Math.random() * wallets.length)];
+          await this.sendBackgroundTransaction(
+            coin,
+            await this.rpc.getNewAddress(to),
+            pickFeeRate(phase.feeRates),
+          );
+          transactions++;
+        }
+
+        const { hash, txids } = await this.mineBlock(
+          minerAddress,
+          profile.blockCapacity,
+        );
+        blocks.push(hash);
+        confirmed += txids.length;
+      }
+    }
+
+    const mempool = await this.rpc.callRpc<any>("getmempoolinfo");
+    log.verbose(
+      `Fee market: ${transactions} transaction(s), ${confirmed} confirmed in ${blocks.length} block(s)`,
+    );
+
+    return {
+      preset,
+      rounds: totalRounds,
+      transactions,
+      confirmed,
+      blocks,
+      mempoolSize: mempool.size,
+      estimates: await this.getEstimates(),
+    };
+  }
+
+  /**
+   * estimatesmartfee for the usual confirmation targets, in sat/vB
+   */
+  async getEstimates(): Promise<FeeEstimate[]> {
+    const estimates: FeeEstimate[] = [];
+    for (const target of ESTIMATE_TARGETS) {
+      const estimate = await this.rpc.estimateSmartFee(target);
+      estimates.push({
+        target,
+        feeRate:
+          estimate.feerate !== undefined
+            ? Math.round(estimate.feerate * 1e5 * 100) / 100
+            : undefined,
+        blocks: estimate.blocks,
+      });
+    }
+    return estimates;
+  }
+
+  /**
+   * Confirmed coins in the background wallets, topped up from the funding
+   * wallet so there is one per transaction. Coins left by earlier runs are
+   * reused.
+   */
+  private async prepareCoins(
+    wallets: string[],
+    fundingWallet: string,
+    minerAddress: string,
+    needed: number,
+    minCoin: number,
+  ): Promise<Coin[]> {
+    const missing = needed - (await this.listCoins(wallets, minCoin)).length;
+    if (missing > 0) {
+      const amount = Math.max(MIN_FUNDING_AMOUNT, minCoin);
+      await this.ensureFunds(fundingWallet, minerAddress, missing * amount);
+
+      const fundingTxids: string[] = [];
+      for (let start = 0; start < missing; start += FUNDING_BATCH) {
+        const outputs: Record<string, number> = {};
+        const count = Math.min(FUNDING_BATCH, missing - start);
+        for (let i = 0; i < count; i++) {
+          const wallet = wallets[(start + i) % wallets.length];
+          outputs[await this.rpc.getNewAddress(wallet)] = amount;
+        }
+
+        // sendmany positional args: dummy, amounts, minconf, comment,
+        // subtractfeefrom, replaceable, conf_target, estimate_mode, fee_rate
+        fundingTxids.push(
+          await this.rpc.callRpc<string>(
+            "sendmany",
+            ["", outputs, 1, "", [], false, null, "unset", 2],
+            fundingWallet,
+          ),
+        );
+      }
+
+      // Confirm only the funding, leaving anything else in the mempool alone
+      await this.rpc.callRpc("generateblock", [minerAddress, fundingTxids]);
+      log.verbose(
+        `Funded ${missing} background coin(s) of ${amount} BTC from ${fundingWallet}`,
+      );
+    }
+
+    const coins = await this.listCoins(wallets, minCoin);
+    if (coins.length < needed) {
+      throw new Error(
+        `Only ${coins.length} of ${needed} background coins are confirmed`,
+      );
+    }
+    return coins.slice(0, needed);
+  }
+
+  private async listCoins(wallets: string[], minCoin: number): Promise<Coin[]> {
+    const coins: Coin[] = [];
+    for (const wallet of wallets) {
+      const utxos = await this.rpc.listUnspent(wallet, 1);
+      for (const utxo of utxos) {
+        if (utxo.amount >= minCoin) {
+          coins.push({
+            wallet,
+            txid: utxo.txid,
+            vout: utxo.vout,
+            amount: utxo.amount,
+          });
+        }
+      }
+    }
+    return coins;
+  }
+
+  private async ensureFunds(
+    fundingWallet: string,
+    minerAddress: string,
+    amount: number,
+  ): Promise<void> {
+    const balance = await this.rpc.callRpc<number>(
+      "getbalance",
+      [],
+      fundingWallet,
+    );
+    if (balance > amount) {
+      return;
+    }
+
+    await this.rpc.generateToAddress(101, minerAddress);
+    const funded = await this.rpc.callRpc<number>(
+      "getbalance",
+      [],
+      fundingWallet,
+    );
+    if (funded <= amount) {
+      throw new Error(
+        `Wallet ${fundingWallet} has ${funded} BTC but the fee market needs ${amount} BTC`,
+      );
+    }
+  }
+
+  private async ensureWallet(wallet: string): Promise<void> {
+    const loaded = await this.rpc.listWallets();
+    if (loaded.includes(wallet)) {
+      return;
+    }
+
+    try {
+      await this.rpc.callRpc("loadwallet", [wallet]);
+    } catch {
+      await this.rpc.createWallet(wallet);
+    }
+  }
+
+  /**
+   * Spend one coin to a fresh address, paying the fee from the output
+   */
+  private async sendBackgroundTransaction(
+    coin: Coin,
+    address: string,
+    feeRate: number,
+  ): Promise<string> {
+    // send positional args: outputs, conf_target, estimate_mode, fee_rate,
+    // options
+    const result = await this.rpc.callRpc<any>(
+      "send",
+      [
+        [{ [address]: coin.amount }],
+        null,
+        "unset",
+        feeRate,
+        {
+          inputs: [{ txid: coin.txid, vout: coin.vout }],
+          add_inputs: false,
+          subtract_fee_from_outputs: [0],
+        },
+      ],
+      coin.wallet,
+    );
+    return result.txid;
+  }
+
+  /**
+   * Mine a block with the highest fee-rate mempool transactions that have
+   * no unconfirmed parents, up to capacity
+   */
+  private async mineBlock(
+    address: string,
+    capacity: number,
+  ): Promise<{ hash: string; txids: string[] }> {
+    const mempool = await this.rpc.callRpc<Record<string, any>>(
+      "getrawmempool",
+      [true],
+    );
+
+    const txids = Object.entries(mempool)
+      .filter(([, entry]) => entry.depends.length === 0)
+      .map(([txid, entry]) => ({
+        txid,
+        feeRate: entry.fees.modified / entry.vsize,
+      }))
+      .sort((a, b) => b.feeRate - a.feeRate)
+      .slice(0, capacity)
+      .map(({ txid }) => txid);
+
+    const { hash } = await this.rpc.callRpc<{ hash: string }>("generateblock", [
+      address,
+      txids,
+    ]);
+    return { hash, txids };
+  }
+}
+
+function pickFeeRate(bands: FeeRateBand[]): number {
+  const totalWeight = bands.reduce((n, band) => n + band.weight, 0);
+  let pick = Math.random() * totalWeight;
+  const band =
+    bands.find((candidate) => (pick -= candidate.weight) < 0) ||
+    bands[bands.length - 1];
+  const rate = band.min + Math.random() * (band.max - band.min);
+  return Math.round(rate * 10) / 10;
+}
+
+function validateProfile(profile: FeeMarketProfile): void {
+  if (!Number.isInteger(profile.blockCapacity) || profile.blockCapacity <= 0) {
+    throw new Error("Fee market blockCapacity must be a positive integer");
+  }
+  if (!Array.isArray(profile.phases) || profile.phases.length === 0) {
+    throw new Error("Fee market profile needs at least one phase");
+  }
+
+  profile.phases.forEach((phase, index) => {
+    const name = `Fee market phase ${index + 1}`;
+    if (!Number.isInteger(phase.rounds) || phase.rounds <= 0) {
+      throw new Error(`${name}: rounds must be a positive integer`);
+    }
+    if (
+      !Number.isInteger(phase.transactionsPerRound) ||
+      phase.transactionsPerRound < 0
+    ) {
+      throw new Error(
+        `${name}: transactionsPerRound must be a non-negative integer`,
+      );
+    }
+    if (!Array.isArray(phase.feeRates) || phase.feeRates.length === 0) {
+      throw new Error(`${name}: feeRates needs at least one band`);
+    }
+    for (const band of phase.feeRates) {
+      if (!(band.min > 0) || !(band.max >= band.min) || !(band.weight > 0)) {
+        throw new Error(
+          `${name}: each fee-rate band needs 0 < min <= max and a positive weight`,
+        );
+      }
+    }
+  });
+}
@@ -0,0 +1,561 @@
+/**
+ * Encrypted Key Store for Caravan-X
+ * Encrypts the private keys in CaravanKeyData files with a passphrase.
+ * The passphrase is stretched once with scrypt (salt and parameters live in
+ * keystore.json next to the key files) and each key is sealed with
+ * AES-256-GCM. The derived key is cached for the rest of the process, so
+ * the user unlocks once per session.
+ */
+
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as crypto from "crypto";
+import { CaravanKeyData } from "../types/caravan";
+
+export const KEYSTORE_FILE = "keystore.json";
+
+// A passphrase change stages every rewritten file under PENDING_SUFFIX and
+// commits by renaming the new metadata to NEXT_KEYSTORE_FILE
+const PENDING_SUFFIX = ".pending";
+const NEXT_KEYSTORE_FILE = "keystore.json.next";
+
+const ENCRYPTED_PREFIX = "v1:";
+const CHECK_PLAINTEXT = "caravan-x-keystore";
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+export interface KeyStoreMetadata {
+  version: 1;
+  kdf: "scrypt";
+  salt: string;
+  N: number;
+  r: number;
+  p: number;
+  /** A known value encrypted with the key, to reject a wrong passphrase */
+  check: string;
+}
+
+export interface KeyStoreStatus {
+  initialized: boolean;
+  unlocked: boolean;
+  files: number;
+  encryptedKeys: number;
+  plaintextKeys: number;
+}
+
+/**
+ * Asks the user for a passphrase. Registered by the UI layer so core
+ * services can unlock the store without depending on prompts.
+ */
+export type PassphrasePrompt = (message: string) => Promise<string>;
+
+let passphrasePrompt: PassphrasePrompt | undefined;
+
+/** Derived keys for the current process, keyed by keystore salt */
+const sessionKeys = new Map<string, Buffer>();
+
+export function setPassphrasePrompt(prompt: PassphrasePrompt): void {
+  passphrasePrompt = prompt;
+}
+
+export function isEncryptedValue(value: string | undefined): boolean {
+  return !!value && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+export class KeyStore {
+  private readonly keysDir: string;
+  /** Shown in the passphrase prompt */
+  private readonly label: string;
+
+  constructor(keysDir: string, label?: string) {
+    this.keysDir = keysDir;
+    this.label = label || keysDir;
+  }
+
+  get metadataPath(): string {
+    return path.join(this.keysDir, KEYSTORE_FILE);
+  }
+
+  async getMetadata(): Promise<KeyStoreMetadata | null> {
+    await this.recoverPassphraseChange();
+    if (!(await fs.pathExists(this.metadataPath))) {
+      return null;
+    }
+    return fs.readJson(this.metadataPath);
+  }
+
+  async isInitialized(): Promise<boolean> {
+    return (await this.getMetadata()) !== null;
+  }
+
+  async isUnlocked(): Promise<boolean> {
+    const metadata = await this.getMetadata();
+    return !!metadata && sessionKeys.has(metadata.salt);
+  }
+
+  /**
+   * Create keystore.json for a new passphrase. Existing key files are not
+   * touched; call encryptAll() afterwards.
+   */
+  async initialize(passphrase: string): Promise<void> {
+    if (await this.isInitialized()) {
+      throw new Error("The key store already has a passphrase");
+    }
+    await fs.ensureDir(this.keysDir);
+    await this.writeMetadata(passphrase);
+  }
+
+  /**
+   * Derive and cache the key for this session. Throws on a wrong passphrase.
+   */
+  async unlock(passphrase: string): Promise<void> {
+    const metadata = await this.requireMetadata();
+    sessionKeys.set(metadata.salt, await this.verify(metadata, passphrase));
+  }
+
+  lock(): void {
+    sessionKeys.clear();
+  }
+
+  /**
+   * Key file names (the key store metadata is not one)
+   */
+  async listKeyFiles(): Promise<string[]> {
+    if (!(await fs.pathExists(this.keysDir))) {
+      return [];
+    }
+    const files = await fs.readdir(this.keysDir);
+    return files.filter(
+      (file) => file.endsWith(".json") && file !== KEYSTORE_FILE,
+    );
+  }
+
+  async getStatus(): Promise<KeyStoreStatus> {
+    const status: KeyStoreStatus = {
+      initialized: await this.isInitialized(),
+      unlocked: await this.isUnlocked(),
+      files: 0,
+      encryptedKeys: 0,
+      plaintextKeys: 0,
+    };
+
+    for (const file of await this.listKeyFiles()) {
+      const keyData = await this.readRaw(file);
+      if (!keyData) continue;
+
+      status.files++;
+      for (const key of keyData.keyData) {
+        if (!key.privateKey) continue;
+        if (key.keyIsEncrypted) {
+          status.encryptedKeys++;
+        } else {
+          status.plaintextKeys++;
+        }
+      }
+    }
+
+    return status;
+  }
+
+  /**
+   * Read a key file with its private keys decrypted, unlocking the store
+   * if needed
+   */
+  async readKeyData(file: string): Promise<CaravanKeyData | null> {
+    const keyData = await this.readRaw(file);
+    if (!keyData) {
+      return null;
+    }
+    return this.decryptKeyData(keyData);
+  }
+
+  /**
+   * Read a key file without decrypting it, for checking which keys are
+   * stored without asking for the passphrase
+   */
+  async readKeyDataLocked(file: string): Promise<CaravanKeyData | null> {
+    return this.readRaw(file);
+  }
+
+  async decryptKeyData(keyData: CaravanKeyData): Promise<CaravanKeyData> {
+    if (!keyData.keyData.some((key) => key.keyIsEncrypted)) {
+      return keyData;
+    }
+
+    return decryptWith(keyData, await this.getSessionKey());
+  }
+
+  /**
+   * Write a key file, encrypting its private keys when the store has a
+   * passphrase
+   */
+  async writeKeyData(file: string, keyData: CaravanKeyData): Promise<void> {
+    await fs.ensureDir(this.keysDir);
+    const stored = (await this.isInitialized())
+      ? this.encryptKeyData(keyData, await this.getSessionKey())
+      : keyData;
+    await fs.writeJson(path.join(this.keysDir, file), stored, { spaces: 2 });
+  }
+
+  /**
+   * Encrypt every plaintext private key in the store. Returns how many
+   * keys were encrypted.
+   */
+  async encryptAll(): Promise<number> {
+    const key = await this.getSessionKey();
+    let count = 0;
+
+    for (const file of await this.listKeyFiles()) {
+      const keyData = await this.readRaw(file);
+      if (!keyData) continue;
+
+      const plaintext = keyData.keyData.filter(
+        (entry) => entry.privateKey && !entry.keyIsEncrypted,
+      ).length;
+      if (plaintext === 0) continue;
+
+      await fs.writeJson(
+        path.join(this.keysDir, file),
+        this.encryptKeyData(keyData, key),
+        { spaces: 2 },
+      );
+      count += plaintext;
+    }
+
+    return count;
+  }
+
+  /**
+   * Re-encrypt every key under a new passphrase. The store must be
+   * unlockable with the current one. A crash part way leaves either the
+   * old or the new passphrase working, never a mix of the two.
+   */
+  async changePassphrase(newPassphrase: string): Promise<void> {
+    const oldKey = await this.getSessionKey();
+
+    const files: Array<{ file: string; keyData: CaravanKeyData }> = [];
+    for (const file of await this.listKeyFiles()) {
+      const keyData = await this.readRaw(file);
+      if (keyData) {
+        files.push({ file, keyData: decryptWith(keyData, oldKey) });
+      }
+    }
+
+    const { metadata, key } = await createMetadata(newPassphrase);
+    for (const { file, keyData } of files) {
+      await fs.writeJson(
+        path.join(this.keysDir, file + PENDING_SUFFIX),
+        this.encryptKeyData(keyData, key),
+        { spaces: 2 },
+      );
+    }
+
+    // Every file is staged; the rename is the commit point
+    const stagedMetadata = this.metadataPath + PENDING_SUFFIX;
+    await fs.writeJson(stagedMetadata, metadata, { spaces: 2 });
+    await fs.rename(
+      stagedMetadata,
+      path.join(this.keysDir, NEXT_KEYSTORE_FILE),
+    );
+
+    sessionKeys.set(metadata.salt, key);
+    await this.recoverPassphraseChange();
+  }
+
+  /**
+   * Copy the key files into another directory (e.g. an environment
+   * archive). With a passphrase set, any plaintext keys are encrypted in
+   * the copy, so the destination never holds a readable key.
+   */
+  async exportTo(destDir: string): Promise<string[]> {
+    const files = await this.listKeyFiles();
+    await fs.ensureDir(destDir);
+
+    const metadata = await this.getMetadata();
+    if (metadata) {
+      await fs.copy(this.metadataPath, path.join(destDir, KEYSTORE_FILE));
+    }
+
+    const dest = new KeyStore(destDir);
+    for (const file of files) {
+      const keyData = await this.readRaw(file);
+      const hasPlaintext = keyData?.keyData.some(
+        (entry) => entry.privateKey && !entry.keyIsEncrypted,
+      );
+
+      if (metadata && keyData && hasPlaintext) {
+        await dest.writeKeyData(file, await this.decryptKeyData(keyData));
+      } else {
+        await fs.copy(path.join(this.keysDir, file), path.join(destDir, file));
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Copy key files from another store (e.g. an imported environment),
+   * re-encrypting them under this store's passphrase when the two differ
+   */
+  async importFrom(sourceDir: string): Promise<string[]> {
+    const source = new KeyStore(sourceDir, "imported keys");
+    const sourceMetadata = await source.getMetadata();
+    const files = await source.listKeyFiles();
+    if (files.length === 0) {
+      return [];
+    }
+
+    await fs.ensureDir(this.keysDir);
+    const metadata = await this.getMetadata();
+
+    // Same passphrase (or nothing encrypted on either side): plain copy
+    if (sourceMetadata?.salt === metadata?.salt) {
+      for (const file of files) {
+        await fs.copy(
+          path.join(sourceDir, file),
+          path.join(this.keysDir, file),
+          { overwrite: true },
+        );
+      }
+      return files;
+    }
+
+    // Nothing local yet: adopt the source passphrase as-is
+    if (sourceMetadata && !metadata && !(await this.hasKeyFiles())) {
+      await fs.copy(source.metadataPath, this.metadataPath);
+      for (const file of files) {
+        await fs.copy(
+          path.join(sourceDir, file),
+          path.join(this.keysDir, file),
+          { overwrite: true },
+        );
+      }
+      return files;
+    }
+
+    for (const file of files) {
+      const keyData = await source.readRaw(file);
+      if (!keyData) continue;
+
+      const decrypted = sourceMetadata
+        ? await source.decryptKeyData(keyData)
+        : keyData;
+      await this.writeKeyData(file, decrypted);
+    }
+    return files;
+  }
+
+  /**
+   * Cached key for this session, prompting for the passphrase once
+   */
+  private async getSessionKey(): Promise<Buffer> {
+    const metadata = await this.requireMetadata();
+    const cached = sessionKeys.get(metadata.salt);
+    if (cached) {
+      return cached;
+    }
+
+    if (!passphrasePrompt) {
+      throw new Error("The key store is locked and no passphrase was given");
+    }
+
+    const passphrase = await passphrasePrompt(
+      `Key store passphrase (${this.label}):`,
+    );
+    const key = await this.verify(metadata, passphrase);
+    sessionKeys.set(metadata.salt, key);
+    return key;
+  }
+
+  private async requireMetadata(): Promise<KeyStoreMetadata> {
+    const metadata = await this.getMetadata();
+    if (!metadata) {
+      throw new Error(
+        "The key store has no passphrase; run `caravan-x keys encrypt` first",
+      );
+    }
+    return metadata;
+  }
+
+  private async verify(
+    metadata: KeyStoreMetadata,
+    passphrase: string,
+  ): Promise<Buffer> {
+    const key = await deriveKey(passphrase, metadata);
+    try {
+      if (decrypt(key, metadata.check) === CHECK_PLAINTEXT) {
+        return key;
+      }
+    } catch {
+      // GCM authentication failed
+    }
+    throw new Error("Wrong key store passphrase");
+  }
+
+  /**
+   * Write keystore.json for a passphrase with a fresh salt and cache the
+   * derived key
+   */
+  private async writeMetadata(passphrase: string): Promise<Buffer> {
+    const { metadata, key } = await createMetadata(passphrase);
+    await fs.writeJson(this.metadataPath, metadata, { spaces: 2 });
+    sessionKeys.set(metadata.salt, key);
+    return key;
+  }
+
+  /**
+   * Finish or discard an interrupted passphrase change. Once the new
+   * metadata is committed, the staged key files replace the old ones and
+   * keystore.json is swapped last; otherwise the staged files are dropped
+   * and the old passphrase still opens every file.
+   */
+  private async recoverPassphraseChange(): Promise<void> {
+    if (!(await fs.pathExists(this.keysDir))) {
+      return;
+    }
+
+    const files = await fs.readdir(this.keysDir);
+    const staged = files.filter((file) => file.endsWith(PENDING_SUFFIX));
+    const committed = files.includes(NEXT_KEYSTORE_FILE);
+
+    for (const file of staged) {
+      const stagedPath = path.join(this.keysDir, file);
+      if (committed && file !== KEYSTORE_FILE + PENDING_SUFFIX) {
+        await fs.rename(
+          stagedPath,
+          stagedPath.slice(0, -PENDING_SUFFIX.length),
+        );
+      } else {
+        await fs.remove(stagedPath);
+      }
+    }
+
+    if (committed) {
+      await fs.rename(
+        path.join(this.keysDir, NEXT_KEYSTORE_FILE),
+        this.metadataPath,
+      );
+    }
+  }
+
+  private encryptKeyData(keyData: CaravanKeyData, key: Buffer): CaravanKeyData {
+    return {
+      ...keyData,
+      keyData: keyData.keyData.map((entry) =>
+        entry.privateKey && !entry.keyIsEncrypted
+          ? {
+              ...entry,
+              privateKey: encrypt(key, entry.privateKey),
+              keyIsEncrypted: true,
+            }
+          : entry,
+      ),
+    };
+  }
+
+  private async readRaw(file: string): Promise<CaravanKeyData | null> {
+    const filePath = path.join(this.keysDir, file);
+    if (!(await fs.pathExists(filePath))) {
+      return null;
+    }
+
+    const data = await fs.readJson(filePath);
+    return Array.isArray(data?.keyData) ? data : null;
+  }
+
+  private async hasKeyFiles(): Promise<boolean> {
+    return (await this.listKeyFiles()).length > 0;
+  }
+}
+
+function deriveKey(
+  passphrase: string,
+  params: { salt: string; N: number; r: number; p: number },
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(
+      passphrase,
+      Buffer.from(params.salt, "hex"),
+      KEY_LENGTH,
+      {
+        N: params.N,
+        r: params.r,
+        p: params.p,
+        maxmem: 256 * params.N * params.r,
+      },
+      (error, key) => (error ? reject(error) : resolve(key)),
+    );
+  });
+}
+
+/**
+ * Fresh metadata and its key for a passphrase
+ */
+async function createMetadata(
+  passphrase: string,
+): Promise<{ metadata: KeyStoreMetadata; key: Buffer }> {
+  if (!passphrase) {
+    throw new Error("The passphrase cannot be empty");
+  }
+
+  const params = {
+    salt: crypto.randomBytes(16).toString("hex"),
+    ...SCRYPT_PARAMS,
+  };
+  const key = await deriveKey(passphrase, params);
+  const metadata: KeyStoreMetadata = {
+    version: 1,
+    kdf: "scrypt",
+    ...params,
+    check: encrypt(key, CHECK_PLAINTEXT),
+  };
+  return { metadata, key };
+}
+
+function encrypt(key: Buffer, plaintext: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, "utf8"),
+    cipher.final(),
+  ]);
+  return (
+    ENCRYPTED_PREFIX +
+    Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64")
+  );
+}
+
+function decrypt(key: Buffer, value: string): string {
+  if (!isEncryptedValue(value)) {
+    throw new Error("Value is not in the key store format");
+  }
+
+  const data = Buffer.from(value.slice(ENCRYPTED_PREFIX.length), "base64");
+  const decipher = crypto.createDecipheriv(
+    "aes-256-gcm",
+    key,
+    data.subarray(0, IV_LENGTH),
+  );
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([
+    decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)),
+    decipher.final(),
+  ]).toString("utf8");
+}
+
+function decryptWith(keyData: CaravanKeyData, key: Buffer): CaravanKeyData {
+  return {
+    ...keyData,
+    keyData: keyData.keyData.map((entry) =>
+      entry.keyIsEncrypted && entry.privateKey
+        ? {
+            ...entry,
+            privateKey: decrypt(key, entry.privateKey),
+            keyIsEncrypted: false,
+          }
+        : entry,
+    ),
+  };
+}
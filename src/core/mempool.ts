@@ -0,0 +1,431 @@
+/**
+ * Mempool Control for Caravan-X
+ * Lists mempool entries with their packages and BIP125 status, changes
+ * their mining priority, evicts them and mines blocks from a chosen set of
+ * transactions, so tests decide exactly which payments confirm
+ */
+
+import { BitcoinRpcClient } from "./rpc";
+import { log } from "../utils/logger";
+
+/**
+ * Restarts the node with extra bitcoind arguments for the new run, or
+ * normally when there are none
+ */
+export type NodeRestarter = (extraArgs?: string[]) => Promise<void>;
+
+export interface MempoolEntry {
+  txid: string;
+  wtxid: string;
+  vsize: number;
+  weight: number;
+  /** Fee paid, in satoshis */
+  fee: number;
+  /** Fee including prioritisetransaction deltas, in satoshis */
+  modifiedFee: number;
+  /** Modified fee rate, sat/vB */
+  feeRate: number;
+  ancestorCount: number;
+  ancestorSize: number;
+  /** Fee rate of the entry with its unconfirmed ancestors, sat/vB */
+  ancestorFeeRate: number;
+  descendantCount: number;
+  descendantSize: number;
+  /** Fee rate of the entry with its unconfirmed descendants, sat/vB */
+  descendantFeeRate: number;
+  /** Unconfirmed parents */
+  depends: string[];
+  /** Unconfirmed children */
+  spentBy: string[];
+  bip125Replaceable: boolean;
+  /** Unix time the entry entered the mempool */
+  time: number;
+  /** Block height when it entered the mempool */
+  height: number;
+}
+
+export interface MineSelectionOptions {
+  /** Only these transactions (plus their unconfirmed ancestors) */
+  include?: string[];
+  /** Everything except these transactions and their descendants */
+  exclude?: string[];
+  /** Coinbase address; defaults to a mining wallet address */
+  address?: string;
+}
+
+export interface MineSelectionResult {
+  hash: string;
+  height: number;
+  /** Transactions in the block, in block order */
+  txids: string[];
+  /** Ancestors added so the included transactions are valid */
+  addedAncestors: string[];
+  /** Excluded transactions and their descendants, left in the mempool */
+  leftOut: string[];
+}
+
+export interface EvictionResult {
+  /** Requested transactions and their descendants */
+  evicted: string[];
+  /** Wallet transactions marked abandoned so wallets do not rebroadcast them */
+  abandoned: { wallet: string; txid: string }[];
+  /** Transactions put back into the mempool after the restart */
+  restored: number;
+  /** Transactions that could not be put back */
+  dropped: { txid: string; reason: string }[];
+}
+
+// Leave room for the coinbase under the 4M weight limit
+const MAX_BLOCK_TX_WEIGHT = 3990000;
+const RPC_READY_ATTEMPTS = 60;
+
+export class MempoolService {
+  private readonly rpc: BitcoinRpcClient;
+  private readonly restartNode?: NodeRestarter;
+  private readonly onRestarted?: () => Promise<void>;
+
+  /**
+   * restartNode is needed for eviction; it is only available when
+   * Caravan-X runs the node (Docker or a managed bitcoind). onRestarted
+   * runs once the node answers RPC again, e.g. to restore the mock time.
+   */
+  constructor(
+    rpc: BitcoinRpcClient,
+    restartNode?: NodeRestarter,
+    onRestarted?: () => Promise<void>,
+  ) {
+    this.rpc = rpc;
+    this.restartNode = restartNode;
+    this.onRestarted = onRestarted;
+  }
+
+  /**
+   * Every mempool entry, highest ancestor fee rate (mining order) first
+   */
+  async listEntries(): Promise<MempoolEntry[]> {
+    const raw = await this.rpc.callRpc<Record<string, any>>("getrawmempool", [
+      true,
+    ]);
+    return Object.entries(raw)
+      .map(([txid, entry]) => toMempoolEntry(txid, entry))
+      .sort((a, b) => b.ancestorFeeRate - a.ancestorFeeRate);
+  }
+
+  async getEntry(txid: string): Promise<MempoolEntry> {
+    try {
+      const entry = await this.rpc.callRpc<any>("getmempoolentry", [txid]);
+      return toMempoolEntry(txid, entry);
+    } catch (error: any) {
+      throw new Error(`Transaction ${txid} is not in the mempool`);
+    }
+  }
+
+  /**
+   * Change a transaction's fee for mining purposes by feeDelta satoshis.
+   * Deltas add up, persist across restarts, and may be set before the
+   * transaction arrives.
+   */
+  async prioritise(
+    txid: string,
+    feeDelta: number,
+  ): Promise<MempoolEntry | undefined> {
+    if (!Number.isInteger(feeDelta) || feeDelta === 0) {
+      throw new Error("Fee delta must be a non-zero number of satoshis");
+    }
+
+    // prioritisetransaction positional args: txid, dummy (must be 0),
+    // fee_delta
+    await this.rpc.callRpc("prioritisetransaction", [txid, 0, feeDelta]);
+    log.verbose(`Prioritised ${txid} by ${feeDelta} sat`);
+
+    const entries = await this.listEntries();
+    return entries.find((entry) => entry.txid === txid);
+  }
+
+  /**
+   * Mine one block with generateblock from a chosen set of mempool
+   * transactions
+   */
+  async mineSelected(
+    options: MineSelectionOptions,
+  ): Promise<MineSelectionResult> {
+    const { include, exclude } = options;
+    if (include && exclude) {
+      throw new Error("Choose transactions to include or to exclude, not both");
+    }
+    if (!include && !exclude) {
+      throw new Error("Pass transactions to include or to exclude");
+    }
+    // Signet blocks need the challenge signature, which generateblock lacks
+    if (this.rpc.signetMiner) {
+      throw new Error("Mining selected transactions only works on regtest");
+    }
+
+    const entries = await this.listEntries();
+    const byTxid = new Map(entries.map((entry) => [entry.txid, entry]));
+    for (const txid of include || exclude || []) {
+      if (!byTxid.has(txid)) {
+        throw new Error(`Transaction ${txid} is not in the mempool`);
+      }
+    }
+
+    let selected = new Set<string>();
+    const addedAncestors: string[] = [];
+    const leftOut: string[] = [];
+
+    if (include) {
+      for (const txid of include) {
+        selected.add(txid);
+        const ancestors = await this.rpc.callRpc<string[]>(
+          "getmempoolancestors",
+          [txid],
+        );
+        for (const ancestor of ancestors) {
+          if (!selected.has(ancestor) && !include.includes(ancestor)) {
+            addedAncestors.push(ancestor);
+          }
+          selected.add(ancestor);
+        }
+      }
+    } else {
+      const skipped = new Set<string>(exclude);
+      for (const txid of exclude!) {
+        const descendants = await this.rpc.callRpc<string[]>(
+          "getmempooldescendants",
+          [txid],
+        );
+        descendants.forEach((descendant) => skipped.add(descendant));
+      }
+      leftOut.push(...skipped);
+      selected = new Set(
+        entries.map((entry) => entry.txid).filter((txid) => !skipped.has(txid)),
+      );
+    }
+
+    const txids = this.orderForBlock(
+      entries.filter((entry) => selected.has(entry.txid)),
+      leftOut,
+    );
+
+    const address = options.address || (await this.getMiningAddress());
+    const { hash } = await this.rpc.callRpc<{ hash: string }>("generateblock", [
+      address,
+      txids,
+    ]);
+    const height = await this.rpc.callRpc<number>("getblockcount");
+
+    return { hash, height, txids, addedAncestors, leftOut };
+  }
+
+  /**
+   * Remove transactions (and their descendants) from the mempool. The node
+   * is restarted with -persistmempool=0 and -walletbroadcast=0 so it comes
+   * back with an empty mempool, the evicted wallet transactions are
+   * abandoned, the rest are resubmitted and saved, and the node is
+   * restarted normally.
+   */
+  async evict(txids: string[]): Promise<EvictionResult> {
+    if (!this.restartNode) {
+      throw new Error(
+        "Evicting transactions restarts the node, which Caravan-X can only do in Docker mode or with a managed bitcoind",
+      );
+    }
+    if (txids.length === 0) {
+      throw new Error("Pass at least one transaction to evict");
+    }
+
+    const entries = await this.listEntries();
+    const inMempool = new Set(entries.map((entry) => entry.txid));
+    const evicted = new Set<string>();
+    for (const txid of txids) {
+      if (!inMempool.has(txid)) {
+        throw new Error(`Transaction ${txid} is not in the mempool`);
+      }
+      evicted.add(txid);
+      const descendants = await this.rpc.callRpc<string[]>(
+        "getmempooldescendants",
+        [txid],
+      );
+      descendants.forEach((descendant) => evicted.add(descendant));
+    }
+
+    // Parents before children so every resubmission finds its inputs
+    const kept = entries
+      .filter((entry) => !evicted.has(entry.txid))
+      .sort((a, b) => a.ancestorCount - b.ancestorCount);
+    const keptHexes: { txid: string; hex: string }[] = [];
+    for (const entry of kept) {
+      keptHexes.push({
+        txid: entry.txid,
+        hex: await this.rpc.callRpc<string>("getrawtransaction", [entry.txid]),
+      });
+    }
+
+    const wallets = await this.rpc.listWallets();
+    const walletTxs = await this.findWalletTransactions(wallets, [...evicted]);
+
+    const abandoned: { wallet: string; txid: string }[] = [];
+    const dropped: { txid: string; reason: string }[] = [];
+
+    log.verbose("Restarting the node with an empty mempool");
+    await this.restartNode(["-persistmempool=0", "-walletbroadcast=0"]);
+    try {
+      await this.waitForRpc();
+      await this.onRestarted?.();
+      await this.loadWallets(wallets);
+
+      // DEV: abandoned transactions are the only unconfirmed wallet
+      // transactions a wallet does not resubmit when it loads
+      for (const { wallet, txid } of walletTxs) {
+        try {
+          await this.rpc.callRpc("abandontransaction", [txid], wallet);
+          abandoned.push({ wallet, txid });
+        } catch (error: any) {
+          log.warn(`Could not abandon ${txid} in ${wallet}: ${error.message}`);
+        }
+      }
+
+      for (const { txid, hex } of keptHexes) {
+        try {
+          await this.rpc.sendRawTransaction(hex);
+        } catch (error: any) {
+          dropped.push({ txid, reason: error.message });
+        }
+      }
+
+      // Written now, mempool.dat is what the normal restart loads
+      await this.rpc.callRpc("savemempool");
+    } finally {
+      log.verbose("Restarting the node normally");
+      await this.restartNode([]);
+      await this.waitForRpc();
+      await this.onRestarted?.();
+      await this.loadWallets(wallets);
+    }
+
+    return {
+      evicted: [...evicted],
+      abandoned,
+      restored: keptHexes.length - dropped.length,
+      dropped,
+    };
+  }
+
+  /**
+   * Order transactions parents first and stop before the block is full;
+   * anything after a transaction that did not fit is left out too
+   */
+  private orderForBlock(entries: MempoolEntry[], leftOut: string[]): string[] {
+    const ordered = [...entries].sort(
+      (a, b) =>
+        a.ancestorCount - b.ancestorCount ||
+        b.ancestorFeeRate - a.ancestorFeeRate,
+    );
+
+    const txids: string[] = [];
+    const skipped = new Set<string>();
+    let weight = 0;
+    for (const entry of ordered) {
+      if (
+        weight + entry.weight > MAX_BLOCK_TX_WEIGHT ||
+        entry.depends.some((parent) => skipped.has(parent))
+      ) {
+        skipped.add(entry.txid);
+        leftOut.push(entry.txid);
+        continue;
+      }
+      weight += entry.weight;
+      txids.push(entry.txid);
+    }
+    return txids;
+  }
+
+  /**
+   * Loaded wallets that know each transaction
+   */
+  private async findWalletTransactions(
+    wallets: string[],
+    txids: string[],
+  ): Promise<{ wallet: string; txid: string }[]> {
+    const found: { wallet: string; txid: string }[] = [];
+    for (const wallet of wallets) {
+      for (const txid of txids) {
+        try {
+          await this.rpc.getTransaction(wallet, txid);
+          found.push({ wallet, txid });
+        } catch {
+          // Not a transaction of this wallet
+        }
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Load wallets that were loaded before a restart but not on startup
+   */
+  private async loadWallets(wallets: string[]): Promise<void> {
+    const loaded = await this.rpc.listWallets();
+    for (const wallet of wallets) {
+      if (!loaded.includes(wallet)) {
+        await this.rpc.callRpc("loadwallet", [wallet]);
+      }
+    }
+  }
+
+  private async getMiningAddress(): Promise<string> {
+    const wallets = await this.rpc.listWallets();
+    const wallet = wallets.includes("mining_wallet")
+      ? "mining_wallet"
+      : wallets[0];
+    if (!wallet) {
+      throw new Error("No wallet is loaded to mine to; pass a mining address");
+    }
+    return this.rpc.getNewAddress(wallet);
+  }
+
+  /**
+   * Wait for RPC after a restart; wallets loaded on startup are ready once
+   * it answers
+   */
+  private async waitForRpc(): Promise<void> {
+    for (let i = 0; i < RPC_READY_ATTEMPTS; i++) {
+      try {
+        await this.rpc.callRpc("getblockchaininfo");
+        return;
+      } catch {
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      }
+    }
+    throw new Error(
+      `Bitcoin Core RPC did not become ready after ${RPC_READY_ATTEMPTS} attempts`,
+    );
+  }
+}
+
+function toMempoolEntry(txid: string, entry: any): MempoolEntry {
+  const sats = (btc: number) => Math.round(btc * 1e8);
+  const rate = (fee: number, vsize: number) =>
+    Math.round((sats(fee) / vsize) * 100) / 100;
+
+  return {
+    txid,
+    wtxid: entry.wtxid,
+    vsize: entry.vsize,
+    weight: entry.weight,
+    fee: sats(entry.fees.base),
+    modifiedFee: sats(entry.fees.modified),
+    feeRate: rate(entry.fees.modified, entry.vsize),
+    ancestorCount: entry.ancestorcount,
+    ancestorSize: entry.ancestorsize,
+    ancestorFeeRate: rate(entry.fees.ancestor, entry.ancestorsize),
+    descendantCount: entry.descendantcount,
+    descendantSize: entry.descendantsize,
+    descendantFeeRate: rate(entry.fees.descendant, entry.descendantsize),
+    depends: entry.depends || [],
+    spentBy: entry.spentby || [],
+    bip125Replaceable: !!entry["bip125-replaceable"],
+    time: entry.time,
+    height: entry.height,
+  };
+}
@@ -9,6 +9,7 @@ import {
   EnhancedAppConfig,
   SetupMode,
 } from "../types/config";
+import { BitcoindService } from "./bitcoind";
 
 /**
  * Manages multiple configuration profiles for Caravan-X.
@@ -237,6 +238,20 @@ export class ProfileManager {
     return index.profiles.filter((p) => p.mode === mode);
   }
 
+  /**
+   * Whether a Manual profile already points at a bitcoind Caravan-X does
+   * not manage
+   */
+  async hasExternalManualProfile(): Promise<boolean> {
+    for (const entry of await this.getProfilesByMode(SetupMode.MANUAL)) {
+      const profile = await this.getProfile(entry.id);
+      if (profile && !profile.config.managedBitcoind?.enabled) {
+        return true;
+      }
+    }
+    return false;
+  }
+
   /**
    * Check if any profiles exist
    */
@@ -285,6 +300,7 @@ export class ProfileManager {
    *   <baseDir>/profiles/<profileId>/
    *     ├── config.json         ← profile-scoped config
    *     ├── docker-data/        ← only this profile's blockchain data
+   *     ├── bitcoin-data/       ← managed bitcoind datadir (Manual mode)
    *     ├── wallets/            ← only this profile's Caravan wallet configs
    *     ├── keys/               ← only this profile's key files
    *     ├── snapshots/          ← only this profile's snapshots
@@ -298,16 +314,13 @@ export class ProfileManager {
   ): Promise<ConfigProfile> {
     const index = await this.getIndex();
 
-    // Manual mode is limited to one profile because all manual
-    // profiles share the same bitcoind — no filesystem isolation.
-    // Docker mode gets container-level isolation so multiple are fine.
-    if (mode === SetupMode.MANUAL) {
-      const existingManual = index.profiles.filter(
-        (p) => p.mode === SetupMode.MANUAL,
-      );
-      if (existingManual.length > 0) {
+    // An external bitcoind is shared by every profile pointing at it, so
+    // only one such Manual profile is allowed. Profiles with a managed
+    // bitcoind get their own datadir and ports, so multiple are fine.
+    if (mode === SetupMode.MANUAL && !config.managedBitcoind?.enabled) {
+      if (await this.hasExternalManualProfile()) {
         throw new Error(
-          "Only one Manual mode profile is allowed. Delete the existing one first, or use Docker mode for multiple profiles.",
+          "Only one Manual mode profile can use an external bitcoind. Let Caravan-X manage bitcoind for this profile, or delete the existing one first.",
         );
       }
     }
@@ -331,6 +344,10 @@ export class ProfileManager {
       await fs.ensureDir(path.join(profileDir, "docker-data", "nginx"));
     }
 
+    if (config.managedBitcoind?.enabled) {
+      await fs.ensureDir(path.join(profileDir, "bitcoin-data"));
+    }
+
     // --- Rewrite all paths in config to point inside this profile dir ---
     const scopedConfig = this.scopeConfigToProfile(config, profileDir);
 
@@ -417,6 +434,12 @@ export class ProfileManager {
     // The profile directory is the parent of the config file
     const profileDir = path.dirname(entry.configPath);
 
+    // A managed bitcoind would keep running on a deleted datadir
+    const profile = await this.getProfile(profileId);
+    if (profile?.config.managedBitcoind?.enabled) {
+      await new BitcoindService(profile.config).stop();
+    }
+
     // Nuke the entire profile directory
     if (await fs.pathExists(profileDir)) {
       await fs.remove(profileDir);
@@ -498,6 +521,14 @@ export class ProfileManager {
       }
     }
 
+    // --- Managed bitcoind: its own regtest datadir ---
+    if (config.mode === SetupMode.MANUAL && config.managedBitcoind?.enabled) {
+      scoped.bitcoin = {
+        ...config.bitcoin,
+        dataDir: path.join(profileDir, "bitcoin-data"),
+      };
+    }
+
     // --- Logging → profile-scoped ---
     scoped.logging = {
       ...(config.logging || {
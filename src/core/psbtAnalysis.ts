@@ -0,0 +1,439 @@
+/**
+ * PSBT Analysis for Caravan-X
+ * Combines analyzepsbt and decodepsbt with the stored Caravan configs to
+ * show whose signature each input is waiting on, which outputs are change,
+ * and problems that trip up Caravan or signing devices
+ */
+
+import { BitcoinRpcClient } from "./rpc";
+import { CaravanService } from "./caravan";
+import { matchPSBTWallets } from "./transaction";
+import { CaravanWalletConfig } from "../types/caravan";
+import { PSBTWalletMatch } from "../types/bitcoin";
+import { log } from "../utils/logger";
+
+export type CosignerState = "signed" | "missing" | "unknown";
+
+export interface CosignerStatus {
+  /** Name of the key in the Caravan config, or its fingerprint */
+  name: string;
+  fingerprint?: string;
+  /** Public key this input is signed with, from bip32_derivs */
+  pubkey?: string;
+  /** unknown when the PSBT has no bip32_derivs entry for the key */
+  state: CosignerState;
+  /** A private key for this cosigner is stored in the profile */
+  keyStored: boolean;
+}
+
+export interface InputAnalysis {
+  index: number;
+  txid: string;
+  vout: number;
+  /** In BTC, when the PSBT carries the UTXO */
+  amount?: number;
+  address?: string;
+  scriptType?: string;
+  /** Caravan wallet the input's keys belong to */
+  wallet?: string;
+  requiredSigners?: number;
+  signatures: number;
+  cosigners: CosignerStatus[];
+  /** Signatures from keys with no bip32_derivs entry */
+  unknownSigners: string[];
+  isFinal: boolean;
+  /** Next BIP174 role for the input: updater, signer, finalizer or extractor */
+  next?: string;
+}
+
+export interface OutputAnalysis {
+  index: number;
+  /** In BTC */
+  amount: number;
+  address?: string;
+  scriptType: string;
+  /** Caravan wallet that owns the output */
+  wallet?: string;
+  change: boolean;
+}
+
+export interface PSBTWarning {
+  input?: number;
+  output?: number;
+  message: string;
+}
+
+export interface PSBTAnalysis {
+  txid: string;
+  /** Caravan wallet most inputs belong to */
+  wallet?: string;
+  /** Every stored wallet the inputs spend from, with match confidence */
+  walletMatches: PSBTWalletMatch[];
+  quorum?: { requiredSigners: number; totalSigners: number };
+  inputs: InputAnalysis[];
+  outputs: OutputAnalysis[];
+  /** In BTC */
+  fee?: number;
+  /** Estimated size once signed, when every input has enough data */
+  estimatedVsize?: number;
+  /** sat/vB */
+  estimatedFeeRate?: number;
+  /** Next BIP174 role for the whole PSBT */
+  next: string;
+  complete: boolean;
+  warnings: PSBTWarning[];
+}
+
+interface KeyOrigin {
+  pubkey: string;
+  master_fingerprint: string;
+  path: string;
+  leaf_hashes?: string[];
+}
+
+/**
+ * Bitcoin Core's dust limits at the default 3 sat/vB dust relay fee
+ */
+const DUST_LIMITS: Record<string, number> = {
+  pubkeyhash: 546,
+  scripthash: 540,
+  witness_v0_keyhash: 294,
+  witness_v0_scripthash: 330,
+  witness_v1_taproot: 330,
+};
+
+/**
+ * Approximate vbytes to later spend an output of each type
+ */
+const SPEND_VBYTES: Record<string, number> = {
+  pubkeyhash: 148,
+  scripthash: 91,
+  witness_v0_keyhash: 68,
+  witness_v0_scripthash: 105,
+  witness_v1_taproot: 58,
+};
+
+const SEGWIT_TYPES = [
+  "witness_v0_keyhash",
+  "witness_v0_scripthash",
+  "witness_v1_taproot",
+];
+
+function getKeyOrigins(entry: any): KeyOrigin[] {
+  return [...(entry.bip32_derivs || []), ...(entry.taproot_bip32_derivs || [])];
+}
+
+/**
+ * Public keys that have signed an input, including taproot signatures
+ */
+function getSignedPubkeys(input: any, origins: KeyOrigin[]): string[] {
+  const signed = Object.keys(input.partial_signatures || {});
+  for (const sig of input.taproot_script_path_sigs || []) {
+    signed.push(sig.pubkey);
+  }
+  if (input.taproot_key_path_sig) {
+    const internalKey = origins.find(
+      (origin) => origin.leaf_hashes && origin.leaf_hashes.length === 0,
+    );
+    if (internalKey) {
+      signed.push(internalKey.pubkey);
+    }
+  }
+  return [...new Set(signed)];
+}
+
+export class PSBTAnalysisService {
+  private readonly rpc: BitcoinRpcClient;
+  private readonly caravanService: CaravanService;
+
+  constructor(rpc: BitcoinRpcClient, caravanService: CaravanService) {
+    this.rpc = rpc;
+    this.caravanService = caravanService;
+  }
+
+  async analyze(psbtBase64: string): Promise<PSBTAnalysis> {
+    const decoded = await this.rpc.decodePSBT(psbtBase64);
+    const analysis = await this.rpc.analyzePSBT(psbtBase64);
+    const wallets = await this.caravanService.listCaravanWallets();
+    const report = matchPSBTWallets(decoded, wallets);
+    const findWallet = (name?: string) =>
+      wallets.find((config) => config.name === name);
+    const warnings: PSBTWarning[] = [];
+
+    if (analysis.error) {
+      warnings.push({ message: analysis.error });
+    }
+
+    const storedXpubs = new Map<string, string[]>();
+    const getStoredXpubs = async (wallet: CaravanWalletConfig) => {
+      if (!storedXpubs.has(wallet.name)) {
+        storedXpubs.set(
+          wallet.name,
+          await this.caravanService.getStoredKeyXpubs(wallet),
+        );
+      }
+      return storedXpubs.get(wallet.name)!;
+    };
+
+    const inputs: InputAnalysis[] = [];
+    for (const [index, input] of decoded.inputs.entries()) {
+      const origins = getKeyOrigins(input);
+      const wallet = findWallet(report.inputWallets[index]);
+      const signedPubkeys = getSignedPubkeys(input, origins);
+      const utxo = this.getInputUtxo(decoded, input, index);
+
+      this.checkInputData(index, input, utxo?.scriptPubKey?.type, warnings);
+
+      const cosigners: CosignerStatus[] = [];
+      if (wallet) {
+        const stored = await getStoredXpubs(wallet);
+        for (const key of wallet.extendedPublicKeys) {
+          const origin = origins.find(
+            (entry) =>
+              key.xfp &&
+              entry.master_fingerprint.toLowerCase() === key.xfp.toLowerCase(),
+          );
+          cosigners.push({
+            name: key.name,
+            fingerprint: key.xfp?.toLowerCase(),
+            pubkey: origin?.pubkey,
+            state: origin
+              ? signedPubkeys.includes(origin.pubkey)
+                ? "signed"
+                : "missing"
+              : "unknown",
+            keyStored: stored.includes(key.xpub),
+          });
+        }
+      } else {
+        for (const origin of origins) {
+          cosigners.push({
+            name: origin.master_fingerprint,
+            fingerprint: origin.master_fingerprint,
+            pubkey: origin.pubkey,
+            state: signedPubkeys.includes(origin.pubkey) ? "signed" : "missing",
+            keyStored: false,
+          });
+        }
+      }
+
+      const known = origins.map((origin) => origin.pubkey);
+      const inputAnalysis = analysis.inputs?.[index] || {};
+
+      inputs.push({
+        index,
+        txid: decoded.tx.vin[index].txid,
+        vout: decoded.tx.vin[index].vout,
+        amount: utxo?.amount,
+        address: utxo?.scriptPubKey?.address,
+        scriptType: utxo?.scriptPubKey?.type,
+        wallet: wallet?.name,
+        requiredSigners: wallet?.quorum.requiredSigners,
+        signatures: signedPubkeys.length,
+        cosigners,
+        unknownSigners: signedPubkeys.filter((key) => !known.includes(key)),
+        isFinal: Boolean(inputAnalysis.is_final),
+        next: inputAnalysis.next,
+      });
+    }
+
+    const wallet = findWallet(report.matches[0]?.wallet);
+
+    const feeRate =
+      analysis.estimated_feerate !== undefined
+        ? (analysis.estimated_feerate * 1e8) / 1000
+        : undefined;
+
+    const inputAddresses = inputs
+      .map((input) => input.address)
+      .filter(Boolean) as string[];
+
+    const outputs: OutputAnalysis[] = [];
+    for (const [index, output] of decoded.tx.vout.entries()) {
+      const psbtOutput = decoded.outputs[index] || {};
+      const origins = getKeyOrigins(psbtOutput);
+      const address = output.scriptPubKey.address;
+      const scriptType = output.scriptPubKey.type;
+      const owner = findWallet(report.outputWallets[index]);
+
+      let change = false;
+      if (owner) {
+        // DEV: Caravan derives change on the /1/* branch
+        change = origins.some((origin) => {
+          const steps = origin.path.split("/");
+          return steps[steps.length - 2] === "1";
+        });
+      } else if (wallet && address) {
+        change = await this.isWatcherChange(wallet, address);
+      }
+
+      outputs.push({
+        index,
+        amount: output.value,
+        address,
+        scriptType,
+        wallet: owner?.name ?? (change ? wallet?.name : undefined),
+        change,
+      });
+
+      if (address && inputAddresses.includes(address)) {
+        warnings.push({
+          output: index,
+          message: `Pays back to an input address (${address})`,
+        });
+      } else if (address && wallet && (await this.isUsed(wallet, address))) {
+        warnings.push({
+          output: index,
+          message: `Address ${address} has received funds before`,
+        });
+      }
+
+      this.checkEconomical(index, output.value, scriptType, feeRate, warnings);
+    }
+
+    return {
+      txid: decoded.tx.txid,
+      wallet: wallet?.name,
+      walletMatches: report.matches,
+      quorum: wallet?.quorum,
+      inputs,
+      outputs,
+      fee: analysis.fee ?? decoded.fee,
+      estimatedVsize: analysis.estimated_vsize,
+      estimatedFeeRate: feeRate,
+      next: analysis.next,
+      complete: analysis.next === "extractor",
+      warnings,
+    };
+  }
+
+  /**
+   * The UTXO an input spends, from witness_utxo or non_witness_utxo
+   */
+  private getInputUtxo(
+    decoded: any,
+    input: any,
+    index: number,
+  ): { amount: number; scriptPubKey: any } | undefined {
+    if (input.witness_utxo) {
+      return input.witness_utxo;
+    }
+    if (input.non_witness_utxo) {
+      const output = input.non_witness_utxo.vout[decoded.tx.vin[index].vout];
+      return { amount: output.value, scriptPubKey: output.scriptPubKey };
+    }
+    return undefined;
+  }
+
+  private checkInputData(
+    index: number,
+    input: any,
+    scriptType: string | undefined,
+    warnings: PSBTWarning[],
+  ): void {
+    if (input.final_scriptwitness || input.final_scriptSig) {
+      return;
+    }
+
+    if (!input.witness_utxo && !input.non_witness_utxo) {
+      warnings.push({
+        input: index,
+        message: "No UTXO data; signers cannot see the amount spent",
+      });
+    } else if (
+      !input.witness_utxo &&
+      // DEV: P2SH-P2WSH inputs are scripthash but carry a witness script
+      (SEGWIT_TYPES.includes(scriptType!) || input.witness_script)
+    ) {
+      warnings.push({ input: index, message: "Missing witness_utxo" });
+    } else if (
+      !input.non_witness_utxo &&
+      !input.witness_script &&
+      scriptType &&
+      !SEGWIT_TYPES.includes(scriptType)
+    ) {
+      warnings.push({ input: index, message: "Missing non_witness_utxo" });
+    }
+
+    if (getKeyOrigins(input).length === 0) {
+      warnings.push({
+        input: index,
+        message:
+          "Missing bip32_derivs; signing devices cannot tell which key signs",
+      });
+    }
+  }
+
+  private checkEconomical(
+    index: number,
+    amount: number,
+    scriptType: string,
+    feeRate: number | undefined,
+    warnings: PSBTWarning[],
+  ): void {
+    const sats = Math.round(amount * 1e8);
+    const dustLimit = DUST_LIMITS[scriptType];
+    const spendCost =
+      feeRate !== undefined && SPEND_VBYTES[scriptType]
+        ? Math.ceil(SPEND_VBYTES[scriptType] * feeRate)
+        : undefined;
+
+    if (dustLimit !== undefined && sats < dustLimit) {
+      warnings.push({
+        output: index,
+        message: `${sats} sats is below the ${dustLimit} sat dust limit`,
+      });
+    } else if (spendCost !== undefined && sats <= spendCost) {
+      warnings.push({
+        output: index,
+        message: `Uneconomical: ${sats} sats costs about ${spendCost} sats to spend at this fee rate`,
+      });
+    }
+  }
+
+  /**
+   * Whether the wallet's watcher knows the address as change
+   */
+  private async isWatcherChange(
+    wallet: CaravanWalletConfig,
+    address: string,
+  ): Promise<boolean> {
+    if (!wallet.client?.walletName) {
+      return false;
+    }
+    try {
+      const info = await this.rpc.getAddressInfo(
+        wallet.client.walletName,
+        address,
+      );
+      return Boolean(info.ismine && info.ischange);
+    } catch (error: any) {
+      log.verbose(`Could not look up ${address}: ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Whether the wallet's watcher has seen a payment to the address
+   */
+  private async isUsed(
+    wallet: CaravanWalletConfig,
+    address: string,
+  ): Promise<boolean> {
+    if (!wallet.client?.walletName) {
+      return false;
+    }
+    try {
+      const received = await this.rpc.callRpc<number>(
+        "getreceivedbyaddress",
+        [address, 0],
+        wallet.client.walletName,
+      );
+      return received > 0;
+    } catch (error: any) {
+      // DEV: fails for addresses the watcher does not own
+      log.verbose(`Could not check reuse of ${address}: ${error.message}`);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,437 @@
+/**
+ * PSBT Repair for Caravan-X
+ * Fills in the global xpubs, bip32_derivs and UTXO fields that Caravan and
+ * signing devices expect but walletcreatefundedpsbt in a watcher wallet
+ * sometimes leaves out
+ */
+
+import * as bitcoin from "bitcoinjs-lib";
+import * as bip32 from "bip32";
+import * as ecc from "tiny-secp256k1";
+import { BitcoinRpcClient } from "./rpc";
+import { CaravanService } from "./caravan";
+import { matchPSBTWallets } from "./transaction";
+import { caravanConfigToDescriptors } from "./walletFormats";
+import { CaravanWalletConfig, ExtendedPublicKey } from "../types/caravan";
+import { log } from "../utils/logger";
+
+const BIP32 = bip32.BIP32Factory(ecc);
+
+export interface RepairOptions {
+  /** Caravan wallet to repair for; detected from the PSBT by default */
+  wallet?: string;
+  /** Address indexes to search past the wallet's starting index */
+  range?: number;
+}
+
+export interface PSBTRepairChange {
+  input?: number;
+  output?: number;
+  field: string;
+  message: string;
+}
+
+export interface PSBTRepairResult {
+  psbt: string;
+  /** Caravan wallets the PSBT was repaired for */
+  wallets: string[];
+  changes: PSBTRepairChange[];
+  /** Fields still missing after the repair */
+  missing: PSBTRepairChange[];
+  notes: string[];
+}
+
+const DEFAULT_RANGE = 1000;
+
+/**
+ * Which repairable fields a decoded PSBT entry has
+ */
+function describeFields(entry: any): Record<string, number> {
+  return {
+    witness_utxo: entry.witness_utxo ? 1 : 0,
+    non_witness_utxo: entry.non_witness_utxo ? 1 : 0,
+    bip32_derivs:
+      (entry.bip32_derivs?.length || 0) +
+      (entry.taproot_bip32_derivs?.length || 0),
+    witness_script: entry.witness_script ? 1 : 0,
+    redeem_script: entry.redeem_script ? 1 : 0,
+  };
+}
+
+// Extended public key versions by prefix, including the SLIP-132 ones
+// some wallets export
+const SLIP132_VERSIONS: Record<string, { version: number; mainnet: boolean }> =
+  {
+    xpub: { version: 0x0488b21e, mainnet: true },
+    ypub: { version: 0x049d7cb2, mainnet: true },
+    zpub: { version: 0x04b24746, mainnet: true },
+    Ypub: { version: 0x0295b43f, mainnet: true },
+    Zpub: { version: 0x02aa7ed3, mainnet: true },
+    tpub: { version: 0x043587cf, mainnet: false },
+    upub: { version: 0x044a5262, mainnet: false },
+    vpub: { version: 0x045f1c1f, mainnet: false },
+    Upub: { version: 0x024289ef, mainnet: false },
+    Vpub: { version: 0x02575483, mainnet: false },
+  };
+
+/**
+ * 78-byte BIP32 serialization of an xpub, as PSBT_GLOBAL_XPUB stores it.
+ * SLIP-132 keys (ypub, Zpub, vpub, Vpub, ...) are written as xpub or tpub.
+ */
+function serializeXpub(xpub: string): Buffer {
+  const slip132 = SLIP132_VERSIONS[xpub.slice(0, 4)];
+  if (!slip132) {
+    throw new Error(`Unknown extended public key prefix ${xpub.slice(0, 4)}`);
+  }
+  const network = slip132.mainnet
+    ? bitcoin.networks.bitcoin
+    : bitcoin.networks.testnet;
+  const node = BIP32.fromBase58(xpub, {
+    ...network,
+    bip32: { ...network.bip32, public: slip132.version },
+  });
+
+  const data = Buffer.alloc(78);
+  data.writeUInt32BE(network.bip32.public, 0);
+  data.writeUInt8(node.depth, 4);
+  data.writeUInt32BE(node.parentFingerprint, 5);
+  data.writeUInt32BE(node.index, 9);
+  Buffer.from(node.chainCode).copy(data, 13);
+  Buffer.from(node.publicKey).copy(data, 45);
+  return data;
+}
+
+export class PSBTRepairService {
+  private readonly rpc: BitcoinRpcClient;
+  private readonly caravanService: CaravanService;
+
+  constructor(rpc: BitcoinRpcClient, caravanService: CaravanService) {
+    this.rpc = rpc;
+    this.caravanService = caravanService;
+  }
+
+  async repair(
+    psbtBase64: string,
+    options: RepairOptions = {},
+  ): Promise<PSBTRepairResult> {
+    const before = await this.rpc.decodePSBT(psbtBase64);
+    const notes: string[] = [];
+    const stored = await this.caravanService.listCaravanWallets();
+
+    let candidates: CaravanWalletConfig[];
+    if (options.wallet) {
+      const wallet = stored.find((config) => config.name === options.wallet);
+      if (!wallet) {
+        throw new Error(`Caravan wallet ${options.wallet} not found`);
+      }
+      candidates = [wallet];
+    } else {
+      const { matches } = matchPSBTWallets(before, stored);
+      candidates = stored.filter((config) =>
+        matches.some((match) => match.wallet === config.name),
+      );
+      if (candidates.length === 0) {
+        notes.push(
+          "No wallet matched by bip32_derivs; tried every stored Caravan wallet",
+        );
+        candidates = stored;
+      }
+    }
+
+    let psbt = psbtBase64;
+    for (const wallet of candidates) {
+      psbt = await this.updateFromNode(psbt, wallet, options.range);
+    }
+
+    // DEV: keep only wallets whose keys now appear in the PSBT
+    const { matches } = matchPSBTWallets(
+      await this.rpc.decodePSBT(psbt),
+      candidates,
+    );
+    const wallets = candidates.filter((config) =>
+      matches.some((match) => match.wallet === config.name),
+    );
+
+    psbt = await this.addNonWitnessUtxos(psbt, wallets);
+    psbt = this.addGlobalXpubs(psbt, wallets, notes);
+
+    const after = await this.rpc.decodePSBT(psbt);
+    const { changes, missing } = this.compare(before, after);
+
+    return {
+      psbt,
+      wallets: wallets.map((config) => config.name),
+      changes,
+      missing,
+      notes,
+    };
+  }
+
+  /**
+   * Let the node fill in UTXOs, scripts and derivations from the wallet's
+   * descriptors and, when loaded, its watcher wallet
+   */
+  private async updateFromNode(
+    psbt: string,
+    wallet: CaravanWalletConfig,
+    range = DEFAULT_RANGE,
+  ): Promise<string> {
+    let descriptors: { desc: string; range: [number, number] }[];
+    try {
+      const { receive, change } = caravanConfigToDescriptors(wallet);
+      const end = (wallet.startingAddressIndex || 0) + range;
+      descriptors = [
+        { desc: receive, range: [0, end] },
+        { desc: change, range: [0, end] },
+      ];
+    } catch (error: any) {
+      log.verbose(`Skipping ${wallet.name}: ${error.message}`);
+      return psbt;
+    }
+
+    try {
+      psbt = await this.rpc.callRpc<string>("utxoupdatepsbt", [
+        psbt,
+        descriptors,
+      ]);
+    } catch (error: any) {
+      log.verbose(`utxoupdatepsbt failed for ${wallet.name}: ${error.message}`);
+    }
+
+    // DEV: descriptorprocesspsbt needs Bitcoin Core 25 or later
+    try {
+      const result = await this.rpc.callRpc<{ psbt: string }>(
+        "descriptorprocesspsbt",
+        [psbt, descriptors, "ALL", true, false],
+      );
+      psbt = result.psbt;
+    } catch (error: any) {
+      log.verbose(
+        `descriptorprocesspsbt failed for ${wallet.name}: ${error.message}`,
+      );
+    }
+
+    const watcher = wallet.client?.walletName;
+    if (watcher && (await this.rpc.listWallets()).includes(watcher)) {
+      try {
+        const result = await this.rpc.callRpc<{ psbt: string }>(
+          "walletprocesspsbt",
+          [psbt, false, "ALL", true],
+          watcher,
+        );
+        psbt = result.psbt;
+      } catch (error: any) {
+        log.verbose(`walletprocesspsbt failed in ${watcher}: ${error.message}`);
+      }
+    }
+
+    return psbt;
+  }
+
+  /**
+   * Add the full previous transaction to inputs that lack it. Hardware
+   * wallets want it even for segwit inputs.
+   */
+  private async addNonWitnessUtxos(
+    psbtBase64: string,
+    wallets: CaravanWalletConfig[],
+  ): Promise<string> {
+    const psbt = bitcoin.Psbt.fromBase64(psbtBase64);
+    const watchers = wallets
+      .map((config) => config.client?.walletName)
+      .filter(Boolean) as string[];
+
+    for (const [index, input] of psbt.data.inputs.entries()) {
+      const script = input.witnessUtxo?.script;
+      const isTaproot = script?.length === 34 && script[0] === 0x51;
+      if (
+        input.nonWitnessUtxo ||
+        input.finalScriptSig ||
+        input.finalScriptWitness ||
+        isTaproot
+      ) {
+        continue;
+      }
+
+      const txid = Buffer.from(psbt.txInputs[index].hash)
+        .reverse()
+        .toString("hex");
+      const hex = await this.getRawTransaction(txid, watchers);
+      if (hex) {
+        psbt.updateInput(index, { nonWitnessUtxo: Buffer.from(hex, "hex") });
+      }
+    }
+
+    return psbt.toBase64();
+  }
+
+  /**
+   * Raw transaction from the mempool, txindex or a watcher wallet
+   */
+  private async getRawTransaction(
+    txid: string,
+    watchers: string[],
+  ): Promise<string | undefined> {
+    try {
+      return await this.rpc.callRpc<string>("getrawtransaction", [txid]);
+    } catch (error: any) {
+      log.verbose(`getrawtransaction ${txid}: ${error.message}`);
+    }
+
+    for (const watcher of watchers) {
+      try {
+        return (await this.rpc.getTransaction(watcher, txid)).hex;
+      } catch (error: any) {
+        log.verbose(`${txid} not in ${watcher}: ${error.message}`);
+      }
+    }
+    return undefined;
+  }
+
+  private addGlobalXpubs(
+    psbtBase64: string,
+    wallets: CaravanWalletConfig[],
+    notes: string[],
+  ): string {
+    const psbt = bitcoin.Psbt.fromBase64(psbtBase64);
+    const existing = psbt.data.globalMap.globalXpub || [];
+
+    for (const wallet of wallets) {
+      const globalXpub = wallet.extendedPublicKeys
+        .map((key) => this.toGlobalXpub(wallet, key, notes))
+        .filter(
+          (entry) =>
+            entry &&
+            !existing.some((xpub) =>
+              xpub.extendedPubkey.equals(entry.extendedPubkey),
+            ),
+        ) as {
+        extendedPubkey: Buffer;
+        masterFingerprint: Buffer;
+        path: string;
+      }[];
+
+      if (globalXpub.length > 0) {
+        psbt.updateGlobal({ globalXpub });
+        existing.push(...globalXpub);
+      }
+    }
+
+    return psbt.toBase64();
+  }
+
+  private toGlobalXpub(
+    wallet: CaravanWalletConfig,
+    key: ExtendedPublicKey,
+    notes: string[],
+  ):
+    | { extendedPubkey: Buffer; masterFingerprint: Buffer; path: string }
+    | undefined {
+    if (!key.xfp) {
+      notes.push(
+        `${wallet.name}: ${key.name} has no fingerprint, so it has no global xpub`,
+      );
+      return undefined;
+    }
+
+    const converted = this.caravanService.convertBip32PathFormat(key.bip32Path);
+    const path = converted.startsWith("m") ? converted : `m/${converted}`;
+    if (path !== key.bip32Path) {
+      notes.push(
+        `${wallet.name}: ${key.name} path ${key.bip32Path} written as ${path}`,
+      );
+    }
+
+    try {
+      return {
+        extendedPubkey: serializeXpub(key.xpub),
+        masterFingerprint: Buffer.from(key.xfp, "hex"),
+        path,
+      };
+    } catch (error: any) {
+      notes.push(
+        `${wallet.name}: ${key.name} xpub is invalid (${error.message})`,
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Fields the repair added, and fields still missing
+   */
+  private compare(
+    before: any,
+    after: any,
+  ): { changes: PSBTRepairChange[]; missing: PSBTRepairChange[] } {
+    const changes: PSBTRepairChange[] = [];
+    const missing: PSBTRepairChange[] = [];
+
+    const xpubsAdded =
+      (after.global_xpubs?.length || 0) - (before.global_xpubs?.length || 0);
+    if (xpubsAdded > 0) {
+      changes.push({
+        field: "global_xpubs",
+        message: `Added ${xpubsAdded} global xpub(s)`,
+      });
+    }
+
+    const diff = (
+      entries: any[],
+      previous: any[],
+      position: "input" | "output",
+    ) => {
+      entries.forEach((entry, index) => {
+        const now = describeFields(entry);
+        const was = describeFields(previous[index] || {});
+        for (const field of Object.keys(now)) {
+          if (now[field] > was[field]) {
+            changes.push({
+              [position]: index,
+              field,
+              message:
+                field === "bip32_derivs"
+                  ? `Added ${now[field] - was[field]} bip32_derivs`
+                  : `Added ${field}`,
+            });
+          }
+        }
+      });
+    };
+    diff(after.inputs, before.inputs, "input");
+    diff(after.outputs, before.outputs, "output");
+
+    after.inputs.forEach((input: any, index: number) => {
+      if (input.final_scriptwitness || input.final_scriptSig) {
+        return;
+      }
+      const fields = describeFields(input);
+      const prevoutType: string | undefined =
+        input.witness_utxo?.scriptPubKey?.type ??
+        input.non_witness_utxo?.vout[after.tx.vin[index].vout]?.scriptPubKey
+          ?.type;
+      const isTaproot = prevoutType === "witness_v1_taproot";
+      // DEV: P2SH-P2WSH inputs are scripthash but carry a witness script
+      // or a witness redeem script; legacy P2SH inputs have no witness_utxo
+      const isSegwit =
+        !!input.witness_script ||
+        !!prevoutType?.startsWith("witness_") ||
+        !!input.redeem_script?.type?.startsWith("witness_");
+      const isLegacy = !isSegwit && !!(prevoutType || input.redeem_script);
+      for (const field of [
+        "witness_utxo",
+        "non_witness_utxo",
+        "bip32_derivs",
+      ]) {
+        if (
+          fields[field] === 0 &&
+          !(isTaproot && field === "non_witness_utxo") &&
+          !(isLegacy && field === "witness_utxo")
+        ) {
+          missing.push({ input: index, field, message: `Missing ${field}` });
+        }
+      }
+    });
+
+    return { changes, missing };
+  }
+}
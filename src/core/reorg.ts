@@ -0,0 +1,334 @@
+/**
+ * Reorg Simulation for Caravan-X
+ * Rolls back the tip with invalidateblock, optionally mines a competing
+ * branch (with double-spends of reorged payments) and reports which wallet
+ * transactions changed confirmation status
+ */
+
+import { BitcoinRpcClient } from "./rpc";
+import { log } from "../utils/logger";
+
+export interface ReorgOptions {
+  /** Number of blocks to invalidate from the tip */
+  depth: number;
+  /**
+   * Blocks in the competing branch. Defaults to depth + 1 so the branch
+   * wins on any peer that still has the old blocks; 0 only rolls back.
+   */
+  branchLength?: number;
+  /** Confirmed txids from the invalidated blocks to double-spend */
+  doubleSpend?: string[];
+  /**
+   * Let the branch confirm the transactions returned to the mempool.
+   * By default the branch leaves them unconfirmed.
+   */
+  includeMempool?: boolean;
+  /** Coinbase address for the branch; defaults to a mining wallet address */
+  miningAddress?: string;
+}
+
+export type WalletTxStatus =
+  "confirmed" | "unconfirmed" | "conflicted" | "absent";
+
+export interface WalletTxChange {
+  wallet: string;
+  txid: string;
+  before: WalletTxStatus;
+  after: WalletTxStatus;
+  confirmationsBefore?: number;
+  confirmationsAfter?: number;
+  /** Still confirmed, but in a block of the new branch */
+  blockChanged: boolean;
+}
+
+export interface DoubleSpend {
+  wallet: string;
+  /** The reorged payment */
+  originalTxid: string;
+  /** Conflicting transaction paying the inputs back to the sender */
+  txid: string;
+}
+
+export interface ReorgResult {
+  depth: number;
+  forkHeight: number;
+  oldTip: string;
+  newTip: string;
+  newHeight: number;
+  invalidatedBlocks: string[];
+  branchBlocks: string[];
+  doubleSpends: DoubleSpend[];
+  changes: WalletTxChange[];
+}
+
+interface WalletTxState {
+  confirmations: number;
+  blockhash?: string;
+}
+
+export class ReorgService {
+  private readonly rpc: BitcoinRpcClient;
+
+  constructor(rpc: BitcoinRpcClient) {
+    this.rpc = rpc;
+  }
+
+  async reorg(options: ReorgOptions): Promise<ReorgResult> {
+    const { depth, includeMempool = false, doubleSpend = [] } = options;
+    const branchLength = options.branchLength ?? depth + 1;
+
+    if (!Number.isInteger(depth) || depth <= 0) {
+      throw new Error("Reorg depth must be a positive integer");
+    }
+    if (!Number.isInteger(branchLength) || branchLength < 0) {
+      throw new Error("Branch length must be a non-negative integer");
+    }
+    if (doubleSpend.length > 0 && branchLength === 0) {
+      throw new Error("Double-spends need a competing branch to confirm them");
+    }
+
+    const height = await this.rpc.callRpc<number>("getblockcount");
+    if (depth > height) {
+      throw new Error(
+        `Cannot invalidate ${depth} blocks, the chain is only ${height} blocks high`,
+      );
+    }
+
+    const oldTip = await this.rpc.callRpc<string>("getbestblockhash");
+    const forkHeight = height - depth;
+
+    const invalidatedBlocks: string[] = [];
+    const reorgedTxids = new Set<string>();
+    for (let h = forkHeight + 1; h <= height; h++) {
+      const hash = await this.rpc.callRpc<string>("getblockhash", [h]);
+      const block = await this.rpc.getBlock(hash);
+      invalidatedBlocks.push(hash);
+      block.tx.forEach((txid: string) => reorgedTxids.add(txid));
+    }
+
+    for (const txid of doubleSpend) {
+      if (!reorgedTxids.has(txid)) {
+        throw new Error(
+          `Transaction ${txid} is not confirmed in the last ${depth} block(s)`,
+        );
+      }
+    }
+
+    const wallets = await this.rpc.listWallets();
+    const before = await this.captureWalletTxs(wallets);
+    const miningAddress =
+      branchLength > 0
+        ? options.miningAddress || (await this.getMiningAddress(wallets))
+        : undefined;
+
+    // Non-coinbase transactions of the invalidated blocks go back to the mempool
+    await this.rpc.callRpc("invalidateblock", [invalidatedBlocks[0]]);
+    log.verbose(`Invalidated ${depth} block(s) above height ${forkHeight}`);
+
+    const doubleSpends: DoubleSpend[] = [];
+    const doubleSpendHexes: string[] = [];
+    for (const txid of doubleSpend) {
+      const {
+        wallet,
+        hex,
+        txid: conflictTxid,
+      } = await this.buildDoubleSpend(txid, wallets);
+      doubleSpends.push({ wallet, originalTxid: txid, txid: conflictTxid });
+      doubleSpendHexes.push(hex);
+    }
+
+    const branchBlocks: string[] = [];
+    for (let i = 0; i < branchLength; i++) {
+      const carriesDoubleSpends = i === 0 && doubleSpendHexes.length > 0;
+
+      if (includeMempool && !carriesDoubleSpends) {
+        branchBlocks.push(
+          ...(await this.rpc.generateToAddress(1, miningAddress!)),
+        );
+        continue;
+      }
+
+      // DEV: generateblock only includes the transactions it is given, which
+      // keeps the reorged payments out of the branch. The first block
+      // carries the double-spends, evicting the originals from the mempool.
+      const { hash } = await this.rpc.callRpc<{ hash: string }>(
+        "generateblock",
+        [miningAddress, carriesDoubleSpends ? doubleSpendHexes : []],
+      );
+      branchBlocks.push(hash);
+    }
+
+    // A longer branch stays active, so the old blocks can become a valid
+    // stale fork again instead of staying marked invalid
+    if (branchBlocks.length > depth) {
+      await this.rpc.callRpc("reconsiderblock", [invalidatedBlocks[0]]);
+    }
+
+    const after = await this.captureWalletTxs(wallets);
+    const info = await this.rpc.getBlockchainInfo();
+
+    return {
+      depth,
+      forkHeight,
+      oldTip,
+      newTip: info.bestblockhash,
+      newHeight: info.blocks,
+      invalidatedBlocks,
+      branchBlocks,
+      doubleSpends,
+      changes: this.diffWalletTxs(before, after),
+    };
+  }
+
+  /**
+   * Confirmation state of every transaction in every wallet, keyed by
+   * wallet then txid
+   */
+  private async captureWalletTxs(
+    wallets: string[],
+  ): Promise<Map<string, Map<string, WalletTxState>>> {
+    const state = new Map<string, Map<string, WalletTxState>>();
+
+    for (const wallet of wallets) {
+      const txs = new Map<string, WalletTxState>();
+      const entries = await this.rpc.callRpc<any[]>(
+        "listtransactions",
+        ["*", 100000, 0, true],
+        wallet,
+      );
+
+      for (const entry of entries) {
+        txs.set(entry.txid, {
+          confirmations: entry.confirmations,
+          blockhash: entry.blockhash,
+        });
+      }
+      state.set(wallet, txs);
+    }
+
+    return state;
+  }
+
+  private diffWalletTxs(
+    before: Map<string, Map<string, WalletTxState>>,
+    after: Map<string, Map<string, WalletTxState>>,
+  ): WalletTxChange[] {
+    const changes: WalletTxChange[] = [];
+
+    for (const [wallet, afterTxs] of after) {
+      const beforeTxs = before.get(wallet) || new Map();
+      const txids = new Set([...beforeTxs.keys(), ...afterTxs.keys()]);
+
+      for (const txid of txids) {
+        const old = beforeTxs.get(txid);
+        const now = afterTxs.get(txid);
+        const change: WalletTxChange = {
+          wallet,
+          txid,
+          before: txStatus(old),
+          after: txStatus(now),
+          confirmationsBefore: old?.confirmations,
+          confirmationsAfter: now?.confirmations,
+          blockChanged:
+            !!old?.blockhash &&
+            !!now?.blockhash &&
+            old.blockhash !== now.blockhash,
+        };
+
+        if (change.before !== change.after || change.blockChanged) {
+          changes.push(change);
+        }
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Build a transaction spending the same inputs as txid, paying them back
+   * to the wallet that sent it
+   */
+  private async buildDoubleSpend(
+    txid: string,
+    wallets: string[],
+  ): Promise<{ wallet: string; hex: string; txid: string }> {
+    for (const wallet of wallets) {
+      let tx: any;
+      try {
+        tx = await this.rpc.callRpc(
+          "gettransaction",
+          [txid, true, true],
+          wallet,
+        );
+      } catch {
+        continue;
+      }
+
+      // Only the sending wallet reports a fee
+      if (tx.fee === undefined) {
+        continue;
+      }
+
+      const inputs = tx.decoded.vin.map((vin: any) => ({
+        txid: vin.txid,
+        vout: vin.vout,
+      }));
+
+      let total = 0;
+      for (const input of inputs) {
+        const prev = await this.rpc.callRpc<any>(
+          "gettransaction",
+          [input.txid, true, true],
+          wallet,
+        );
+        total += prev.decoded.vout[input.vout].value;
+      }
+
+      // Same fee as the original; the branch block does not need more
+      const amount = Number((total - Math.abs(tx.fee)).toFixed(8));
+      const address = await this.rpc.getNewAddress(wallet);
+      const raw = await this.rpc.callRpc<string>("createrawtransaction", [
+        inputs,
+        { [address]: amount },
+      ]);
+      const signed = await this.rpc.callRpc<any>(
+        "signrawtransactionwithwallet",
+        [raw],
+        wallet,
+      );
+      if (!signed.complete) {
+        throw new Error(
+          `Wallet ${wallet} could not sign a double-spend of ${txid}`,
+        );
+      }
+
+      const decoded = await this.rpc.callRpc<any>("decoderawtransaction", [
+        signed.hex,
+      ]);
+      return { wallet, hex: signed.hex, txid: decoded.txid };
+    }
+
+    throw new Error(
+      `No loaded wallet sent transaction ${txid}, so it cannot be double-spent`,
+    );
+  }
+
+  private async getMiningAddress(wallets: string[]): Promise<string> {
+    const wallet = wallets.includes("mining_wallet")
+      ? "mining_wallet"
+      : wallets[0];
+    if (!wallet) {
+      throw new Error(
+        "No wallet is loaded to mine the competing branch; pass a mining address",
+      );
+    }
+    return this.rpc.getNewAddress(wallet);
+  }
+}
+
+function txStatus(state?: WalletTxState): WalletTxStatus {
+  if (!state) return "absent";
+  if (state.confirmations > 0) return "confirmed";
+  if (state.confirmations < 0) return "conflicted";
+  return "unconfirmed";
+}
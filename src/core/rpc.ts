@@ -4,6 +4,7 @@ import { execSync } from "child_process";
 import { BitcoinRpcConfig } from "../types/config";
 import path from "path";
 import { log } from "../utils/logger";
+import { SignetMiner } from "./signet";
 
 /**
  * Client for communicating with the Bitcoin Core via RPC
@@ -12,11 +13,17 @@ export class BitcoinRpcClient {
   public readonly config: BitcoinRpcConfig;
   public readonly baseUrl: string;
   public readonly auth: { username: string; password: string };
+  /** Set on custom signets, where bitcoind cannot mine by itself */
+  public readonly signetMiner?: SignetMiner;
 
   constructor(config: BitcoinRpcConfig) {
     this.config = config;
     this.baseUrl = `${config.protocol}://${config.host}:${config.port}`;
     this.auth = { username: config.user, password: config.pass };
+
+    if (config.network === "signet" && config.signet) {
+      this.signetMiner = new SignetMiner(this, config.signet);
+    }
   }
 
   /**
@@ -32,6 +39,14 @@ export class BitcoinRpcClient {
   ): Promise<T> {
     log.rpc(method, params, wallet);
 
+    // generatetoaddress cannot produce signed signet blocks
+    if (method === "generatetoaddress" && this.signetMiner) {
+      return (await this.signetMiner.generateToAddress(
+        params[0],
+        params[1],
+      )) as T;
+    }
+
     try {
       const url = wallet ? `${this.baseUrl}/wallet/${wallet}` : this.baseUrl;
       const requestConfig: AxiosRequestConfig = {
@@ -104,7 +119,9 @@ export class BitcoinRpcClient {
         try {
           const cliCommand = `${method} ${params.map((p) => JSON.stringify(p)).join(" ")}`;
 
-          log.command(`bitcoin-cli -regtest ${cliCommand}`);
+          log.command(
+            `bitcoin-cli -${this.config.network || "regtest"} ${cliCommand}`,
+          );
 
           const result = this.executeCliCommand(cliCommand, wallet);
 
@@ -145,7 +162,7 @@ export class BitcoinRpcClient {
       }
 
       // Build bitcoin-cli command
-      let cliCmd = `bitcoin-cli -conf="${bitcoinConfPath}" -datadir="${this.config.dataDir}" -regtest`;
+      let cliCmd = `bitcoin-cli -conf="${bitcoinConfPath}" -datadir="${this.config.dataDir}" -${this.config.network || "regtest"}`;
 
       if (wallet) {
         cliCmd += ` -rpcwallet=${wallet}`;
@@ -436,6 +453,37 @@ export class BitcoinRpcClient {
     return this.callRpc("decodepsbt", [psbtBase64]);
   }
 
+  /**
+   * Analyzes a base64-encoded PSBT.
+   *
+   * This method calls the Bitcoin Core RPC method `analyzepsbt`, which reports the next role
+   * for each input, the keys and signatures it is still missing, and the estimated vsize,
+   * fee rate and fee once every input has enough data.
+   *
+   * @param {string} psbtBase64 - The base64-encoded PSBT string to analyze.
+   * @returns {Promise<any>} A promise that resolves to the analysis.
+   *
+   * @see https://developer.bitcoin.org/reference/rpc/analyzepsbt.html
+   */
+  async analyzePSBT(psbtBase64: string): Promise<any> {
+    return this.callRpc("analyzepsbt", [psbtBase64]);
+  }
+
+  /**
+   * Combines PSBTs for the same transaction into one that carries every signature.
+   *
+   * This method calls the Bitcoin Core RPC method `combinepsbt`, which merges the
+   * partial signatures and other fields of each PSBT.
+   *
+   * @param {string[]} psbts - The base64-encoded PSBTs to combine.
+   * @returns {Promise<string>} A promise that resolves to the combined base64-encoded PSBT.
+   *
+   * @see https://developer.bitcoin.org/reference/rpc/combinepsbt.html
+   */
+  async combinePSBT(psbts: string[]): Promise<string> {
+    return this.callRpc<string>("combinepsbt", [psbts]);
+  }
+
   /**
    * Finalizes a PSBT by completing all available signatures and assembling the final transaction.
    *
@@ -17,14 +17,28 @@ import { BitcoinService } from "./bitcoin";
 import { CaravanService } from "./caravan";
 import { TransactionService } from "./transaction";
 import { BitcoinRpcClient } from "./rpc";
+import { FeeMarketService } from "./feeMarket";
+import { TimeService } from "./time";
 import { AddressType, Network } from "../types/caravan";
 
+/**
+ * Whether a scenario transaction carries an absolute or relative timelock
+ */
+function isTimelocked(tx: ScenarioTransaction): boolean {
+  return (
+    tx.locktime !== undefined ||
+    tx.lockBlocks !== undefined ||
+    tx.relativeLocktime !== undefined
+  );
+}
+
 export class ScenarioService {
   private readonly bitcoinService: BitcoinService;
   private readonly caravanService: CaravanService;
   private readonly transactionService: TransactionService;
   private readonly rpc: BitcoinRpcClient;
   private readonly scenariosDir: string;
+  private readonly timeService?: TimeService;
 
   constructor(
     bitcoinService: BitcoinService,
@@ -32,12 +46,14 @@ export class ScenarioService {
     transactionService: TransactionService,
     rpc: BitcoinRpcClient,
     scenariosDir: string,
+    timeService?: TimeService,
   ) {
     this.bitcoinService = bitcoinService;
     this.caravanService = caravanService;
     this.transactionService = transactionService;
     this.rpc = rpc;
     this.scenariosDir = scenariosDir;
+    this.timeService = timeService;
 
     // Ensure scenarios directory exists
     fs.ensureDirSync(this.scenariosDir);
@@ -92,6 +108,11 @@ export class ScenarioService {
         scenario.wallets,
       );
 
+      // Step 4: Simulate a fee market
+      if (scenario.feeMarket) {
+        await this.runFeeMarket(scenario.feeMarket);
+      }
+
       console.log(chalk.bold.green("\n✅ Scenario applied successfully!"));
       console.log(
         chalk.cyan(`\nCurrent block height: ${scenario.blockHeight}`),
@@ -107,6 +128,45 @@ export class ScenarioService {
     }
   }
 
+  /**
+   * Fill the mempool and mine fee-ordered blocks until estimatesmartfee
+   * has data
+   */
+  private async runFeeMarket(
+    feeMarket: NonNullable<TestScenario["feeMarket"]>,
+  ): Promise<void> {
+    const spinner = ora("Simulating fee market...").start();
+
+    try {
+      const result = await new FeeMarketService(this.rpc).simulate({
+        ...(typeof feeMarket === "string"
+          ? { preset: feeMarket }
+          : { profile: feeMarket }),
+        onProgress: (_round, _total, message) => {
+          spinner.text = message;
+        },
+      });
+
+      spinner.succeed(
+        `Fee market simulated: ${result.transactions} transactions over ${result.rounds} blocks, ${result.mempoolSize} left in the mempool`,
+      );
+      for (const estimate of result.estimates) {
+        console.log(
+          chalk.dim(
+            `   ${estimate.target} blocks: ${
+              estimate.feeRate !== undefined
+                ? `${estimate.feeRate} sat/vB`
+                : "no estimate"
+            }`,
+          ),
+        );
+      }
+    } catch (error: any) {
+      spinner.fail("Failed to simulate fee market");
+      throw error;
+    }
+  }
+
   /**
    * Setup blockchain to target height
    */
@@ -293,6 +353,7 @@ export class ScenarioService {
       P2WSH: AddressType.P2WSH,
       P2SH: AddressType.P2SH,
       "P2SH-P2WSH": AddressType.P2SH_P2WSH,
+      P2TR: AddressType.P2TR,
     };
 
     return typeMap[addressType] || AddressType.P2WSH;
@@ -338,6 +399,13 @@ export class ScenarioService {
 
     console.log(chalk.bold("\n💸 Executing Transactions"));
 
+    // Broadcast transactions so CPFP children can find their parent
+    const broadcast: {
+      tx: ScenarioTransaction;
+      txid: string;
+      toAddress: string;
+    }[] = [];
+
     for (const tx of transactions) {
       const spinner = ora(`${tx.from} → ${tx.to}: ${tx.amount} BTC`).start();
 
@@ -345,32 +413,78 @@ export class ScenarioService {
         // Get recipient address
         const toAddress = await this.rpc.getNewAddress(tx.to);
 
-        // Create and send transaction
-        const txid = await this.rpc.sendToAddress(
-          tx.from,
-          toAddress,
-          tx.amount,
-        );
+        let txid: string;
+        const flags: string[] = [];
+
+        if (isTimelocked(tx)) {
+          const locked = await this.sendTimelockedTransaction(tx, toAddress);
+          flags.push(locked.description);
+
+          if (!locked.broadcast) {
+            spinner.succeed(
+              `${tx.from} → ${tx.to}: ${tx.amount} BTC (timelocked, not broadcast) [${flags.join(", ")}]`,
+            );
+            console.log(
+              chalk.dim(
+                `   rejected with "${locked.rejectReason}", signed hex saved to ${locked.hexPath}`,
+              ),
+            );
+            continue;
+          }
+
+          txid = locked.txid;
+        } else if (tx.cpfp) {
+          const parent = [...broadcast]
+            .reverse()
+            .find((b) => b.tx.to === tx.from && !b.tx.confirmed);
+          txid = await this.sendCpfpChild(tx, toAddress, parent);
+          flags.push("CPFP child");
+        } else {
+          txid = await this.sendScenarioTransaction(tx, toAddress);
+        }
+
+        if (tx.rbf) {
+          flags.push("BIP125");
+        }
+        if (tx.feeRate !== undefined) {
+          flags.push(`${tx.feeRate} sat/vB`);
+        }
+
+        if (tx.replaceWithFeeRate !== undefined) {
+          if (!tx.rbf) {
+            throw new Error(
+              "replaceWithFeeRate requires rbf to be enabled on the transaction",
+            );
+          }
+          const replaced = await this.rpc.callRpc<any>(
+            "bumpfee",
+            [txid, { fee_rate: tx.replaceWithFeeRate }],
+            tx.from,
+          );
+          flags.push(
+            `replaced ${txid.substring(0, 8)}… at ${tx.replaceWithFeeRate} sat/vB`,
+          );
+          txid = replaced.txid;
+        }
+
+        broadcast.push({ tx, txid, toAddress });
 
         // Mine blocks to confirm if specified
+        const flagText = flags.length > 0 ? ` [${flags.join(", ")}]` : "";
         if (tx.confirmed) {
           const mineAddress = await this.rpc.getNewAddress(tx.from);
           await this.rpc.generateToAddress(1, mineAddress);
           spinner.succeed(
-            `${tx.from} → ${tx.to}: ${tx.amount} BTC (confirmed)`,
+            `${tx.from} → ${tx.to}: ${tx.amount} BTC (confirmed)${flagText}`,
           );
         } else {
           spinner.succeed(
-            `${tx.from} → ${tx.to}: ${tx.amount} BTC (unconfirmed)`,
+            `${tx.from} → ${tx.to}: ${tx.amount} BTC (unconfirmed)${flagText}`,
           );
         }
 
-        // Add RBF or CPFP flags if specified
-        if (tx.rbf) {
-          spinner.text += " [RBF enabled]";
-        }
-        if (tx.cpfp) {
-          spinner.text += " [CPFP ready]";
+        if (tx.cpfp && !tx.confirmed) {
+          await this.reportPackageFeeRate(txid);
         }
       } catch (error: any) {
         spinner.fail(`Failed transaction: ${tx.from} → ${tx.to}`);
@@ -379,6 +493,233 @@ export class ScenarioService {
     }
   }
 
+  /**
+   * Send a plain scenario transaction, honoring the RBF flag and fee rate
+   */
+  private async sendScenarioTransaction(
+    tx: ScenarioTransaction,
+    toAddress: string,
+  ): Promise<string> {
+    if (!tx.rbf && tx.feeRate === undefined) {
+      return this.rpc.sendToAddress(tx.from, toAddress, tx.amount);
+    }
+
+    // sendtoaddress positional args: address, amount, comment, comment_to,
+    // subtractfeefromamount, replaceable, conf_target, estimate_mode,
+    // avoid_reuse, fee_rate
+    return this.rpc.callRpc<string>(
+      "sendtoaddress",
+      [
+        toAddress,
+        tx.amount,
+        "",
+        "",
+        false,
+        !!tx.rbf,
+        null,
+        "unset",
+        null,
+        tx.feeRate ?? null,
+      ],
+      tx.from,
+    );
+  }
+
+  /**
+   * Build, sign and finalize a timelocked transaction from the sending wallet.
+   * Confirmed transactions are mined past their lock and broadcast; the rest
+   * are kept out of the mempool with their inputs locked, and the signed hex
+   * is written to the scenarios directory so it can be broadcast later.
+   */
+  private async sendTimelockedTransaction(
+    tx: ScenarioTransaction,
+    toAddress: string,
+  ): Promise<{
+    txid: string;
+    broadcast: boolean;
+    description: string;
+    rejectReason?: string;
+    hexPath?: string;
+  }> {
+    let locktime = tx.locktime;
+    if (tx.lockBlocks !== undefined) {
+      const info = await this.rpc.getBlockchainInfo();
+      locktime = info.blocks + tx.lockBlocks;
+    }
+
+    const psbt = await this.transactionService.createPSBT(
+      tx.from,
+      [{ [toAddress]: tx.amount }],
+      {
+        rbf: tx.rbf,
+        feeRate: tx.feeRate,
+        locktime,
+        relativeLocktime: tx.relativeLocktime,
+      },
+    );
+    const signed = await this.transactionService.processPSBT(tx.from, psbt);
+    const finalized = await this.transactionService.finalizePSBT(signed);
+
+    if (!finalized.complete) {
+      throw new Error(`Timelocked transaction from ${tx.from} is not complete`);
+    }
+
+    const parts: string[] = [];
+    if (locktime !== undefined) {
+      parts.push(`nLockTime ${locktime}`);
+    }
+    if (tx.relativeLocktime?.blocks !== undefined) {
+      parts.push(`CSV ${tx.relativeLocktime.blocks} blocks`);
+    } else if (tx.relativeLocktime?.seconds !== undefined) {
+      parts.push(`CSV ${tx.relativeLocktime.seconds}s`);
+    }
+    const description = parts.join(", ");
+
+    if (tx.confirmed) {
+      const mineAddress = await this.rpc.getNewAddress(tx.from);
+      const unlock = await this.transactionService.mineUntilFinal(
+        finalized.hex,
+        mineAddress,
+        undefined,
+        this.timeService,
+      );
+
+      if (!unlock.final) {
+        throw new Error(
+          `Transaction from ${tx.from} is still timelocked after mining ${unlock.blocksMined} blocks`,
+        );
+      }
+
+      if (unlock.initialRejection) {
+        console.log(
+          chalk.dim(
+            `\n   rejected with "${unlock.initialRejection}", mined ${unlock.blocksMined} block(s) to unlock`,
+          ),
+        );
+      }
+
+      const txid = await this.transactionService.broadcastTransaction(
+        finalized.hex,
+      );
+      return { txid, broadcast: true, description };
+    }
+
+    const status = await this.transactionService.testMempoolAccept(
+      finalized.hex,
+    );
+
+    if (status.allowed) {
+      // The lock has already expired, so it behaves like any other transaction
+      const txid = await this.transactionService.broadcastTransaction(
+        finalized.hex,
+      );
+      return { txid, broadcast: true, description };
+    }
+
+    // Keep later scenario transactions from spending the same coins
+    const decoded = await this.rpc.callRpc<any>("decoderawtransaction", [
+      finalized.hex,
+    ]);
+    await this.rpc.callRpc(
+      "lockunspent",
+      [
+        false,
+        decoded.vin.map((vin: any) => ({ txid: vin.txid, vout: vin.vout })),
+      ],
+      tx.from,
+    );
+
+    const lockedDir = path.join(this.scenariosDir, "locked");
+    await fs.ensureDir(lockedDir);
+    const hexPath = path.join(lockedDir, `${status.txid}.hex`);
+    await fs.writeFile(hexPath, finalized.hex);
+
+    return {
+      txid: status.txid,
+      broadcast: false,
+      description,
+      rejectReason: status.rejectReason,
+      hexPath,
+    };
+  }
+
+  /**
+   * Build a CPFP child that spends the parent's unconfirmed output.
+   * When no parent from this scenario is known, any unconfirmed UTXO
+   * in the sending wallet is used instead.
+   */
+  private async sendCpfpChild(
+    tx: ScenarioTransaction,
+    toAddress: string,
+    parent?: { txid: string; toAddress: string },
+  ): Promise<string> {
+    let input: { txid: string; vout: number } | undefined;
+
+    if (parent) {
+      const parentTx = await this.rpc.callRpc<any>("getrawtransaction", [
+        parent.txid,
+        true,
+      ]);
+      const output = parentTx.vout.find(
+        (vout: any) => vout.scriptPubKey.address === parent.toAddress,
+      );
+      if (output) {
+        input = { txid: parent.txid, vout: output.n };
+      }
+    }
+
+    if (!input) {
+      const unconfirmed = await this.rpc.listUnspent(tx.from, 0, 0);
+      if (unconfirmed.length === 0) {
+        throw new Error(
+          `CPFP transaction from ${tx.from} has no unconfirmed parent output to spend`,
+        );
+      }
+      input = { txid: unconfirmed[0].txid, vout: unconfirmed[0].vout };
+    }
+
+    const options: any = {
+      inputs: [input],
+      add_inputs: false,
+      replaceable: !!tx.rbf,
+    };
+    if (tx.feeRate !== undefined) {
+      options.fee_rate = tx.feeRate;
+    }
+
+    const result = await this.rpc.callRpc<any>(
+      "send",
+      [[{ [toAddress]: tx.amount }], null, "unset", null, options],
+      tx.from,
+    );
+
+    if (!result.complete || !result.txid) {
+      throw new Error(`CPFP child from ${tx.from} could not be broadcast`);
+    }
+
+    return result.txid;
+  }
+
+  /**
+   * Show the effective package fee rate of a CPFP child's ancestors
+   */
+  private async reportPackageFeeRate(childTxid: string): Promise<void> {
+    try {
+      const entry = await this.rpc.callRpc<any>("getmempoolentry", [childTxid]);
+      const packageRate =
+        (entry.fees.ancestor * 1e8) / Math.max(entry.ancestorsize, 1);
+      const ownRate = (entry.fees.base * 1e8) / Math.max(entry.vsize, 1);
+
+      console.log(
+        chalk.dim(
+          `   child ${ownRate.toFixed(1)} sat/vB, package of ${entry.ancestorcount} tx(s) ${packageRate.toFixed(1)} sat/vB`,
+        ),
+      );
+    } catch {
+      // Not in the mempool (e.g. already mined) — nothing to report
+    }
+  }
+
   /**
    * Load custom scenarios from the scenarios directory
    */
@@ -0,0 +1,146 @@
+/**
+ * Auto-snapshot Scheduler for Caravan-X
+ * Takes snapshots in the background every N blocks or N minutes and
+ * prunes old auto-snapshots according to a retention policy
+ */
+
+import { SnapshotIntervalUnit, SnapshotRetention } from "../types/config";
+import { SnapshotService } from "./snapshot";
+import { BitcoinRpcClient } from "./rpc";
+import { log } from "../utils/logger";
+
+export interface SnapshotSchedule {
+  every: number;
+  unit: SnapshotIntervalUnit;
+  retention: SnapshotRetention;
+}
+
+/**
+ * How often the chain tip is checked for block-based schedules
+ */
+const BLOCK_POLL_INTERVAL_MS = 15000;
+
+export const DEFAULT_SNAPSHOT_RETENTION: SnapshotRetention = {
+  keepLast: 10,
+  keepDaily: 7,
+};
+
+export class SnapshotScheduler {
+  private readonly snapshotService: SnapshotService;
+  private readonly rpc: BitcoinRpcClient;
+  private readonly schedule: SnapshotSchedule;
+  private timer: NodeJS.Timeout | null = null;
+  private lastHeight: number | null = null;
+  private running = false;
+
+  constructor(
+    snapshotService: SnapshotService,
+    rpc: BitcoinRpcClient,
+    schedule: SnapshotSchedule,
+  ) {
+    if (!(schedule.every > 0)) {
+      throw new Error("Auto-snapshot interval must be a positive number");
+    }
+
+    this.snapshotService = snapshotService;
+    this.rpc = rpc;
+    this.schedule = schedule;
+  }
+
+  /**
+   * Start the scheduler. The timer does not keep the process alive.
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const intervalMs =
+      this.schedule.unit === "minutes"
+        ? this.schedule.every * 60 * 1000
+        : BLOCK_POLL_INTERVAL_MS;
+
+    this.timer = setInterval(() => void this.tick(), intervalMs);
+    this.timer.unref();
+
+    log.verbose(
+      `Auto-snapshots every ${this.schedule.every} ${this.schedule.unit}`,
+    );
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Take a snapshot if the schedule is due, then apply retention
+   */
+  private async tick(): Promise<void> {
+    // A snapshot can outlast the interval; never run two at once
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      if (this.schedule.unit === "blocks" && !(await this.blocksDue())) {
+        return;
+      }
+
+      // Another snapshot already has the container stopped; wait a tick
+      if (await this.snapshotService.isSnapshotPending()) {
+        log.verbose("Auto-snapshot deferred: another snapshot is in progress");
+        return;
+      }
+
+      const snapshot = await this.snapshotService.createAutoSnapshot({
+        silent: true,
+      });
+      this.lastHeight = snapshot.blockHeight;
+      log.verbose(
+        `Auto-snapshot ${snapshot.id} at block ${snapshot.blockHeight}`,
+      );
+
+      const pruned = await this.snapshotService.pruneAutoSnapshots(
+        this.schedule.retention,
+      );
+      if (pruned.length > 0) {
+        log.verbose(`Pruned ${pruned.length} old auto-snapshot(s)`);
+      }
+    } catch (error: any) {
+      // Bitcoin Core may be restarting; try again on the next tick
+      log.verbose(`Auto-snapshot skipped: ${error.message}`);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Whether enough blocks were mined since the last auto-snapshot
+   */
+  private async blocksDue(): Promise<boolean> {
+    const height = await this.rpc.callRpc<number>("getblockcount");
+
+    if (this.lastHeight === null) {
+      // Count from the latest existing auto-snapshot, or from now
+      const latest = (await this.snapshotService.listSnapshots())
+        .filter((s) => s.metadata?.tags?.includes("auto"))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+      this.lastHeight = latest ? latest.blockHeight : height;
+    }
+
+    // A reorg or restore can move the tip backwards
+    if (height < this.lastHeight) {
+      this.lastHeight = height;
+    }
+
+    return height - this.lastHeight >= this.schedule.every;
+  }
+}
@@ -0,0 +1,129 @@
+import * as bitcoin from "bitcoinjs-lib";
+import { ECPairFactory } from "ecpair";
+import * as ecc from "tiny-secp256k1";
+import { BitcoinRpcClient } from "./rpc";
+import {
+  SignetMiner,
+  generateSignetChallenge,
+  javascriptGrinder,
+} from "./signet";
+
+jest.mock("../utils/logger", () => ({
+  log: { warn: jest.fn(), debug: jest.fn(), verbose: jest.fn() },
+}));
+
+const ECPair = ECPairFactory(ecc);
+const SIGNET_HEADER = Buffer.from("ecc7daa2", "hex");
+
+/**
+ * Check a block's signet solution against the challenge the way Bitcoin
+ * Core's SignetTxs::Create does, independently of SignetMiner
+ */
+function verifySignetBlock(block: bitcoin.Block, challenge: Buffer): boolean {
+  const coinbase = bitcoin.Transaction.fromBuffer(
+    block.transactions![0].toBuffer(),
+  );
+  const output = coinbase.outs[coinbase.outs.length - 1];
+  const chunks = bitcoin.script.decompile(output.script)!;
+  const index = chunks.findIndex(
+    (chunk) =>
+      Buffer.isBuffer(chunk) &&
+      chunk.subarray(0, SIGNET_HEADER.length).equals(SIGNET_HEADER),
+  );
+  if (index === -1) {
+    return false;
+  }
+
+  const solution = (chunks[index] as Buffer).subarray(SIGNET_HEADER.length);
+  chunks[index] = SIGNET_HEADER;
+  output.script = bitcoin.script.compile(chunks);
+  const merkleRoot = bitcoin.Block.calculateMerkleRoot([
+    coinbase,
+    ...block.transactions!.slice(1),
+  ]);
+
+  const blockData = Buffer.alloc(72);
+  blockData.writeInt32LE(block.version, 0);
+  block.prevHash!.copy(blockData, 4);
+  merkleRoot.copy(blockData, 36);
+  blockData.writeUInt32LE(block.timestamp, 68);
+
+  const toSpend = new bitcoin.Transaction();
+  toSpend.version = 0;
+  toSpend.addInput(
+    Buffer.alloc(32),
+    0xffffffff,
+    0,
+    bitcoin.script.compile([bitcoin.opcodes.OP_0, blockData]),
+  );
+  toSpend.addOutput(challenge, 0);
+
+  const toSign = new bitcoin.Transaction();
+  toSign.version = 0;
+  toSign.addInput(toSpend.getHash(), 0, 0);
+  toSign.addOutput(bitcoin.script.compile([bitcoin.opcodes.OP_RETURN]), 0);
+
+  // Solution: scriptSig as a byte vector, then an empty witness stack
+  const scriptSig = solution.subarray(1, 1 + solution[0]);
+  if (
+    solution.length !== scriptSig.length + 2 ||
+    solution[solution.length - 1]
+  ) {
+    return false;
+  }
+  const [dummy, signature] = bitcoin.script.decompile(scriptSig)!;
+  const [, pubkey] = bitcoin.script.decompile(challenge)!;
+  if (dummy !== bitcoin.opcodes.OP_0 || !Buffer.isBuffer(signature)) {
+    return false;
+  }
+
+  const decoded = bitcoin.script.signature.decode(signature);
+  const hash = toSign.hashForSignature(0, challenge, decoded.hashType);
+  return ECPair.fromPublicKey(pubkey as Buffer).verify(hash, decoded.signature);
+}
+
+describe("SignetMiner", () => {
+  it("mines blocks whose solution satisfies the signet challenge", async () => {
+    const signet = generateSignetChallenge();
+    const challenge = Buffer.from(signet.challenge, "hex");
+    const submitted: string[] = [];
+
+    // The coinbase wtxid is zero, so this commits to a coinbase-only block
+    const witnessRoot = bitcoin.crypto.hash256(
+      Buffer.concat([Buffer.alloc(32), Buffer.alloc(32)]),
+    );
+    const template = {
+      version: 0x20000000,
+      previousblockhash: "00".repeat(31) + "01",
+      curtime: 1700000000,
+      bits: "207fffff",
+      height: 101,
+      coinbasevalue: 5000000000,
+      transactions: [],
+      default_witness_commitment: "6a24aa21a9ed" + witnessRoot.toString("hex"),
+    };
+    const rpc = {
+      callRpc: jest.fn(async (method: string, params: any[]) => {
+        if (method === "getblocktemplate") {
+          return template;
+        }
+        submitted.push(params[0]);
+        return null;
+      }),
+    } as unknown as BitcoinRpcClient;
+
+    const miner = new SignetMiner(rpc, signet, javascriptGrinder);
+    const address = bitcoin.payments.p2wpkh({
+      pubkey: Buffer.from(ECPair.makeRandom().publicKey),
+      network: bitcoin.networks.testnet,
+    }).address!;
+    const [hash] = await miner.generateToAddress(1, address);
+
+    expect(submitted).toHaveLength(1);
+    const block = bitcoin.Block.fromHex(submitted[0]);
+    expect(block.getId()).toBe(hash);
+    expect(block.checkTxRoots()).toBe(true);
+    expect(block.checkProofOfWork()).toBe(true);
+    expect(verifySignetBlock(block, challenge)).toBe(true);
+  });
+});
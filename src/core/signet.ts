@@ -0,0 +1,329 @@
+/**
+ * Custom signet for Caravan-X
+ * A private signet whose challenge is a 1-of-1 multisig on a key generated
+ * for the profile. Bitcoin Core cannot mine signet blocks itself, so
+ * SignetMiner builds them from getblocktemplate, signs them (BIP325) and
+ * grinds the proof of work, like Bitcoin Core's contrib/signet/miner.
+ */
+
+import * as crypto from "crypto";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import * as bitcoin from "bitcoinjs-lib";
+import { ECPairFactory } from "ecpair";
+import * as ecc from "tiny-secp256k1";
+import { BitcoinRpcClient } from "./rpc";
+import { SignetConfig } from "../types/config";
+import { log } from "../utils/logger";
+
+const ECPair = ECPairFactory(ecc);
+const execFileAsync = promisify(execFile);
+
+// BIP325: the block solution is pushed after this header in the witness
+// commitment output
+const SIGNET_HEADER = Buffer.from("ecc7daa2", "hex");
+const WITNESS_COMMITMENT_HEADER = Buffer.from("6a24aa21a9ed", "hex");
+
+/**
+ * Returns the 80-byte header with a nonce that meets its target
+ */
+export type HeaderGrinder = (header: Buffer) => Promise<Buffer>;
+
+/**
+ * Generate a fresh block-signing key and its challenge script
+ */
+export function generateSignetChallenge(): SignetConfig {
+  const keyPair = ECPair.makeRandom({ network: bitcoin.networks.testnet });
+  const challenge = bitcoin.script.compile([
+    bitcoin.opcodes.OP_1,
+    Buffer.from(keyPair.publicKey),
+    bitcoin.opcodes.OP_1,
+    bitcoin.opcodes.OP_CHECKMULTISIG,
+  ]);
+
+  return {
+    challenge: challenge.toString("hex"),
+    privateKey: keyPair.toWIF(),
+  };
+}
+
+/**
+ * bitcoind flags that start a node on this signet with no outside peers
+ */
+export function signetArgs(signet: SignetConfig): string[] {
+  return [
+    "-signet",
+    `-signetchallenge=${signet.challenge}`,
+    "-dnsseed=0",
+    "-fixedseeds=0",
+  ];
+}
+
+/**
+ * Grind with `bitcoin-util grind` (much faster than JavaScript). command is
+ * the argv prefix that runs bitcoin-util, e.g. through `docker exec`.
+ */
+export function bitcoinUtilGrinder(
+  command: string[] = ["bitcoin-util"],
+): HeaderGrinder {
+  return async (header) => {
+    const [file, ...args] = command;
+    const { stdout } = await execFileAsync(file, [
+      ...args,
+      "grind",
+      header.toString("hex"),
+    ]);
+    return Buffer.from(stdout.trim(), "hex");
+  };
+}
+
+/**
+ * Pure JavaScript grinder; roughly half a minute per block at signet's
+ * minimum difficulty
+ */
+export const javascriptGrinder: HeaderGrinder = async (header) => {
+  const ground = Buffer.from(header);
+  const target = targetFromBits(ground.readUInt32LE(72));
+
+  for (let nonce = 0; nonce <= 0xffffffff; nonce++) {
+    ground.writeUInt32LE(nonce, 76);
+    const hash = sha256d(ground);
+    if (Buffer.from(hash).reverse().compare(target) <= 0) {
+      return ground;
+    }
+    // Let spinners and timers run
+    if (nonce % 50000 === 0) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  }
+
+  throw new Error("Could not find a nonce for the signet block");
+};
+
+/**
+ * Mines blocks on a custom signet through RPC
+ */
+export class SignetMiner {
+  private readonly rpc: BitcoinRpcClient;
+  private readonly challenge: Buffer;
+  private readonly keyPair: ReturnType<typeof ECPair.fromWIF>;
+  private grinder: HeaderGrinder;
+  private fallbackToJavascript: boolean;
+
+  /**
+   * Without a grinder, bitcoin-util on PATH is tried first and JavaScript
+   * grinding is used if it is missing
+   */
+  constructor(
+    rpc: BitcoinRpcClient,
+    signet: SignetConfig,
+    grinder?: HeaderGrinder,
+  ) {
+    this.rpc = rpc;
+    this.challenge = Buffer.from(signet.challenge, "hex");
+    this.keyPair = ECPair.fromWIF(signet.privateKey, bitcoin.networks.testnet);
+    this.grinder = grinder || bitcoinUtilGrinder();
+    this.fallbackToJavascript = true;
+  }
+
+  /**
+   * Use a specific grinder, e.g. bitcoin-util inside the node's container
+   */
+  setGrinder(grinder: HeaderGrinder): void {
+    this.grinder = grinder;
+    this.fallbackToJavascript = true;
+  }
+
+  async generateToAddress(blocks: number, address: string): Promise<string[]> {
+    const outputScript = bitcoin.address.toOutputScript(
+      address,
+      bitcoin.networks.testnet,
+    );
+
+    const hashes: string[] = [];
+    for (let i = 0; i < blocks; i++) {
+      hashes.push(await this.mineBlock(outputScript));
+    }
+    return hashes;
+  }
+
+  private async mineBlock(outputScript: Buffer): Promise<string> {
+    const template = await this.rpc.callRpc<any>("getblocktemplate", [
+      { rules: ["signet", "segwit"] },
+    ]);
+
+    const coinbase = this.buildCoinbase(template, outputScript);
+    const block = new bitcoin.Block();
+    block.version = template.version;
+    block.prevHash = Buffer.from(template.previousblockhash, "hex").reverse();
+    block.timestamp = template.curtime;
+    block.bits = parseInt(template.bits, 16);
+    block.nonce = 0;
+    block.transactions = [
+      coinbase,
+      ...template.transactions.map((tx: any) =>
+        bitcoin.Transaction.fromHex(tx.data),
+      ),
+    ];
+
+    // The signature commits to the merkle root with the signet header
+    // pushed but an empty solution, as Bitcoin Core checks it
+    this.setSolution(coinbase, Buffer.alloc(0));
+    const signetMerkleRoot = bitcoin.Block.calculateMerkleRoot(
+      block.transactions,
+    );
+    this.setSolution(coinbase, this.signBlock(block, signetMerkleRoot));
+    block.merkleRoot = bitcoin.Block.calculateMerkleRoot(block.transactions);
+
+    const header = await this.grind(block.toBuffer(true));
+    block.nonce = header.readUInt32LE(76);
+    if (!block.checkProofOfWork()) {
+      throw new Error("Ground signet header does not meet its target");
+    }
+
+    const result = await this.rpc.callRpc<string | null>("submitblock", [
+      block.toHex(),
+    ]);
+    if (result !== null) {
+      throw new Error(`Signet block rejected: ${result}`);
+    }
+    return block.getId();
+  }
+
+  private buildCoinbase(
+    template: any,
+    outputScript: Buffer,
+  ): bitcoin.Transaction {
+    const coinbase = new bitcoin.Transaction();
+    coinbase.version = 1;
+    // BIP34 height, padded to the two-byte minimum
+    coinbase.addInput(
+      Buffer.alloc(32),
+      0xffffffff,
+      0xffffffff,
+      bitcoin.script.compile([
+        bitcoin.script.number.encode(template.height),
+        bitcoin.opcodes.OP_0,
+      ]),
+    );
+    coinbase.setWitness(0, [Buffer.alloc(32)]);
+    coinbase.addOutput(outputScript, template.coinbasevalue);
+    coinbase.addOutput(
+      Buffer.from(template.default_witness_commitment, "hex"),
+      0,
+    );
+    return coinbase;
+  }
+
+  /**
+   * BIP325 solution: scriptSig and witness that spend the challenge in a
+   * virtual transaction committing to the block
+   */
+  private signBlock(block: bitcoin.Block, signetMerkleRoot: Buffer): Buffer {
+    const blockData = Buffer.alloc(72);
+    blockData.writeInt32LE(block.version, 0);
+    block.prevHash!.copy(blockData, 4);
+    signetMerkleRoot.copy(blockData, 36);
+    blockData.writeUInt32LE(block.timestamp, 68);
+
+    const toSpend = new bitcoin.Transaction();
+    toSpend.version = 0;
+    toSpend.addInput(
+      Buffer.alloc(32),
+      0xffffffff,
+      0,
+      bitcoin.script.compile([bitcoin.opcodes.OP_0, blockData]),
+    );
+    toSpend.addOutput(this.challenge, 0);
+
+    const toSign = new bitcoin.Transaction();
+    toSign.version = 0;
+    toSign.addInput(toSpend.getHash(), 0, 0);
+    toSign.addOutput(bitcoin.script.compile([bitcoin.opcodes.OP_RETURN]), 0);
+
+    const hash = toSign.hashForSignature(
+      0,
+      this.challenge,
+      bitcoin.Transaction.SIGHASH_ALL,
+    );
+    const signature = bitcoin.script.signature.encode(
+      Buffer.from(this.keyPair.sign(hash)),
+      bitcoin.Transaction.SIGHASH_ALL,
+    );
+    // OP_0 is the CHECKMULTISIG dummy
+    const scriptSig = bitcoin.script.compile([bitcoin.opcodes.OP_0, signature]);
+
+    // scriptSig as a byte vector, then an empty witness stack
+    return Buffer.concat([
+      Buffer.from([scriptSig.length]),
+      scriptSig,
+      Buffer.from([0]),
+    ]);
+  }
+
+  /**
+   * Push the signet header and solution in the witness commitment output,
+   * replacing any solution pushed before
+   */
+  private setSolution(coinbase: bitcoin.Transaction, solution: Buffer): void {
+    const output = coinbase.outs.find((out) =>
+      out.script
+        .subarray(0, WITNESS_COMMITMENT_HEADER.length)
+        .equals(WITNESS_COMMITMENT_HEADER),
+    );
+    if (!output) {
+      throw new Error("Block template has no witness commitment");
+    }
+
+    const chunks = bitcoin.script
+      .decompile(output.script)!
+      .filter(
+        (chunk) =>
+          !Buffer.isBuffer(chunk) ||
+          !chunk.subarray(0, SIGNET_HEADER.length).equals(SIGNET_HEADER),
+      );
+    output.script = bitcoin.script.compile([
+      ...chunks,
+      Buffer.concat([SIGNET_HEADER, solution]),
+    ]);
+  }
+
+  private async grind(header: Buffer): Promise<Buffer> {
+    try {
+      return await this.grinder(header);
+    } catch (error: any) {
+      if (!this.fallbackToJavascript) {
+        throw error;
+      }
+      log.warn(
+        "bitcoin-util is not available; grinding signet blocks in JavaScript (slow)",
+      );
+      log.debug("bitcoin-util grind failed:", error.message);
+      this.grinder = javascriptGrinder;
+      this.fallbackToJavascript = false;
+      return this.grinder(header);
+    }
+  }
+}
+
+function sha256d(data: Buffer): Buffer {
+  const first = crypto.createHash("sha256").update(data).digest();
+  return crypto.createHash("sha256").update(first).digest();
+}
+
+/**
+ * Compact nBits to a 32-byte big-endian target
+ */
+function targetFromBits(bits: number): Buffer {
+  const exponent = bits >>> 24;
+  const mantissa = bits & 0x007fffff;
+  const target = Buffer.alloc(32);
+  const offset = 32 - exponent;
+  for (let i = 0; i < 3; i++) {
+    const byte = (mantissa >>> (8 * (2 - i))) & 0xff;
+    if (offset + i >= 0 && offset + i < 32) {
+      target[offset + i] = byte;
+    }
+  }
+  return target;
+}
@@ -6,14 +6,30 @@
 import * as fs from "fs-extra";
 import * as path from "path";
 import * as crypto from "crypto";
+import * as zlib from "zlib";
 import { promisify } from "util";
 import { exec } from "child_process";
 import chalk from "chalk";
 import ora from "ora";
-import { BlockchainSnapshot } from "../types/config";
+import {
+  BitcoinChain,
+  BlockchainSnapshot,
+  SnapshotRetention,
+} from "../types/config";
 import { BitcoinRpcClient } from "./rpc";
+import { DockerService } from "./docker";
+import { formatBytes } from "../utils/terminal";
 
 const execAsync = promisify(exec);
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+// Files are split into fixed-size chunks so that append-only block files
+// still share their unchanged prefix with earlier snapshots
+const CHUNK_SIZE = 4 * 1024 * 1024;
+
+// A pending marker older than this belongs to a snapshot that crashed
+const STALE_PENDING_MS = 24 * 60 * 60 * 1000;
 
 export interface SnapshotOptions {
   name: string;
@@ -21,6 +37,76 @@ export interface SnapshotOptions {
   tags?: string[];
   includeWallets?: string[];
   scenario?: string;
+  /** Suppress spinner output, e.g. for background snapshots */
+  silent?: boolean;
+}
+
+export interface SnapshotUtxo {
+  txid: string;
+  vout: number;
+  amount: number;
+  address?: string;
+  confirmations: number;
+}
+
+export interface WalletState {
+  name: string;
+  balance: number;
+  unconfirmedBalance: number;
+  utxos: SnapshotUtxo[];
+  txids: string[];
+  descriptors: string[];
+}
+
+export interface SnapshotState {
+  capturedAt: string;
+  wallets: WalletState[];
+  mempool: string[];
+}
+
+export interface WalletStateDiff {
+  name: string;
+  balanceBefore: number;
+  balanceAfter: number;
+  balanceDelta: number;
+  utxosAdded: SnapshotUtxo[];
+  utxosRemoved: SnapshotUtxo[];
+  newTxids: string[];
+  descriptorsAdded: string[];
+  descriptorsRemoved: string[];
+}
+
+export interface SnapshotManifestFile {
+  /** Path relative to the chain directory */
+  path: string;
+  size: number;
+  /** SHA-256 of each chunk, in order */
+  chunks: string[];
+}
+
+export interface SnapshotManifest {
+  snapshot: BlockchainSnapshot;
+  files: SnapshotManifestFile[];
+}
+
+export interface SnapshotUsage {
+  id: string;
+  name: string;
+  storage: "archive" | "manifest";
+  /** Size of the data the snapshot restores */
+  logicalBytes: number;
+  /** Stored bytes referenced only by this snapshot */
+  uniqueBytes: number;
+  /** Stored bytes this snapshot shares with others */
+  sharedBytes: number;
+}
+
+export interface SnapshotDiskUsage {
+  snapshots: SnapshotUsage[];
+  logicalBytes: number;
+  storeBytes: number;
+  archiveBytes: number;
+  objectCount: number;
 }
 
 export interface SnapshotDiff {
@@ -33,31 +119,76 @@ export interface SnapshotDiff {
     common: string[];
   };
   heightDiff: number;
+  /** False when either snapshot predates recorded wallet state */
+  stateAvailable: boolean;
+  wallets: WalletStateDiff[];
+  mempool: {
+    added: string[];
+    removed: string[];
+  };
 }
 
 export class SnapshotService {
   private readonly rpc: BitcoinRpcClient;
   private readonly snapshotsDir: string;
   private readonly bitcoinDataDir: string;
+  private readonly dockerService: DockerService | null;
+  private readonly onRestarted?: () => Promise<void>;
 
+  /**
+   * In Docker mode pass the profile's DockerService; blockchain data is
+   * then copied through the container instead of read from bitcoinDataDir.
+   * onRestarted runs once the container answers RPC again after a copy,
+   * e.g. to restore the mock time.
+   */
   constructor(
     rpc: BitcoinRpcClient,
     snapshotsDir: string,
     bitcoinDataDir: string,
+    dockerService?: DockerService,
+    onRestarted?: () => Promise<void>,
   ) {
     this.rpc = rpc;
     this.snapshotsDir = snapshotsDir;
     this.bitcoinDataDir = bitcoinDataDir;
+    this.dockerService = dockerService || null;
+    this.onRestarted = onRestarted;
 
     // Ensure snapshots directory exists
     fs.ensureDirSync(this.snapshotsDir);
   }
 
+  /**
+   * Chain the node runs, which is also its data directory name
+   */
+  private get chain(): BitcoinChain {
+    return this.dockerService?.chain || this.rpc.config.network || "regtest";
+  }
+
+  private get objectsDir(): string {
+    return path.join(this.snapshotsDir, "store", "objects");
+  }
+
+  private get manifestsDir(): string {
+    return path.join(this.snapshotsDir, "store", "manifests");
+  }
+
+  /**
+   * One marker file per snapshot still writing chunks, so garbage
+   * collection in this or another process leaves its chunks alone
+   */
+  private get pendingDir(): string {
+    return path.join(this.snapshotsDir, "store", "pending");
+  }
+
   /**
    * Create a snapshot of the current blockchain state
    */
   async createSnapshot(options: SnapshotOptions): Promise<BlockchainSnapshot> {
-    const spinner = ora(`Creating snapshot: ${options.name}`).start();
+    const spinner = ora({
+      text: `Creating snapshot: ${options.name}`,
+      isSilent: options.silent,
+    }).start();
 
     try {
       // Get current blockchain info
@@ -81,69 +212,66 @@ export class SnapshotService {
         blockHeight: blockchainInfo.blocks,
         blockHash,
         wallets,
-        filePath: path.join(this.snapshotsDir, `${id}.tar.gz`),
+        filePath: path.join(this.manifestsDir, `${id}.json`),
+        storage: "manifest",
+        statePath: path.join(this.snapshotsDir, `${id}.state.json`),
         metadata: {
           tags: options.tags,
           scenario: options.scenario,
         },
       };
 
-      // Create temporary directory for snapshot
-      const tempDir = path.join(this.snapshotsDir, `temp_${id}`);
-      await fs.ensureDir(tempDir);
+      // Record wallet and mempool state for later diffs
+      spinner.text = "Recording wallet state...";
+      const state = await this.captureState(wallets);
+      await fs.writeJson(snapshot.statePath!, state, { spaces: 2 });
 
-      try {
-        // Copy regtest blockchain data
-        spinner.text = "Copying blockchain data...";
-        const regtestDir = path.join(this.bitcoinDataDir, "regtest");
-        const snapshotRegtestDir = path.join(tempDir, "regtest");
-        await fs.ensureDir(snapshotRegtestDir);
-
-        // Copy only necessary files (blocks, chainstate, wallets)
-        await this.copyDirectory(
-          path.join(regtestDir, "blocks"),
-          path.join(snapshotRegtestDir, "blocks"),
-        );
-        await this.copyDirectory(
-          path.join(regtestDir, "chainstate"),
-          path.join(snapshotRegtestDir, "chainstate"),
-        );
+      // In Docker mode the data lives in the container volume
+      let chainDir = path.join(this.bitcoinDataDir, this.chain);
+      const dockerCopyDir = path.join(this.snapshotsDir, `docker_${id}`);
+      const files: SnapshotManifestFile[] = [];
+      const pendingPath = path.join(this.pendingDir, id);
+      await fs.outputFile(pendingPath, "");
 
-        // Copy wallet files if they exist
-        if (wallets.length > 0) {
-          const walletsDir = path.join(regtestDir, "wallets");
-          const snapshotWalletsDir = path.join(snapshotRegtestDir, "wallets");
-
-          for (const wallet of wallets) {
-            const walletPath = path.join(walletsDir, wallet);
-            if (await fs.pathExists(walletPath)) {
-              await this.copyDirectory(
-                walletPath,
-                path.join(snapshotWalletsDir, wallet),
-              );
-            }
-          }
+      try {
+        if (this.dockerService) {
+          spinner.text = "Copying blockchain data out of the container...";
+          chainDir =
+            await this.dockerService.copyChainDataFromContainer(dockerCopyDir);
+          spinner.text = "Waiting for Bitcoin Core...";
+          await this.waitForRpc();
+          await this.onRestarted?.();
         }
 
-        // Save snapshot metadata
-        spinner.text = "Saving snapshot metadata...";
-        await fs.writeJson(path.join(tempDir, "snapshot.json"), snapshot, {
-          spaces: 2,
-        });
+        // Copy only necessary files (blocks, chainstate, wallets) into the
+        // shared store; unchanged chunks are already there from earlier
+        // snapshots
+        spinner.text = "Storing blockchain data...";
+        await this.storeDirectory(chainDir, "blocks", files);
+        await this.storeDirectory(chainDir, "chainstate", files);
+
+        for (const wallet of wallets) {
+          await this.storeDirectory(
+            chainDir,
+            path.join("wallets", wallet),
+            files,
+          );
+        }
 
-        // Create compressed archive
-        spinner.text = "Compressing snapshot...";
-        await this.createTarGz(tempDir, snapshot.filePath);
+        // Save the manifest in place of a full copy
+        spinner.text = "Saving snapshot manifest...";
+        const manifest: SnapshotManifest = { snapshot, files };
+        await fs.outputJson(snapshot.filePath, manifest, { spaces: 2 });
 
         // Save snapshot reference
         await this.saveSnapshotReference(snapshot);
-
-        spinner.succeed(`Snapshot created: ${snapshot.name} (${id})`);
-        return snapshot;
       } finally {
-        // Clean up temporary directory
-        await fs.remove(tempDir);
+        await fs.remove(dockerCopyDir);
+        await fs.remove(pendingPath);
       }
+
+      spinner.succeed(`Snapshot created: ${snapshot.name} (${id})`);
+      return snapshot;
     } catch (error: any) {
       spinner.fail("Failed to create snapshot");
       throw error;
@@ -171,8 +299,8 @@ export class SnapshotService {
         throw new Error(`Snapshot file not found: ${snapshot.filePath}`);
       }
 
-      // Stop Bitcoin Core if requested
-      if (options.stopBitcoin) {
+      // Stop Bitcoin Core if requested (Docker mode stops the container below)
+      if (options.stopBitcoin && !this.dockerService) {
         spinner.text = "Stopping Bitcoin Core...";
         try {
           await this.rpc.callRpc("stop");
@@ -190,37 +318,59 @@ export class SnapshotService {
       try {
         // Extract snapshot
         spinner.text = "Extracting snapshot...";
-        await this.extractTarGz(snapshot.filePath, tempDir);
+        if (snapshot.storage === "manifest") {
+          await this.materializeManifest(
+            snapshot.filePath,
+            path.join(tempDir, this.chain),
+          );
+        } else {
+          await this.extractTarGz(snapshot.filePath, tempDir);
+        }
 
         // Backup current data
         spinner.text = "Backing up current data...";
         const backupDir = path.join(this.snapshotsDir, `backup_${Date.now()}`);
-        const regtestDir = path.join(this.bitcoinDataDir, "regtest");
+        const snapshotChainDir = path.join(tempDir, this.chain);
 
-        if (await fs.pathExists(regtestDir)) {
-          await this.copyDirectory(regtestDir, backupDir);
-        }
+        if (this.dockerService) {
+          // Leave the container stopped until the snapshot data is in place
+          await this.dockerService.copyChainDataFromContainer(backupDir, {
+            restart: false,
+          });
 
-        // Restore data
-        spinner.text = "Restoring blockchain data...";
-        const snapshotRegtestDir = path.join(tempDir, "regtest");
+          spinner.text = "Restoring blockchain data into the container...";
+          await this.dockerService.copyChainDataToContainer(snapshotChainDir);
 
-        // Remove current data
-        if (await fs.pathExists(regtestDir)) {
-          await fs.remove(regtestDir);
-        }
+          spinner.text = "Waiting for Bitcoin Core...";
+          await this.waitForRpc();
+          await this.onRestarted?.();
+        } else {
+          const chainDir = path.join(this.bitcoinDataDir, this.chain);
 
-        // Copy snapshot data
-        await this.copyDirectory(snapshotRegtestDir, regtestDir);
+          if (await fs.pathExists(chainDir)) {
+            await this.copyDirectory(chainDir, backupDir);
+          }
 
-        // Restart Bitcoin Core if requested
-        if (options.restartBitcoin) {
-          spinner.text = "Restarting Bitcoin Core...";
-          // This would require integration with the Docker service or system service
-          // For now, just inform the user
-          spinner.info(
-            "Please restart Bitcoin Core manually to apply the snapshot",
-          );
+          // Restore data
+          spinner.text = "Restoring blockchain data...";
+
+          // Remove current data
+          if (await fs.pathExists(chainDir)) {
+            await fs.remove(chainDir);
+          }
+
+          // Copy snapshot data
+          await this.copyDirectory(snapshotChainDir, chainDir);
+
+          // Restart Bitcoin Core if requested
+          if (options.restartBitcoin) {
+            spinner.text = "Restarting Bitcoin Core...";
+            // This would require integration with the system service
+            // For now, just inform the user
+            spinner.info(
+              "Please restart Bitcoin Core manually to apply the snapshot",
+            );
+          }
         }
 
         spinner.succeed(`Snapshot restored: ${snapshot.name}`);
@@ -278,23 +428,73 @@ export class SnapshotService {
         throw new Error(`Snapshot not found: ${snapshotId}`);
       }
 
-      // Delete snapshot file
-      if (await fs.pathExists(snapshot.filePath)) {
-        await fs.remove(snapshot.filePath);
-      }
+      await this.removeSnapshotFiles(snapshot);
 
       // Remove from snapshots list
       const snapshots = await this.listSnapshots();
       const updatedSnapshots = snapshots.filter((s) => s.id !== snapshot.id);
       await this.saveSnapshotsList(updatedSnapshots);
 
-      spinner.succeed(`Snapshot deleted: ${snapshot.name}`);
+      // Drop chunks no remaining snapshot refers to
+      spinner.text = "Collecting unreferenced data...";
+      const collected = await this.garbageCollect();
+
+      spinner.succeed(
+        collected.removedObjects > 0
+          ? `Snapshot deleted: ${snapshot.name} (freed ${formatBytes(collected.freedBytes)})`
+          : `Snapshot deleted: ${snapshot.name}`,
+      );
     } catch (error: any) {
       spinner.fail("Failed to delete snapshot");
       throw error;
     }
   }
 
+  /**
+   * Delete auto-snapshots the retention policy does not keep, then
+   * garbage-collect the store once. Returns the deleted snapshots.
+   */
+  async pruneAutoSnapshots(
+    retention: SnapshotRetention,
+  ): Promise<BlockchainSnapshot[]> {
+    const snapshots = await this.listSnapshots();
+    const auto = snapshots
+      .filter((s) => s.metadata?.tags?.includes("auto"))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    const keep = new Set<string>();
+    auto.slice(0, retention.keepLast ?? 0).forEach((s) => keep.add(s.id));
+
+    // Newest snapshot of each day, for the most recent keepDaily days
+    const days = new Set<string>();
+    for (const snapshot of auto) {
+      const day = snapshot.createdAt.substring(0, 10);
+      if (days.has(day)) {
+        continue;
+      }
+      if (days.size >= (retention.keepDaily ?? 0)) {
+        break;
+      }
+      days.add(day);
+      keep.add(snapshot.id);
+    }
+
+    const pruned = auto.filter((s) => !keep.has(s.id));
+    if (pruned.length === 0) {
+      return [];
+    }
+
+    for (const snapshot of pruned) {
+      await this.removeSnapshotFiles(snapshot);
+    }
+
+    const prunedIds = new Set(pruned.map((s) => s.id));
+    await this.saveSnapshotsList(snapshots.filter((s) => !prunedIds.has(s.id)));
+    await this.garbageCollect();
+
+    return pruned;
+  }
+
   /**
    * Compare two snapshots
    */
@@ -316,7 +516,10 @@ export class SnapshotService {
     const removed = snapshot1.wallets.filter((w) => !wallets2Set.has(w));
     const common = snapshot1.wallets.filter((w) => wallets2Set.has(w));
 
-    return {
+    const state1 = await this.loadState(snapshot1);
+    const state2 = await this.loadState(snapshot2);
+
+    const diff: SnapshotDiff = {
       snapshot1,
       snapshot2,
       blocksDiff: snapshot2.blockHeight - snapshot1.blockHeight,
@@ -326,7 +529,181 @@ export class SnapshotService {
         common,
       },
       heightDiff: snapshot2.blockHeight - snapshot1.blockHeight,
+      stateAvailable: !!state1 && !!state2,
+      wallets: [],
+      mempool: { added: [], removed: [] },
+    };
+
+    if (!state1 || !state2) {
+      return diff;
+    }
+
+    const walletNames = new Set([
+      ...state1.wallets.map((w) => w.name),
+      ...state2.wallets.map((w) => w.name),
+    ]);
+
+    for (const name of walletNames) {
+      const before = state1.wallets.find((w) => w.name === name);
+      const after = state2.wallets.find((w) => w.name === name);
+      diff.wallets.push(this.diffWalletState(name, before, after));
+    }
+
+    const mempool1 = new Set(state1.mempool);
+    const mempool2 = new Set(state2.mempool);
+    diff.mempool = {
+      added: state2.mempool.filter((txid) => !mempool1.has(txid)),
+      removed: state1.mempool.filter((txid) => !mempool2.has(txid)),
     };
+
+    return diff;
+  }
+
+  /**
+   * Record balances, UTXOs, transactions and descriptors of the given
+   * wallets along with the current mempool
+   */
+  async captureState(wallets: string[]): Promise<SnapshotState> {
+    const loaded = new Set(await this.rpc.listWallets());
+    const walletStates: WalletState[] = [];
+
+    for (const wallet of wallets) {
+      // Unloaded wallets cannot be queried; they are still copied on disk
+      if (!loaded.has(wallet)) {
+        continue;
+      }
+
+      const info = await this.rpc.callRpc<any>("getwalletinfo", [], wallet);
+      const unspent = await this.rpc.callRpc<any[]>(
+        "listunspent",
+        [0, 9999999, [], true],
+        wallet,
+      );
+      const transactions = await this.rpc.callRpc<any[]>(
+        "listtransactions",
+        ["*", 100000, 0, true],
+        wallet,
+      );
+
+      let descriptors: string[] = [];
+      try {
+        const result = await this.rpc.callRpc<any>(
+          "listdescriptors",
+          [],
+          wallet,
+        );
+        descriptors = result.descriptors.map((d: any) => d.desc);
+      } catch {
+        // Legacy wallets have no descriptors
+      }
+
+      walletStates.push({
+        name: wallet,
+        balance: info.balance,
+        unconfirmedBalance: info.unconfirmed_balance,
+        utxos: unspent.map((utxo) => ({
+          txid: utxo.txid,
+          vout: utxo.vout,
+          amount: utxo.amount,
+          address: utxo.address,
+          confirmations: utxo.confirmations,
+        })),
+        txids: [...new Set(transactions.map((tx) => tx.txid as string))],
+        descriptors,
+      });
+    }
+
+    const mempool = await this.rpc.callRpc<string[]>("getrawmempool");
+
+    return {
+      capturedAt: new Date().toISOString(),
+      wallets: walletStates,
+      mempool,
+    };
+  }
+
+  /**
+   * Load the recorded state of a snapshot, if it has one
+   */
+  private async loadState(
+    snapshot: BlockchainSnapshot,
+  ): Promise<SnapshotState | null> {
+    if (!snapshot.statePath || !(await fs.pathExists(snapshot.statePath))) {
+      return null;
+    }
+    return fs.readJson(snapshot.statePath);
+  }
+
+  /**
+   * Compare one wallet between two recorded states
+   */
+  private diffWalletState(
+    name: string,
+    before?: WalletState,
+    after?: WalletState,
+  ): WalletStateDiff {
+    const outpoint = (utxo: SnapshotUtxo) => `${utxo.txid}:${utxo.vout}`;
+    const utxos1 = new Set((before?.utxos || []).map(outpoint));
+    const utxos2 = new Set((after?.utxos || []).map(outpoint));
+    const txids1 = new Set(before?.txids || []);
+    const descriptors1 = new Set(before?.descriptors || []);
+    const descriptors2 = new Set(after?.descriptors || []);
+
+    const balanceBefore =
+      (before?.balance || 0) + (before?.unconfirmedBalance || 0);
+    const balanceAfter =
+      (after?.balance || 0) + (after?.unconfirmedBalance || 0);
+
+    return {
+      name,
+      balanceBefore,
+      balanceAfter,
+      // Round to satoshis to avoid floating point noise
+      balanceDelta: Math.round((balanceAfter - balanceBefore) * 1e8) / 1e8,
+      utxosAdded: (after?.utxos || []).filter((u) => !utxos1.has(outpoint(u))),
+      utxosRemoved: (before?.utxos || []).filter(
+        (u) => !utxos2.has(outpoint(u)),
+      ),
+      newTxids: (after?.txids || []).filter((txid) => !txids1.has(txid)),
+      descriptorsAdded: (after?.descriptors || []).filter(
+        (d) => !descriptors1.has(d),
+      ),
+      descriptorsRemoved: (before?.descriptors || []).filter(
+        (d) => !descriptors2.has(d),
+      ),
+    };
+  }
+
+  /**
+   * Remove a snapshot's manifest or archive and its recorded state
+   */
+  private async removeSnapshotFiles(
+    snapshot: BlockchainSnapshot,
+  ): Promise<void> {
+    if (await fs.pathExists(snapshot.filePath)) {
+      await fs.remove(snapshot.filePath);
+    }
+
+    if (snapshot.statePath && (await fs.pathExists(snapshot.statePath))) {
+      await fs.remove(snapshot.statePath);
+    }
+  }
+
+  /**
+   * Wait for Bitcoin Core to answer RPC after a container restart
+   */
+  private async waitForRpc(maxAttempts = 60): Promise<void> {
+    for (let i = 0; i < maxAttempts; i++) {
+      try {
+        await this.rpc.callRpc("getblockchaininfo");
+        return;
+      } catch {
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      }
+    }
+    throw new Error(
+      `Bitcoin Core RPC did not become ready after ${maxAttempts} attempts`,
+    );
   }
 
   /**
@@ -374,35 +751,341 @@ export class SnapshotService {
   }
 
   /**
-   * Create tar.gz archive
+   * Extract tar.gz archive
    */
-  private async createTarGz(
-    sourceDir: string,
-    outputFile: string,
+  private async extractTarGz(
+    archiveFile: string,
+    outputDir: string,
   ): Promise<void> {
-    await execAsync(`tar -czf "${outputFile}" -C "${sourceDir}" .`);
+    await execAsync(`tar -xzf "${archiveFile}" -C "${outputDir}"`);
   }
 
   /**
-   * Extract tar.gz archive
+   * Remove store objects no longer referenced by any snapshot manifest.
+   * Objects written or reused since the oldest snapshot still in progress
+   * (or since collection started) are kept, as are half-written .tmp files.
    */
-  private async extractTarGz(
-    archiveFile: string,
+  async garbageCollect(): Promise<{
+    removedObjects: number;
+    freedBytes: number;
+  }> {
+    const pending = await this.pendingSince();
+    const cutoff = Math.min(Date.now(), pending ?? Infinity);
+
+    const referenced = new Set<string>();
+    for (const snapshot of await this.listSnapshots()) {
+      const manifest = await this.loadManifest(snapshot);
+      manifest?.files.forEach((file) =>
+        file.chunks.forEach((hash) => referenced.add(hash)),
+      );
+    }
+
+    let removedObjects = 0;
+    let freedBytes = 0;
+
+    if (!(await fs.pathExists(this.objectsDir))) {
+      return { removedObjects, freedBytes };
+    }
+
+    for (const shard of await fs.readdir(this.objectsDir)) {
+      const shardDir = path.join(this.objectsDir, shard);
+      const objects = await fs.readdir(shardDir);
+
+      for (const hash of objects) {
+        if (referenced.has(hash) || hash.endsWith(".tmp")) {
+          continue;
+        }
+        const objectPath = path.join(shardDir, hash);
+        const stats = await fs.stat(objectPath);
+        if (stats.mtimeMs >= cutoff) {
+          continue;
+        }
+        freedBytes += stats.size;
+        await fs.remove(objectPath);
+        removedObjects++;
+      }
+
+      // DEV: a running snapshot may be about to write into an empty shard
+      if (pending === undefined && (await fs.readdir(shardDir)).length === 0) {
+        await fs.remove(shardDir);
+      }
+    }
+
+    return { removedObjects, freedBytes };
+  }
+
+  /**
+   * Whether a snapshot is being created, in this or another process
+   */
+  async isSnapshotPending(): Promise<boolean> {
+    return (await this.pendingSince()) !== undefined;
+  }
+
+  /**
+   * Start time of the oldest snapshot still writing chunks, or undefined
+   * when none is. Markers left by crashed snapshots are removed.
+   */
+  private async pendingSince(): Promise<number | undefined> {
+    if (!(await fs.pathExists(this.pendingDir))) {
+      return undefined;
+    }
+
+    let oldest: number | undefined;
+    for (const marker of await fs.readdir(this.pendingDir)) {
+      const markerPath = path.join(this.pendingDir, marker);
+      const { mtimeMs } = await fs.stat(markerPath);
+      if (Date.now() - mtimeMs > STALE_PENDING_MS) {
+        await fs.remove(markerPath);
+        continue;
+      }
+      oldest = Math.min(oldest ?? mtimeMs, mtimeMs);
+    }
+    return oldest;
+  }
+
+  /**
+   * Report how much space each snapshot uses, split into bytes it shares
+   * with other snapshots and bytes only it refers to
+   */
+  async getDiskUsage(): Promise<SnapshotDiskUsage> {
+    const snapshots = await this.listSnapshots();
+    const manifests = new Map<string, SnapshotManifest>();
+    const refCounts = new Map<string, number>();
+
+    for (const snapshot of snapshots) {
+      const manifest = await this.loadManifest(snapshot);
+      if (!manifest) {
+        continue;
+      }
+      manifests.set(snapshot.id, manifest);
+      for (const hash of this.manifestChunks(manifest)) {
+        refCounts.set(hash, (refCounts.get(hash) || 0) + 1);
+      }
+    }
+
+    const objectSizes = new Map<string, number>();
+    for (const hash of refCounts.keys()) {
+      const objectPath = this.objectPath(hash);
+      objectSizes.set(
+        hash,
+        (await fs.pathExists(objectPath))
+          ? (await fs.stat(objectPath)).size
+          : 0,
+      );
+    }
+
+    const usage: SnapshotDiskUsage = {
+      snapshots: [],
+      logicalBytes: 0,
+      storeBytes: [...objectSizes.values()].reduce((a, b) => a + b, 0),
+      archiveBytes: 0,
+      objectCount: objectSizes.size,
+    };
+
+    for (const snapshot of snapshots) {
+      const manifest = manifests.get(snapshot.id);
+
+      if (!manifest) {
+        // Archive snapshots share nothing
+        const size = (await fs.pathExists(snapshot.filePath))
+          ? (await fs.stat(snapshot.filePath)).size
+          : 0;
+        usage.archiveBytes += size;
+        usage.logicalBytes += size;
+        usage.snapshots.push({
+          id: snapshot.id,
+          name: snapshot.name,
+          storage: "archive",
+          logicalBytes: size,
+          uniqueBytes: size,
+          sharedBytes: 0,
+        });
+        continue;
+      }
+
+      let uniqueBytes = 0;
+      let sharedBytes = 0;
+      for (const hash of this.manifestChunks(manifest)) {
+        const size = objectSizes.get(hash) || 0;
+        if (refCounts.get(hash) === 1) {
+          uniqueBytes += size;
+        } else {
+          sharedBytes += size;
+        }
+      }
+
+      const logicalBytes = manifest.files.reduce((a, f) => a + f.size, 0);
+      usage.logicalBytes += logicalBytes;
+      usage.snapshots.push({
+        id: snapshot.id,
+        name: snapshot.name,
+        storage: "manifest",
+        logicalBytes,
+        uniqueBytes,
+        sharedBytes,
+      });
+    }
+
+    return usage;
+  }
+
+  /**
+   * Add every file under root/relativeDir to the store
+   */
+  private async storeDirectory(
+    root: string,
+    relativeDir: string,
+    files: SnapshotManifestFile[],
+  ): Promise<void> {
+    const dir = path.join(root, relativeDir);
+    if (!(await fs.pathExists(dir))) {
+      return;
+    }
+
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    for (const entry of entries) {
+      const relativePath = path.join(relativeDir, entry.name);
+      if (entry.isDirectory()) {
+        await this.storeDirectory(root, relativePath, files);
+      } else if (entry.isFile()) {
+        files.push(await this.storeFile(root, relativePath));
+      }
+    }
+  }
+
+  /**
+   * Split a file into chunks and write any chunk the store lacks
+   */
+  private async storeFile(
+    root: string,
+    relativePath: string,
+  ): Promise<SnapshotManifestFile> {
+    const chunks: string[] = [];
+    const fd = await fs.open(path.join(root, relativePath), "r");
+    let size = 0;
+
+    try {
+      const buffer = Buffer.alloc(CHUNK_SIZE);
+      let bytesRead: number;
+
+      do {
+        ({ bytesRead } = await fs.read(fd, buffer, 0, CHUNK_SIZE, size));
+        if (bytesRead === 0) {
+          break;
+        }
+
+        const chunk = buffer.subarray(0, bytesRead);
+        const hash = crypto.createHash("sha256").update(chunk).digest("hex");
+        await this.writeObject(hash, chunk);
+
+        chunks.push(hash);
+        size += bytesRead;
+      } while (bytesRead === CHUNK_SIZE);
+    } finally {
+      await fs.close(fd);
+    }
+
+    return { path: relativePath, size, chunks };
+  }
+
+  /**
+   * Write a compressed chunk unless the store already has it
+   */
+  private async writeObject(hash: string, chunk: Buffer): Promise<void> {
+    const objectPath = this.objectPath(hash);
+
+    // Mark an existing object as in use so a concurrent garbage collection
+    // keeps it; if it is missing (or was just collected), write it
+    const now = new Date();
+    try {
+      await fs.utimes(objectPath, now, now);
+      return;
+    } catch {
+      // not in the store yet
+    }
+
+    await fs.ensureDir(path.dirname(objectPath));
+
+    // Write then rename so an interrupted snapshot never leaves a bad object
+    const tempPath = `${objectPath}.tmp`;
+    await fs.writeFile(tempPath, await gzip(chunk));
+    await fs.rename(tempPath, objectPath);
+  }
+
+  /**
+   * Rebuild the files listed in a manifest under outputDir
+   */
+  private async materializeManifest(
+    manifestPath: string,
     outputDir: string,
   ): Promise<void> {
-    await execAsync(`tar -xzf "${archiveFile}" -C "${outputDir}"`);
+    const manifest: SnapshotManifest = await fs.readJson(manifestPath);
+
+    for (const file of manifest.files) {
+      const filePath = path.join(outputDir, file.path);
+      await fs.ensureDir(path.dirname(filePath));
+
+      const fd = await fs.open(filePath, "w");
+      try {
+        for (const hash of file.chunks) {
+          const objectPath = this.objectPath(hash);
+          if (!(await fs.pathExists(objectPath))) {
+            throw new Error(
+              `Snapshot store is missing chunk ${hash} for ${file.path}`,
+            );
+          }
+          const chunk = await gunzip(await fs.readFile(objectPath));
+          await fs.write(fd, chunk);
+        }
+      } finally {
+        await fs.close(fd);
+      }
+    }
+  }
+
+  /**
+   * Load a snapshot's manifest, or null for archive snapshots
+   */
+  private async loadManifest(
+    snapshot: BlockchainSnapshot,
+  ): Promise<SnapshotManifest | null> {
+    if (
+      snapshot.storage !== "manifest" ||
+      !(await fs.pathExists(snapshot.filePath))
+    ) {
+      return null;
+    }
+    return fs.readJson(snapshot.filePath);
+  }
+
+  /**
+   * Distinct chunk hashes a manifest refers to
+   */
+  private manifestChunks(manifest: SnapshotManifest): Set<string> {
+    const hashes = new Set<string>();
+    manifest.files.forEach((file) =>
+      file.chunks.forEach((hash) => hashes.add(hash)),
+    );
+    return hashes;
+  }
+
+  private objectPath(hash: string): string {
+    return path.join(this.objectsDir, hash.substring(0, 2), hash);
   }
 
   /**
    * Auto-snapshot based on interval
    */
-  async createAutoSnapshot(): Promise<BlockchainSnapshot> {
+  async createAutoSnapshot(
+    options: { silent?: boolean } = {},
+  ): Promise<BlockchainSnapshot> {
     const blockchainInfo = await this.rpc.callRpc<any>("getblockchaininfo");
 
     return this.createSnapshot({
       name: `auto_${Date.now()}`,
       description: `Auto-snapshot at block ${blockchainInfo.blocks}`,
       tags: ["auto"],
+      silent: options.silent,
     });
   }
 }
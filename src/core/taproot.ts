@@ -0,0 +1,48 @@
+/**
+ * Taproot multisig descriptors for Caravan-X
+ * Builds tr(<internal key>, multi_a(...)) descriptors for P2TR Caravan
+ * wallets. multi_a and sortedmulti_a need Bitcoin Core 24 or later.
+ */
+
+import { TaprootMultisigOptions } from "../types/caravan";
+
+/**
+ * BIP341's "H" point: an x-only key with no known discrete log, so a
+ * wallet using it as internal key can only be spent through the script
+ * path. It is the same for every address, which is fine on regtest but
+ * lets observers recognize these outputs.
+ */
+export const TAPROOT_NUMS_KEY =
+  "50929b74c1a04954b78b4b6035e97a5e078a5a0f28ec96d547bfee9ace803ac0";
+
+export const TAPROOT_CARAVAN_NOTE =
+  "Taproot multisig is not Caravan-compatible yet. Import the descriptors into Bitcoin Core or another Taproot-aware wallet instead.";
+
+/**
+ * Build the descriptor for one branch (receive or change). keys are full
+ * key expressions, e.g. "[fingerprint/86'/1'/0']tpub.../0/*".
+ */
+export function buildTaprootMultisigDescriptor(
+  keys: string[],
+  requiredSigners: number,
+  options: TaprootMultisigOptions = {},
+): string {
+  const { keyPathSigner, sorted = true } = options;
+
+  if (requiredSigners > keys.length) {
+    throw new Error(
+      "requiredSigners cannot be greater than the number of keys",
+    );
+  }
+
+  let internalKey = TAPROOT_NUMS_KEY;
+  if (keyPathSigner !== undefined) {
+    if (!Number.isInteger(keyPathSigner) || !keys[keyPathSigner]) {
+      throw new Error(`No signer at index ${keyPathSigner} for the key path`);
+    }
+    internalKey = keys[keyPathSigner];
+  }
+
+  const leaf = sorted ? "sortedmulti_a" : "multi_a";
+  return `tr(${internalKey},${leaf}(${requiredSigners},${keys.join(",")}))`;
+}
@@ -0,0 +1,237 @@
+/**
+ * Time Control for Caravan-X
+ * Sets, advances, freezes and unfreezes the node's clock with setmocktime,
+ * for testing time-based locktimes and median-time-past behaviour. The mock
+ * time is saved in the profile and applied again after node restarts.
+ */
+
+import { BitcoinRpcClient } from "./rpc";
+import { log } from "../utils/logger";
+
+/**
+ * Saves the mock time to the profile; undefined means the real clock
+ */
+export type MockTimeStore = (mockTime: number | undefined) => Promise<void>;
+
+export interface TimeStatus {
+  /** Time the node uses: the mock time, or the real clock */
+  nodeTime: number;
+  frozen: boolean;
+  height: number;
+  tipTime: number;
+  /** Median time past of the tip, which locktimes are checked against */
+  medianTime: number;
+}
+
+export interface AdvanceOptions {
+  /** Mine this many blocks spread evenly across the advance */
+  blocks?: number;
+  /** Coinbase address for mined blocks; defaults to a mining_wallet address */
+  address?: string;
+}
+
+export interface AdvanceResult extends TimeStatus {
+  advancedBy: number;
+  blockHashes: string[];
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 3600,
+  d: 86400,
+  w: 604800,
+};
+
+/**
+ * Seconds in a duration such as 600, "90s", "10m", "2h", "1d" or "1d12h"
+ */
+export function parseDuration(duration: number | string): number {
+  if (typeof duration === "number" || /^\d+$/.test(duration)) {
+    return Number(duration);
+  }
+
+  const compact = duration.replace(/\s/g, "");
+  if (!/^(\d+[smhdw])+$/.test(compact)) {
+    throw new Error(
+      `Invalid duration: ${duration}. Use seconds or units like 10m, 2h, 1d`,
+    );
+  }
+
+  return compact
+    .match(/\d+[smhdw]/g)!
+    .reduce(
+      (total, part) => total + parseInt(part) * DURATION_UNITS[part.slice(-1)],
+      0,
+    );
+}
+
+/**
+ * Unix seconds from a number, a numeric string or an ISO 8601 date
+ */
+export function parseTime(time: number | string): number {
+  const seconds =
+    typeof time === "number"
+      ? time
+      : /^\d+$/.test(time)
+        ? parseInt(time)
+        : Math.floor(Date.parse(time) / 1000);
+
+  if (!Number.isInteger(seconds) || seconds <= 0) {
+    throw new Error(`Invalid time: ${time}`);
+  }
+  return seconds;
+}
+
+export class TimeService {
+  private readonly rpc: BitcoinRpcClient;
+  private readonly store?: MockTimeStore;
+  private mockTime?: number;
+
+  /**
+   * mockTime is the value saved in the profile. Without a store, changes
+   * only last until the node restarts.
+   */
+  constructor(rpc: BitcoinRpcClient, mockTime?: number, store?: MockTimeStore) {
+    this.rpc = rpc;
+    this.mockTime = mockTime;
+    this.store = store;
+  }
+
+  /**
+   * The saved mock time, or undefined when the node follows the real clock
+   */
+  getMockTime(): number | undefined {
+    return this.mockTime;
+  }
+
+  async getStatus(): Promise<TimeStatus> {
+    const info = await this.rpc.getBlockchainInfo();
+    const tip = await this.rpc.getBlock(info.bestblockhash);
+
+    return {
+      nodeTime: this.mockTime ?? Math.floor(Date.now() / 1000),
+      frozen: this.mockTime !== undefined,
+      height: info.blocks,
+      tipTime: tip.time,
+      medianTime: info.mediantime,
+    };
+  }
+
+  /**
+   * Freeze the node's clock at a time
+   */
+  async setTime(time: number | string): Promise<TimeStatus> {
+    await this.applyMockTime(parseTime(time));
+    return this.getStatus();
+  }
+
+  /**
+   * Move the clock forward. A running clock is frozen at the new time,
+   * because Bitcoin Core's mock time does not tick. With blocks, the clock
+   * steps forward once per block so each block gets a later timestamp and
+   * median time past moves with it.
+   */
+  async advance(
+    duration: number | string,
+    options: AdvanceOptions = {},
+  ): Promise<AdvanceResult> {
+    const seconds = parseDuration(duration);
+    if (seconds <= 0) {
+      throw new Error("Advance by a positive duration");
+    }
+
+    const blocks = options.blocks ?? 0;
+    if (!Number.isInteger(blocks) || blocks < 0) {
+      throw new Error("blocks must be a non-negative whole number");
+    }
+
+    const start = this.mockTime ?? Math.floor(Date.now() / 1000);
+    const blockHashes: string[] = [];
+
+    if (blocks === 0) {
+      await this.applyMockTime(start + seconds);
+    } else {
+      const address = options.address || (await this.getMiningAddress());
+      for (let i = 1; i <= blocks; i++) {
+        await this.applyMockTime(start + Math.round((seconds * i) / blocks));
+        blockHashes.push(...(await this.rpc.generateToAddress(1, address)));
+      }
+    }
+
+    return {
+      ...(await this.getStatus()),
+      advancedBy: seconds,
+      blockHashes,
+    };
+  }
+
+  /**
+   * Stop the clock at the current time
+   */
+  async freeze(): Promise<TimeStatus> {
+    if (this.mockTime === undefined) {
+      await this.applyMockTime(Math.floor(Date.now() / 1000));
+    }
+    return this.getStatus();
+  }
+
+  /**
+   * Return the node to the real clock
+   */
+  async unfreeze(): Promise<TimeStatus> {
+    this.assertMockable();
+    await this.rpc.callRpc("setmocktime", [0]);
+    this.mockTime = undefined;
+    await this.store?.(undefined);
+    log.verbose("Node clock back on real time");
+    return this.getStatus();
+  }
+
+  /**
+   * Apply the saved mock time again, after the node restarted. Nodes that
+   * are not reachable are skipped.
+   */
+  async restore(): Promise<void> {
+    if (this.mockTime === undefined || this.rpc.signetMiner) {
+      return;
+    }
+
+    try {
+      await this.rpc.callRpc("setmocktime", [this.mockTime]);
+      log.verbose(
+        `Restored mock time ${new Date(this.mockTime * 1000).toISOString()}`,
+      );
+    } catch (error: any) {
+      log.verbose(`Could not restore mock time: ${error.message}`);
+    }
+  }
+
+  private async applyMockTime(mockTime: number): Promise<void> {
+    this.assertMockable();
+    await this.rpc.callRpc("setmocktime", [mockTime]);
+    this.mockTime = mockTime;
+    await this.store?.(mockTime);
+    log.verbose(`Mock time set to ${new Date(mockTime * 1000).toISOString()}`);
+  }
+
+  // DEV: Bitcoin Core only accepts setmocktime on regtest
+  private assertMockable(): void {
+    if (this.rpc.signetMiner) {
+      throw new Error("Mock time is only available on regtest");
+    }
+  }
+
+  private async getMiningAddress(): Promise<string> {
+    const wallets = await this.rpc.listWallets();
+    const wallet = wallets.includes("mining_wallet")
+      ? "mining_wallet"
+      : wallets[0];
+    if (!wallet) {
+      throw new Error(
+        "No wallet is loaded for the coinbase; pass an address to mine to",
+      );
+    }
+    return this.rpc.getNewAddress(wallet);
+  }
+}
@@ -0,0 +1,481 @@
+/**
+ * Multi-node Topology for Caravan-X (Docker mode)
+ * Runs extra Bitcoin Core containers next to the profile's own node, peers
+ * them over the Caravan-X Docker network and can partition and reconnect
+ * them to produce competing chains and reorgs
+ */
+
+import * as path from "path";
+import { DockerService } from "./docker";
+import { BitcoinRpcClient } from "./rpc";
+import {
+  DockerConfig,
+  RegtestNodeConfig,
+  SharedConfig,
+  SignetConfig,
+} from "../types/config";
+import { log } from "../utils/logger";
+
+/**
+ * Name of the profile's own node when SharedConfig declares no nodes
+ */
+export const PRIMARY_NODE_NAME = "primary";
+
+/**
+ * How long a partition ban lasts; reconnect lifts it explicitly
+ */
+const PARTITION_BAN_SECONDS = 365 * 24 * 60 * 60;
+
+export interface NodeStatus {
+  name: string;
+  containerName: string;
+  primary: boolean;
+  running: boolean;
+  rpcPort?: number;
+  blocks?: number;
+  bestBlockHash?: string;
+  peers?: number;
+  wallets?: string[];
+}
+
+export interface NodeTipChange {
+  name: string;
+  heightBefore: number;
+  tipBefore: string;
+  heightAfter: number;
+  tipAfter: string;
+  /** The old tip is no longer on this node's active chain */
+  reorged: boolean;
+}
+
+export interface ReconnectResult {
+  /** All nodes ended on the same tip before the timeout */
+  synced: boolean;
+  nodes: NodeTipChange[];
+}
+
+export class NodeTopologyService {
+  private readonly primary: DockerService;
+  private readonly dockerConfig: DockerConfig;
+  private readonly sharedConfig?: SharedConfig;
+  private readonly nodes: RegtestNodeConfig[];
+  private readonly rpcAuth: { user: string; pass: string };
+  private readonly services = new Map<string, DockerService>();
+
+  constructor(
+    dockerService: DockerService,
+    dockerConfig: DockerConfig,
+    rpcAuth: { user: string; pass: string },
+    sharedConfig?: SharedConfig,
+  ) {
+    this.primary = dockerService;
+    this.dockerConfig = dockerConfig;
+    this.rpcAuth = rpcAuth;
+    this.sharedConfig = sharedConfig;
+    this.nodes = sharedConfig?.nodes?.length
+      ? sharedConfig.nodes
+      : [{ name: PRIMARY_NODE_NAME }];
+
+    const names = new Set<string>();
+    for (const node of this.nodes) {
+      if (!/^[a-zA-Z0-9_-]+$/.test(node.name)) {
+        throw new Error(
+          `Invalid node name "${node.name}": use letters, digits, - and _`,
+        );
+      }
+      if (names.has(node.name)) {
+        throw new Error(`Duplicate node name: ${node.name}`);
+      }
+      names.add(node.name);
+    }
+  }
+
+  listNodes(): RegtestNodeConfig[] {
+    return this.nodes;
+  }
+
+  // ============================================================================
+  // LIFECYCLE
+  // ============================================================================
+
+  /**
+   * Start every peer container that is not running, create each node's
+   * wallets and connect all nodes to each other. The primary node must
+   * already be running.
+   */
+  async startNodes(): Promise<void> {
+    if (!(await this.primary.getContainerStatus()).running) {
+      throw new Error(
+        `Primary node container ${this.dockerConfig.containerName} is not running`,
+      );
+    }
+
+    for (const node of this.peers()) {
+      const docker = this.dockerFor(node.name);
+      if ((await docker.getContainerStatus()).running) {
+        continue;
+      }
+
+      log.info(`Starting node ${node.name}...`);
+      await docker.startContainer(this.peerSharedConfig());
+    }
+
+    for (const node of this.nodes) {
+      for (const wallet of node.wallets || []) {
+        await this.ensureWallet(node.name, wallet);
+      }
+    }
+
+    await this.connectAll("add");
+  }
+
+  /**
+   * Remove the peer containers. Their data directories are kept, so the
+   * next start resumes from the same chain.
+   */
+  async stopNodes(): Promise<void> {
+    for (const node of this.peers()) {
+      await this.dockerFor(node.name).removeContainer();
+    }
+  }
+
+  async getStatus(): Promise<NodeStatus[]> {
+    const statuses: NodeStatus[] = [];
+
+    for (const [index, node] of this.nodes.entries()) {
+      const docker = this.dockerFor(node.name);
+      const status: NodeStatus = {
+        name: node.name,
+        containerName: this.containerName(node.name),
+        primary: index === 0,
+        running: (await docker.getContainerStatus()).running,
+      };
+
+      if (status.running) {
+        try {
+          const rpc = await this.getClient(node.name);
+          const info = await rpc.callRpc<any>("getblockchaininfo");
+          status.rpcPort = rpc.config.port;
+          status.blocks = info.blocks;
+          status.bestBlockHash = info.bestblockhash;
+          status.peers = await rpc.callRpc<number>("getconnectioncount");
+          status.wallets = await rpc.callRpc<string[]>("listwallets");
+        } catch (error: any) {
+          log.debug(`Could not query node ${node.name}: ${error.message}`);
+        }
+      }
+
+      statuses.push(status);
+    }
+
+    return statuses;
+  }
+
+  // ============================================================================
+  // PER-NODE COMMANDS
+  // ============================================================================
+
+  /**
+   * RPC client talking directly to a node's published RPC port
+   */
+  async getClient(name: string): Promise<BitcoinRpcClient> {
+    const docker = this.dockerFor(name);
+    const port = await docker.getHostRpcPort();
+    const signet = this.getSignet();
+
+    const client = new BitcoinRpcClient({
+      protocol: "http",
+      host: "127.0.0.1",
+      port,
+      user: this.rpcAuth.user,
+      pass: this.rpcAuth.pass,
+      dataDir: this.dataDir(name),
+      ...(signet ? { network: "signet" as const, signet } : {}),
+    });
+    client.signetMiner?.setGrinder(docker.getSignetGrinder());
+    return client;
+  }
+
+  async callRpc<T = any>(
+    name: string,
+    method: string,
+    params: any[] = [],
+    wallet?: string,
+  ): Promise<T> {
+    const rpc = await this.getClient(name);
+    return rpc.callRpc<T>(method, params, wallet);
+  }
+
+  /**
+   * Mine blocks on one node. Defaults to the node's first wallet, or a
+   * mining_wallet created on demand.
+   */
+  async mine(name: string, blocks: number, wallet?: string): Promise<string[]> {
+    const node = this.getNode(name);
+    const walletName = wallet || node.wallets?.[0] || "mining_wallet";
+
+    await this.ensureWallet(name, walletName);
+    const address = await this.callRpc<string>(
+      name,
+      "getnewaddress",
+      [],
+      walletName,
+    );
+
+    return this.callRpc<string[]>(name, "generatetoaddress", [blocks, address]);
+  }
+
+  // ============================================================================
+  // PARTITIONS
+  // ============================================================================
+
+  /**
+   * Split the network: the named nodes keep talking to each other but are
+   * cut off from every other node until reconnect() is called.
+   */
+  async partition(
+    isolated: string[],
+  ): Promise<{ isolated: string[]; rest: string[] }> {
+    isolated.forEach((name) => this.getNode(name));
+
+    const rest = this.nodes
+      .map((node) => node.name)
+      .filter((name) => !isolated.includes(name));
+
+    if (isolated.length === 0 || rest.length === 0) {
+      throw new Error(
+        "A partition needs at least one node on each side of the split",
+      );
+    }
+
+    const ips = new Map<string, string>();
+    for (const name of [...isolated, ...rest]) {
+      ips.set(name, await this.dockerFor(name).getContainerIp());
+    }
+
+    // DEV: Banning the other side's IPs drops the existing connections and
+    // keeps either side from dialling the other again via addnode or addrman.
+    for (const a of isolated) {
+      for (const b of rest) {
+        await this.ban(a, ips.get(b)!);
+        await this.ban(b, ips.get(a)!);
+      }
+    }
+
+    return { isolated, rest };
+  }
+
+  /**
+   * Heal every partition, reconnect all nodes and wait for them to agree on
+   * a tip. Reports each node's tip before and after, flagging reorgs.
+   */
+  async reconnect(timeoutMs = 60000): Promise<ReconnectResult> {
+    const before = new Map<string, { height: number; tip: string }>();
+    for (const node of this.nodes) {
+      const info = await this.callRpc(node.name, "getblockchaininfo");
+      before.set(node.name, { height: info.blocks, tip: info.bestblockhash });
+    }
+
+    for (const node of this.nodes) {
+      await this.callRpc(node.name, "clearbanned");
+    }
+    await this.connectAll("onetry");
+
+    const synced = await this.waitForSync(timeoutMs);
+
+    const nodes: NodeTipChange[] = [];
+    for (const node of this.nodes) {
+      const info = await this.callRpc(node.name, "getblockchaininfo");
+      const old = before.get(node.name)!;
+
+      nodes.push({
+        name: node.name,
+        heightBefore: old.height,
+        tipBefore: old.tip,
+        heightAfter: info.blocks,
+        tipAfter: info.bestblockhash,
+        reorged: !(await this.isOnActiveChain(node.name, old.tip)),
+      });
+    }
+
+    return { synced, nodes };
+  }
+
+  /**
+   * Poll until every node reports the same best block hash
+   */
+  async waitForSync(timeoutMs = 60000): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+
+    while (Date.now() < deadline) {
+      const tips = new Set<string>();
+      for (const node of this.nodes) {
+        tips.add(await this.callRpc<string>(node.name, "getbestblockhash"));
+      }
+      if (tips.size === 1) {
+        return true;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    }
+
+    return false;
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  private getNode(name: string): RegtestNodeConfig {
+    const node = this.nodes.find((n) => n.name === name);
+    if (!node) {
+      throw new Error(
+        `Unknown node "${name}". Nodes: ${this.nodes.map((n) => n.name).join(", ")}`,
+      );
+    }
+    return node;
+  }
+
+  private peers(): RegtestNodeConfig[] {
+    return this.nodes.slice(1);
+  }
+
+  private isPrimary(name: string): boolean {
+    return this.nodes[0].name === this.getNode(name).name;
+  }
+
+  private containerName(name: string): string {
+    return this.isPrimary(name)
+      ? this.dockerConfig.containerName
+      : `${this.dockerConfig.containerName}-${name}`;
+  }
+
+  private dataDir(name: string): string {
+    return this.isPrimary(name)
+      ? this.dockerConfig.volumes.bitcoinData
+      : path.join(
+          path.dirname(this.dockerConfig.volumes.bitcoinData),
+          `bitcoin-${name}`,
+        );
+  }
+
+  /**
+   * DockerService for one node. Peers get their own container, data
+   * directory and host ports derived from the primary's config.
+   */
+  private dockerFor(name: string): DockerService {
+    if (this.isPrimary(name)) {
+      return this.primary;
+    }
+
+    let service = this.services.get(name);
+    if (!service) {
+      const offset = 2 * this.nodes.findIndex((n) => n.name === name);
+      const config: DockerConfig = {
+        ...this.dockerConfig,
+        containerName: this.containerName(name),
+        ports: {
+          rpc: this.dockerConfig.ports.rpc + offset,
+          p2p: this.dockerConfig.ports.p2p + offset,
+        },
+        volumes: {
+          ...this.dockerConfig.volumes,
+          bitcoinData: this.dataDir(name),
+        },
+      };
+      service = new DockerService(
+        config,
+        path.dirname(config.volumes.bitcoinData),
+        this.getSignet(),
+      );
+      this.services.set(name, service);
+    }
+    return service;
+  }
+
+  /**
+   * The profile's custom signet; every node runs the same one
+   */
+  private getSignet(): SignetConfig | undefined {
+    return this.sharedConfig?.bitcoin.network === "signet"
+      ? this.sharedConfig.bitcoin.signet
+      : undefined;
+  }
+
+  /**
+   * Shared config for starting a peer: same credentials, but no blocks of
+   * its own since it syncs the chain from the other nodes
+   */
+  private peerSharedConfig(): SharedConfig | undefined {
+    if (!this.sharedConfig) {
+      return undefined;
+    }
+    return {
+      ...this.sharedConfig,
+      bitcoin: {
+        ...this.sharedConfig.bitcoin,
+        rpcUser: this.rpcAuth.user,
+        rpcPassword: this.rpcAuth.pass,
+      },
+      initialState: {
+        ...this.sharedConfig.initialState,
+        preGenerateBlocks: false,
+      },
+    };
+  }
+
+  /**
+   * Have every node connect to every other node
+   */
+  private async connectAll(command: "add" | "onetry"): Promise<void> {
+    for (const [i, from] of this.nodes.entries()) {
+      for (const to of this.nodes.slice(i + 1)) {
+        const address = this.dockerFor(to.name).getPeerAddress();
+        try {
+          await this.callRpc(from.name, "addnode", [address, command]);
+        } catch (error: any) {
+          // Already in the addnode list from an earlier start
+          log.debug(`addnode ${address} on ${from.name}: ${error.message}`);
+        }
+      }
+    }
+  }
+
+  private async ban(name: string, ip: string): Promise<void> {
+    try {
+      await this.callRpc(name, "setban", [ip, "add", PARTITION_BAN_SECONDS]);
+    } catch (error: any) {
+      // Already banned by an earlier partition
+      log.debug(`setban ${ip} on ${name}: ${error.message}`);
+    }
+  }
+
+  private async ensureWallet(name: string, wallet: string): Promise<void> {
+    const loaded = await this.callRpc<string[]>(name, "listwallets");
+    if (loaded.includes(wallet)) {
+      return;
+    }
+
+    try {
+      await this.callRpc(name, "loadwallet", [wallet, true]);
+    } catch {
+      await this.callRpc(name, "createwallet", [
+        wallet,
+        false,
+        false,
+        "",
+        false,
+        true,
+        true,
+      ]);
+    }
+  }
+
+  private async isOnActiveChain(name: string, hash: string): Promise<boolean> {
+    try {
+      const header = await this.callRpc(name, "getblockheader", [hash]);
+      return header.confirmations >= 0;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -1,6 +1,20 @@
 import { BitcoinRpcClient } from "./rpc";
-import { PSBTOutput, FinalizedPSBT } from "../types/bitcoin";
-import { CaravanWalletConfig } from "../types/caravan";
+import { TimeService } from "./time";
+import {
+  PSBTOutput,
+  FinalizedPSBT,
+  RelativeLocktime,
+  TimelockUnlockResult,
+  Outpoint,
+  WalletCoin,
+  CoinControlOptions,
+  CaravanSignatureSet,
+  PSBTSignature,
+  SignatureImportResult,
+  PSBTWalletMatch,
+  PSBTWalletMatchReport,
+} from "../types/bitcoin";
+import { AddressType, CaravanWalletConfig } from "../types/caravan";
 import * as bitcoin from "bitcoinjs-lib";
 import { ECPairFactory } from "ecpair";
 import * as ecc from "tiny-secp256k1";
@@ -9,6 +23,324 @@ import * as ecc from "tiny-secp256k1";
 bitcoin.initEccLib(ecc);
 const ECPair = ECPairFactory(ecc);
 
+// nLockTime values below this are block heights, above are unix timestamps
+const LOCKTIME_THRESHOLD = 500000000;
+
+// BIP68: when set, the relative lock is in units of 512 seconds
+const SEQUENCE_LOCKTIME_TYPE_FLAG = 1 << 22;
+
+// BIP68: when set, the sequence carries no relative lock
+const SEQUENCE_LOCKTIME_DISABLE_FLAG = 0x80000000;
+
+/**
+ * Mempool reject reasons caused by an unexpired timelock
+ */
+function isTimelockRejection(reason?: string): boolean {
+  return reason === "non-final" || reason === "non-BIP68-final";
+}
+
+/**
+ * Parse a "txid:vout" outpoint
+ */
+export function parseOutpoint(value: string): Outpoint {
+  const match = value.trim().match(/^([0-9a-fA-F]{64}):(\d+)$/);
+  if (!match) {
+    throw new Error(`Invalid outpoint "${value}"; use txid:vout`);
+  }
+  return { txid: match[1].toLowerCase(), vout: parseInt(match[2]) };
+}
+
+/**
+ * Output type of a scriptPubKey, so coin lists show mixed address types
+ */
+function getScriptType(scriptPubKey = ""): string {
+  if (/^0020[0-9a-f]{64}$/.test(scriptPubKey)) return "P2WSH";
+  if (/^0014[0-9a-f]{40}$/.test(scriptPubKey)) return "P2WPKH";
+  if (/^5120[0-9a-f]{64}$/.test(scriptPubKey)) return "P2TR";
+  if (/^a914[0-9a-f]{40}87$/.test(scriptPubKey)) return "P2SH";
+  if (/^76a914[0-9a-f]{40}88ac$/.test(scriptPubKey)) return "P2PKH";
+  return "other";
+}
+
+/**
+ * Caravan signature JSON, or undefined when the data is not JSON
+ */
+function parseSignatureSet(text: string): CaravanSignatureSet | undefined {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+
+  const set: CaravanSignatureSet = Array.isArray(parsed)
+    ? { signatures: parsed }
+    : parsed;
+  if (!Array.isArray(set?.signatures)) {
+    throw new Error(
+      "Signature JSON must be an array of hex signatures or { signatures: [...] }",
+    );
+  }
+  return set;
+}
+
+/**
+ * Decode a DER signature from Caravan. Signatures without a sighash byte
+ * are taken as SIGHASH_ALL.
+ */
+function decodeCaravanSignature(sigHex: string): {
+  signature: Buffer;
+  hashType: number;
+  encoded: Buffer;
+} {
+  let encoded = Buffer.from(sigHex, "hex");
+  if (!bitcoin.script.isCanonicalScriptSignature(encoded)) {
+    encoded = Buffer.concat([
+      encoded,
+      Buffer.from([bitcoin.Transaction.SIGHASH_ALL]),
+    ]);
+  }
+  const { signature, hashType } = bitcoin.script.signature.decode(encoded);
+  return { signature, hashType, encoded };
+}
+
+/**
+ * Amount of the coin a PSBT input spends
+ */
+function getInputValue(
+  input: bitcoin.Psbt["data"]["inputs"][number],
+  vout: number,
+): number {
+  if (input.witnessUtxo) {
+    return input.witnessUtxo.value;
+  }
+  if (input.nonWitnessUtxo) {
+    return bitcoin.Transaction.fromBuffer(input.nonWitnessUtxo).outs[vout]
+      .value;
+  }
+  throw new Error("The PSBT does not include the coins its inputs spend");
+}
+
+/**
+ * BIP32 path in apostrophe notation without the leading "m/"
+ */
+function normalizeBip32Path(path: string): string {
+  return path.trim().replace(/[hH]/g, "'").replace(/^m\/?/, "");
+}
+
+/**
+ * Number of a wallet's keys that appear in a PSBT entry's derivations,
+ * matched by master fingerprint and by a path under the key's bip32Path
+ */
+function countMatchedKeys(
+  derivs: { master_fingerprint: string; path: string }[],
+  wallet: CaravanWalletConfig,
+): number {
+  return wallet.extendedPublicKeys.filter((key) => {
+    const prefix = normalizeBip32Path(key.bip32Path || "");
+    return derivs.some(
+      (deriv) =>
+        key.xfp?.toLowerCase() === deriv.master_fingerprint.toLowerCase() &&
+        // DEV: keys imported without a path (e.g. "m") match any path
+        (prefix === "" ||
+          (normalizeBip32Path(deriv.path) + "/").startsWith(prefix + "/")),
+    );
+  }).length;
+}
+
+/**
+ * Address type and m-of-n quorum of a PSBT entry's script, as far as its
+ * witness_script / redeem_script tell
+ */
+function describeEntryScript(entry: any): {
+  addressType?: AddressType;
+  quorum?: { requiredSigners: number; totalSigners: number };
+} {
+  const witnessScript = entry.witness_script?.hex;
+  const redeemScript = entry.redeem_script?.hex;
+  const addressType =
+    witnessScript && redeemScript
+      ? AddressType.P2SH_P2WSH
+      : witnessScript
+        ? AddressType.P2WSH
+        : redeemScript
+          ? AddressType.P2SH
+          : entry.taproot_bip32_derivs?.length
+            ? AddressType.P2TR
+            : undefined;
+
+  // OP_m <keys> OP_n OP_CHECKMULTISIG
+  const chunks = bitcoin.script.decompile(
+    Buffer.from(witnessScript || redeemScript || "", "hex"),
+  );
+  const smallInt = (chunk: number | Buffer | undefined) =>
+    typeof chunk === "number" &&
+    chunk >= bitcoin.opcodes.OP_1 &&
+    chunk <= bitcoin.opcodes.OP_16
+      ? chunk - bitcoin.opcodes.OP_1 + 1
+      : undefined;
+  if (
+    chunks &&
+    chunks.length >= 4 &&
+    chunks[chunks.length - 1] === bitcoin.opcodes.OP_CHECKMULTISIG
+  ) {
+    const requiredSigners = smallInt(chunks[0]);
+    const totalSigners = smallInt(chunks[chunks.length - 2]);
+    if (requiredSigners && totalSigners) {
+      return { addressType, quorum: { requiredSigners, totalSigners } };
+    }
+  }
+  return { addressType };
+}
+
+/**
+ * How many of the entry's script type and quorum agree with the wallet
+ */
+function countScriptMatches(
+  script: ReturnType<typeof describeEntryScript>,
+  wallet: CaravanWalletConfig,
+): number {
+  const normalizeType = (type: string) => type.toUpperCase().replace("_", "-");
+  let matches = 0;
+  if (
+    script.addressType &&
+    normalizeType(wallet.addressType) === normalizeType(script.addressType)
+  ) {
+    matches++;
+  }
+  if (
+    script.quorum &&
+    wallet.quorum.requiredSigners === script.quorum.requiredSigners &&
+    wallet.quorum.totalSigners === script.quorum.totalSigners
+  ) {
+    matches++;
+  }
+  return matches;
+}
+
+/**
+ * Stored wallet that best explains a PSBT entry: most keys matched by
+ * derivation, then the script's type and quorum, then a key count equal
+ * to the number of derivations. Ties are the other wallets that rank the
+ * same, when the entry cannot tell them apart.
+ */
+function matchEntry(
+  entry: any,
+  wallets: CaravanWalletConfig[],
+):
+  { wallet: CaravanWalletConfig; matched: number; ties: string[] } | undefined {
+  const derivs = [
+    ...(entry.bip32_derivs || []),
+    ...(entry.taproot_bip32_derivs || []),
+  ];
+  const script = describeEntryScript(entry);
+  const ranked: { wallet: CaravanWalletConfig; rank: number[] }[] = [];
+
+  for (const wallet of wallets) {
+    const matched = countMatchedKeys(derivs, wallet);
+    if (matched === 0) {
+      continue;
+    }
+    const exact = wallet.extendedPublicKeys.length === derivs.length;
+    ranked.push({
+      wallet,
+      rank: [matched, countScriptMatches(script, wallet), exact ? 1 : 0],
+    });
+  }
+  if (ranked.length === 0) {
+    return undefined;
+  }
+
+  const compare = (a: number[], b: number[]) =>
+    a.map((value, i) => value - b[i]).find((diff) => diff !== 0) || 0;
+  ranked.sort((a, b) => compare(b.rank, a.rank));
+  const [best] = ranked;
+  return {
+    wallet: best.wallet,
+    matched: best.rank[0],
+    ties: ranked
+      .slice(1)
+      .filter((candidate) => compare(candidate.rank, best.rank) === 0)
+      .map((candidate) => candidate.wallet.name),
+  };
+}
+
+/**
+ * Match the inputs and outputs of a decoded PSBT to stored Caravan wallets
+ * using the master fingerprints and paths in their bip32_derivs
+ */
+export function matchPSBTWallets(
+  decoded: any,
+  wallets: CaravanWalletConfig[],
+): PSBTWalletMatchReport {
+  const matches = new Map<string, PSBTWalletMatch>();
+  const getMatch = (wallet: CaravanWalletConfig) => {
+    if (!matches.has(wallet.name)) {
+      matches.set(wallet.name, {
+        wallet: wallet.name,
+        inputs: [],
+        outputs: [],
+        matchedKeys: wallet.extendedPublicKeys.length,
+        totalKeys: wallet.extendedPublicKeys.length,
+        confidence: "high",
+      });
+    }
+    return matches.get(wallet.name)!;
+  };
+
+  const inputWallets = decoded.inputs.map((input: any, index: number) => {
+    const found = matchEntry(input, wallets);
+    if (!found) {
+      return undefined;
+    }
+    const match = getMatch(found.wallet);
+    match.inputs.push(index);
+    match.matchedKeys = Math.min(match.matchedKeys, found.matched);
+    if (found.ties.length > 0) {
+      match.ambiguousWith = [
+        ...new Set([...(match.ambiguousWith || []), ...found.ties]),
+      ];
+    }
+    match.confidence = match.ambiguousWith
+      ? "ambiguous"
+      : match.matchedKeys === match.totalKeys
+        ? "high"
+        : match.matchedKeys >= found.wallet.quorum.requiredSigners
+          ? "medium"
+          : "low";
+    return found.wallet.name;
+  });
+
+  const outputWallets = decoded.outputs.map((output: any, index: number) => {
+    const found = matchEntry(output, wallets);
+    if (!found) {
+      return undefined;
+    }
+    // DEV: outputs alone do not say which wallet is spending
+    matches.get(found.wallet.name)?.outputs.push(index);
+    return found.wallet.name;
+  });
+
+  return {
+    matches: [...matches.values()].sort(
+      (a, b) => b.inputs.length - a.inputs.length,
+    ),
+    inputWallets,
+    outputWallets,
+  };
+}
+
+/**
+ * Adapt an ecpair key (Uint8Array based) to bitcoinjs' Buffer-based signer
+ */
+function toSigner(keyPair: ReturnType<typeof ECPair.fromWIF>): bitcoin.Signer {
+  return {
+    publicKey: Buffer.from(keyPair.publicKey),
+    sign: (hash) => Buffer.from(keyPair.sign(hash)),
+    signSchnorr: (hash) => Buffer.from(keyPair.signSchnorr(hash)),
+  };
+}
+
 /**
  * Service for handling PSBTs (Partially Signed Bitcoin Transactions)
  */
@@ -30,7 +362,15 @@ export class TransactionService {
   async createPSBT(
     wallet: string,
     outputs: Record<string, number>[],
-    options?: { rbf?: boolean; feeRate?: number; includeWatching?: boolean },
+    options?: {
+      rbf?: boolean;
+      feeRate?: number;
+      includeWatching?: boolean;
+      /** nLockTime: block height if below 500000000, otherwise unix time */
+      locktime?: number;
+      /** BIP68 relative lock applied to every input's nSequence */
+      relativeLocktime?: RelativeLocktime;
+    } & CoinControlOptions,
   ): Promise<string> {
     try {
       // Build options for the RPC call
@@ -46,6 +386,12 @@ export class TransactionService {
         if (options.includeWatching !== undefined) {
           rpcOptions.includeWatching = options.includeWatching;
         }
+        if (options.addInputs !== undefined) {
+          rpcOptions.add_inputs = options.addInputs;
+        }
+        if (options.subtractFeeFromOutputs?.length) {
+          rpcOptions.subtractFeeFromOutputs = options.subtractFeeFromOutputs;
+        }
       }
 
       // Default includeWatching to true if not specified
@@ -55,10 +401,14 @@ export class TransactionService {
 
       const result: any = await this.rpc.callRpc(
         "walletcreatefundedpsbt",
-        [[], outputs, 0, rpcOptions],
+        [options?.inputs ?? [], outputs, options?.locktime ?? 0, rpcOptions],
         wallet,
       );
 
+      if (options?.relativeLocktime) {
+        return this.setRelativeLocktime(result.psbt, options.relativeLocktime);
+      }
+
       return result.psbt;
     } catch (error) {
       console.error(`Error creating PSBT in wallet "${wallet}":`, error);
@@ -66,6 +416,279 @@ export class TransactionService {
     }
   }
 
+  /**
+   * List a wallet's coins for coin control, including locked ones, which
+   * listunspent leaves out. Largest first.
+   */
+  async listCoins(wallet: string, minConf = 0): Promise<WalletCoin[]> {
+    const unspent = await this.rpc.listUnspent(wallet, minConf);
+    const coins: WalletCoin[] = unspent.map((utxo) => ({
+      txid: utxo.txid,
+      vout: utxo.vout,
+      address: utxo.address,
+      label: utxo.label || undefined,
+      amount: utxo.amount,
+      confirmations: utxo.confirmations,
+      scriptType: getScriptType(utxo.scriptPubKey),
+      locked: false,
+    }));
+
+    const locked = await this.rpc.callRpc<Outpoint[]>(
+      "listlockunspent",
+      [],
+      wallet,
+    );
+    for (const { txid, vout } of locked) {
+      // DEV: a locked coin can be spent by another wallet; skip those
+      const output = await this.rpc.callRpc<any>("gettxout", [
+        txid,
+        vout,
+        true,
+      ]);
+      if (!output || output.confirmations < minConf) {
+        continue;
+      }
+      coins.push({
+        txid,
+        vout,
+        address: output.scriptPubKey.address,
+        amount: output.value,
+        confirmations: output.confirmations,
+        scriptType: getScriptType(output.scriptPubKey.hex),
+        locked: true,
+      });
+    }
+
+    return coins.sort((a, b) => b.amount - a.amount);
+  }
+
+  /**
+   * Lock coins so the wallet does not pick them when funding transactions.
+   * Persistent locks survive node restarts.
+   */
+  async lockCoins(
+    wallet: string,
+    outpoints: Outpoint[],
+    persistent = false,
+  ): Promise<void> {
+    if (outpoints.length === 0) {
+      return;
+    }
+    await this.rpc.callRpc(
+      "lockunspent",
+      persistent ? [false, outpoints, true] : [false, outpoints],
+      wallet,
+    );
+  }
+
+  /**
+   * Unlock coins, or every locked coin of the wallet when none are given
+   */
+  async unlockCoins(wallet: string, outpoints?: Outpoint[]): Promise<void> {
+    await this.rpc.callRpc(
+      "lockunspent",
+      outpoints ? [true, outpoints] : [true],
+      wallet,
+    );
+  }
+
+  /**
+   * Encode a relative lock as a BIP68 nSequence value.
+   * Time-based locks have a granularity of 512 seconds and are rounded up.
+   */
+  encodeRelativeLocktime(lock: RelativeLocktime): number {
+    if (lock.blocks !== undefined && lock.seconds !== undefined) {
+      throw new Error("A relative locktime takes either blocks or seconds");
+    }
+
+    if (lock.blocks !== undefined) {
+      if (lock.blocks < 0 || lock.blocks > 0xffff) {
+        throw new Error("Relative block locks must be between 0 and 65535");
+      }
+      return lock.blocks;
+    }
+
+    if (lock.seconds !== undefined) {
+      const units = Math.ceil(lock.seconds / 512);
+      if (units < 0 || units > 0xffff) {
+        throw new Error(
+          "Relative time locks must be between 0 and 33553920 seconds",
+        );
+      }
+      return SEQUENCE_LOCKTIME_TYPE_FLAG | units;
+    }
+
+    throw new Error("A relative locktime needs blocks or seconds");
+  }
+
+  /**
+   * Set the BIP68 nSequence on every input of an unsigned PSBT
+   */
+  setRelativeLocktime(psbtBase64: string, lock: RelativeLocktime): string {
+    const psbt = bitcoin.Psbt.fromBase64(psbtBase64, {
+      network: this.network,
+    });
+
+    if (psbt.version < 2) {
+      psbt.setVersion(2);
+    }
+
+    const sequence = this.encodeRelativeLocktime(lock);
+    for (let i = 0; i < psbt.inputCount; i++) {
+      psbt.setInputSequence(i, sequence);
+    }
+
+    return psbt.toBase64();
+  }
+
+  /**
+   * Check whether the mempool would accept a raw transaction right now
+   */
+  async testMempoolAccept(
+    txHex: string,
+  ): Promise<{ txid: string; allowed: boolean; rejectReason?: string }> {
+    const [result] = await this.rpc.callRpc<any[]>("testmempoolaccept", [
+      [txHex],
+    ]);
+
+    return {
+      txid: result.txid,
+      allowed: result.allowed,
+      rejectReason: result["reject-reason"],
+    };
+  }
+
+  /**
+   * Mine blocks until a timelocked transaction becomes final, without
+   * broadcasting it. The rejection seen before the first block is returned
+   * so callers can show why the spend was refused. Time-based locks need a
+   * timeService to move the node's clock past the unlock time.
+   */
+  async mineUntilFinal(
+    txHex: string,
+    miningAddress: string,
+    maxBlocks = 1000,
+    timeService?: TimeService,
+  ): Promise<TimelockUnlockResult> {
+    const initial = await this.testMempoolAccept(txHex);
+    const result: TimelockUnlockResult = {
+      txid: initial.txid,
+      initialRejection: initial.allowed ? undefined : initial.rejectReason,
+      blocksMined: 0,
+      final: initial.allowed,
+    };
+
+    if (initial.allowed) {
+      return result;
+    }
+
+    if (!isTimelockRejection(initial.rejectReason)) {
+      throw new Error(
+        `Transaction rejected for a reason other than its timelock: ${initial.rejectReason}`,
+      );
+    }
+
+    // Height-based nLockTime: jump straight to the unlock height
+    const tx = bitcoin.Transaction.fromHex(txHex);
+    if (
+      initial.rejectReason === "non-final" &&
+      tx.locktime > 0 &&
+      tx.locktime < LOCKTIME_THRESHOLD
+    ) {
+      const info = await this.rpc.getBlockchainInfo();
+      const needed = Math.min(tx.locktime - info.blocks, maxBlocks);
+      if (needed > 0) {
+        await this.rpc.generateToAddress(needed, miningAddress);
+        result.blocksMined += needed;
+      }
+    }
+
+    // Time-based locks: median time past must pass the unlock time, which
+    // mining against the real clock cannot reach
+    const unlockTime = await this.getUnlockTime(tx);
+    if (unlockTime !== undefined) {
+      const nodeTime =
+        timeService?.getMockTime() ?? Math.floor(Date.now() / 1000);
+      if (nodeTime <= unlockTime) {
+        if (!timeService) {
+          throw new Error(
+            `Transaction is time-locked until ${new Date(unlockTime * 1000).toISOString()}; set the node time past it with "caravan-x time set" first`,
+          );
+        }
+        await timeService.setTime(unlockTime + 1);
+      }
+    }
+
+    // Median time past and relative block locks advance one block at a time
+    let status = await this.testMempoolAccept(txHex);
+    while (!status.allowed && result.blocksMined < maxBlocks) {
+      if (!isTimelockRejection(status.rejectReason)) {
+        throw new Error(
+          `Transaction rejected after mining: ${status.rejectReason}`,
+        );
+      }
+      await this.rpc.generateToAddress(1, miningAddress);
+      result.blocksMined++;
+      status = await this.testMempoolAccept(txHex);
+    }
+
+    result.final = status.allowed;
+    result.height = (await this.rpc.getBlockchainInfo()).blocks;
+    return result;
+  }
+
+  /**
+   * Unix time a transaction's time-based locks (nLockTime or BIP68) expire,
+   * or undefined when it has none
+   */
+  private async getUnlockTime(
+    tx: bitcoin.Transaction,
+  ): Promise<number | undefined> {
+    const times: number[] = [];
+
+    if (
+      tx.locktime >= LOCKTIME_THRESHOLD &&
+      tx.ins.some((input) => input.sequence !== 0xffffffff)
+    ) {
+      times.push(tx.locktime);
+    }
+
+    if (tx.version >= 2) {
+      for (const input of tx.ins) {
+        if (
+          input.sequence & SEQUENCE_LOCKTIME_DISABLE_FLAG ||
+          !(input.sequence & SEQUENCE_LOCKTIME_TYPE_FLAG)
+        ) {
+          continue;
+        }
+
+        const seconds = (input.sequence & 0xffff) * 512;
+        const txid = Buffer.from(input.hash).reverse().toString("hex");
+        const prevout = await this.rpc.callRpc<any>("gettxout", [
+          txid,
+          input.index,
+          true,
+        ]);
+
+        // DEV: the lock counts from the median time past of the block
+        // before the one that confirmed the coin
+        let start = Math.floor(Date.now() / 1000);
+        if (prevout?.confirmations > 0) {
+          const info = await this.rpc.getBlockchainInfo();
+          const height = info.blocks - prevout.confirmations;
+          const hash = await this.rpc.callRpc<string>("getblockhash", [
+            Math.max(height, 0),
+          ]);
+          const header = await this.rpc.callRpc<any>("getblockheader", [hash]);
+          start = header.mediantime;
+        }
+        times.push(start + seconds);
+      }
+    }
+
+    return times.length > 0 ? Math.max(...times) : undefined;
+  }
+
   /**
    * Decode a PSBT to get detailed information
    */
@@ -143,8 +766,12 @@ export class TransactionService {
       for (let i = 0; i < inputCount; i++) {
         try {
           console.log(`Attempting to sign input ${i}...`);
-          // @ts-ignore
-          psbt.signInput(i, keyPair);
+          const input = psbt.data.inputs[i];
+          if (input.tapInternalKey || input.tapLeafScript?.length) {
+            this.signTaprootInput(psbt, i, keyPair);
+          } else {
+            psbt.signInput(i, toSigner(keyPair));
+          }
           signedAny = true;
           console.log(`Successfully signed input ${i}`);
         } catch (error: any) {
@@ -163,6 +790,33 @@ export class TransactionService {
     }
   }
 
+  /**
+   * Schnorr-sign a Taproot input. The internal key signs the key path
+   * (tweaked by the script tree); any other key signs every tapleaf it
+   * appears in, e.g. a multi_a leaf.
+   */
+  private signTaprootInput(
+    psbt: bitcoin.Psbt,
+    index: number,
+    keyPair: ReturnType<typeof ECPair.fromWIF>,
+  ): void {
+    const input = psbt.data.inputs[index];
+    const xOnly = Buffer.from(keyPair.publicKey).subarray(1, 33);
+
+    if (input.tapInternalKey && xOnly.equals(input.tapInternalKey)) {
+      const tweak = bitcoin.crypto.taggedHash(
+        "TapTweak",
+        input.tapMerkleRoot
+          ? Buffer.concat([xOnly, input.tapMerkleRoot])
+          : xOnly,
+      );
+      psbt.signTaprootInput(index, toSigner(keyPair.tweak(tweak)));
+      return;
+    }
+
+    psbt.signTaprootInput(index, toSigner(keyPair));
+  }
+
   /**
    * Extract signatures from a PSBT for Caravan
    */
@@ -189,8 +843,7 @@ export class TransactionService {
       for (let i = 0; i < inputCount; i++) {
         try {
           // First try to sign the input
-          // @ts-ignore
-          psbt.signInput(i, keyPair);
+          psbt.signInput(i, toSigner(keyPair));
 
           // Then extract the signature
           const input = psbt.data.inputs[i];
@@ -222,79 +875,207 @@ export class TransactionService {
   }
 
   /**
-   * Try to detect which Caravan wallet a PSBT is for
+   * Base64 PSBT from file contents or pasted text: binary, base64 or hex
    */
-  async detectCaravanWalletForPSBT(
+  readPSBT(data: Buffer | string): string {
+    const buffer = typeof data === "string" ? Buffer.from(data) : data;
+
+    // Binary PSBTs start with the magic bytes "psbt" 0xff
+    if (buffer.subarray(0, 5).toString("hex") === "70736274ff") {
+      return buffer.toString("base64");
+    }
+
+    const text = buffer.toString("utf8").trim();
+    const psbt = /^[0-9a-fA-F]+$/.test(text)
+      ? bitcoin.Psbt.fromHex(text, { network: this.network })
+      : bitcoin.Psbt.fromBase64(text, { network: this.network });
+    return psbt.toBase64();
+  }
+
+  /**
+   * Signatures in a PSBT, ECDSA and Schnorr, by input
+   */
+  listSignatures(psbtBase64: string): PSBTSignature[] {
+    const psbt = bitcoin.Psbt.fromBase64(psbtBase64, {
+      network: this.network,
+    });
+
+    return psbt.data.inputs.flatMap((input, index) => [
+      ...(input.partialSig || []).map((sig) => ({
+        input: index,
+        pubkey: sig.pubkey.toString("hex"),
+      })),
+      ...(input.tapScriptSig || []).map((sig) => ({
+        input: index,
+        pubkey: sig.pubkey.toString("hex"),
+      })),
+    ]);
+  }
+
+  /**
+   * Number of signatures on each input of a PSBT
+   */
+  countSignatures(psbtBase64: string): number[] {
+    const { inputCount } = bitcoin.Psbt.fromBase64(psbtBase64, {
+      network: this.network,
+    });
+    const counts = new Array<number>(inputCount).fill(0);
+    for (const { input } of this.listSignatures(psbtBase64)) {
+      counts[input]++;
+    }
+    return counts;
+  }
+
+  /**
+   * Merge PSBTs of the same transaction signed by different cosigners
+   */
+  async combinePSBTs(psbts: string[]): Promise<string> {
+    if (psbts.length < 2) {
+      throw new Error("Combining needs at least two PSBTs");
+    }
+    return this.rpc.combinePSBT(psbts);
+  }
+
+  /**
+   * Bring signatures from Caravan back into a PSBT. data is either the
+   * signature JSON Caravan exports (an array of hex signatures, one per
+   * input, or { signatures, signingPubKey }) or a PSBT Caravan signed.
+   */
+  async importCaravanSignatures(
     psbtBase64: string,
-    caravanWallets: CaravanWalletConfig[],
-  ): Promise<CaravanWalletConfig | null> {
-    try {
-      // Decode the PSBT
-      const decodedPsbt = await this.decodePSBT(psbtBase64);
+    data: Buffer | string,
+  ): Promise<SignatureImportResult> {
+    const signatureSet = parseSignatureSet(data.toString());
+    if (signatureSet) {
+      return this.applySignatureSet(psbtBase64, signatureSet);
+    }
 
-      // Extract addresses from inputs and outputs
-      const addresses: string[] = [];
+    const before = this.listSignatures(psbtBase64);
+    const combined = await this.combinePSBTs([psbtBase64, this.readPSBT(data)]);
+    const added = this.listSignatures(combined).filter(
+      (sig) =>
+        !before.some((b) => b.input === sig.input && b.pubkey === sig.pubkey),
+    );
 
-      // Check inputs
-      for (const input of decodedPsbt.inputs) {
-        if (
-          input.has_utxo &&
-          input.utxo.scriptPubKey &&
-          input.utxo.scriptPubKey.address
-        ) {
-          addresses.push(input.utxo.scriptPubKey.address);
-        }
-      }
+    return { psbt: combined, source: "psbt", added, skipped: [] };
+  }
 
-      // Check outputs
-      for (const output of decodedPsbt.tx.vout) {
-        if (output.scriptPubKey && output.scriptPubKey.address) {
-          addresses.push(output.scriptPubKey.address);
-        }
+  /**
+   * Add each signature to its input under the key it verifies against.
+   * Caravan's signature list does not say which key signed, so every key
+   * of the input's multisig script is tried.
+   */
+  private applySignatureSet(
+    psbtBase64: string,
+    signatureSet: CaravanSignatureSet,
+  ): SignatureImportResult {
+    const psbt = bitcoin.Psbt.fromBase64(psbtBase64, {
+      network: this.network,
+    });
+    const { signatures, signingPubKey } = signatureSet;
+
+    if (signatures.length !== psbt.inputCount) {
+      throw new Error(
+        `Got ${signatures.length} signature(s) for a PSBT with ${psbt.inputCount} input(s); the signatures are for another transaction`,
+      );
+    }
+
+    const tx = bitcoin.Transaction.fromBuffer(psbt.data.getTransaction());
+    const result: SignatureImportResult = {
+      psbt: psbtBase64,
+      source: "signatures",
+      added: [],
+      skipped: [],
+    };
+
+    signatures.forEach((sigHex, index) => {
+      if (!sigHex) {
+        result.skipped.push({ input: index, reason: "not signed" });
+        return;
       }
 
-      if (addresses.length === 0) {
-        return null;
+      const input = psbt.data.inputs[index];
+      const script = input.witnessScript || input.redeemScript;
+      if (!script) {
+        result.skipped.push({
+          input: index,
+          reason: "the PSBT has no multisig script for this input",
+        });
+        return;
       }
 
-      console.log(
-        `Found ${addresses.length} addresses in PSBT. Checking against Caravan wallets...`,
-      );
+      let pubkey: Buffer | undefined;
+      let encoded: Buffer;
+      try {
+        const decoded = decodeCaravanSignature(sigHex);
+        encoded = decoded.encoded;
+        const hash = input.witnessScript
+          ? tx.hashForWitnessV0(
+              index,
+              input.witnessScript,
+              getInputValue(input, tx.ins[index].index),
+              decoded.hashType,
+            )
+          : tx.hashForSignature(index, input.redeemScript!, decoded.hashType);
 
-      // For each Caravan wallet, check if any address belongs
-      for (const caravanConfig of caravanWallets) {
-        console.log(`Checking wallet: ${caravanConfig.name}`);
-
-        // Check if a watch-only wallet exists for this Caravan config
-        const safeWalletName = `${caravanConfig.name.replace(/\s+/g, "_").toLowerCase()}_watch`;
-        const wallets = await this.rpc.listWallets();
-
-        if (wallets.includes(safeWalletName)) {
-          console.log(`Found watch wallet: ${safeWalletName}`);
-
-          // Get addresses from this wallet
-          // This is simplified - in practice, a more robust approach might be needed
-          for (const address of addresses) {
-            try {
-              await this.rpc.getAddressInfo(safeWalletName, address);
-              console.log(
-                `Found matching address ${address} in Caravan wallet: ${caravanConfig.name}`,
-              );
-              return caravanConfig;
-            } catch (error) {
-              // Address not found in wallet, continue checking
-            }
-          }
-        }
+        const candidates = signingPubKey
+          ? [Buffer.from(signingPubKey, "hex")]
+          : bitcoin.payments.p2ms({ output: script }).pubkeys || [];
+        pubkey = candidates.find((key) =>
+          ecc.verify(hash, key, decoded.signature),
+        );
+      } catch (error: any) {
+        result.skipped.push({ input: index, reason: error.message });
+        return;
       }
 
-      console.log(
-        "Could not automatically determine which Caravan wallet this PSBT belongs to.",
-      );
-      return null;
-    } catch (error) {
-      console.error("Error detecting Caravan wallet for PSBT:", error);
-      return null;
-    }
+      if (!pubkey) {
+        result.skipped.push({
+          input: index,
+          reason: "signature does not match any key of this input",
+        });
+        return;
+      }
+      if (input.partialSig?.some((sig) => sig.pubkey.equals(pubkey))) {
+        result.skipped.push({ input: index, reason: "already signed" });
+        return;
+      }
+
+      psbt.updateInput(index, { partialSig: [{ pubkey, signature: encoded }] });
+      result.added.push({ input: index, pubkey: pubkey.toString("hex") });
+    });
+
+    result.psbt = psbt.toBase64();
+    return result;
+  }
+
+  /**
+   * Which stored Caravan wallets a PSBT spends from and pays to, from the
+   * fingerprints and paths in its bip32_derivs
+   */
+  async matchCaravanWallets(
+    psbtBase64: string,
+    caravanWallets: CaravanWalletConfig[],
+  ): Promise<PSBTWalletMatchReport> {
+    const decoded = await this.decodePSBT(psbtBase64);
+    return matchPSBTWallets(decoded, caravanWallets);
+  }
+
+  /**
+   * Try to detect which Caravan wallet a PSBT is for: the wallet most of
+   * its inputs spend from
+   */
+  async detectCaravanWalletForPSBT(
+    psbtBase64: string,
+    caravanWallets: CaravanWalletConfig[],
+  ): Promise<CaravanWalletConfig | null> {
+    const { matches } = await this.matchCaravanWallets(
+      psbtBase64,
+      caravanWallets,
+    );
+    return (
+      caravanWallets.find((wallet) => wallet.name === matches[0]?.wallet) ||
+      null
+    );
   }
 }
@@ -0,0 +1,603 @@
+/**
+ * Multisig wallet interchange formats for Caravan-X
+ * Converts CaravanWalletConfig to and from output descriptors (BIP-380),
+ * BSMS setup files (BIP-129), and the Sparrow, Specter and Coldcard
+ * multisig exports, so wallets can move between coordinators.
+ */
+
+import * as crypto from "crypto";
+import { buildTaprootMultisigDescriptor, TAPROOT_NUMS_KEY } from "./taproot";
+import {
+  AddressType,
+  CaravanWalletConfig,
+  ExtendedPublicKey,
+  TaprootMultisigOptions,
+} from "../types/caravan";
+
+export type WalletFileFormat =
+  "caravan" | "descriptor" | "bsms" | "sparrow" | "specter" | "coldcard";
+
+export const WALLET_FILE_FORMATS: {
+  value: WalletFileFormat;
+  name: string;
+  extension: string;
+}[] = [
+  { value: "caravan", name: "Caravan JSON", extension: "json" },
+  { value: "descriptor", name: "Output descriptors", extension: "txt" },
+  { value: "bsms", name: "BSMS 1.0 (BIP-129)", extension: "bsms" },
+  { value: "sparrow", name: "Sparrow descriptor", extension: "txt" },
+  { value: "specter", name: "Specter wallet JSON", extension: "json" },
+  { value: "coldcard", name: "Coldcard multisig", extension: "txt" },
+];
+
+export interface WalletFileOptions {
+  /** Wallet name for formats that do not carry one */
+  name?: string;
+  /** Network for testnet-style keys (tpub), defaults to regtest */
+  network?: string;
+}
+
+const BSMS_HEADER = "BSMS 1.0";
+const BSMS_PATH_RESTRICTIONS = "/0/*,/1/*";
+const COLDCARD_NAME_LENGTH = 20;
+
+// BIP-380 descriptor checksum
+const INPUT_CHARSET =
+  "0123456789()[],'/*abcdefgh@:$%{}" +
+  "IJKLMNOPQRSTUVWXYZ&+-.;<=>?!^_|~" +
+  'ijklmnopqrstuvwxyzABCDEFGH`#"\\ ';
+const CHECKSUM_CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+const GENERATORS = [
+  0xf5dee51989n,
+  0xa9fdca3312n,
+  0x1bab10e32dn,
+  0x3706b1677an,
+  0x644d626ffdn,
+];
+
+function polymod(c: bigint, value: number): bigint {
+  const c0 = c >> 35n;
+  c = ((c & 0x7ffffffffn) << 5n) ^ BigInt(value);
+  for (let i = 0; i < GENERATORS.length; i++) {
+    if ((c0 >> BigInt(i)) & 1n) {
+      c ^= GENERATORS[i];
+    }
+  }
+  return c;
+}
+
+/**
+ * Compute the 8-character checksum of a descriptor (without "#...")
+ */
+export function descriptorChecksum(descriptor: string): string {
+  let c = 1n;
+  let cls = 0;
+  let clsCount = 0;
+
+  for (const ch of descriptor) {
+    const pos = INPUT_CHARSET.indexOf(ch);
+    if (pos === -1) {
+      throw new Error(`Invalid character "${ch}" in descriptor`);
+    }
+    c = polymod(c, pos & 31);
+    cls = cls * 3 + (pos >> 5);
+    if (++clsCount === 3) {
+      c = polymod(c, cls);
+      cls = 0;
+      clsCount = 0;
+    }
+  }
+  if (clsCount > 0) {
+    c = polymod(c, cls);
+  }
+  for (let i = 0; i < 8; i++) {
+    c = polymod(c, 0);
+  }
+  c ^= 1n;
+
+  let checksum = "";
+  for (let j = 0; j < 8; j++) {
+    checksum += CHECKSUM_CHARSET[Number((c >> BigInt(5 * (7 - j))) & 31n)];
+  }
+  return checksum;
+}
+
+/**
+ * Append the checksum, replacing one that is already there
+ */
+export function addDescriptorChecksum(descriptor: string): string {
+  const body = descriptor.split("#")[0].trim();
+  return `${body}#${descriptorChecksum(body)}`;
+}
+
+/**
+ * Strip and verify the checksum if present
+ */
+function stripDescriptorChecksum(descriptor: string): string {
+  const [body, checksum] = descriptor.trim().split("#");
+  if (checksum !== undefined && checksum !== descriptorChecksum(body)) {
+    throw new Error(`Descriptor checksum mismatch: ${descriptor}`);
+  }
+  return body;
+}
+
+/**
+ * Guess the format of a wallet file from its contents
+ */
+export function detectWalletFileFormat(content: string): WalletFileFormat {
+  const text = content.trim();
+
+  if (text.startsWith("{")) {
+    const json = JSON.parse(text);
+    if (json.extendedPublicKeys) return "caravan";
+    if (json.descriptor) return "specter";
+    throw new Error("Unrecognized JSON wallet file");
+  }
+  if (text.startsWith(BSMS_HEADER)) return "bsms";
+  if (/^\s*Policy:/im.test(text)) return "coldcard";
+  if (/<0;1>\/\*/.test(text)) return "sparrow";
+  return "descriptor";
+}
+
+/**
+ * Parse any supported wallet file into a Caravan wallet configuration.
+ * The first BSMS address is returned separately so the caller can check it
+ * against a node.
+ */
+export function parseWalletFile(
+  content: string,
+  format: WalletFileFormat = detectWalletFileFormat(content),
+  options: WalletFileOptions = {},
+): { config: CaravanWalletConfig; firstAddress?: string } {
+  switch (format) {
+    case "caravan": {
+      const config = JSON.parse(content);
+      if (!config.name || !config.quorum || !config.extendedPublicKeys) {
+        throw new Error("Invalid Caravan wallet configuration");
+      }
+      return { config };
+    }
+    case "descriptor":
+    case "sparrow":
+      return { config: parseDescriptorText(content, options) };
+    case "bsms":
+      return parseBsms(content, options);
+    case "specter": {
+      const json = JSON.parse(content);
+      const config = descriptorToCaravanConfig(json.descriptor, {
+        ...options,
+        name: json.label || options.name,
+      });
+      (json.devices || []).forEach((device: any, i: number) => {
+        if (device.label && config.extendedPublicKeys[i]) {
+          config.extendedPublicKeys[i].name = device.label;
+        }
+      });
+      return { config };
+    }
+    case "coldcard":
+      return { config: parseColdcard(content, options) };
+    default:
+      throw new Error(`Unsupported wallet file format: ${format}`);
+  }
+}
+
+/**
+ * Render a Caravan wallet configuration in another format. BSMS files need
+ * the wallet's first receive address, which the caller derives.
+ */
+export function formatWalletFile(
+  config: CaravanWalletConfig,
+  format: WalletFileFormat,
+  firstAddress?: string,
+): string {
+  switch (format) {
+    case "caravan":
+      return JSON.stringify(config, null, 2);
+    case "descriptor": {
+      const { receive, change } = caravanConfigToDescriptors(config);
+      return [
+        `# ${config.name} (${describeQuorum(config)})`,
+        receive,
+        change,
+        "",
+      ].join("\n");
+    }
+    case "sparrow":
+      return [
+        `# ${config.name} (${describeQuorum(config)})`,
+        "# Receive and change descriptor (BIP-389):",
+        addDescriptorChecksum(buildDescriptor(config, "/<0;1>/*")),
+        "",
+      ].join("\n");
+    case "bsms":
+      if (!firstAddress) {
+        throw new Error("BSMS export needs the wallet's first address");
+      }
+      return [
+        BSMS_HEADER,
+        buildDescriptor(config, "/**"),
+        BSMS_PATH_RESTRICTIONS,
+        firstAddress,
+        "",
+      ].join("\n");
+    case "specter":
+      return JSON.stringify(
+        {
+          label: config.name,
+          blockheight: 0,
+          descriptor: caravanConfigToDescriptors(config).receive,
+          devices: config.extendedPublicKeys.map((key) => ({
+            type: "other",
+            label: key.name,
+          })),
+        },
+        null,
+        2,
+      );
+    case "coldcard":
+      return formatColdcard(config);
+    default:
+      throw new Error(`Unsupported wallet file format: ${format}`);
+  }
+}
+
+/**
+ * Receive and change descriptors (with checksums) with full key origins
+ */
+export function caravanConfigToDescriptors(config: CaravanWalletConfig): {
+  receive: string;
+  change: string;
+} {
+  return {
+    receive: addDescriptorChecksum(buildDescriptor(config, "/0/*")),
+    change: addDescriptorChecksum(buildDescriptor(config, "/1/*")),
+  };
+}
+
+/**
+ * Convert a multisig descriptor into a Caravan wallet configuration
+ */
+export function descriptorToCaravanConfig(
+  descriptor: string,
+  options: WalletFileOptions = {},
+): CaravanWalletConfig {
+  const body = stripDescriptorChecksum(descriptor);
+
+  const patterns: [AddressType, RegExp][] = [
+    [AddressType.P2SH_P2WSH, /^sh\(wsh\((\w+)\((.*)\)\)\)$/],
+    [AddressType.P2WSH, /^wsh\((\w+)\((.*)\)\)$/],
+    [AddressType.P2SH, /^sh\((\w+)\((.*)\)\)$/],
+    [AddressType.P2TR, /^tr\(([^,()]+),(\w+)\((.*)\)\)$/],
+  ];
+  const found = patterns
+    .map(([type, pattern]) => [type, body.match(pattern)] as const)
+    .find(([, match]) => match);
+  if (!found) {
+    throw new Error(`Not a supported multisig descriptor: ${body}`);
+  }
+
+  const [addressType, match] = found;
+  const isTaproot = addressType === AddressType.P2TR;
+  const groups = match!.slice(1);
+  const internalKey = isTaproot ? groups.shift() : undefined;
+  const [script, args] = groups;
+
+  const sorted = script === (isTaproot ? "sortedmulti_a" : "sortedmulti");
+  const unsorted = script === (isTaproot ? "multi_a" : "multi");
+  if (!sorted && !unsorted) {
+    throw new Error(`Unsupported script ${script}() in ${addressType}`);
+  }
+  if (unsorted && !isTaproot) {
+    throw new Error(
+      "Caravan only supports sortedmulti; multi() wallets with fixed key order cannot be imported",
+    );
+  }
+
+  const [threshold, ...keyExpressions] = args.split(",");
+  const requiredSigners = parseInt(threshold, 10);
+  const extendedPublicKeys = keyExpressions.map((expression, i) =>
+    parseKeyExpression(expression, `Key ${i + 1}`),
+  );
+
+  if (
+    !Number.isInteger(requiredSigners) ||
+    requiredSigners < 1 ||
+    requiredSigners > extendedPublicKeys.length
+  ) {
+    throw new Error(`Invalid threshold ${threshold} in descriptor`);
+  }
+
+  const config: CaravanWalletConfig = {
+    name:
+      options.name ||
+      `Imported ${requiredSigners}-of-${extendedPublicKeys.length}`,
+    addressType,
+    network: networkForKey(extendedPublicKeys[0].xpub, options.network),
+    quorum: { requiredSigners, totalSigners: extendedPublicKeys.length },
+    extendedPublicKeys,
+    startingAddressIndex: 0,
+    uuid: crypto.randomBytes(16).toString("hex"),
+  };
+
+  if (isTaproot) {
+    const taproot: TaprootMultisigOptions = sorted ? {} : { sorted: false };
+    if (internalKey !== TAPROOT_NUMS_KEY) {
+      const internalXpub = parseKeyExpression(internalKey!, "internal").xpub;
+      const index = extendedPublicKeys.findIndex(
+        (key) => key.xpub === internalXpub,
+      );
+      if (index === -1) {
+        throw new Error(
+          "The Taproot internal key must be the NUMS point or one of the multisig keys",
+        );
+      }
+      taproot.keyPathSigner = index;
+    }
+    config.taproot = taproot;
+  }
+
+  return config;
+}
+
+/**
+ * Build one descriptor (no checksum) with every key ending in suffix
+ */
+function buildDescriptor(config: CaravanWalletConfig, suffix: string): string {
+  const { requiredSigners } = config.quorum;
+  const keys = config.extendedPublicKeys.map(
+    (key) => `${formatKeyOrigin(key)}${key.xpub}${suffix}`,
+  );
+
+  switch (config.addressType) {
+    case AddressType.P2WSH:
+      return `wsh(sortedmulti(${requiredSigners},${keys.join(",")}))`;
+    case AddressType.P2SH_P2WSH:
+      return `sh(wsh(sortedmulti(${requiredSigners},${keys.join(",")})))`;
+    case AddressType.P2SH:
+      return `sh(sortedmulti(${requiredSigners},${keys.join(",")}))`;
+    case AddressType.P2TR:
+      return buildTaprootMultisigDescriptor(
+        keys,
+        requiredSigners,
+        config.taproot,
+      );
+    default:
+      throw new Error(`Unsupported address type: ${config.addressType}`);
+  }
+}
+
+/**
+ * "[xfp/48'/1'/0'/2']" for keys with a known fingerprint, "" otherwise
+ */
+function formatKeyOrigin(key: ExtendedPublicKey): string {
+  if (!key.xfp) {
+    return "";
+  }
+  const path = key.bip32Path.replace(/^m/, "").replace(/h/g, "'");
+  return `[${key.xfp.toLowerCase()}${path}]`;
+}
+
+/**
+ * Parse "[xfp/path]xpub/0/*" (or /1/*, /<0;1>/*, /**, no suffix)
+ */
+function parseKeyExpression(
+  expression: string,
+  name: string,
+): ExtendedPublicKey {
+  const match = expression
+    .trim()
+    .match(
+      /^(?:\[([0-9a-fA-F]{8})((?:\/\d+['h]?)*)\])?([1-9A-HJ-NP-Za-km-z]+)(\/0\/\*|\/1\/\*|\/<0;1>\/\*|\/\*\*)?$/,
+    );
+  if (!match) {
+    throw new Error(`Unsupported key expression: ${expression}`);
+  }
+
+  const [, xfp, path, xpub] = match;
+  return {
+    name,
+    xpub,
+    bip32Path: `m${(path || "").replace(/h/g, "'")}`,
+    ...(xfp ? { xfp: xfp.toLowerCase() } : {}),
+  };
+}
+
+function networkForKey(xpub: string, network = "regtest"): string {
+  return xpub.startsWith("xpub") ? "mainnet" : network;
+}
+
+function describeQuorum(config: CaravanWalletConfig): string {
+  return `${config.quorum.requiredSigners} of ${config.quorum.totalSigners} ${config.addressType}`;
+}
+
+/**
+ * Descriptor text: one descriptor per line, "#" comment lines allowed.
+ * Receive and change lines must describe the same wallet.
+ */
+function parseDescriptorText(
+  content: string,
+  options: WalletFileOptions,
+): CaravanWalletConfig {
+  const lines = content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"));
+  if (lines.length === 0) {
+    throw new Error("No descriptor found");
+  }
+
+  const [config, ...others] = lines.map((line) =>
+    descriptorToCaravanConfig(line, options),
+  );
+  for (const other of others) {
+    if (
+      JSON.stringify(other.extendedPublicKeys) !==
+        JSON.stringify(config.extendedPublicKeys) ||
+      other.addressType !== config.addressType ||
+      other.quorum.requiredSigners !== config.quorum.requiredSigners
+    ) {
+      throw new Error("Descriptors in the file describe different wallets");
+    }
+  }
+  return config;
+}
+
+function parseBsms(
+  content: string,
+  options: WalletFileOptions,
+): { config: CaravanWalletConfig; firstAddress: string } {
+  const [header, descriptor, restrictions, firstAddress] = content
+    .split(/\r?\n/)
+    .map((line) => line.trim());
+
+  if (header !== BSMS_HEADER) {
+    throw new Error(`Unsupported BSMS version: ${header}`);
+  }
+  const allowed = (restrictions || "").replace(/,\s+/g, ",");
+  if (
+    allowed !== BSMS_PATH_RESTRICTIONS &&
+    allowed !== "No path restrictions"
+  ) {
+    throw new Error(
+      `Caravan wallets use /0/* and /1/*; cannot import BSMS path restrictions ${restrictions}`,
+    );
+  }
+  if (!firstAddress) {
+    throw new Error("BSMS file is missing the first address");
+  }
+
+  return {
+    config: descriptorToCaravanConfig(descriptor, options),
+    firstAddress,
+  };
+}
+
+/**
+ * Coldcard multisig setup file. "Derivation:" applies to the keys that
+ * follow it, so wallets with per-signer paths round-trip.
+ */
+function parseColdcard(
+  content: string,
+  options: WalletFileOptions,
+): CaravanWalletConfig {
+  let name: string | undefined;
+  let requiredSigners = 0;
+  let totalSigners = 0;
+  let addressType = AddressType.P2SH;
+  let derivation = "m";
+  const extendedPublicKeys: ExtendedPublicKey[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+
+    const separator = line.indexOf(":");
+    if (separator === -1) {
+      throw new Error(`Unexpected line in Coldcard file: ${line}`);
+    }
+    const label = line.slice(0, separator).trim();
+    const value = line.slice(separator + 1).trim();
+
+    switch (label.toLowerCase()) {
+      case "name":
+        name = value;
+        break;
+      case "policy": {
+        const policy = value.match(/^(\d+)\s*(?:of|\/)\s*(\d+)$/i);
+        if (!policy) {
+          throw new Error(`Invalid Coldcard policy: ${value}`);
+        }
+        requiredSigners = parseInt(policy[1], 10);
+        totalSigners = parseInt(policy[2], 10);
+        break;
+      }
+      case "derivation":
+        derivation = value.replace(/h/g, "'");
+        break;
+      case "format":
+        addressType = coldcardAddressType(value);
+        break;
+      default:
+        if (!/^[0-9a-fA-F]{8}$/.test(label)) {
+          throw new Error(`Unexpected line in Coldcard file: ${line}`);
+        }
+        extendedPublicKeys.push({
+          name: `Key ${extendedPublicKeys.length + 1}`,
+          xpub: value,
+          bip32Path: derivation,
+          xfp: label.toLowerCase(),
+        });
+    }
+  }
+
+  if (extendedPublicKeys.length === 0) {
+    throw new Error("No keys found in Coldcard file");
+  }
+  if (totalSigners && totalSigners !== extendedPublicKeys.length) {
+    throw new Error(
+      `Coldcard policy expects ${totalSigners} keys, file has ${extendedPublicKeys.length}`,
+    );
+  }
+
+  return {
+    name:
+      name ||
+      options.name ||
+      `Imported ${requiredSigners}-of-${extendedPublicKeys.length}`,
+    addressType,
+    network: networkForKey(extendedPublicKeys[0].xpub, options.network),
+    quorum: {
+      requiredSigners: requiredSigners || extendedPublicKeys.length,
+      totalSigners: extendedPublicKeys.length,
+    },
+    extendedPublicKeys,
+    startingAddressIndex: 0,
+    uuid: crypto.randomBytes(16).toString("hex"),
+  };
+}
+
+function coldcardAddressType(format: string): AddressType {
+  switch (format.toUpperCase()) {
+    case "P2SH":
+      return AddressType.P2SH;
+    case "P2WSH":
+      return AddressType.P2WSH;
+    case "P2SH-P2WSH":
+    case "P2WSH-P2SH":
+      return AddressType.P2SH_P2WSH;
+    default:
+      throw new Error(`Unsupported Coldcard address format: ${format}`);
+  }
+}
+
+function formatColdcard(config: CaravanWalletConfig): string {
+  if (config.addressType === AddressType.P2TR) {
+    throw new Error(
+      "Coldcard multisig files do not support Taproot; export descriptors instead",
+    );
+  }
+
+  const lines = [
+    "# Coldcard Multisig setup file (exported from Caravan-X)",
+    "#",
+    `Name: ${config.name.slice(0, COLDCARD_NAME_LENGTH)}`,
+    `Policy: ${config.quorum.requiredSigners} of ${config.quorum.totalSigners}`,
+    `Format: ${config.addressType}`,
+  ];
+
+  for (const key of config.extendedPublicKeys) {
+    if (!key.xfp) {
+      throw new Error(
+        `Key "${key.name}" has no fingerprint, which Coldcard files require`,
+      );
+    }
+    lines.push(
+      "",
+      `Derivation: ${key.bip32Path.replace(/h/g, "'")}`,
+      `${key.xfp.toUpperCase()}: ${key.xpub}`,
+    );
+  }
+
+  return lines.join("\n") + "\n";
+}
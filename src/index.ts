@@ -4,7 +4,21 @@ import { BitcoinService } from "./core/bitcoin";
 import { CaravanService } from "./core/caravan";
 import { TransactionService } from "./core/transaction";
 import { DockerService } from "./core/docker";
+import { NodeTopologyService } from "./core/topology";
+import { BitcoindService } from "./core/bitcoind";
+import { setPassphrasePrompt } from "./core/keystore";
+import { ReorgService } from "./core/reorg";
+import { FeeMarketService } from "./core/feeMarket";
+import { BlockBuilderService } from "./core/blockBuilder";
+import { PSBTAnalysisService } from "./core/psbtAnalysis";
+import { PSBTRepairService } from "./core/psbtRepair";
+import { TimeService } from "./core/time";
+import { MempoolService } from "./core/mempool";
 import { SnapshotService } from "./core/snapshot";
+import {
+  SnapshotScheduler,
+  DEFAULT_SNAPSHOT_RETENTION,
+} from "./core/scheduler";
 import { ScenarioService } from "./core/scenario";
 import { EnvironmentService } from "./core/environment";
 
@@ -29,7 +43,7 @@ import { ProfileManager } from "./core/profiles";
 import { CaravanXError } from "./utils/errors";
 import { log, parseLogLevel } from "./utils/logger";
 
-import { confirm, input, number, select } from "@inquirer/prompts";
+import { confirm, input, number, password, select } from "@inquirer/prompts";
 import chalk from "chalk";
 import boxen from "boxen";
 import figlet from "figlet";
@@ -59,7 +73,14 @@ export class CaravanRegtestManager {
   private baseDir: string = "";
 
   private bitcoinRpcClient: BitcoinRpcClient;
-  private transactionService: TransactionService;
+  public transactionService: TransactionService;
+  public reorgService: ReorgService;
+  public feeMarketService: FeeMarketService;
+  public blockBuilderService: BlockBuilderService;
+  public timeService: TimeService;
+  public mempoolService: MempoolService;
+  public psbtAnalysisService: PSBTAnalysisService;
+  public psbtRepairService: PSBTRepairService;
 
   public configManager: ConfigManager;
   public bitcoinService: BitcoinService;
@@ -73,10 +94,14 @@ export class CaravanRegtestManager {
 
   public setupWizard: SetupWizard;
   public dockerService?: DockerService;
+  public nodeTopologyService?: NodeTopologyService;
+  public bitcoindService?: BitcoindService;
   public snapshotService: SnapshotService;
+  public snapshotScheduler?: SnapshotScheduler;
   public scenarioService: ScenarioService;
   public enhancedConfig?: EnhancedAppConfig;
   private profileManager!: ProfileManager;
+  private profileId?: string;
 
   public environmentService!: EnvironmentService;
 
@@ -88,11 +113,15 @@ export class CaravanRegtestManager {
     // Check if enhanced config exists
     this.setupWizard = new SetupWizard(config.appDir);
 
+    // Encrypted key files ask for their passphrase once per session
+    setPassphrasePrompt((message) => password({ message, mask: "*" }));
+
     // Initialize RPC client
     this.bitcoinRpcClient = new BitcoinRpcClient(config.bitcoin);
 
-    // Initialize services
-    this.bitcoinService = new BitcoinService(this.bitcoinRpcClient, true);
+    // Initialize services (signet uses testnet address prefixes)
+    const isRegtest = config.bitcoin.network !== "signet";
+    this.bitcoinService = new BitcoinService(this.bitcoinRpcClient, isRegtest);
     this.caravanService = new CaravanService(
       this.bitcoinRpcClient,
       config.caravanDir,
@@ -100,7 +129,23 @@ export class CaravanRegtestManager {
     );
     this.transactionService = new TransactionService(
       this.bitcoinRpcClient,
-      true,
+      isRegtest,
+    );
+    this.reorgService = new ReorgService(this.bitcoinRpcClient);
+    this.feeMarketService = new FeeMarketService(this.bitcoinRpcClient);
+    this.timeService = new TimeService(this.bitcoinRpcClient);
+    this.blockBuilderService = new BlockBuilderService(
+      this.bitcoinRpcClient,
+      this.timeService,
+    );
+    this.mempoolService = new MempoolService(this.bitcoinRpcClient);
+    this.psbtAnalysisService = new PSBTAnalysisService(
+      this.bitcoinRpcClient,
+      this.caravanService,
+    );
+    this.psbtRepairService = new PSBTRepairService(
+      this.bitcoinRpcClient,
+      this.caravanService,
     );
 
     this.snapshotService = new SnapshotService(
@@ -115,6 +160,7 @@ export class CaravanRegtestManager {
       this.transactionService,
       this.bitcoinRpcClient,
       path.join(config.appDir, "scenarios"),
+      this.timeService,
     );
 
     // Initialize command modules
@@ -129,6 +175,7 @@ export class CaravanRegtestManager {
       this.transactionService,
       this.caravanService,
       this.bitcoinService,
+      this.psbtAnalysisService,
     );
     this.visualizationCommands = new VisualizationCommands(
       this.configManager,
@@ -143,6 +190,7 @@ export class CaravanRegtestManager {
       this.transactionService,
       this.bitcoinRpcClient,
       this.multisigCommands,
+      this.timeService,
     );
   }
 
@@ -154,7 +202,11 @@ export class CaravanRegtestManager {
       const blockchainInfo = (await this.bitcoinRpcClient.callRpc(
         "getblockchaininfo",
       )) as { chain: string };
-      return blockchainInfo && blockchainInfo.chain === "regtest";
+      return (
+        blockchainInfo &&
+        blockchainInfo.chain ===
+          (this.bitcoinRpcClient.config.network || "regtest")
+      );
     } catch (error: any) {
       return false;
     }
@@ -222,13 +274,7 @@ export class CaravanRegtestManager {
     const existingProfiles = await this.profileManager.getProfilesByMode(mode);
 
     if (existingProfiles.length > 0) {
-      let choice;
-      if (mode === SetupMode.MANUAL) {
-        // Manual mode only allows one profile. Offer use or replace, not "add new".
-        choice = await this.askExistingManualConfigChoice(existingProfiles);
-      } else {
-        choice = await this.askExistingConfigChoice(existingProfiles, mode);
-      }
+      const choice = await this.askExistingConfigChoice(existingProfiles, mode);
 
       if (choice.action === "use_existing") {
         const profile = await this.profileManager.getProfile(choice.profileId!);
@@ -318,7 +364,14 @@ export class CaravanRegtestManager {
       await this.profileManager.updateProfile(newProfile.id, enhancedConfig);
     }
 
+    const activeProfile = await this.profileManager.getActiveProfile();
+    enhancedConfig = await this.ensureManagedBitcoind(
+      enhancedConfig,
+      activeProfile!.id,
+    );
+
     this.enhancedConfig = enhancedConfig;
+    this.profileId = activeProfile!.id;
 
     // Legacy config.json at the BASE directory — reflects active profile
     const legacyConfigPath = path.join(baseDirectory, "config.json");
@@ -326,6 +379,7 @@ export class CaravanRegtestManager {
 
     // Initialize services with the profile-scoped config
     await this.reinitializeWithConfig(enhancedConfig);
+    await this.timeService.restore();
 
     if (!justCompletedSetup) {
       await this.verifyBitcoinConnection();
@@ -338,58 +392,6 @@ export class CaravanRegtestManager {
     await mainMenu.start();
   }
 
-  private async askExistingManualConfigChoice(
-    profiles: ProfilesIndex["profiles"],
-  ): Promise<{
-    action: "use_existing" | "delete_and_new";
-    profileId?: string;
-  }> {
-    console.log(
-      boxen(
-        chalk.white.bold("📋 Existing Manual Configuration Found\n\n") +
-          chalk.cyan(`${profiles[0].name}\n`) +
-          chalk.dim(
-            `Created: ${new Date(profiles[0].createdAt).toLocaleDateString()}\n`,
-          ) +
-          chalk.dim(
-            `Last used: ${new Date(profiles[0].lastUsedAt).toLocaleDateString()}`,
-          ) +
-          "\n\n" +
-          chalk.gray(
-            "Manual mode is limited to one profile since all profiles\n" +
-              "share the same Bitcoin Core node. Use Docker mode for\n" +
-              "multiple isolated configurations.",
-          ),
-        {
-          padding: 1,
-          margin: 1,
-          borderStyle: "round",
-          borderColor: "yellow",
-        },
-      ),
-    );
-
-    const action = await select({
-      message: "What would you like to do?",
-      choices: [
-        {
-          name: chalk.green("📂 Use existing configuration"),
-          value: "use_existing",
-        },
-        {
-          name: chalk.red("🗑️  Delete and start fresh"),
-          value: "delete_and_new",
-        },
-      ],
-    });
-
-    if (action === "use_existing") {
-      return { action: "use_existing", profileId: profiles[0].id };
-    }
-
-    return { action: "delete_and_new" };
-  }
-
   /**
    * Ask user for base directory
    */
@@ -599,11 +601,47 @@ export class CaravanRegtestManager {
       const wizard = new SetupWizard(appDir);
       return await wizard.setupDockerMode();
     } else {
+      // Only one Manual profile may use an external bitcoind
       const wizard = new SetupWizard(appDir);
-      return await wizard.setupManualMode();
+      return await wizard.setupManualMode({
+        requireManaged: await this.profileManager.hasExternalManualProfile(),
+      });
     }
   }
 
+  /**
+   * Start the profile's managed bitcoind if it has one and it is not
+   * running. Ports may be re-allocated on start, so the profile is saved
+   * again afterwards.
+   */
+  private async ensureManagedBitcoind(
+    config: EnhancedAppConfig,
+    profileId: string,
+  ): Promise<EnhancedAppConfig> {
+    if (!config.managedBitcoind?.enabled) {
+      return config;
+    }
+
+    const bitcoind = new BitcoindService(config);
+    if (await bitcoind.isRunning()) {
+      return config;
+    }
+
+    const spinner = ora("Starting managed bitcoind...").start();
+    try {
+      await bitcoind.start();
+      spinner.succeed(
+        `bitcoind running on RPC port ${config.managedBitcoind.rpcPort}`,
+      );
+    } catch (error) {
+      spinner.fail("Failed to start bitcoind");
+      throw error;
+    }
+
+    await this.profileManager.updateProfile(profileId, config);
+    return config;
+  }
+
   /**
    * Start Docker containers using a profile-scoped config.
    * Called AFTER createProfile() has rewritten all paths.
@@ -832,14 +870,19 @@ export class CaravanRegtestManager {
   private async reinitializeWithConfig(
     config: EnhancedAppConfig,
   ): Promise<void> {
-    // Update config manager
-    this.configManager.updateBitcoinConfig(config.bitcoin);
+    // Update config manager (clearing the chain left by another profile)
+    this.configManager.updateBitcoinConfig({
+      network: undefined,
+      signet: undefined,
+      ...config.bitcoin,
+    });
 
     // Reinitialize RPC client
     this.bitcoinRpcClient = new BitcoinRpcClient(config.bitcoin);
 
-    // Reinitialize services
-    this.bitcoinService = new BitcoinService(this.bitcoinRpcClient, true);
+    // Reinitialize services (signet uses testnet address prefixes)
+    const isRegtest = config.bitcoin.network !== "signet";
+    this.bitcoinService = new BitcoinService(this.bitcoinRpcClient, isRegtest);
     this.caravanService = new CaravanService(
       this.bitcoinRpcClient,
       config.caravanDir,
@@ -847,12 +890,32 @@ export class CaravanRegtestManager {
     );
     this.transactionService = new TransactionService(
       this.bitcoinRpcClient,
-      true,
+      isRegtest,
     );
-    this.snapshotService = new SnapshotService(
+    this.reorgService = new ReorgService(this.bitcoinRpcClient);
+    this.feeMarketService = new FeeMarketService(this.bitcoinRpcClient);
+    // Mock time is saved in the profile so restarts keep it
+    this.timeService = new TimeService(
       this.bitcoinRpcClient,
-      config.snapshots.directory,
-      config.bitcoin.dataDir,
+      config.mockTime,
+      async (mockTime) => {
+        config.mockTime = mockTime;
+        if (this.profileId) {
+          await this.profileManager.updateProfile(this.profileId, config);
+        }
+      },
+    );
+    this.blockBuilderService = new BlockBuilderService(
+      this.bitcoinRpcClient,
+      this.timeService,
+    );
+    this.psbtAnalysisService = new PSBTAnalysisService(
+      this.bitcoinRpcClient,
+      this.caravanService,
+    );
+    this.psbtRepairService = new PSBTRepairService(
+      this.bitcoinRpcClient,
+      this.caravanService,
     );
     this.scenarioService = new ScenarioService(
       this.bitcoinService,
@@ -860,6 +923,7 @@ export class CaravanRegtestManager {
       this.transactionService,
       this.bitcoinRpcClient,
       config.scenariosDir,
+      this.timeService,
     );
 
     // Initialize Docker service if in Docker mode
@@ -867,9 +931,50 @@ export class CaravanRegtestManager {
       this.dockerService = new DockerService(
         config.docker,
         path.join(config.appDir, "docker-data"),
+        config.bitcoin.signet,
+      );
+      this.bitcoinRpcClient.signetMiner?.setGrinder(
+        this.dockerService.getSignetGrinder(),
+      );
+      this.nodeTopologyService = new NodeTopologyService(
+        this.dockerService,
+        config.docker,
+        { user: config.bitcoin.user, pass: config.bitcoin.pass },
+        config.sharedConfig,
       );
     }
 
+    this.bitcoindService = config.managedBitcoind?.enabled
+      ? new BitcoindService(config)
+      : undefined;
+
+    // Eviction restarts the node, so it needs a node Caravan-X runs
+    const dockerService =
+      config.mode === SetupMode.DOCKER ? this.dockerService : undefined;
+    const bitcoindService = this.bitcoindService;
+    // Restarts lose the node's mock time; apply the saved one again
+    const timeService = this.timeService;
+    const restoreMockTime = () => timeService.restore();
+    this.mempoolService = new MempoolService(
+      this.bitcoinRpcClient,
+      dockerService
+        ? (extraArgs) => dockerService.restartWithArgs(extraArgs)
+        : bitcoindService
+          ? (extraArgs) => bitcoindService.restart(extraArgs)
+          : undefined,
+      restoreMockTime,
+    );
+
+    this.snapshotService = new SnapshotService(
+      this.bitcoinRpcClient,
+      config.snapshots.directory,
+      config.bitcoin.dataDir,
+      config.mode === SetupMode.DOCKER
+        ? this.dockerService || undefined
+        : undefined,
+      restoreMockTime,
+    );
+
     // Update command modules
     this.walletCommands = new WalletCommands(this.bitcoinService);
     this.multisigCommands = new MultisigCommands(
@@ -882,6 +987,17 @@ export class CaravanRegtestManager {
       this.transactionService,
       this.caravanService,
       this.bitcoinService,
+      this.psbtAnalysisService,
+    );
+
+    this.scriptCommands = new ScriptCommands(
+      this.configManager,
+      this.bitcoinService,
+      this.caravanService,
+      this.transactionService,
+      this.bitcoinRpcClient,
+      this.multisigCommands,
+      this.timeService,
     );
 
     this.environmentService = new EnvironmentService(
@@ -898,6 +1014,96 @@ export class CaravanRegtestManager {
       this.profileManager,
       this.baseDir,
     );
+
+    this.configureAutoSnapshots(config);
+  }
+
+  /**
+   * Start the auto-snapshot scheduler if the profile enables it, replacing
+   * any scheduler from a previous profile. Profile settings take priority
+   * over the shared config.
+   */
+  configureAutoSnapshots(config: EnhancedAppConfig): void {
+    this.snapshotScheduler?.stop();
+    this.snapshotScheduler = undefined;
+
+    const settings = config.snapshots;
+    const shared = config.sharedConfig?.snapshots;
+    const every = settings?.snapshotInterval ?? shared?.snapshotInterval;
+
+    if (!settings?.enabled || !settings.autoSnapshot || !every) {
+      return;
+    }
+
+    this.snapshotScheduler = new SnapshotScheduler(
+      this.snapshotService,
+      this.bitcoinRpcClient,
+      {
+        every,
+        unit: settings.intervalUnit ?? shared?.intervalUnit ?? "blocks",
+        retention:
+          settings.retention ?? shared?.retention ?? DEFAULT_SNAPSHOT_RETENTION,
+      },
+    );
+    this.snapshotScheduler.start();
+
+    // DEV: each snapshot stops the container for docker cp, so anything
+    // talking to the node at that moment sees RPC errors
+    if (config.mode === SetupMode.DOCKER) {
+      log.warn(
+        "Auto-snapshots stop and restart the Bitcoin Core container for each snapshot; RPC calls made during the copy will fail",
+      );
+    }
+  }
+
+  /**
+   * Load a saved profile without any prompts, for headless commands.
+   * Uses the active profile when none is named. A managed bitcoind is
+   * started unless startBitcoind is false.
+   */
+  async loadProfile(
+    options: {
+      baseDir?: string;
+      profile?: string;
+      startBitcoind?: boolean;
+    } = {},
+  ): Promise<EnhancedAppConfig> {
+    const baseDir =
+      options.baseDir || path.join(process.env.HOME || "~", ".caravan-x");
+    const profileManager = new ProfileManager(baseDir);
+
+    let profile: ConfigProfile | null;
+    if (options.profile) {
+      const entry = (await profileManager.listProfiles()).find(
+        (p) => p.id === options.profile || p.name === options.profile,
+      );
+      profile = entry ? await profileManager.getProfile(entry.id) : null;
+      if (!profile) {
+        throw new Error(`Profile not found: ${options.profile}`);
+      }
+    } else {
+      profile = await profileManager.getActiveProfile();
+      if (!profile) {
+        throw new Error(
+          `No active profile in ${baseDir}; run caravan-x once to create one`,
+        );
+      }
+    }
+
+    this.baseDir = baseDir;
+    this.profileManager = profileManager;
+    this.profileId = profile.id;
+    if (options.startBitcoind !== false) {
+      profile.config = await this.ensureManagedBitcoind(
+        profile.config,
+        profile.id,
+      );
+    }
+    this.enhancedConfig = profile.config;
+    await this.reinitializeWithConfig(profile.config);
+    await this.timeService.restore();
+
+    return profile.config;
   }
 
   /**
@@ -8,6 +8,10 @@ import { CaravanService } from "../core/caravan";
 import { TransactionService } from "../core/transaction";
 import { ConfigManager } from "../core/config";
 import { BitcoinRpcClient } from "../core/rpc";
+import { ReorgService } from "../core/reorg";
+import { FeeMarketService, FEE_MARKET_PRESET_NAMES } from "../core/feeMarket";
+import { BlockBuilderService } from "../core/blockBuilder";
+import { TimeService, parseDuration } from "../core/time";
 import { MultisigCommands } from "../commands/multisig";
 import {
   formatBitcoin,
@@ -37,6 +41,7 @@ export class ScriptEngine extends EventEmitter {
   private readonly configManager: ConfigManager;
   private readonly rpcClient: BitcoinRpcClient;
   private readonly multisigCommands: MultisigCommands;
+  private readonly timeService: TimeService;
   private templatesDir: string;
 
   constructor(
@@ -46,6 +51,7 @@ export class ScriptEngine extends EventEmitter {
     configManager: ConfigManager,
     rpcClient: BitcoinRpcClient,
     multisigCommands: MultisigCommands,
+    timeService = new TimeService(rpcClient),
   ) {
     super();
     this.bitcoinService = bitcoinService;
@@ -54,6 +60,7 @@ export class ScriptEngine extends EventEmitter {
     this.configManager = configManager;
     this.rpcClient = rpcClient;
     this.multisigCommands = multisigCommands;
+    this.timeService = timeService;
 
     // Set up templates directory
     this.templatesDir = path.join(__dirname, "templates");
@@ -84,7 +91,18 @@ export class ScriptEngine extends EventEmitter {
       // Determine the script type based on file extension
       if (filePath.endsWith(".json")) {
         // Parse as JSON
-        return JSON.parse(fileContent) as DeclarativeScript;
+        const script = JSON.parse(fileContent) as DeclarativeScript;
+
+        // Templates spell action types in upper case (CREATE_WALLET)
+        if (Array.isArray(script.actions)) {
+          script.actions.forEach((action) => {
+            if (typeof action.type === "string") {
+              action.type = action.type.toLowerCase() as ActionType;
+            }
+          });
+        }
+
+        return script;
       } else {
         // Return as JavaScript
         return fileContent;
@@ -237,6 +255,26 @@ export class ScriptEngine extends EventEmitter {
                       `Action #${index + 1}: CREATE_TRANSACTION feeRate must be a non-negative number`,
                     );
                   }
+
+                  if (
+                    action.params.locktime !== undefined &&
+                    action.params.lockBlocks !== undefined
+                  ) {
+                    errors.push(
+                      `Action #${index + 1}: CREATE_TRANSACTION takes either locktime or lockBlocks, not both`,
+                    );
+                  }
+
+                  if (
+                    action.params.relativeLocktime !== undefined &&
+                    (typeof action.params.relativeLocktime !== "object" ||
+                      (action.params.relativeLocktime.blocks === undefined &&
+                        action.params.relativeLocktime.seconds === undefined))
+                  ) {
+                    errors.push(
+                      `Action #${index + 1}: CREATE_TRANSACTION relativeLocktime must be an object with blocks or seconds`,
+                    );
+                  }
                   break;
 
                 case ActionType.REPLACE_TRANSACTION:
@@ -327,16 +365,163 @@ export class ScriptEngine extends EventEmitter {
                       `Action #${index + 1}: CREATE_MULTISIG requires an addressType parameter`,
                     );
                   } else if (
-                    !["P2SH", "P2WSH", "P2SH-P2WSH"].includes(
+                    !["P2SH", "P2WSH", "P2SH-P2WSH", "P2TR"].includes(
                       action.params.addressType,
                     )
                   ) {
                     errors.push(
-                      `Action #${index + 1}: CREATE_MULTISIG addressType must be one of: P2SH, P2WSH, P2SH-P2WSH`,
+                      `Action #${index + 1}: CREATE_MULTISIG addressType must be one of: P2SH, P2WSH, P2SH-P2WSH, P2TR`,
+                    );
+                  }
+
+                  if (
+                    action.params.signerWallets !== undefined &&
+                    !Array.isArray(action.params.signerWallets)
+                  ) {
+                    errors.push(
+                      `Action #${index + 1}: CREATE_MULTISIG signerWallets must be an array of wallet names`,
+                    );
+                  }
+
+                  if (action.params.xpubs !== undefined) {
+                    if (!Array.isArray(action.params.xpubs)) {
+                      errors.push(
+                        `Action #${index + 1}: CREATE_MULTISIG xpubs must be an array`,
+                      );
+                    } else if (
+                      action.params.xpubs.length > action.params.totalSigners
+                    ) {
+                      errors.push(
+                        `Action #${index + 1}: CREATE_MULTISIG has more xpubs than totalSigners`,
+                      );
+                    }
+                  }
+
+                  if (
+                    action.params.fundAmount !== undefined &&
+                    (typeof action.params.fundAmount !== "number" ||
+                      action.params.fundAmount < 0)
+                  ) {
+                    errors.push(
+                      `Action #${index + 1}: CREATE_MULTISIG fundAmount must be a non-negative number`,
+                    );
+                  }
+                  break;
+
+                case ActionType.MINE_TO_UNLOCK:
+                  if (
+                    !action.params.txid &&
+                    !action.params.psbt &&
+                    !action.params.hex
+                  ) {
+                    errors.push(
+                      `Action #${index + 1}: MINE_TO_UNLOCK requires a txid, psbt or hex parameter`,
+                    );
+                  }
+
+                  if (!action.params.toWallet && !action.params.toAddress) {
+                    errors.push(
+                      `Action #${index + 1}: MINE_TO_UNLOCK requires either toWallet or toAddress parameter`,
+                    );
+                  }
+
+                  if (
+                    action.params.maxBlocks !== undefined &&
+                    (typeof action.params.maxBlocks !== "number" ||
+                      action.params.maxBlocks <= 0)
+                  ) {
+                    errors.push(
+                      `Action #${index + 1}: MINE_TO_UNLOCK maxBlocks must be a positive number`,
+                    );
+                  }
+                  break;
+
+                case ActionType.REORG:
+                  if (
+                    typeof action.params.depth !== "number" ||
+                    action.params.depth <= 0
+                  ) {
+                    errors.push(
+                      `Action #${index + 1}: REORG requires a positive depth parameter`,
+                    );
+                  }
+
+                  if (
+                    action.params.blocks !== undefined &&
+                    (typeof action.params.blocks !== "number" ||
+                      action.params.blocks < 0)
+                  ) {
+                    errors.push(
+                      `Action #${index + 1}: REORG blocks must be a non-negative number`,
+                    );
+                  }
+                  break;
+
+                case ActionType.FEE_MARKET:
+                  if (
+                    action.params.preset !== undefined &&
+                    !FEE_MARKET_PRESET_NAMES.includes(action.params.preset)
+                  ) {
+                    errors.push(
+                      `Action #${index + 1}: FEE_MARKET preset must be one of ${FEE_MARKET_PRESET_NAMES.join(", ")}`,
+                    );
+                  }
+
+                  if (
+                    action.params.profile !== undefined &&
+                    !Array.isArray(action.params.profile?.phases)
+                  ) {
+                    errors.push(
+                      `Action #${index + 1}: FEE_MARKET profile requires a phases array`,
                     );
                   }
                   break;
 
+                case ActionType.BUILD_BLOCK:
+                  if (
+                    action.params.transactions !== undefined &&
+                    !Array.isArray(action.params.transactions)
+                  ) {
+                    errors.push(
+                      `Action #${index + 1}: BUILD_BLOCK transactions must be an array of txids or raw transactions`,
+                    );
+                  }
+
+                  if (
+                    action.params.time !== undefined &&
+                    action.params.advance !== undefined
+                  ) {
+                    errors.push(
+                      `Action #${index + 1}: BUILD_BLOCK takes either time or advance, not both`,
+                    );
+                  }
+                  break;
+
+                case ActionType.SET_TIME:
+                  if (
+                    (action.params.time === undefined) ===
+                    (action.params.unfreeze !== true)
+                  ) {
+                    errors.push(
+                      `Action #${index + 1}: SET_TIME requires either a time parameter or unfreeze: true`,
+                    );
+                  }
+                  break;
+
+                case ActionType.ADVANCE_TIME:
+                  if (action.params.duration === undefined) {
+                    errors.push(
+                      `Action #${index + 1}: ADVANCE_TIME requires a duration parameter`,
+                    );
+                  } else {
+                    try {
+                      parseDuration(action.params.duration);
+                    } catch (error: any) {
+                      errors.push(`Action #${index + 1}: ${error.message}`);
+                    }
+                  }
+                  break;
+
                 case ActionType.WAIT:
                   if (
                     typeof action.params.seconds !== "number" ||
@@ -750,6 +935,21 @@ export class ScriptEngine extends EventEmitter {
               if (action.params.rbf) {
                 summary += `   Enabled for RBF (Replace-By-Fee)\n`;
               }
+
+              if (action.params.locktime !== undefined) {
+                summary += `   With nLockTime: ${action.params.locktime}\n`;
+              } else if (action.params.lockBlocks !== undefined) {
+                summary += `   Locked until ${action.params.lockBlocks} blocks past the tip\n`;
+              }
+
+              if (action.params.relativeLocktime) {
+                const lock = action.params.relativeLocktime;
+                summary += `   With relative lock: ${
+                  lock.blocks !== undefined
+                    ? `${lock.blocks} blocks`
+                    : `${lock.seconds} seconds`
+                }\n`;
+              }
               break;
 
             case ActionType.SIGN_TRANSACTION:
@@ -781,6 +981,69 @@ export class ScriptEngine extends EventEmitter {
             case ActionType.CREATE_MULTISIG:
               summary += `   Create ${action.params.requiredSigners}-of-${action.params.totalSigners} multisig wallet\n`;
               summary += `   Using address type: ${action.params.addressType}\n`;
+              if (action.params.xpubs && action.params.xpubs.length > 0) {
+                summary += `   With ${action.params.xpubs.length} supplied xpub(s)\n`;
+              }
+              if (action.params.fundAmount) {
+                summary += `   Funded with ${formatBitcoin(action.params.fundAmount)}\n`;
+              }
+              break;
+
+            case ActionType.MINE_TO_UNLOCK:
+              summary += `   Mine until ${
+                action.params.txid
+                  ? `transaction "${truncate(action.params.txid, 8)}"`
+                  : "the transaction"
+              } is final\n`;
+              if (action.params.broadcast !== false) {
+                summary += `   Then broadcast it\n`;
+              }
+              break;
+
+            case ActionType.REORG:
+              summary += `   Invalidate the last ${action.params.depth} block(s)\n`;
+              if (action.params.blocks !== 0) {
+                summary += `   Mine a competing branch of ${
+                  action.params.blocks ?? action.params.depth + 1
+                } block(s)\n`;
+              }
+              if (action.params.doubleSpend) {
+                summary += `   Double-spend reorged transaction(s)\n`;
+              }
+              break;
+
+            case ActionType.FEE_MARKET:
+              summary += `   Simulate a ${
+                action.params.profile
+                  ? "custom"
+                  : `"${action.params.preset || "calm"}"`
+              } fee market\n`;
+              break;
+
+            case ActionType.BUILD_BLOCK:
+              summary += `   Build a block with ${
+                action.params.transactions?.length || 0
+              } transaction(s)${
+                action.params.time !== undefined
+                  ? ` at ${action.params.time}`
+                  : action.params.advance !== undefined
+                    ? ` ${action.params.advance}s after the tip`
+                    : ""
+              }\n`;
+              break;
+
+            case ActionType.SET_TIME:
+              summary += action.params.unfreeze
+                ? `   Return the node to the real clock\n`
+                : `   Freeze the node clock at ${action.params.time}\n`;
+              break;
+
+            case ActionType.ADVANCE_TIME:
+              summary += `   Advance the node clock by ${action.params.duration}${
+                action.params.blocks
+                  ? `, mining ${action.params.blocks} block(s)`
+                  : ""
+              }\n`;
               break;
 
             case ActionType.WAIT:
@@ -1121,6 +1384,24 @@ export class ScriptEngine extends EventEmitter {
       case ActionType.CREATE_MULTISIG:
         return this.executeCreateMultisig(params, context);
 
+      case ActionType.MINE_TO_UNLOCK:
+        return this.executeMineToUnlock(params, context);
+
+      case ActionType.REORG:
+        return this.executeReorg(params, context);
+
+      case ActionType.FEE_MARKET:
+        return this.executeFeeMarket(params, context);
+
+      case ActionType.BUILD_BLOCK:
+        return this.executeBuildBlock(params, context);
+
+      case ActionType.SET_TIME:
+        return this.executeSetTime(params, context);
+
+      case ActionType.ADVANCE_TIME:
+        return this.executeAdvanceTime(params, context);
+
       case ActionType.WAIT:
         return this.executeWait(params);
 
@@ -1189,7 +1470,8 @@ export class ScriptEngine extends EventEmitter {
     if (typeof params === "string") {
       // Replace variable references in strings
       return params.replace(/\${([^}]+)}/g, (match, varName) => {
-        return variables[varName] !== undefined ? variables[varName] : match;
+        const value = this.lookupVariable(varName, variables);
+        return value !== undefined ? value : match;
       });
     } else if (Array.isArray(params)) {
       // Process array elements
@@ -1200,7 +1482,12 @@ export class ScriptEngine extends EventEmitter {
       // Process object properties
       const result: Record<string, any> = {};
       for (const key in params) {
-        result[key] = this.processVariableReferences(params[key], variables);
+        // Keys can reference variables too, e.g. outputs keyed by address
+        const resolvedKey = this.processVariableReferences(key, variables);
+        result[resolvedKey] = this.processVariableReferences(
+          params[key],
+          variables,
+        );
       }
       return result;
     }
@@ -1209,6 +1496,22 @@ export class ScriptEngine extends EventEmitter {
     return params;
   }
 
+  /**
+   * Look up a variable, following dotted paths such as "tx.txid"
+   */
+  private lookupVariable(name: string, variables: Record<string, any>): any {
+    if (variables[name] !== undefined) {
+      return variables[name];
+    }
+
+    return name
+      .split(".")
+      .reduce(
+        (value: any, part) => (value == null ? undefined : value[part]),
+        variables,
+      );
+  }
+
   /**
    * Execute CREATE_WALLET action
    */
@@ -1277,12 +1580,20 @@ export class ScriptEngine extends EventEmitter {
     params: any,
     context: ScriptExecutionContext,
   ): Promise<any> {
-    const { fromWallet, outputs, feeRate } = params;
+    const { fromWallet, outputs, feeRate, rbf, relativeLocktime } = params;
+
+    // lockBlocks is relative to the current tip, locktime is used as given
+    let locktime: number | undefined = params.locktime;
+    if (params.lockBlocks !== undefined) {
+      const info = await context.rpcClient.getBlockchainInfo();
+      locktime = info.blocks + params.lockBlocks;
+    }
 
     // Create PSBT
     const psbt = await context.transactionService.createPSBT(
       fromWallet,
       outputs,
+      { rbf, feeRate, locktime, relativeLocktime },
     );
 
     // Generate a txid for reference
@@ -1294,13 +1605,15 @@ export class ScriptEngine extends EventEmitter {
       fromWallet,
       outputs,
       feeRate,
+      locktime,
+      relativeLocktime,
       status: "created",
       created: new Date(),
     };
 
     // Set variable if name is provided
     if (params.variableName) {
-      context.variables[params.variableName] = { txid, psbt };
+      context.variables[params.variableName] = { txid, psbt, locktime };
     }
 
     return { txid, psbt };
@@ -1463,6 +1776,245 @@ export class ScriptEngine extends EventEmitter {
     return { broadcastTxid, hex: finalized.hex };
   }
 
+  /**
+   * Execute MINE_TO_UNLOCK action
+   */
+  private async executeMineToUnlock(
+    params: any,
+    context: ScriptExecutionContext,
+  ): Promise<any> {
+    const { txid, toWallet, toAddress, maxBlocks } = params;
+    const broadcast = params.broadcast !== false;
+
+    let hex: string | undefined = params.hex;
+
+    if (!hex) {
+      const psbt = params.psbt || context.transactions[txid]?.psbt;
+      if (!psbt) {
+        throw new Error(`Transaction not found: ${txid}`);
+      }
+
+      const finalized = await context.transactionService.finalizePSBT(psbt);
+      if (!finalized.complete) {
+        throw new Error(
+          "PSBT is not complete, sign it before mining to unlock",
+        );
+      }
+      hex = finalized.hex;
+    }
+
+    const address =
+      toAddress || (await context.bitcoinService.getNewAddress(toWallet));
+
+    const unlock = await context.transactionService.mineUntilFinal(
+      hex,
+      address,
+      maxBlocks,
+      this.timeService,
+    );
+
+    if (unlock.initialRejection) {
+      console.log(
+        chalk.yellow(
+          `Transaction was rejected before unlocking: ${unlock.initialRejection}`,
+        ),
+      );
+    }
+
+    if (!unlock.final) {
+      throw new Error(
+        `Transaction is still timelocked after mining ${unlock.blocksMined} blocks`,
+      );
+    }
+
+    let broadcastTxid: string | undefined;
+    if (broadcast) {
+      broadcastTxid =
+        await context.transactionService.broadcastTransaction(hex);
+
+      if (txid && context.transactions[txid]) {
+        context.transactions[txid].status = "broadcasted";
+        context.transactions[txid].broadcastedAt = new Date();
+        context.transactions[txid].broadcastTxid = broadcastTxid;
+      }
+    }
+
+    const result = { ...unlock, broadcastTxid, hex };
+
+    // Set variable if name is provided
+    if (params.variableName) {
+      context.variables[params.variableName] = result;
+    }
+
+    return result;
+  }
+
+  /**
+   * Execute REORG action
+   */
+  private async executeReorg(
+    params: any,
+    context: ScriptExecutionContext,
+  ): Promise<any> {
+    const { depth, blocks, includeMempool, toWallet } = params;
+    const doubleSpend = params.doubleSpend
+      ? [].concat(params.doubleSpend)
+      : undefined;
+
+    const miningAddress =
+      params.toAddress ||
+      (toWallet
+        ? await context.bitcoinService.getNewAddress(toWallet)
+        : undefined);
+
+    const result = await new ReorgService(context.rpcClient).reorg({
+      depth,
+      branchLength: blocks,
+      doubleSpend,
+      includeMempool,
+      miningAddress,
+    });
+
+    context.log(
+      `Reorged ${depth} block(s); ${result.changes.length} wallet transaction(s) changed status`,
+    );
+
+    // Set variable if name is provided
+    if (params.variableName) {
+      context.variables[params.variableName] = result;
+    }
+
+    return result;
+  }
+
+  /**
+   * Execute FEE_MARKET action
+   */
+  private async executeFeeMarket(
+    params: any,
+    context: ScriptExecutionContext,
+  ): Promise<any> {
+    const result = await new FeeMarketService(context.rpcClient).simulate({
+      preset: params.preset,
+      profile: params.profile,
+      wallets: params.wallets,
+      fundingWallet: params.fundingWallet,
+      onProgress: (_round, _total, message) => context.log(message),
+    });
+
+    const estimates = result.estimates
+      .map(
+        (estimate) => `${estimate.target}: ${estimate.feeRate ?? "-"} sat/vB`,
+      )
+      .join(", ");
+    context.log(
+      `Simulated ${result.transactions} fee market transaction(s) over ${result.rounds} block(s); estimates ${estimates}`,
+    );
+
+    // Set variable if name is provided
+    if (params.variableName) {
+      context.variables[params.variableName] = result;
+    }
+
+    return result;
+  }
+
+  /**
+   * Execute BUILD_BLOCK action
+   */
+  private async executeBuildBlock(
+    params: any,
+    context: ScriptExecutionContext,
+  ): Promise<any> {
+    const { transactions = [], toWallet, toAddress, time, advance } = params;
+
+    const coinbase =
+      toAddress ||
+      (toWallet
+        ? await context.bitcoinService.getNewAddress(toWallet)
+        : undefined);
+
+    const block = await new BlockBuilderService(
+      context.rpcClient,
+      this.timeService,
+    ).buildBlock(
+      { transactions, coinbase, time, advance },
+      { resetTime: params.resetTime },
+    );
+
+    context.blocks.push(block.hash);
+    context.log(
+      `Built block ${block.height} with ${block.txids.length} transaction(s) at ${new Date(block.time * 1000).toISOString()}`,
+    );
+
+    // Set variable if name is provided
+    if (params.variableName) {
+      context.variables[params.variableName] = block;
+    }
+
+    return block;
+  }
+
+  /**
+   * Execute SET_TIME action
+   */
+  private async executeSetTime(
+    params: any,
+    context: ScriptExecutionContext,
+  ): Promise<any> {
+    const status = params.unfreeze
+      ? await this.timeService.unfreeze()
+      : params.time === "now"
+        ? await this.timeService.freeze()
+        : await this.timeService.setTime(params.time);
+
+    context.log(
+      status.frozen
+        ? `Node clock frozen at ${new Date(status.nodeTime * 1000).toISOString()}`
+        : "Node clock back on real time",
+    );
+
+    // Set variable if name is provided
+    if (params.variableName) {
+      context.variables[params.variableName] = status;
+    }
+
+    return status;
+  }
+
+  /**
+   * Execute ADVANCE_TIME action
+   */
+  private async executeAdvanceTime(
+    params: any,
+    context: ScriptExecutionContext,
+  ): Promise<any> {
+    const { duration, blocks, toWallet, toAddress } = params;
+
+    const address =
+      toAddress ||
+      (toWallet
+        ? await context.bitcoinService.getNewAddress(toWallet)
+        : undefined);
+
+    const result = await this.timeService.advance(duration, {
+      blocks,
+      address,
+    });
+
+    context.blocks.push(...result.blockHashes);
+    context.log(
+      `Advanced the node clock by ${result.advancedBy}s to ${new Date(result.nodeTime * 1000).toISOString()}; median time past is ${new Date(result.medianTime * 1000).toISOString()}`,
+    );
+
+    // Set variable if name is provided
+    if (params.variableName) {
+      context.variables[params.variableName] = result;
+    }
+
+    return result;
+  }
+
   /**
    * Execute CREATE_MULTISIG action
    */
@@ -1470,8 +2022,51 @@ export class ScriptEngine extends EventEmitter {
     params: any,
     context: ScriptExecutionContext,
   ): Promise<any> {
-    // Create the multisig wallet
-    const wallet = await context.multisigCommands.createCaravanWallet();
+    const {
+      name,
+      addressType,
+      requiredSigners,
+      totalSigners,
+      signerWallets,
+      xpubs = [],
+      fundAmount,
+      fundingWallet,
+      taproot,
+    } = params;
+
+    // xpubs can be plain strings or { xpub, bip32Path, xfp } objects
+    const extendedPublicKeys = xpubs.map((key: any, i: number) =>
+      typeof key === "string"
+        ? { name: `Extended Public Key ${i + 1}`, xpub: key, bip32Path: "" }
+        : { name: `Extended Public Key ${i + 1}`, ...key },
+    );
+
+    // Create the multisig wallet without prompting
+    const wallet =
+      await context.multisigCommands.createCaravanWalletWithOptions({
+        name,
+        addressType,
+        requiredSigners,
+        totalSigners,
+        signerWallets,
+        extendedPublicKeys,
+        fundAmount,
+        fundingWallet,
+        taproot,
+      });
+
+    // Track the created wallets in context
+    for (const walletName of [...wallet.signerWallets, wallet.watcherWallet]) {
+      context.wallets[walletName] = { name: walletName, created: new Date() };
+    }
+    if (wallet.fundingTxid) {
+      context.transactions[wallet.fundingTxid] = {
+        toAddress: wallet.fundingAddress,
+        amount: fundAmount,
+        status: "confirmed",
+        created: new Date(),
+      };
+    }
 
     // Set variable if name is provided
     if (params.variableName) {
@@ -0,0 +1,550 @@
+import * as http from "http";
+import * as path from "path";
+import * as crypto from "crypto";
+import express from "express";
+import type CaravanRegtestManager from "../index";
+import { AddressType } from "../types/caravan";
+import { openApiDocument } from "./openapi";
+import { log } from "../utils/logger";
+
+/**
+ * Error carrying the HTTP status to respond with
+ */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+type Handler = (req: express.Request) => Promise<unknown>;
+
+export interface ControlServerOptions {
+  port: number;
+  /** Interface to bind; defaults to loopback only */
+  host?: string;
+  /**
+   * Requests must send "Authorization: Bearer <token>"; a random token is
+   * generated when none is given
+   */
+  token?: string;
+}
+
+/**
+ * Host names accepted in Host and Origin headers, besides a non-loopback
+ * interface the server was bound to. Checking them stops a web page from
+ * reaching the server through DNS rebinding or a cross-site request.
+ */
+const LOCAL_HOSTNAMES = ["localhost", "127.0.0.1", "[::1]", "::1"];
+
+/**
+ * RPC methods the /rpc passthrough forwards. Methods that stop the node,
+ * read or write files on its host, or reveal private keys are left out.
+ */
+const RPC_ALLOWLIST = new Set([
+  "getbestblockhash",
+  "getblock",
+  "getblockchaininfo",
+  "getblockcount",
+  "getblockhash",
+  "getblockheader",
+  "getchaintips",
+  "getmempoolentry",
+  "getmempoolinfo",
+  "getrawmempool",
+  "gettxout",
+  "getnetworkinfo",
+  "estimatesmartfee",
+  "getrawtransaction",
+  "decoderawtransaction",
+  "decodescript",
+  "createrawtransaction",
+  "sendrawtransaction",
+  "testmempoolaccept",
+  "createpsbt",
+  "decodepsbt",
+  "analyzepsbt",
+  "combinepsbt",
+  "finalizepsbt",
+  "utxoupdatepsbt",
+  "getdescriptorinfo",
+  "deriveaddresses",
+  "validateaddress",
+  "generatetoaddress",
+  "generateblock",
+  "invalidateblock",
+  "reconsiderblock",
+  "setmocktime",
+  "listwallets",
+  "getwalletinfo",
+  "getbalance",
+  "getbalances",
+  "getnewaddress",
+  "getrawchangeaddress",
+  "getaddressinfo",
+  "listunspent",
+  "listtransactions",
+  "gettransaction",
+  "lockunspent",
+  "sendtoaddress",
+  "send",
+  "sendmany",
+  "bumpfee",
+  "walletcreatefundedpsbt",
+  "walletprocesspsbt",
+  "signrawtransactionwithwallet",
+]);
+
+/**
+ * Headless HTTP control server exposing Caravan-X operations.
+ *
+ * Every route is backed by the same services the interactive menu uses.
+ * Mutating requests run one at a time so test suites can reset and seed
+ * state between cases without racing each other.
+ */
+export class ControlServer {
+  private readonly app: CaravanRegtestManager;
+  private readonly options: ControlServerOptions;
+  private readonly express: express.Application;
+  readonly token: string;
+  private server: http.Server | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(app: CaravanRegtestManager, options: ControlServerOptions) {
+    if (
+      !Number.isInteger(options.port) ||
+      options.port < 1 ||
+      options.port > 65535
+    ) {
+      throw new Error(
+        `Invalid port: ${options.port}. Use a number from 1 to 65535`,
+      );
+    }
+
+    this.app = app;
+    this.options = options;
+    this.token = options.token || crypto.randomBytes(24).toString("hex");
+    this.express = express();
+
+    this.configureMiddleware();
+    this.configureRoutes();
+  }
+
+  /**
+   * Start listening; resolves with the bound address
+   */
+  async start(): Promise<string> {
+    const host = this.options.host || "127.0.0.1";
+
+    await new Promise<void>((resolve, reject) => {
+      this.server = this.express.listen(this.options.port, host, () =>
+        resolve(),
+      );
+      this.server.once("error", reject);
+    });
+
+    return `http://${host}:${this.options.port}`;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  /**
+   * Configure Express middleware
+   */
+  private configureMiddleware(): void {
+    this.express.use(express.json({ limit: "10mb" }));
+
+    const allowedHosts = [...LOCAL_HOSTNAMES];
+    if (this.options.host && !["0.0.0.0", "::"].includes(this.options.host)) {
+      allowedHosts.push(this.options.host);
+    }
+
+    this.express.use((req, res, next) => {
+      const origin = req.headers.origin;
+      if (
+        !isAllowedHost(req.headers.host, allowedHosts) ||
+        (origin !== undefined && !isAllowedOrigin(origin, allowedHosts))
+      ) {
+        res.status(403).json({ error: "Forbidden host or origin" });
+        return;
+      }
+      next();
+    });
+
+    // The API description is public so client generators can fetch it
+    this.express.use((req, res, next) => {
+      if (
+        req.path !== "/openapi.json" &&
+        !this.isAuthorized(req.headers.authorization)
+      ) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+      next();
+    });
+  }
+
+  /**
+   * Configure API routes
+   */
+  private configureRoutes(): void {
+    const app = this.app;
+
+    this.get("/openapi.json", async () => openApiDocument);
+
+    this.get("/health", async () => {
+      const info = await app.bitcoinService.rpc.getBlockchainInfo();
+      return { ok: true, chain: info.chain, blocks: info.blocks };
+    });
+
+    this.get("/blockchain", async () =>
+      app.bitcoinService.rpc.getBlockchainInfo(),
+    );
+
+    // JSON-RPC passthrough for anything without a dedicated route
+    this.post("/rpc", async (req) => {
+      const { method, params = [], wallet } = req.body;
+      requireFields(req.body, ["method"]);
+      if (!RPC_ALLOWLIST.has(method)) {
+        throw new HttpError(403, `RPC method not allowed: ${method}`);
+      }
+      if (!Array.isArray(params)) {
+        throw new HttpError(400, "params must be an array");
+      }
+      return {
+        result: await app.bitcoinService.rpc.callRpc(method, params, wallet),
+      };
+    });
+
+    // Wallets
+    this.get("/wallets", async () => app.bitcoinService.listWallets());
+
+    this.post("/wallets", async (req) => {
+      requireFields(req.body, ["name"]);
+      return app.bitcoinService.createWallet(
+        req.body.name,
+        req.body.options || {},
+      );
+    });
+
+    this.get("/wallets/:name", async (req) =>
+      app.bitcoinService.getWalletInfo(req.params.name),
+    );
+
+    this.get("/wallets/:name/utxos", async (req) =>
+      app.bitcoinService.listUnspent(req.params.name),
+    );
+
+    this.post("/wallets/:name/address", async (req) => ({
+      address: await app.bitcoinService.getNewAddress(
+        req.params.name,
+        req.body.label,
+      ),
+    }));
+
+    this.post("/wallets/:name/send", async (req) => {
+      requireFields(req.body, ["address", "amount"]);
+      return {
+        txid: await app.bitcoinService.sendToAddress(
+          req.params.name,
+          req.body.address,
+          req.body.amount,
+        ),
+      };
+    });
+
+    // Mining
+    this.post("/mine", async (req) => {
+      const { blocks = 1, wallet } = req.body;
+      let { address } = req.body;
+
+      if (!address) {
+        if (!wallet) {
+          throw new HttpError(400, "Either wallet or address is required");
+        }
+        address = await app.bitcoinService.getNewAddress(wallet);
+      }
+
+      const blockHashes = await app.bitcoinService.generateToAddress(
+        blocks,
+        address,
+      );
+      return { address, blockHashes };
+    });
+
+    // Multisig
+    this.get("/multisig", async () => app.caravanService.listCaravanWallets());
+
+    this.post("/multisig", async (req) => {
+      requireFields(req.body, ["name", "requiredSigners", "totalSigners"]);
+      return app.multisigCommands.createCaravanWalletWithOptions({
+        ...req.body,
+        addressType: req.body.addressType || AddressType.P2WSH,
+      });
+    });
+
+    // PSBTs
+    this.post("/psbt", async (req) => {
+      requireFields(req.body, ["wallet", "outputs"]);
+      return {
+        psbt: await app.transactionService.createPSBT(
+          req.body.wallet,
+          req.body.outputs,
+          req.body.options,
+        ),
+      };
+    });
+
+    this.post("/psbt/decode", async (req) => {
+      requireFields(req.body, ["psbt"]);
+      return app.transactionService.decodePSBT(req.body.psbt);
+    });
+
+    this.post("/psbt/sign", async (req) => {
+      requireFields(req.body, ["psbt"]);
+      if (req.body.privateKey) {
+        return {
+          psbt: await app.transactionService.signPSBTWithPrivateKey(
+            req.body.psbt,
+            req.body.privateKey,
+          ),
+        };
+      }
+      requireFields(req.body, ["wallet"]);
+      return {
+        psbt: await app.transactionService.processPSBT(
+          req.body.wallet,
+          req.body.psbt,
+        ),
+      };
+    });
+
+    this.post("/psbt/finalize", async (req) => {
+      requireFields(req.body, ["psbt"]);
+      return app.transactionService.finalizePSBT(req.body.psbt);
+    });
+
+    this.post("/psbt/broadcast", async (req) => {
+      let { hex } = req.body;
+
+      if (!hex) {
+        requireFields(req.body, ["psbt"]);
+        const finalized = await app.transactionService.finalizePSBT(
+          req.body.psbt,
+        );
+        if (!finalized.complete) {
+          throw new HttpError(400, "PSBT is not complete, cannot broadcast");
+        }
+        hex = finalized.hex;
+      }
+
+      return { txid: await app.transactionService.broadcastTransaction(hex) };
+    });
+
+    // Snapshots
+    this.get("/snapshots", async () => app.snapshotService.listSnapshots());
+
+    this.post("/snapshots", async (req) => {
+      requireFields(req.body, ["name"]);
+      return app.snapshotService.createSnapshot(req.body);
+    });
+
+    this.get("/snapshots/diff", async (req) => {
+      requireFields(req.query, ["from", "to"]);
+      return app.snapshotService.diffSnapshots(
+        String(req.query.from),
+        String(req.query.to),
+      );
+    });
+
+    this.get("/snapshots/du", async () => app.snapshotService.getDiskUsage());
+
+    this.post("/snapshots/:id/restore", async (req) => {
+      await app.snapshotService.restoreSnapshot(req.params.id, {
+        stopBitcoin: true,
+      });
+      return { restored: req.params.id };
+    });
+
+    this.delete("/snapshots/:id", async (req) => {
+      await app.snapshotService.deleteSnapshot(req.params.id);
+      return { deleted: req.params.id };
+    });
+
+    // Scenarios
+    this.get("/scenarios", async () => app.scenarioService.listScenarios());
+
+    this.post("/scenarios/:id/apply", async (req) => {
+      if (!(await app.scenarioService.getScenario(req.params.id))) {
+        throw new HttpError(404, `Scenario not found: ${req.params.id}`);
+      }
+      await app.scenarioService.applyScenario(req.params.id);
+      return { applied: req.params.id };
+    });
+
+    // Environment
+    this.post("/environment/export", async (req) => {
+      requireFields(req.body, ["name", "outputPath"]);
+      const environmentService = this.environmentService();
+      return {
+        path: await environmentService.exportEnvironment({
+          includeBlockchainData: true,
+          generateReplayScript: true,
+          ...req.body,
+          // Private keys never leave through the API
+          includePrivateKeys: false,
+          outputPath: this.resolveAppPath(req.body.outputPath),
+        }),
+      };
+    });
+
+    this.post("/environment/import", async (req) => {
+      requireFields(req.body, ["archivePath"]);
+      return this.environmentService().importEnvironment({
+        method: "auto",
+        ...req.body,
+        archivePath: this.resolveAppPath(req.body.archivePath),
+      });
+    });
+
+    this.post("/environment/inspect", async (req) => {
+      requireFields(req.body, ["archivePath"]);
+      const manifest = await this.environmentService().inspectEnvironment(
+        this.resolveAppPath(req.body.archivePath),
+      );
+      if (!manifest) {
+        throw new HttpError(400, "Not a valid .caravan-env archive");
+      }
+      return manifest;
+    });
+
+    this.express.use((req, res) => {
+      res.status(404).json({ error: `No route for ${req.method} ${req.path}` });
+    });
+  }
+
+  private environmentService() {
+    if (!this.app.environmentService) {
+      throw new HttpError(
+        409,
+        "Environment operations need a profile; start the server with --profile",
+      );
+    }
+    return this.app.environmentService;
+  }
+
+  /**
+   * Compare the Authorization header with the token in constant time
+   */
+  private isAuthorized(header: string | undefined): boolean {
+    const expected = Buffer.from(`Bearer ${this.token}`);
+    const actual = Buffer.from(header || "");
+    return (
+      actual.length === expected.length &&
+      crypto.timingSafeEqual(actual, expected)
+    );
+  }
+
+  /**
+   * Resolve a client-supplied path inside the app directory; relative paths
+   * are taken from it and anything outside it is refused
+   */
+  private resolveAppPath(requested: string): string {
+    const appDir = this.app.enhancedConfig?.appDir;
+    if (!appDir) {
+      throw new HttpError(409, "No profile is loaded");
+    }
+
+    const resolved = path.resolve(appDir, String(requested));
+    const relative = path.relative(appDir, resolved);
+    if (relative.startsWith("..") || path.isAbsolute(relative)) {
+      throw new HttpError(400, `Path must be inside ${appDir}`);
+    }
+    return resolved;
+  }
+
+  private get(route: string, handler: Handler): void {
+    this.express.get(route, this.wrap(handler, false));
+  }
+
+  private post(route: string, handler: Handler): void {
+    this.express.post(route, this.wrap(handler, true));
+  }
+
+  private delete(route: string, handler: Handler): void {
+    this.express.delete(route, this.wrap(handler, true));
+  }
+
+  /**
+   * Turn a handler into an Express route. Mutating handlers are queued so
+   * only one runs at a time.
+   */
+  private wrap(handler: Handler, serialize: boolean): express.RequestHandler {
+    return async (req, res) => {
+      const run = () => handler(req);
+
+      try {
+        const result = serialize ? await this.enqueue(run) : await run();
+        res.json(result ?? null);
+      } catch (error: any) {
+        const status = error instanceof HttpError ? error.status : 500;
+        log.debug(`${req.method} ${req.path} failed: ${error.message}`);
+        res.status(status).json({ error: error.message });
+      }
+    };
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task, task);
+    // Keep the chain alive when a task fails
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * Whether a Host header names an allowed host, on any port
+ */
+function isAllowedHost(host: string | undefined, allowed: string[]): boolean {
+  if (!host) {
+    return false;
+  }
+  const hostname = host.startsWith("[")
+    ? host.substring(0, host.indexOf("]") + 1)
+    : host.split(":")[0];
+  return allowed.includes(hostname.toLowerCase());
+}
+
+/**
+ * Whether an Origin header comes from an allowed host
+ */
+function isAllowedOrigin(origin: string, allowed: string[]): boolean {
+  try {
+    return allowed.includes(new URL(origin).hostname.toLowerCase());
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Throw a 400 when any of the fields are missing
+ */
+function requireFields(body: any, fields: string[]): void {
+  const missing = fields.filter(
+    (field) => body?.[field] === undefined || body?.[field] === "",
+  );
+  if (missing.length > 0) {
+    throw new HttpError(
+      400,
+      `Missing required field(s): ${missing.join(", ")}`,
+    );
+  }
+}
@@ -0,0 +1,1186 @@
+/**
+ * OpenAPI description of the control server, served at /openapi.json
+ */
+export const openApiDocument = {
+  openapi: "3.0.3",
+  info: {
+    title: "Caravan-X control server",
+    version: "1.0.0",
+    description:
+      "Local HTTP API started with `caravan-x serve`. POST and DELETE requests run one at a time.",
+  },
+  security: [{ bearer: [] }],
+  servers: [
+    {
+      url: "http://127.0.0.1:4100",
+    },
+  ],
+  components: {
+    securitySchemes: {
+      bearer: {
+        type: "http",
+        scheme: "bearer",
+        description:
+          "The token passed with --token, or the one printed at startup",
+      },
+    },
+    responses: {
+      Error: {
+        description: "Error",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              properties: {
+                error: {
+                  type: "string",
+                },
+              },
+              required: ["error"],
+            },
+          },
+        },
+      },
+    },
+  },
+  paths: {
+    "/openapi.json": {
+      get: {
+        summary: "This document",
+        tags: ["meta"],
+        responses: {
+          "200": {
+            description: "Result",
+            content: {
+              "application/json": {
+                schema: {},
+              },
+            },
+          },
+          "400": {
+            $ref: "#/components/responses/Error",
+          },
+          "500": {
+            $ref: "#/components/responses/Error",
+          },
+        },
+      },
+    },
+    "/health": {
+      get: {
+        summary: "Check Bitcoin Core connectivity",
+        tags: ["meta"],
+        responses: {
+          "200": {
+            description: "Result",
+            content: {
+              "application/json": {
+                schema: {},
+              },
+            },
+          },
+          "400": {
+            $ref: "#/components/responses/Error",
+          },
+          "500": {
+            $ref: "#/components/responses/Error",
+          },
+        },
+      },
+    },
+    "/blockchain": {
+      get: {
+        summary: "getblockchaininfo",
+        tags: ["blockchain"],
+        responses: {
+          "200": {
+            description: "Result",
+            content: {
+              "application/json": {
+                schema: {},
+              },
+            },
+          },
+          "400": {
+            $ref: "#/components/responses/Error",
+          },
+          "500": {
+            $ref: "#/components/responses/Error",
+          },
+        },
+      },
+    },
+    "/rpc": {
+      post: {
+        summary: "Call an allowlisted Bitcoin Core RPC method",
+        tags: ["blockchain"],
+        responses: {
+          "200": {
+            description: "Result",
+            content: {
+              "application/json": {
+                schema: {},
+              },
+            },
+          },
+          "400": {
+            $ref: "#/components/responses/Error",
+          },
+          "500": {
+            $ref: "#/components/responses/Error",
+          },
+        },
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  method: {
+                    type: "string",
+                  },
+                  params: {
+                    type: "array",
+                    items: {},
+                  },
+                  wallet: {
+                    type: "string",
+                  },
+                },
+                required: ["method"],
+              },
+            },
+          },
+        },
+      },
+    },
+    "/mine": {
+      post: {
+        summary: "Mine blocks to a wallet or address",
+        tags: ["blockchain"],
+        responses: {
+          "200": {
+            description: "Result",
+            content: {
+              "application/json": {
+                schema: {},
+              },
+            },
+          },
+          "400": {
+            $ref: "#/components/responses/Error",
+          },
+          "500": {
+            $ref: "#/components/responses/Error",
+          },
+        },
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  blocks: {
+                    type: "integer",
+                  },
+                  wallet: {
+                    type: "string",
+                  },
+                  address: {
+                    type: "string",
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/wallets": {
+      get: {
+        summary: "List loaded wallets",
+        tags: ["wallets"],
+        responses: {
+          "200": {
+            description: "Result",
+            content: {
+              "application/json": {
+                schema: {},
+              },
+            },
+          },
+          "400": {
+            $ref: "#/components/responses/Error",
+          },
+          "500": {
+            $ref: "#/components/responses/Error",
+          },
+        },
+      },
+      post: {
+        summary: "Create a wallet",
+        tags: ["wallets"],
+        responses: {
+          "200": {
+            description: "Result",
+            content: {
+              "application/json": {
+                schema: {},
+              },
+            },
+          },
+          "400": {
+            $ref: "#/components/responses/Error",
+          },
+          "500": {
+            $ref: "#/components/responses/Error",
+          },
+        },
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  name: {
+                    type: "string",
+                  },
+                  options: {
+                    type: "object",
+                    properties: {
+                      disablePrivateKeys: {
+                        type: "boolean",
+                      },
+                      blank: {
+                        type: "boolean",
+                      },
+                      descriptorWallet: {
+                        type: "boolean",
+                      },
+                    },
+                  },
+                },
+                required: ["name"],
+              },
+            },
+          },
+        },
+      },
+    },
+    "/wallets/{name}": {
+      get: {
+        summary: "getwalletinfo",
+        tags: ["wallets"],
+        responses: {
+          "200": {
+            description: "Result",
+            content: {
+              "application/json": {
+                schema: {},
+              },
+            },
+          },
+          "400": {
+            $ref: "#/components/responses/Error",
+          },
+          "500": {
+            $ref: "#/components/responses/Error",
+          },
+        },
+        parameters: [
+          {
+            name: "name",
+            in: "path",
+            required: true,
+            schema: {
+              type: "string",
+            },
+            description: "Wallet name",
+          },
+        ],
+      },
+    },
+    "/wallets/{name}/utxos": {
+      get: {
+        summary: "List unspent outputs",
+        tags: ["wallets"],
+        responses: {
+          "200": {
+            description: "Result",
+            content: {
+              "application/json": {
+                schema: {},
+              },
+            },
+          },
+          "400": {
+            $ref: "#/components/responses/Error",
+          },
+          "500": {
+            $ref: "#/components/responses/Error",
+          },
+        },
+        parameters: [
+          {
+            name: "name",
+            in: "path",
+            required: true,
+            schema: {
+              type: "string",
+            },
+            description: "Wallet name",
+          },
+        ],
+      },
+    },
+    "/wallets/{name}/address": {
+      post: {
+        summary: "Get a new address",
+        tags: ["wallets"],
+        responses: {
+          "200": {
+            description: "Result",
+            content: {
+              "application/json": {
+                schema: {},
+              },
+            },
+          },
+          "400": {
+            $ref: "#/components/responses/Error",
+          },
+          "500": {
+            $ref: "#/components/responses/Error",
+          },
+        },
+        parameters: [
+          {
+            name: "name",
+            in: "path",
+            required: true,
+            schema: {
+              type: "string",
+            },
+            description: "Wallet name",
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  label: {
+                    type: "string",
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/wallets/{name}/send": {
+      post: {
+        summary: "Send to an address",
+        tags: ["wallets"],
+        responses: {
+          "200": {
+            description: "Result",
+            content: {
+              "application/json": {
+                schema: {},
+              },
+            },
+          },
+          "400": {
+            $ref: "#/components/responses/Error",
+          },
+          "500": {
+            $ref: "#/components/responses/Error",
+          },
+        },
+        parameters: [
+          {
+            name: "name",
+            in: "path",
+            required: true,
+            schema: {
+              type: "string",
+            },
+            description: "Wallet name",
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  address: {
+                    type: "string",
+                  },
+                  amount: {
+                    type: "number",
+                  },
+                },
+                required: ["address", "amount"],
+              },
+            },
+          },
+        },
+      },
+    },
+    "/multisig": {
+      get: {
+        summary: "List Caravan wallet configs",
+        tags: ["multisig"],
+        responses: {
+          "200": {
+            description: "Result",
+            content: {
+              "application/json": {
+                schema: {},
+              },
+            },
+          },
+          "400": {
+            $ref: "#/components/responses/Error",
+          },
+          "500": {
+            $ref: "#/components/responses/Error",
+          },
+        },
+      },
+      post: {
+        summary:
+          "Create a Caravan multisig wallet (signers, watcher, descriptors, config)",
+        tags: ["multisig"],
+        responses: {
+          "200": {
+            description: "Result",
+            content: {
+              "application/json": {
+                schema: {},
+              },
+            },
+          },
+          "400": {
+            $ref: "#/components/responses/Error",
+          },
+          "500": {
+            $ref: "#/components/responses/Error",
+          },
+        },
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  name: {
+                    type: "string",
+                  },
+                  addressType: {
+                    type: "string",
+                    enum: ["P2WSH", "P2SH-P2WSH", "P2SH", "P2TR"],
+                  },
+                  requiredSigners: {
+                    type: "integer",
+                  },
+                  taproot: {
+                    type: "object",
+                    description:
+                      "P2TR only: keyPathSigner is the index of the key that can also spend alone; sorted selects sortedmulti_a (default) or multi_a",
+                    properties: {
+                      keyPathSigner: {
+                        type: "integer",
+                      },
+                      sorted: {
+                        type: "boolean",
+                      },
+                    },
+                  },
+                  totalSigners: {
+                    type: "integer",
+                  },
+                  signerWallets: {
+                    type: "array",
+                    items: {
+                      type: "string",
+                    },
+                  },
+                  extendedPublicKeys: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      properties: {
+                        xpub: {
+                          type: "string",
+                        },
+                        bip32Path: {
+                          type: "string",
+                        },
+                        xfp: {
+                          type: "string",
+                        },
+                      },
+                      required: ["xpub"],
+                    },
+                  },
+                  fundAmount: {
+                    type: "number",
+                  },
+                  fundingWallet: {
+                    type: "string",
+                  },
+                },
+                required: ["name", "requiredSigners", "totalSigners"],
+              },
+            },
+          },
+        },
+      },
+    },
+    "/psbt": {
+      post: {
+        summary: "Create a funded PSBT",
+        tags: ["psbt"],
+        responses: {
+          "200": {
+            description: "Result",
+            content: {
+              "application/json": {
+                schema: {},
+              },
+            },
+          },
+          "400": {
+            $ref: "#/components/responses/Error",
+          },
+          "500": {
+            $ref: "#/components/responses/Error",
+          },
+        },
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  wallet: {
+                    type: "string",
+                  },
+                  outputs: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      additionalProperties: {
+                        type: "number",
+                      },
+                    },
+                    description: "[{ address: amountBtc }]",
+                  },
+                  options: {
+                    type: "object",
+                    properties: {
+                      rbf: {
+                        type: "boolean",
+                      },
+                      feeRate: {
+                        type: "number",
+                      },
+                      includeWatching: {
+                        type: "boolean",
+                      },
+                      locktime: {
+                        type: "integer",
+                      },
+                      relativeLocktime: {
+                        type: "object",
+                        properties: {
+                          blocks: {
+                            type: "integer",
+                          },
+                          seconds: {
+                            type: "integer",
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+                required: ["wallet", "outputs"],
+              },
+            },
+          },
+        },
+      },
+    },
+    "/psbt/decode": {
+      post: {
+        summary: "Decode a PSBT",
+        tags: ["psbt"],
+        responses: {
+          "200": {
+            description: "Result",
+            content: {
+              "application/json": {
+                schema: {},
+              },
+            },
+          },
+          "400": {
+            $ref: "#/components/responses/Error",
+          },
+          "500": {
+            $ref: "#/components/responses/Error",
+          },
+        },
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  psbt: {
+                    type: "string",
+                  },
+                },
+                required: ["psbt"],
+              },
+            },
+          },
+        },
+      },
+    },
+    "/psbt/sign": {
+      post: {
+        summary: "Sign a PSBT with a wallet or WIF private key",
+        tags: ["psbt"],
+        responses: {
+          "200": {
+            description: "Result",
+            content: {
+              "application/json": {
+                schema: {},
+              },
+            },
+          },
+          "400": {
+            $ref: "#/components/responses/Error",
+          },
+          "500": {
+            $ref: "#/components/responses/Error",
+          },
+        },
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  psbt: {
+                    type: "string",
+                  },
+                  wallet: {
+                    type: "string",
+                  },
+                  privateKey: {
+                    type: "string",
+                  },
+                },
+                required: ["psbt"],
+              },
+            },
+          },
+        },
+      },
+    },
+    "/psbt/finalize": {
+      post: {
+        summary: "Finalize a PSBT",
+        tags: ["psbt"],
+        responses: {
+          "200": {
+            description: "Result",
+            content: {
+              "application/json": {
+                schema: {},
+              },
+            },
+          },
+          "400": {
+            $ref: "#/components/responses/Error",
+          },
+          "500": {
+            $ref: "#/components/responses/Error",
+          },
+        },
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  psbt: {
+                    type: "string",
+                  },
+                },
+                required: ["psbt"],
+              },
+            },
+          },
+        },
+      },
+    },
+    "/psbt/broadcast": {
+      post: {
+        summary: "Finalize and broadcast a PSBT, or broadcast raw hex",
+        tags: ["psbt"],
+        responses: {
+          "200": {
+            description: "Result",
+            content: {
+              "application/json": {
+                schema: {},
+              },
+            },
+          },
+          "400": {
+            $ref: "#/components/responses/Error",
+          },
+          "500": {
+            $ref: "#/components/responses/Error",
+          },
+        },
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  psbt: {
+                    type: "string",
+                  },
+                  hex: {
+                    type: "string",
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/snapshots": {
+      get: {
+        summary: "List snapshots",
+        tags: ["snapshots"],
+        responses: {
+          "200": {
+            description: "Result",
+            content: {
+              "application/json": {
+                schema: {},
+              },
+            },
+          },
+          "400": {
+            $ref: "#/components/responses/Error",
+          },
+          "500": {
+            $ref: "#/components/responses/Error",
+          },
+        },
+      },
+      post: {
+        summary: "Create a snapshot",
+        tags: ["snapshots"],
+        responses: {
+          "200": {
+            description: "Result",
+            content: {
+              "application/json": {
+                schema: {},
+              },
+            },
+          },
+          "400": {
+            $ref: "#/components/responses/Error",
+          },
+          "500": {
+            $ref: "#/components/responses/Error",
+          },
+        },
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  name: {
+                    type: "string",
+                  },
+                  description: {
+                    type: "string",
+                  },
+                  tags: {
+                    type: "array",
+                    items: {
+                      type: "string",
+                    },
+                  },
+                  includeWallets: {
+                    type: "array",
+                    items: {
+                      type: "string",
+                    },
+                  },
+                },
+                required: ["name"],
+              },
+            },
+          },
+        },
+      },
+    },
+    "/snapshots/diff": {
+      get: {
+        summary: "Compare two snapshots",
+        tags: ["snapshots"],
+        responses: {
+          "200": {
+            description: "Result",
+            content: {
+              "application/json": {
+                schema: {},
+              },
+            },
+          },
+          "400": {
+            $ref: "#/components/responses/Error",
+          },
+          "500": {
+            $ref: "#/components/responses/Error",
+          },
+        },
+        parameters: [
+          {
+            name: "from",
+            in: "query",
+            required: true,
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "to",
+            in: "query",
+            required: true,
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+      },
+    },
+    "/snapshots/du": {
+      get: {
+        summary: "Snapshot disk usage",
+        tags: ["snapshots"],
+        responses: {
+          "200": {
+            description: "Result",
+            content: {
+              "application/json": {
+                schema: {},
+              },
+            },
+          },
+          "400": {
+            $ref: "#/components/responses/Error",
+          },
+          "500": {
+            $ref: "#/components/responses/Error",
+          },
+        },
+      },
+    },
+    "/snapshots/{id}/restore": {
+      post: {
+        summary: "Restore a snapshot",
+        tags: ["snapshots"],
+        responses: {
+          "200": {
+            description: "Result",
+            content: {
+              "application/json": {
+                schema: {},
+              },
+            },
+          },
+          "400": {
+            $ref: "#/components/responses/Error",
+          },
+          "500": {
+            $ref: "#/components/responses/Error",
+          },
+        },
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            schema: {
+              type: "string",
+            },
+            description: "Snapshot ID or name",
+          },
+        ],
+      },
+    },
+    "/snapshots/{id}": {
+      delete: {
+        summary: "Delete a snapshot",
+        tags: ["snapshots"],
+        responses: {
+          "200": {
+            description: "Result",
+            content: {
+              "application/json": {
+                schema: {},
+              },
+            },
+          },
+          "400": {
+            $ref: "#/components/responses/Error",
+          },
+          "500": {
+            $ref: "#/components/responses/Error",
+          },
+        },
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            schema: {
+              type: "string",
+            },
+            description: "Snapshot ID or name",
+          },
+        ],
+      },
+    },
+    "/scenarios": {
+      get: {
+        summary: "List built-in and custom scenarios",
+        tags: ["scenarios"],
+        responses: {
+          "200": {
+            description: "Result",
+            content: {
+              "application/json": {
+                schema: {},
+              },
+            },
+          },
+          "400": {
+            $ref: "#/components/responses/Error",
+          },
+          "500": {
+            $ref: "#/components/responses/Error",
+          },
+        },
+      },
+    },
+    "/scenarios/{id}/apply": {
+      post: {
+        summary: "Apply a scenario",
+        tags: ["scenarios"],
+        responses: {
+          "200": {
+            description: "Result",
+            content: {
+              "application/json": {
+                schema: {},
+              },
+            },
+          },
+          "400": {
+            $ref: "#/components/responses/Error",
+          },
+          "500": {
+            $ref: "#/components/responses/Error",
+          },
+        },
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            schema: {
+              type: "string",
+            },
+            description: "Scenario ID",
+          },
+        ],
+      },
+    },
+    "/environment/export": {
+      post: {
+        summary: "Export a .caravan-env archive",
+        tags: ["environment"],
+        responses: {
+          "200": {
+            description: "Result",
+            content: {
+              "application/json": {
+                schema: {},
+              },
+            },
+          },
+          "400": {
+            $ref: "#/components/responses/Error",
+          },
+          "500": {
+            $ref: "#/components/responses/Error",
+          },
+        },
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  name: {
+                    type: "string",
+                  },
+                  description: {
+                    type: "string",
+                  },
+                  includeBlockchainData: {
+                    type: "boolean",
+                  },
+                  generateReplayScript: {
+                    type: "boolean",
+                  },
+                  walletFilter: {
+                    type: "array",
+                    items: {
+                      type: "string",
+                    },
+                  },
+                  outputPath: {
+                    type: "string",
+                  },
+                },
+                required: ["name", "outputPath"],
+              },
+            },
+          },
+        },
+      },
+    },
+    "/environment/import": {
+      post: {
+        summary: "Import a .caravan-env archive",
+        tags: ["environment"],
+        responses: {
+          "200": {
+            description: "Result",
+            content: {
+              "application/json": {
+                schema: {},
+              },
+            },
+          },
+          "400": {
+            $ref: "#/components/responses/Error",
+          },
+          "500": {
+            $ref: "#/components/responses/Error",
+          },
+        },
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  archivePath: {
+                    type: "string",
+                  },
+                  method: {
+                    type: "string",
+                    enum: ["binary", "replay", "auto"],
+                  },
+                  skipVerification: {
+                    type: "boolean",
+                  },
+                  force: {
+                    type: "boolean",
+                  },
+                },
+                required: ["archivePath"],
+              },
+            },
+          },
+        },
+      },
+    },
+    "/environment/inspect": {
+      post: {
+        summary: "Inspect a .caravan-env archive",
+        tags: ["environment"],
+        responses: {
+          "200": {
+            description: "Result",
+            content: {
+              "application/json": {
+                schema: {},
+              },
+            },
+          },
+          "400": {
+            $ref: "#/components/responses/Error",
+          },
+          "500": {
+            $ref: "#/components/responses/Error",
+          },
+        },
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  archivePath: {
+                    type: "string",
+                  },
+                },
+                required: ["archivePath"],
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+} as const;
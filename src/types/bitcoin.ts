@@ -84,3 +84,114 @@ export interface FinalizedPSBT {
   psbt: string;
   complete: boolean;
 }
+
+/**
+ * A transaction output, as lockunspent and walletcreatefundedpsbt take it
+ */
+export interface Outpoint {
+  txid: string;
+  vout: number;
+}
+
+/**
+ * A wallet UTXO for coin control, locked or not
+ */
+export interface WalletCoin extends Outpoint {
+  address?: string;
+  label?: string;
+  amount: number;
+  confirmations: number;
+  /** Output type from the scriptPubKey, e.g. P2WSH, P2SH, P2TR */
+  scriptType: string;
+  locked: boolean;
+}
+
+/**
+ * Coin control for walletcreatefundedpsbt
+ */
+export interface CoinControlOptions {
+  /** Coins the PSBT must spend, in this order */
+  inputs?: Outpoint[];
+  /** Let the wallet add more coins when the chosen ones are not enough */
+  addInputs?: boolean;
+  /** Indexes of outputs that pay the fee instead of the change */
+  subtractFeeFromOutputs?: number[];
+}
+
+/**
+ * Signatures one signer exports from Caravan: a hex signature per input,
+ * null for inputs the signer did not sign
+ */
+export interface CaravanSignatureSet {
+  signatures: (string | null)[];
+  signingPubKey?: string;
+}
+
+/**
+ * A signature present in a PSBT
+ */
+export interface PSBTSignature {
+  input: number;
+  pubkey: string;
+}
+
+/**
+ * Outcome of merging signatures from Caravan into a PSBT
+ */
+export interface SignatureImportResult {
+  psbt: string;
+  source: "signatures" | "psbt";
+  added: PSBTSignature[];
+  skipped: { input: number; reason: string }[];
+}
+
+/**
+ * A stored Caravan wallet whose keys appear in a PSBT's bip32_derivs
+ */
+export interface PSBTWalletMatch {
+  wallet: string;
+  inputs: number[];
+  outputs: number[];
+  /** Keys matched by fingerprint and path, on its weakest input */
+  matchedKeys: number;
+  totalKeys: number;
+  /**
+   * high: every key matched; medium: at least the quorum matched;
+   * low: fewer keys than the quorum; ambiguous: other wallets explain some
+   * inputs just as well
+   */
+  confidence: "high" | "medium" | "low" | "ambiguous";
+  /** Wallets that could not be told apart from this one */
+  ambiguousWith?: string[];
+}
+
+/**
+ * Which stored Caravan wallets a PSBT spends from and pays to
+ */
+export interface PSBTWalletMatchReport {
+  /** Most inputs first */
+  matches: PSBTWalletMatch[];
+  /** Wallet name per input, undefined when no wallet matched */
+  inputWallets: (string | undefined)[];
+  /** Wallet name per output, undefined when no wallet matched */
+  outputWallets: (string | undefined)[];
+}
+
+/**
+ * Relative timelock (BIP68 / CSV), in blocks or seconds
+ */
+export interface RelativeLocktime {
+  blocks?: number;
+  seconds?: number;
+}
+
+/**
+ * Outcome of mining until a timelocked transaction is final
+ */
+export interface TimelockUnlockResult {
+  txid: string;
+  initialRejection?: string;
+  blocksMined: number;
+  final: boolean;
+  height?: number;
+}
@@ -31,6 +31,25 @@ export interface CaravanWalletConfig {
     walletName?: string;
   };
   ledgerPolicyHmacs?: string[];
+  /** Script-path settings for P2TR wallets */
+  taproot?: TaprootMultisigOptions;
+  /**
+   * Set to false on export when Caravan cannot load the config (e.g. P2TR),
+   * with the reason in caravanCompatibilityNote
+   */
+  caravanCompatible?: boolean;
+  caravanCompatibilityNote?: string;
+}
+
+/**
+ * Taproot multisig: tr(<internal key>, multi_a(M, ...)). The internal key is
+ * an unspendable NUMS point unless a key-path signer is chosen.
+ */
+export interface TaprootMultisigOptions {
+  /** Index into extendedPublicKeys whose key can also spend alone via key path */
+  keyPathSigner?: number;
+  /** Use sortedmulti_a (default) instead of multi_a in key order */
+  sorted?: boolean;
 }
 
 /**
@@ -58,6 +77,8 @@ export enum AddressType {
   P2SH = "P2SH",
   P2WSH = "P2WSH",
   P2SH_P2WSH = "P2SH-P2WSH",
+  /** Taproot script-path multisig; not supported by Caravan yet */
+  P2TR = "P2TR",
 }
 
 /**
@@ -69,3 +90,35 @@ export enum Network {
   REGTEST = "regtest",
   SIGNET = "signet",
 }
+
+/**
+ * Options for creating a Caravan multisig wallet without prompts
+ */
+export interface CreateMultisigOptions {
+  name: string;
+  addressType: AddressType;
+  requiredSigners: number;
+  totalSigners: number;
+  /** Existing signer wallets to pull xpubs from (created when missing) */
+  signerWallets?: string[];
+  /** Externally supplied keys; remaining slots are filled from signer wallets */
+  extendedPublicKeys?: ExtendedPublicKey[];
+  /** Amount in BTC to send to the first receive address */
+  fundAmount?: number;
+  /** Wallet that pays for funding (defaults to the first signer wallet) */
+  fundingWallet?: string;
+  /** Script-path settings when addressType is P2TR */
+  taproot?: TaprootMultisigOptions;
+}
+
+/**
+ * Result of a non-interactive multisig wallet creation
+ */
+export interface CreateMultisigResult {
+  config: CaravanWalletConfig;
+  configPath: string;
+  watcherWallet: string;
+  signerWallets: string[];
+  fundingTxid?: string;
+  fundingAddress?: string;
+}
@@ -1,3 +1,6 @@
+import { RelativeLocktime } from "./bitcoin";
+import { FeeMarketPreset, FeeMarketProfile } from "../core/feeMarket";
+
 /**
  * Configuration for Bitcoin RPC connection
  */
@@ -8,6 +11,26 @@ export interface BitcoinRpcConfig {
   user: string;
   pass: string;
   dataDir: string;
+  /** Chain the node runs; regtest when unset */
+  network?: BitcoinChain;
+  /** Block-signing key of a custom signet */
+  signet?: SignetConfig;
+}
+
+/**
+ * Chains Caravan-X can run a local node on
+ */
+export type BitcoinChain = "regtest" | "signet";
+
+/**
+ * A private signet: blocks are only valid when signed by the challenge
+ * key, so nobody but this profile can mine
+ */
+export interface SignetConfig {
+  /** Hex script passed to bitcoind as -signetchallenge */
+  challenge: string;
+  /** WIF key that signs blocks for the challenge */
+  privateKey: string;
 }
 
 /**
@@ -60,6 +83,8 @@ export interface TestScenario {
   blockHeight: number;
   wallets: ScenarioWallet[];
   transactions: ScenarioTransaction[];
+  /** Run the fee-market simulator after the transactions */
+  feeMarket?: FeeMarketPreset | FeeMarketProfile;
 }
 
 /**
@@ -92,9 +117,20 @@ export interface ScenarioTransaction {
   to: string;
   amount: number;
   confirmed: boolean;
+  /** Signal BIP125 replaceability */
   rbf?: boolean;
+  /** Spend the unconfirmed output of the previous transaction paying `from` */
   cpfp?: boolean;
+  /** Fee rate in sat/vB */
   feeRate?: number;
+  /** Replace the broadcast transaction via bumpfee at this fee rate (sat/vB) */
+  replaceWithFeeRate?: number;
+  /** Absolute nLockTime (block height below 500000000, otherwise unix time) */
+  locktime?: number;
+  /** Absolute lock this many blocks past the current tip */
+  lockBlocks?: number;
+  /** BIP68 relative lock on every input */
+  relativeLocktime?: RelativeLocktime;
 }
 
 /**
@@ -108,13 +144,34 @@ export interface BlockchainSnapshot {
   blockHeight: number;
   blockHash: string;
   wallets: string[];
+  /** Archive (.tar.gz) or, for "manifest" storage, the manifest JSON */
   filePath: string;
+  /** Defaults to "archive" for snapshots taken before the shared store */
+  storage?: "archive" | "manifest";
+  /** Wallet and mempool state recorded when the snapshot was taken */
+  statePath?: string;
   metadata?: {
     tags?: string[];
     scenario?: string;
   };
 }
 
+/**
+ * Unit of SharedConfig/EnhancedAppConfig snapshotInterval
+ */
+export type SnapshotIntervalUnit = "blocks" | "minutes";
+
+/**
+ * Which auto-snapshots survive pruning. A snapshot is kept if either
+ * rule keeps it.
+ */
+export interface SnapshotRetention {
+  /** Keep the newest K auto-snapshots */
+  keepLast?: number;
+  /** Keep the newest auto-snapshot of each of the last D days */
+  keepDaily?: number;
+}
+
 /**
  * Docker configuration
  */
@@ -135,6 +192,28 @@ export interface DockerConfig {
   autoStart: boolean;
 }
 
+/**
+ * Manual mode: a bitcoind process Caravan-X launches and supervises for
+ * one profile, with its own -datadir and ports
+ */
+export interface ManagedBitcoindConfig {
+  enabled: boolean;
+  /** bitcoind executable; defaults to "bitcoind" on PATH */
+  binary?: string;
+  rpcPort: number;
+  p2pPort: number;
+}
+
+/**
+ * A Bitcoin Core node in a Docker-mode regtest network
+ */
+export interface RegtestNodeConfig {
+  /** Unique name used to target the node from commands */
+  name: string;
+  /** Wallets created on this node when the network is started */
+  wallets?: string[];
+}
+
 /**
  * Shared configuration that can be versioned and shared
  */
@@ -151,11 +230,18 @@ export interface SharedConfig {
     p2pPort: number;
     rpcUser: string;
     rpcPassword: string;
+    /** Challenge key when network is a custom signet */
+    signet?: SignetConfig;
   };
 
   // Docker-specific settings
   docker?: DockerConfig;
 
+  // Nodes in the regtest network (Docker mode). The first entry is the
+  // profile's own container; every other entry runs in its own container
+  // peered with the rest over the Docker network.
+  nodes?: RegtestNodeConfig[];
+
   // Initial blockchain state
   initialState: {
     blockHeight: number;
@@ -184,6 +270,8 @@ export interface SharedConfig {
     enabled: boolean;
     autoSnapshot: boolean;
     snapshotInterval?: number;
+    intervalUnit?: SnapshotIntervalUnit;
+    retention?: SnapshotRetention;
   };
 
   // Test scenarios to include
@@ -204,6 +292,8 @@ export interface EnhancedAppConfig {
     user: string;
     pass: string;
     dataDir: string;
+    network?: BitcoinChain;
+    signet?: SignetConfig;
   };
   appDir: string;
   caravanDir: string;
@@ -216,11 +306,18 @@ export interface EnhancedAppConfig {
   // Docker configuration
   docker?: DockerConfig;
 
+  // Manual mode: bitcoind run by Caravan-X for this profile
+  managedBitcoind?: ManagedBitcoindConfig;
+
   // Snapshot configuration
   snapshots: {
     enabled: boolean;
     directory: string;
     autoSnapshot: boolean;
+    /** Take an auto-snapshot every this many blocks or minutes */
+    snapshotInterval?: number;
+    intervalUnit?: SnapshotIntervalUnit;
+    retention?: SnapshotRetention;
   };
 
   // Scenarios directory
@@ -229,6 +326,9 @@ export interface EnhancedAppConfig {
   // Active scenario (if any)
   activeScenario?: string;
 
+  // Node clock frozen with setmocktime (unix seconds), if any
+  mockTime?: number;
+
   // Logging configuration
   logging?: {
     level: "silent" | "normal" | "verbose" | "debug";
@@ -417,6 +517,20 @@ export const BUILT_IN_SCENARIOS: { [key: string]: TestScenario } = {
         amount: 5,
         confirmed: true,
       },
+      {
+        from: "alice",
+        to: "bob",
+        amount: 1,
+        confirmed: false,
+        lockBlocks: 10,
+      },
+      {
+        from: "bob",
+        to: "alice",
+        amount: 1,
+        confirmed: true,
+        relativeLocktime: { blocks: 3 },
+      },
     ],
   },
   "address-types": {
@@ -453,4 +567,34 @@ export const BUILT_IN_SCENARIOS: { [key: string]: TestScenario } = {
     ],
     transactions: [],
   },
+  "fee-market-calm": {
+    id: "fee-market-calm",
+    name: "Fee Market: Calm",
+    description:
+      "40 blocks of light background traffic so estimatesmartfee returns low estimates",
+    blockHeight: 101,
+    wallets: [],
+    transactions: [],
+    feeMarket: "calm",
+  },
+  "fee-market-congested": {
+    id: "fee-market-congested",
+    name: "Fee Market: Congested",
+    description:
+      "40 blocks with more demand than block space; low-fee transactions stay in the mempool",
+    blockHeight: 101,
+    wallets: [],
+    transactions: [],
+    feeMarket: "congested",
+  },
+  "fee-market-spike": {
+    id: "fee-market-spike",
+    name: "Fee Market: Spike",
+    description:
+      "A calm market interrupted by a burst of high-fee transactions",
+    blockHeight: 101,
+    wallets: [],
+    transactions: [],
+    feeMarket: "spike",
+  },
 };
@@ -45,6 +45,8 @@ export interface EnvironmentManifest {
     blockHeight: number;
     blockHash: string;
     chainWork?: string;
+    /** Per-wallet balance and UTXO count, checked after a replay import */
+    wallets?: Record<string, WalletStateSummary>;
   };
 
   /** What's included in the archive */
@@ -96,6 +98,15 @@ export interface EnvironmentManifest {
   };
 }
 
+/**
+ * Balance (including immature and unconfirmed funds) and spendable UTXO
+ * count of one wallet
+ */
+export interface WalletStateSummary {
+  balance: number;
+  utxoCount: number;
+}
+
 /**
  * Descriptor export for a single Bitcoin Core wallet.
  * Created using `listdescriptors true` for signer wallets
@@ -236,4 +247,9 @@ export interface EnvironmentImportResult {
   caravanWalletsImported: string[];
   warnings: string[];
   errors: string[];
+  /** Replay imports: differences from the manifest's blockchainState */
+  verification?: {
+    verified: boolean;
+    mismatches: string[];
+  };
 }
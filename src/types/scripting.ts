@@ -35,6 +35,12 @@ export enum ActionType {
   SIGN_TRANSACTION = "sign_transaction",
   BROADCAST_TRANSACTION = "broadcast_transaction",
   CREATE_MULTISIG = "create_multisig",
+  MINE_TO_UNLOCK = "mine_to_unlock",
+  REORG = "reorg",
+  FEE_MARKET = "fee_market",
+  BUILD_BLOCK = "build_block",
+  SET_TIME = "set_time",
+  ADVANCE_TIME = "advance_time",
   WAIT = "wait",
   ASSERT = "assert",
   CUSTOM = "custom",
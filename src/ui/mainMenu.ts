@@ -3,6 +3,7 @@ import chalk from "chalk";
 import { CaravanRegtestManager } from "../index";
 import figlet from "figlet";
 import * as fs from "fs-extra";
+import * as path from "path";
 import gradient from "gradient-string";
 import ora from "ora";
 import { log } from "../utils/logger";
@@ -12,8 +13,11 @@ import { DockerCommands } from "../commands/docker";
 import { SnapshotCommands } from "../commands/snapshot";
 import { ScenarioCommands } from "../commands/scenario";
 import { SettingsCommands } from "../commands/settings";
+import { TimeCommands } from "../commands/time";
+import { PSBTCommands } from "../commands/psbt";
 
 import { SetupMode } from "../types/config";
+import { WALLET_FILE_FORMATS, WalletFileFormat } from "../core/walletFormats";
 
 // Define a consistent color scheme
 const colors = {
@@ -172,6 +176,18 @@ export class MainMenu {
         name: colors.commandName("Finalize and broadcast PSBT"),
         value: "finalize-psbt",
       },
+      {
+        name: colors.commandName("Combine signed PSBTs"),
+        value: "combine-psbt",
+      },
+      {
+        name: colors.commandName("Import signatures from Caravan"),
+        value: "import-caravan-signatures",
+      },
+      {
+        name: colors.commandName("Repair PSBT for Caravan and signing devices"),
+        value: "fix-psbt",
+      },
       { name: colors.muted("Back to main menu"), value: "back" },
     ],
     scripts: [
@@ -570,6 +586,15 @@ export class MainMenu {
         case "finalize-psbt":
           await this.app.transactionCommands.finalizeAndBroadcastPSBT();
           break;
+        case "combine-psbt":
+          await this.app.transactionCommands.combinePSBTs();
+          break;
+        case "import-caravan-signatures":
+          await this.app.transactionCommands.importCaravanSignatures();
+          break;
+        case "fix-psbt":
+          await this.fixPSBTMenuAction();
+          break;
 
         // Blockchain Scripts
         case "list-templates":
@@ -659,6 +684,26 @@ export class MainMenu {
           name: colors.commandName("Generate blocks to an address"),
           value: "mine-to-address",
         },
+        {
+          name: colors.commandName("Show node time"),
+          value: "time-status",
+        },
+        {
+          name: colors.commandName("Set node time"),
+          value: "time-set",
+        },
+        {
+          name: colors.commandName("Advance node time"),
+          value: "time-advance",
+        },
+        {
+          name: colors.commandName(
+            this.app.timeService.getMockTime() === undefined
+              ? "Freeze node time"
+              : "Unfreeze node time (back to the real clock)",
+          ),
+          value: "time-toggle",
+        },
         { name: colors.muted("Back to main menu"), value: "back" },
       ],
     });
@@ -667,6 +712,11 @@ export class MainMenu {
       return;
     }
 
+    if (action.startsWith("time-")) {
+      await this.timeMenuAction(action);
+      return;
+    }
+
     if (action === "mine-to-wallet") {
       // List wallets to select from
       const walletsResult = await this.withSpinner(
@@ -749,6 +799,76 @@ export class MainMenu {
     }
   }
 
+  /**
+   * Node time actions from the mining menu
+   */
+  private async timeMenuAction(action: string): Promise<void> {
+    const timeCommands = new TimeCommands(this.app.timeService);
+
+    try {
+      if (action === "time-status") {
+        await timeCommands.showStatus();
+      } else if (action === "time-set") {
+        const time = await input({
+          message: "Freeze the clock at (unix seconds or ISO 8601 date):",
+          validate: (input) =>
+            /^\d+$/.test(input.trim()) || !isNaN(Date.parse(input))
+              ? true
+              : "Please enter a unix time or a date like 2024-04-20T00:00:00Z",
+        });
+        await timeCommands.setTime(time.trim());
+      } else if (action === "time-advance") {
+        const duration = await input({
+          message: "Advance by (seconds, or e.g. 10m, 2h, 1d):",
+          default: "10m",
+        });
+        const blocks = await number({
+          message: "Blocks to mine across the advance (0 for none):",
+          default: 0,
+          validate: (input) =>
+            input! >= 0 ? true : "Please enter zero or a positive number",
+        });
+        await timeCommands.advance(duration.trim(), { blocks: blocks! });
+      } else if (this.app.timeService.getMockTime() === undefined) {
+        await timeCommands.freeze();
+      } else {
+        await timeCommands.unfreeze();
+      }
+    } catch (error) {
+      await this.handleError(error, "mining menu");
+    }
+  }
+
+  private async fixPSBTMenuAction(): Promise<void> {
+    const file = await input({
+      message: "PSBT file to repair:",
+      validate: (input) =>
+        fs.existsSync(input.trim()) ? true : "File does not exist",
+    });
+
+    const wallets = await this.app.caravanService.listCaravanWallets();
+    const wallet = await select({
+      message: "Caravan wallet:",
+      choices: [
+        { name: "Detect from the PSBT", value: "" },
+        ...wallets.map((config) => ({ name: config.name, value: config.name })),
+      ],
+    });
+
+    const output = await input({
+      message: "Save the repaired PSBT to (leave empty for <name>-fixed.psbt):",
+      default: "",
+    });
+
+    await new PSBTCommands(
+      this.app.psbtRepairService,
+      this.app.transactionService,
+    ).fix(file.trim(), {
+      wallet: wallet || undefined,
+      output: output.trim() || undefined,
+    });
+  }
+
   /**
    * Export menu
    */
@@ -762,7 +882,9 @@ export class MainMenu {
         message: "Select export option:",
         choices: [
           {
-            name: colors.commandName("Export Caravan wallet configuration"),
+            name: colors.commandName(
+              "Export wallet configuration (Caravan, descriptor, BSMS, Sparrow, Specter, Coldcard)",
+            ),
             value: "export-caravan",
           },
           { name: colors.commandName("Export key data"), value: "export-keys" },
@@ -793,13 +915,24 @@ export class MainMenu {
         });
 
         const selectedWallet = wallets[walletIndex];
+        const format = await select({
+          message: "Select export format:",
+          choices: WALLET_FILE_FORMATS.map((f) => ({
+            name: f.name,
+            value: f,
+          })),
+        });
         const filename = await input({
           message: "Enter export file name:",
-          default: `${selectedWallet.name.replace(/\s+/g, "_")}_export.json`,
+          default: `${selectedWallet.name.replace(/\s+/g, "_")}_export.${format.extension}`,
         });
 
         await this.withSpinner(`Exporting wallet to ${filename}`, async () => {
-          await fs.writeJson(filename, selectedWallet, { spaces: 2 });
+          const content = await this.app.caravanService.formatWalletFile(
+            selectedWallet,
+            format.value,
+          );
+          await fs.writeFile(filename, content);
           return true;
         });
         console.log(colors.success(`\nCaravan wallet exported to ${filename}`));
@@ -822,7 +955,9 @@ export class MainMenu {
         message: "Select import option:",
         choices: [
           {
-            name: colors.commandName("Import Caravan wallet configuration"),
+            name: colors.commandName(
+              "Import wallet configuration (Caravan, descriptor, BSMS, Sparrow, Specter, Coldcard)",
+            ),
             value: "import-caravan",
           },
           { name: colors.commandName("Import key data"), value: "import-keys" },
@@ -836,23 +971,34 @@ export class MainMenu {
 
       if (action === "import-caravan") {
         const filename = await input({
-          message: "Enter path to Caravan wallet JSON file:",
+          message: "Enter path to wallet file:",
           validate: (input) =>
             fs.existsSync(input) ? true : "File does not exist",
         });
 
+        const format = await select<WalletFileFormat | undefined>({
+          message: "Select file format:",
+          choices: [
+            { name: "Detect automatically", value: undefined },
+            ...WALLET_FILE_FORMATS.map((f) => ({
+              name: f.name,
+              value: f.value,
+            })),
+          ],
+        });
+
         const config = await this.withSpinner(
           "Reading wallet configuration",
           async () => {
-            return await fs.readJson(filename);
+            const content = await fs.readFile(filename, "utf8");
+            return await this.app.caravanService.parseWalletFile(
+              content,
+              format,
+              { name: path.basename(filename).replace(/\.[^.]+$/, "") },
+            );
           },
         );
 
-        if (!config.name || !config.quorum || !config.extendedPublicKeys) {
-          console.log(colors.error("\nInvalid Caravan wallet configuration."));
-          return;
-        }
-
         console.log(
           colors.info(`\nImporting Caravan wallet "${config.name}"...`),
         );
@@ -919,6 +1065,12 @@ export class MainMenu {
           console.log(colors.warning("Import the wallet configuration first."));
           return;
         }
+
+        // Encrypted on write if the key store has a passphrase (no spinner,
+        // the store may prompt for it)
+        const keyFile =
+          await this.app.caravanService.saveCaravanPrivateKeyData(keyData);
+        console.log(colors.success(`\nKey data saved to ${keyFile}`));
       }
     } catch (error) {
       await this.handleError(error, "import menu");
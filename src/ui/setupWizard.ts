@@ -12,8 +12,11 @@ import {
   EnhancedAppConfig,
   DEFAULT_DOCKER_CONFIG,
   DockerConfig,
+  SignetConfig,
 } from "../types/config";
 import { DockerService } from "../core/docker";
+import { generateSignetChallenge } from "../core/signet";
+import { findAvailablePort } from "../utils/ports";
 import { colors } from "../utils/terminal";
 
 export class SetupWizard {
@@ -110,6 +113,8 @@ export class SetupWizard {
       default: "caravan_pass",
     });
 
+    const signet = await this.askForSignet();
+
     console.log(chalk.white("\n⚙️  Initial Setup Options:\n"));
 
     const walletName = await input({
@@ -155,11 +160,12 @@ export class SetupWizard {
       name: "Caravan-X Docker Setup",
       mode: SetupMode.DOCKER,
       bitcoin: {
-        network: "regtest",
+        network: signet ? "signet" : "regtest",
         rpcPort: rpcPort!,
         p2pPort: p2pPort!,
         rpcUser,
         rpcPassword,
+        ...(signet ? { signet } : {}),
       },
       docker: dockerConfig,
       initialState: {
@@ -188,6 +194,7 @@ export class SetupWizard {
         user: rpcUser,
         pass: rpcPassword,
         dataDir: placeholderBitcoinDataDir,
+        ...(signet ? { network: "signet" as const, signet } : {}),
       },
       appDir: this.appDir,
       caravanDir: path.join(this.appDir, "wallets"),
@@ -210,14 +217,23 @@ export class SetupWizard {
 
   /**
    * Setup Manual mode - called from index.ts
+   *
+   * With a managed bitcoind, Caravan-X launches the node itself with a
+   * profile-scoped datadir and free ports, so several Manual profiles can
+   * run side by side. requireManaged skips the external option when another
+   * profile already owns the external node.
    */
-  async setupManualMode(): Promise<EnhancedAppConfig> {
+  async setupManualMode(
+    options: { requireManaged?: boolean } = {},
+  ): Promise<EnhancedAppConfig> {
     console.log(
       boxen(
         chalk.white.bold("⚙️  Manual Mode Configuration\n\n") +
           chalk.gray("You'll need to:\n") +
           chalk.white("  • Have Bitcoin Core installed\n") +
-          chalk.white("  • Run bitcoind in regtest mode\n") +
+          chalk.white(
+            "  • Run bitcoind in regtest mode, or let Caravan-X run it\n",
+          ) +
           chalk.white("  • Configure RPC authentication"),
         {
           padding: 1,
@@ -228,6 +244,25 @@ export class SetupWizard {
       ),
     );
 
+    if (options.requireManaged) {
+      console.log(
+        colors.info(
+          "Another Manual profile already uses an external bitcoind, so Caravan-X will run one for this profile.",
+        ),
+      );
+    }
+
+    const managed =
+      options.requireManaged ||
+      (await confirm({
+        message: "Let Caravan-X run its own bitcoind for this profile?",
+        default: true,
+      }));
+
+    if (managed) {
+      return this.setupManagedBitcoind();
+    }
+
     console.log(chalk.white("\n📡 Bitcoin Core RPC Settings:\n"));
 
     const protocol = await select({
@@ -264,6 +299,115 @@ export class SetupWizard {
       default: path.join(process.env.HOME || "~", ".bitcoin"),
     });
 
+    return this.buildManualConfig({
+      protocol: protocol as string,
+      host,
+      port: port!,
+      p2pPort: 18444,
+      user,
+      pass,
+      dataDir,
+    });
+  }
+
+  /**
+   * Collect settings for a bitcoind Caravan-X launches itself. The datadir
+   * is set when the profile is created; the node starts after that.
+   */
+  private async setupManagedBitcoind(): Promise<EnhancedAppConfig> {
+    console.log(chalk.white("\n📡 Managed bitcoind Settings:\n"));
+
+    const binary = await input({
+      message: "Path to the bitcoind binary:",
+      default: "bitcoind",
+    });
+
+    const user = await input({
+      message: "RPC username:",
+      default: "user",
+    });
+
+    const pass = await input({
+      message: "RPC password:",
+      default: "pass",
+    });
+
+    const signet = await this.askForSignet();
+
+    // Skip ports held by other profiles' nodes or a system bitcoind
+    const rpcPort = await findAvailablePort(18443);
+    const p2pPort = await findAvailablePort(18444, [rpcPort]);
+    console.log(colors.info(`Using RPC port ${rpcPort}, P2P port ${p2pPort}`));
+
+    const config = await this.buildManualConfig({
+      protocol: "http",
+      host: "127.0.0.1",
+      port: rpcPort,
+      p2pPort,
+      user,
+      pass,
+      dataDir: path.join(this.appDir, "bitcoin-data"),
+    });
+    config.managedBitcoind = { enabled: true, binary, rpcPort, p2pPort };
+    if (signet) {
+      config.bitcoin.network = "signet";
+      config.bitcoin.signet = signet;
+      config.sharedConfig!.bitcoin.network = "signet";
+      config.sharedConfig!.bitcoin.signet = signet;
+    }
+
+    return config;
+  }
+
+  /**
+   * Ask whether the node runs regtest or a private custom signet, and
+   * generate the signet's block-signing key
+   */
+  private async askForSignet(): Promise<SignetConfig | undefined> {
+    const chain = await select({
+      message: "Chain:",
+      choices: [
+        {
+          name: "Regtest (blocks on demand, no signatures)",
+          value: "regtest",
+        },
+        {
+          name: "Custom signet (signed blocks with signet rules, still local)",
+          value: "signet",
+        },
+      ],
+      default: "regtest",
+    });
+
+    if (chain !== "signet") {
+      return undefined;
+    }
+
+    const signet = generateSignetChallenge();
+    console.log(
+      colors.info(
+        "Generated a signet challenge key. Only this profile can mine; addresses use the tb1 prefix.",
+      ),
+    );
+    console.log(
+      colors.muted(
+        "Blocks are ground with bitcoin-util when it is installed, otherwise in JavaScript (about 30 seconds per block).",
+      ),
+    );
+    return signet;
+  }
+
+  private async buildManualConfig(rpc: {
+    protocol: string;
+    host: string;
+    port: number;
+    p2pPort: number;
+    user: string;
+    pass: string;
+    dataDir: string;
+  }): Promise<EnhancedAppConfig> {
+    const { protocol, host, port, p2pPort, user, pass, dataDir } = rpc;
+
     // Create shared config
     const sharedConfig: SharedConfig = {
       version: "1.0.0",
@@ -272,8 +416,8 @@ export class SetupWizard {
       mode: SetupMode.MANUAL,
       bitcoin: {
         network: "regtest",
-        rpcPort: port!,
-        p2pPort: 18444,
+        rpcPort: port,
+        p2pPort,
         rpcUser: user,
         rpcPassword: pass,
       },
@@ -294,9 +438,9 @@ export class SetupWizard {
       mode: SetupMode.MANUAL,
       sharedConfig,
       bitcoin: {
-        protocol: protocol as string,
+        protocol,
         host,
-        port: port!,
+        port,
         user,
         pass,
         dataDir,
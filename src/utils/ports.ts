@@ -0,0 +1,47 @@
+import { execAsync } from "./exec";
+
+/**
+ * Check if a specific port is in use
+ */
+export async function isPortInUse(port: number): Promise<boolean> {
+  try {
+    const { stdout } = await execAsync(
+      `lsof -i :${port} 2>/dev/null || netstat -an 2>/dev/null | grep ${port} || true`,
+    );
+    return stdout.trim().length > 0;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Find an available port starting from a base port
+ * Tries up to 50 ports sequentially
+ * @param basePort The starting port number
+ * @param excludePorts Array of ports to skip (even if they are free)
+ */
+export async function findAvailablePort(
+  basePort: number,
+  excludePorts: number[] = [],
+): Promise<number> {
+  let port = basePort;
+  let attempts = 0;
+  const maxAttempts = 50;
+
+  while (attempts < maxAttempts) {
+    // Check if port is in use by OS OR if it's in our exclusion list
+    const inUseByOs = await isPortInUse(port);
+    const isExcluded = excludePorts.includes(port);
+
+    if (!inUseByOs && !isExcluded) {
+      return port;
+    }
+
+    port++;
+    attempts++;
+  }
+
+  throw new Error(
+    `Could not find available port near ${basePort} after ${maxAttempts} attempts`,
+  );
+}